@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import { extractJson, runAgent } from '@/lib/agent/agent-loop';
+import type { AgentTool } from '@/lib/agent/tools';
+import type { AgentEvent } from '@/lib/agent/types';
+import type { ResolvedModel } from '@/lib/llm/registry';
+import { createMockProvider } from '@/lib/llm/providers/mock';
+import type { LLMProvider } from '@/lib/llm/types';
+
+/** Provider that answers with the next scripted reply on every call */
+function scripted(replies: string[]): ResolvedModel[] {
+    const queue = [...replies];
+    const base = createMockProvider('script');
+    const provider: LLMProvider = {
+        ...base,
+        async *stream() {
+            yield queue.shift() ?? '{"final": "out of script"}';
+        },
+    };
+    return [{ provider, model: 'script-1', label: 'Script', settings: {} }];
+}
+
+const echoTool: AgentTool = {
+    name: 'echo',
+    description: 'Echoes its input.',
+    parameters: {
+        type: 'object',
+        properties: { text: { type: 'string', description: 'Text to echo' } },
+        required: ['text'],
+    },
+    permission: 'read',
+    async run(input) {
+        return `echo: ${input.text}`;
+    },
+};
+
+async function collect(events: AsyncIterable<AgentEvent>): Promise<AgentEvent[]> {
+    const all: AgentEvent[] = [];
+    for await (const event of events) all.push(event);
+    return all;
+}
+
+describe('Agent loop', () => {
+    const base = { task: 'Say hi', history: [], tools: [echoTool], context: { userId: null } };
+
+    it('should plan, call tools and finish with a summary', async () => {
+        const events = await collect(runAgent({
+            ...base,
+            chain: scripted([
+                '```json\n{"plan": ["Echo a greeting", "Summarize"]}\n```',
+                '{"thought": "greet", "tool": "echo", "input": {"text": "hi"}}',
+                '{"thought": "done", "final": "I said **hi**."}',
+            ]),
+        }));
+
+        expect(events.map((e) => (e.type === 'step' ? e.step.kind : e.type))).toEqual([
+            'plan', 'tool_call', 'tool_result', 'final',
+        ]);
+        expect(events[2]).toMatchObject({ step: { ok: true, output: 'echo: hi' } });
+        expect(events[3]).toEqual({ type: 'final', text: 'I said **hi**.' });
+    });
+
+    it('should report unknown tools as failed results and keep going', async () => {
+        const events = await collect(runAgent({
+            ...base,
+            chain: scripted([
+                '{"plan": ["x"]}',
+                '{"tool": "rm_rf", "input": {}}',
+                '{"final": "Recovered"}',
+            ]),
+        }));
+
+        expect(events[2]).toMatchObject({ step: { kind: 'tool_result', ok: false } });
+        expect(events[3]).toEqual({ type: 'final', text: 'Recovered' });
+    });
+
+    it('should treat a prose reply as the final answer', async () => {
+        const events = await collect(runAgent({ ...base, chain: scripted(['no json here', 'Just the answer.']) }));
+
+        expect(events[0]).toMatchObject({ step: { kind: 'plan', steps: ['Say hi'] } });
+        expect(events[1]).toEqual({ type: 'final', text: 'Just the answer.' });
+    });
+
+    it('should force a summary when out of steps', async () => {
+        const call = '{"tool": "echo", "input": {"text": "again"}}';
+        const events = await collect(runAgent({
+            ...base,
+            maxSteps: 2,
+            chain: scripted(['{"plan": ["loop"]}', call, call, 'Summary after two calls']),
+        }));
+
+        expect(events.filter((e) => e.type === 'step' && e.step.kind === 'tool_call')).toHaveLength(2);
+        expect(events[events.length - 1]).toEqual({ type: 'final', text: 'Summary after two calls' });
+    });
+
+    it('should extract JSON objects wrapped in prose', () => {
+        expect(extractJson('Sure! {"a": 1} hope that helps')).toEqual({ a: 1 });
+        expect(extractJson('[1, 2]')).toBeNull();
+        expect(extractJson('{broken')).toBeNull();
+    });
+});
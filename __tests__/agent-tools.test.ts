@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, readFile, rm, symlink } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { runAgent } from '@/lib/agent/agent-loop';
+import { listToolCalls, markThreadDeleted, recordToolCall } from '@/lib/agent/audit';
+import { defaultAgentTools, validateToolInput, type AgentContext, type AgentTool } from '@/lib/agent/tools';
+import type { AgentEvent } from '@/lib/agent/types';
+import type { AttachmentFile } from '@/lib/attachments/types';
+import { WorkspacePathError, openWorkspace, resolveWorkspacePath } from '@/lib/agent/workspace';
+import type { ResolvedModel } from '@/lib/llm/registry';
+import { createMockProvider } from '@/lib/llm/providers/mock';
+import type { GenerateRequest, LLMProvider } from '@/lib/llm/types';
+import { resetCollections } from '@/lib/storage/collection';
+
+const tools = defaultAgentTools();
+const file = (filePath: string, content: string): AttachmentFile => ({ path: filePath, content, bytes: content.length, language: 'text' });
+const tool = (name: string) => tools.find((candidate) => candidate.name === name) as AgentTool;
+
+/** Provider that answers with the next scripted reply and keeps every request */
+function scripted(replies: string[], requests: GenerateRequest[]): ResolvedModel[] {
+    const queue = [...replies];
+    const provider: LLMProvider = {
+        ...createMockProvider('script'),
+        async *stream(request) {
+            requests.push(request);
+            yield queue.shift() ?? '{"final": "out of script"}';
+        },
+    };
+    return [{ provider, model: 'script-1', label: 'Script', settings: {} }];
+}
+
+describe('Agent tools', () => {
+    let dir: string;
+    let workspace: string;
+    let context: AgentContext;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(os.tmpdir(), 'codinspect-'));
+        process.env.CODINSPECT_WORKSPACE_DIR = dir;
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+        workspace = await openWorkspace('thread-1', [
+            file('src/app.ts', 'export const answer = 42;\n// TODO: tidy up\n'),
+            file('README.md', '# Demo\n'),
+            file('../escape.txt', 'nope'),
+        ]);
+        context = { userId: 'owner', workspace, permissions: ['read', 'write', 'execute'] };
+    });
+
+    afterEach(async () => {
+        delete process.env.CODINSPECT_WORKSPACE_DIR;
+        delete process.env.CODINSPECT_STORE;
+        resetCollections();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should keep paths and symbolic links inside the workspace', async () => {
+        await symlink(os.tmpdir(), path.join(workspace, 'outside'));
+
+        await expect(resolveWorkspacePath(workspace, '../secrets')).rejects.toBeInstanceOf(WorkspacePathError);
+        await expect(resolveWorkspacePath(workspace, 'outside/new.txt')).rejects.toBeInstanceOf(WorkspacePathError);
+        await expect(tool('read_file').run({ path: '../escape.txt' }, context)).rejects.toThrow('outside the workspace');
+        expect(await resolveWorkspacePath(workspace, '/src/app.ts')).toBe(path.join(await resolveWorkspacePath(workspace, '.'), 'src/app.ts'));
+    });
+
+    it('should read, list, search and write workspace files', async () => {
+        expect(await tool('read_file').run({ path: 'src/app.ts', startLine: 2 }, context)).toBe('2: // TODO: tidy up\n3: ');
+        expect(await tool('list_dir').run({}, context)).toBe('README.md\nsrc/');
+        expect(await tool('grep').run({ pattern: 'todo' }, context)).toBe('src/app.ts:2: // TODO: tidy up');
+        expect(await tool('grep').run({ pattern: '(a+)+$' }, context)).toBe('No matches.');
+        await expect(tool('grep').run({ pattern: 'x'.repeat(201) }, context)).rejects.toThrow('limited to 200 characters');
+
+        expect(await tool('write_file').run({ path: 'notes/plan.md', content: 'step 1' }, context)).toBe('Wrote 6 bytes to notes/plan.md');
+        expect(await readFile(path.join(workspace, 'notes/plan.md'), 'utf8')).toBe('step 1');
+
+        // Files the agent changed survive the next turn's copy
+        await tool('write_file').run({ path: 'README.md', content: '# Changed\n' }, context);
+        await openWorkspace('thread-1', [file('README.md', '# Demo\n')]);
+        expect(await readFile(path.join(workspace, 'README.md'), 'utf8')).toBe('# Changed\n');
+    });
+
+    it('should run commands in the workspace and fail on a nonzero exit', async () => {
+        expect(await tool('run_command').run({ command: 'cat src/app.ts | wc -l' }, context)).toBe('2\n(exit 0)');
+        await expect(tool('run_command').run({ command: 'exit 4' }, context)).rejects.toThrow('(exit 4)');
+        expect(await tool('run_command').run({ command: `ls ../..; cat ${dir}/thread-1/README.md || echo blocked` }, context)).toContain('blocked');
+    }, 30_000);
+
+    it('should check inputs against the tool schema', () => {
+        expect(validateToolInput(tool('read_file'), { path: 'a.ts' })).toBeNull();
+        expect(validateToolInput(tool('read_file'), {})).toBe('read_file needs "path"');
+        expect(validateToolInput(tool('read_file'), { path: 'a.ts', startLine: 1.5 })).toBe('"startLine" must be an integer');
+        expect(validateToolInput(tool('grep'), { pattern: 'x', flags: 'g' })).toBe('grep has no input "flags"');
+    });
+
+    it('should offer declarations, refuse calls without permission and audit every call', async () => {
+        const requests: GenerateRequest[] = [];
+        const events: AgentEvent[] = [];
+        const audited: string[] = [];
+        for await (const event of runAgent({
+            chain: scripted([
+                '{"plan": ["Look", "Change"]}',
+                '{"tool": "read_file", "input": {"path": "README.md"}}',
+                '{"tool": "write_file", "input": {"path": "README.md", "content": "gone"}}',
+                '{"tool": "grep", "input": {}}',
+                '{"final": "Read it; writing was not allowed."}',
+            ], requests),
+            task: 'Tidy the README',
+            history: [],
+            tools,
+            context: { ...context, permissions: ['read'] },
+            audit: async (call, result) => {
+                await recordToolCall('owner', 'thread-1', call, result);
+                audited.push(call.tool);
+            },
+        })) events.push(event);
+
+        expect(requests[0].tools).toBeUndefined();
+        expect(requests[1].tools!.map((declaration) => declaration.name)).toEqual(tools.map((candidate) => candidate.name));
+
+        const results = events.flatMap((event) => event.type === 'step' && event.step.kind === 'tool_result' ? [event.step] : []);
+        expect(results[0]).toMatchObject({ ok: true, output: '1: # Demo\n2: ', durationMs: expect.any(Number) });
+        expect(results[1]).toMatchObject({ ok: false, denied: true, output: expect.stringContaining('needs the write permission') });
+        expect(results[2]).toMatchObject({ ok: false, output: 'grep needs "pattern"' });
+        expect(await readFile(path.join(workspace, 'README.md'), 'utf8')).toBe('# Demo\n');
+
+        expect(audited).toEqual(['read_file', 'write_file', 'grep']);
+        const records = await listToolCalls('owner', 'thread-1');
+        expect(records.map((record) => [record.tool, record.permission, record.denied])).toEqual([
+            ['read_file', 'read', false],
+            ['write_file', 'write', true],
+            ['grep', 'read', false],
+        ]);
+        expect(await listToolCalls('someone-else', 'thread-1')).toEqual([]);
+
+        // Deleting the thread keeps its audit log
+        expect(await markThreadDeleted('owner', 'thread-1')).toBe(3);
+        expect(await listToolCalls('owner', 'thread-1')).toEqual(records.map((record) => ({ ...record, threadDeletedAt: expect.any(String) })));
+    });
+});
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+import { deflateRawSync, gzipSync } from 'zlib';
+import { archiveKind, extractArchive, normalizeEntryPath } from '@/lib/attachments/archive';
+import { buildAttachmentContext, createAttachment, getAttachments } from '@/lib/attachments/attachment-service';
+import { resetCollections } from '@/lib/storage/collection';
+import type { Attachment } from '@/lib/attachments/types';
+
+function tarHeader(name: string, size: number, type = '0'): Buffer {
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100, 'utf8');
+    header.write('0000644\0', 100);
+    header.write(size.toString(8).padStart(11, '0') + '\0', 124);
+    header.write(type, 156);
+    header.write('ustar\0', 257);
+    return header;
+}
+
+function tar(files: Record<string, string>): Buffer {
+    const blocks: Buffer[] = [];
+    for (const [name, content] of Object.entries(files)) {
+        const data = Buffer.from(content);
+        blocks.push(tarHeader(name, data.length), data, Buffer.alloc((512 - (data.length % 512)) % 512));
+    }
+    return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+function zip(files: Record<string, string>): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const [name, content] of Object.entries(files)) {
+        const data = Buffer.from(content);
+        const compressed = deflateRawSync(data);
+        const nameBytes = Buffer.from(name);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(nameBytes.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(nameBytes.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, nameBytes, compressed);
+        centrals.push(central, nameBytes);
+        offset += 30 + nameBytes.length + compressed.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054b50, 0);
+    eocd.writeUInt16LE(Object.keys(files).length, 8);
+    eocd.writeUInt16LE(Object.keys(files).length, 10);
+    eocd.writeUInt32LE(directory.length, 12);
+    eocd.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, eocd]);
+}
+
+describe('Archive extraction', () => {
+    it('should detect archive kinds from the file name', () => {
+        expect(archiveKind('repo.zip')).toBe('zip');
+        expect(archiveKind('repo.tar')).toBe('tar');
+        expect(archiveKind('repo.tar.gz')).toBe('tar.gz');
+        expect(archiveKind('repo.tgz')).toBe('tar.gz');
+        expect(archiveKind('index.ts')).toBeNull();
+    });
+
+    it('should reject paths that escape the archive', () => {
+        expect(normalizeEntryPath('../etc/passwd')).toBeNull();
+        expect(normalizeEntryPath('src/../../secret')).toBeNull();
+        expect(normalizeEntryPath('/abs/file.ts')).toBe('abs/file.ts');
+        expect(normalizeEntryPath('./src//index.ts')).toBe('src/index.ts');
+    });
+
+    it('should read deflated zip entries', () => {
+        const entries = extractArchive('zip', zip({ 'src/a.ts': 'export const a = 1;', 'README.md': '# Hi' }));
+        expect(entries.map((e) => [e.path, e.data.toString()])).toEqual([
+            ['src/a.ts', 'export const a = 1;'],
+            ['README.md', '# Hi'],
+        ]);
+    });
+
+    it('should read gzipped tarballs and skip traversal entries', () => {
+        const archive = gzipSync(tar({ 'pkg/index.js': 'module.exports = 1;', '../evil.sh': 'rm -rf /' }));
+        const entries = extractArchive('tar.gz', archive);
+        expect(entries.map((e) => e.path)).toEqual(['pkg/index.js']);
+    });
+
+    it('should enforce the entry limit', () => {
+        const archive = tar({ 'a.ts': 'a', 'b.ts': 'b', 'c.ts': 'c' });
+        expect(() => extractArchive('tar', archive, { maxEntries: 2, maxTotalBytes: 1024 })).toThrow();
+    });
+});
+
+describe('Attachment service', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterAll(() => {
+        delete process.env.CODINSPECT_STORE;
+        resetCollections();
+    });
+
+    it('should drop binaries, lockfiles and vendored folders', async () => {
+        const archive = tar({
+            'app/main.py': 'print("hi")',
+            'node_modules/left-pad/index.js': 'module.exports = 1;',
+            'package-lock.json': '{}',
+            'logo.png': 'PNG',
+        });
+        const attachment = await createAttachment('user-a', 'app.tar', archive);
+
+        expect(attachment.files.map((f) => [f.path, f.language])).toEqual([['app/main.py', 'python']]);
+        expect(attachment.skipped.map((s) => s.reason).sort()).toEqual(['binary', 'vendored', 'vendored']);
+    });
+
+    it('should only return attachments the user owns', async () => {
+        const mine = await createAttachment('user-a', 'a.ts', Buffer.from('const a = 1;'));
+        const theirs = await createAttachment('user-b', 'b.ts', Buffer.from('const b = 2;'));
+
+        const found = await getAttachments('user-a', [theirs.id, mine.id, 'missing']);
+        expect(found.map((a) => a.id)).toEqual([mine.id]);
+    }, 60_000);
+
+    it('should pack source first and list what does not fit the budget', () => {
+        const attachment: Attachment = {
+            id: 'att-1',
+            userId: 'user-a',
+            name: 'repo.zip',
+            createdAt: new Date().toISOString(),
+            skipped: [],
+            files: [
+                { path: 'docs/guide.md', content: 'x'.repeat(400), bytes: 400, language: 'markdown' },
+                { path: 'src/index.ts', content: 'export {}', bytes: 9, language: 'typescript' },
+            ],
+        };
+
+        const context = buildAttachmentContext([attachment], 50);
+        expect(context.text).toContain('### src/index.ts');
+        expect(context.text).not.toContain('### docs/guide.md');
+        expect(context.text).toContain('left out to fit the context window: docs/guide.md');
+        expect(context.refs).toEqual([{ id: 'att-1', name: 'repo.zip', fileCount: 2, omitted: 1 }]);
+    });
+});
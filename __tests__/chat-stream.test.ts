@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ */
+import { encodeChatEvent, parseChatEvent, readChatStream, type ChatStreamEvent } from '@/lib/chat/stream';
+
+function responseFrom(parts: string[]): Response {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            parts.forEach((part) => controller.enqueue(encoder.encode(part)));
+            controller.close();
+        },
+    });
+    return new Response(body);
+}
+
+describe('Chat stream protocol', () => {
+    it('should round-trip every event type', () => {
+        const events: ChatStreamEvent[] = [
+            { type: 'start', model: 'gemini-2.5-flash' },
+            { type: 'delta', text: 'line one\n\nline two' },
+            { type: 'done' },
+            { type: 'error', error: 'Quota exceeded' },
+        ];
+        const decoder = new TextDecoder();
+
+        for (const event of events) {
+            const frame = decoder.decode(encodeChatEvent(event)).replace(/\n\n$/, '');
+            expect(parseChatEvent(frame)).toEqual(event);
+        }
+    });
+
+    it('should ignore comments and malformed frames', () => {
+        expect(parseChatEvent(': keep-alive')).toBeNull();
+        expect(parseChatEvent('data: {not json')).toBeNull();
+    });
+
+    it('should reassemble frames split across network chunks', async () => {
+        const decoder = new TextDecoder();
+        const wire = [
+            { type: 'start', model: 'm' },
+            { type: 'delta', text: 'Hello' },
+            { type: 'delta', text: ', world' },
+            { type: 'done' },
+        ].map((event) => decoder.decode(encodeChatEvent(event as ChatStreamEvent))).join('');
+
+        const parts = [wire.slice(0, 7), wire.slice(7, 40), wire.slice(40)];
+        const received: ChatStreamEvent[] = [];
+        await readChatStream(responseFrom(parts), (event) => received.push(event));
+
+        expect(received.map((event) => event.type)).toEqual(['start', 'delta', 'delta', 'done']);
+        expect(received.filter((e) => e.type === 'delta').map((e) => (e as { text: string }).text).join('')).toBe('Hello, world');
+    });
+});
@@ -0,0 +1,164 @@
+/**
+ * @jest-environment node
+ */
+import { handleChat } from '@/lib/chat/chat-handler';
+import { DEFAULT_CONTEXT_WINDOW, chainSummarizer, compactHistory, historyBudget, planContextBudget } from '@/lib/chat/context-window';
+import { GenerationAbortedError } from '@/lib/llm/errors';
+import { createMockProvider } from '@/lib/llm/providers/mock';
+import type { ResolvedModel } from '@/lib/llm/registry';
+import type { ChatTurn, LLMProvider } from '@/lib/llm/types';
+import { getPlan } from '@/lib/plans/plans';
+import { resetCollections } from '@/lib/storage/collection';
+import { appendMessages, createThread, getThread, saveContextSummary } from '@/lib/threads/thread-service';
+
+const provider = { id: 'mock' } as LLMProvider;
+
+function model(settings: ResolvedModel['settings']): ResolvedModel {
+    return { provider, model: 'm', label: 'm', settings };
+}
+
+/** Alternating user/model turns of roughly `tokens` tokens each */
+function conversation(count: number, tokens = 100): ChatTurn[] {
+    return Array.from({ length: count }, (_, i) => ({
+        role: i % 2 === 0 ? 'user' as const : 'model' as const,
+        content: `turn ${i} `.padEnd(tokens * 4, '.'),
+    }));
+}
+
+describe('Context budget', () => {
+    it('should plan for the smallest window in the chain', () => {
+        const budget = planContextBudget([
+            model({ contextWindow: 1_000_000, maxOutputTokens: 8192 }),
+            model({ contextWindow: 16_000, maxOutputTokens: 2048 }),
+        ], 'x'.repeat(400));
+
+        expect(budget).toMatchObject({ contextWindow: 16_000, output: 4000, system: 100 });
+        expect(budget.retrieval + budget.attachments).toBeLessThan(16_000 - 4000);
+        expect(historyBudget(budget, 'y'.repeat(4000))).toBe(16_000 - 4000 - 100 - 1000);
+    });
+
+    it('should fall back to the default window', () => {
+        expect(planContextBudget([model({})], '').contextWindow).toBe(DEFAULT_CONTEXT_WINDOW);
+    });
+});
+
+describe('History compaction', () => {
+    it('should leave history alone while it fits', async () => {
+        const summarize = jest.fn();
+        const turns = conversation(4);
+        const result = await compactHistory({ turns, budget: 1000, summarize });
+
+        expect(result).toEqual({ history: turns, summary: undefined, folded: 0 });
+        expect(summarize).not.toHaveBeenCalled();
+    });
+
+    it('should fold the oldest turns into a rolling summary', async () => {
+        const summarize = jest.fn(async (transcript: string) => `notes about ${transcript.split('\n\n').length} parts`);
+        const turns = conversation(60);
+        const result = await compactHistory({ turns, budget: 4000, summarize });
+
+        expect(result.folded).toBeGreaterThan(0);
+        expect(result.summary?.messageCount).toBe(result.folded);
+        expect(turns[result.folded].role).toBe('user');
+        expect(result.history[0].content).toContain('notes about');
+        expect(result.history.slice(2)).toEqual(turns.slice(result.folded));
+
+        // The next compaction starts from the previous summary
+        const later = await compactHistory({
+            turns: [...turns.slice(result.folded), ...conversation(40)],
+            summary: result.summary,
+            budget: 4000,
+            summarize,
+        });
+        expect(summarize.mock.calls[1][0]).toContain('Earlier summary:\nnotes about');
+        expect(later.summary?.messageCount).toBe(result.folded + later.folded);
+    });
+
+    it('should drop old turns when summarizing fails', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const turns = conversation(60);
+        const result = await compactHistory({
+            turns,
+            budget: 4000,
+            summarize: async () => { throw new Error('quota'); },
+        });
+        warn.mockRestore();
+
+        expect(result.summary).toBeUndefined();
+        expect(result.history).toEqual(turns.slice(result.folded));
+    });
+
+    it('should stop summarizing when the request is stopped', async () => {
+        const stop = new AbortController();
+        stop.abort();
+        const mock = createMockProvider('mock');
+        const chat = jest.spyOn(mock, 'chat');
+        const stream = jest.spyOn(mock, 'stream');
+
+        await expect(compactHistory({
+            turns: conversation(60),
+            budget: 4000,
+            summarize: chainSummarizer([{ provider: mock, model: 'mock-1', label: 'Mock', settings: {} }], stop.signal),
+        })).rejects.toBeInstanceOf(GenerationAbortedError);
+        expect(chat).not.toHaveBeenCalled();
+        expect(stream).not.toHaveBeenCalled();
+    });
+
+    it('should trust the native count over the estimate', async () => {
+        const turns = conversation(8);
+        const summarize = jest.fn(async () => 'short');
+
+        await compactHistory({ turns, budget: 1000, summarize, countTokens: async () => 800 });
+        expect(summarize).not.toHaveBeenCalled();
+
+        const result = await compactHistory({ turns, budget: 1000, summarize, countTokens: async () => 2400 });
+        expect(result.folded).toBeGreaterThan(0);
+    });
+});
+
+describe('Thread context summary', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterAll(() => {
+        delete process.env.CODINSPECT_STORE;
+        delete process.env.CODINSPECT_LLM_CONFIG;
+        resetCollections();
+    });
+
+    it('should persist the summary on the owner\'s thread only', async () => {
+        const thread = await createThread('user-a', 'Long chat');
+
+        expect(await saveContextSummary('user-b', thread.id, { text: 'x', messageCount: 2 })).toBeNull();
+        await saveContextSummary('user-a', thread.id, { text: 'Goals so far', messageCount: 12 });
+        expect((await getThread('user-a', thread.id))?.contextSummary).toMatchObject({ text: 'Goals so far', messageCount: 12 });
+    });
+
+    it('should line the summary up with stored messages when a reply was stopped before its first token', async () => {
+        process.env.CODINSPECT_LLM_CONFIG = JSON.stringify({
+            providers: [{ id: 'test', type: 'mock' }],
+            models: [{ provider: 'test', model: 'mock-1', contextWindow: 4000, maxOutputTokens: 1000 }],
+        });
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        const thread = await createThread('user-a', 'Long chat');
+        const turns = conversation(12, 300);
+        // The second turn is a reply stopped before any text arrived
+        turns[1] = { role: 'model', content: '' };
+        await appendMessages('user-a', thread.id, turns.map((turn, i) => ({ ...turn, stopped: i === 1 || undefined })));
+
+        const response = await handleChat({ message: 'And now?', threadId: thread.id }, { userId: 'user-a', orgId: null, orgRole: null }, getPlan('developer'));
+        const { summarizedCount } = await response.json();
+
+        const { messages, contextSummary } = (await getThread('user-a', thread.id))!;
+        expect(summarizedCount).toBeGreaterThan(2);
+        expect(contextSummary).toMatchObject({ messageCount: summarizedCount, lastMessageId: messages[summarizedCount - 1].id });
+        // The summary ends on a reply and covers every turn before the first one kept
+        expect(messages[summarizedCount - 1].role).toBe('model');
+        expect(messages[summarizedCount].role).toBe('user');
+        expect(contextSummary!.text).toContain(`turn ${summarizedCount - 1} `);
+        expect(contextSummary!.text).not.toContain(`turn ${summarizedCount} `);
+        jest.restoreAllMocks();
+    });
+});
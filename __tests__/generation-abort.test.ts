@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+import { runAgent } from '@/lib/agent/agent-loop';
+import { completeWithFallback, streamWithFallback } from '@/lib/chat/fallback';
+import { circuitKey, circuitOpenFor, resetCircuits } from '@/lib/llm/circuit-breaker';
+import { GenerationAbortedError } from '@/lib/llm/errors';
+import { createMockProvider } from '@/lib/llm/providers/mock';
+import type { ResolvedModel } from '@/lib/llm/registry';
+import type { LLMProvider } from '@/lib/llm/types';
+import { resetCollections } from '@/lib/storage/collection';
+import { appendMessages, createThread, getThread } from '@/lib/threads/thread-service';
+
+/** Provider that runs a hook before every call, then answers */
+function model(id: string, before: () => void = () => {}): ResolvedModel & { calls: () => number } {
+    let calls = 0;
+    const provider: LLMProvider = {
+        ...createMockProvider(id),
+        id,
+        async *stream(request) {
+            calls++;
+            before();
+            if (request.signal?.aborted) throw new Error('The operation was aborted');
+            yield `${id} one `;
+            yield `${id} two`;
+        },
+    };
+    return { provider, model: id, label: id, settings: {}, calls: () => calls };
+}
+
+describe('Stopping generations', () => {
+    beforeEach(() => {
+        resetCircuits();
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should not call any model once the request is stopped', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const first = model('a');
+
+        await expect(streamWithFallback([first], { message: 'hi', history: [], signal: controller.signal }))
+            .rejects.toBeInstanceOf(GenerationAbortedError);
+        expect(first.calls()).toBe(0);
+    });
+
+    it('should stop the fallback loop without blaming the model', async () => {
+        const controller = new AbortController();
+        const stopped = model('a', () => controller.abort());
+        const backup = model('b');
+
+        await expect(streamWithFallback([stopped, backup], { message: 'hi', history: [], signal: controller.signal }))
+            .rejects.toBeInstanceOf(GenerationAbortedError);
+        expect(stopped.calls()).toBe(1);
+        expect(backup.calls()).toBe(0);
+        expect(circuitOpenFor(circuitKey('a', 'a'))).toBe(0);
+    });
+
+    it('should stop a reply that is already streaming', async () => {
+        const controller = new AbortController();
+        const streaming = model('a');
+        const provider: LLMProvider = {
+            ...streaming.provider,
+            async *stream(request) {
+                yield 'partial ';
+                controller.abort();
+                yield* streaming.provider.stream(request);
+            },
+        };
+
+        await expect(completeWithFallback([{ ...streaming, provider }], { message: 'hi', history: [], signal: controller.signal }))
+            .rejects.toBeInstanceOf(GenerationAbortedError);
+    });
+
+    it('should end an Agent run at its next model call', async () => {
+        const controller = new AbortController();
+        const agent = runAgent({
+            chain: [model('a')],
+            task: 'Say hi',
+            history: [],
+            tools: [],
+            context: { userId: null },
+            signal: controller.signal,
+        });
+
+        const plan = await agent.next();
+        expect(plan.value).toMatchObject({ type: 'step', step: { kind: 'plan' } });
+
+        controller.abort();
+        await expect(agent.next()).rejects.toBeInstanceOf(GenerationAbortedError);
+    });
+});
+
+describe('Stopped replies', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterEach(() => {
+        delete process.env.CODINSPECT_STORE;
+        resetCollections();
+    });
+
+    it('should be stored with their partial text and marked as stopped', async () => {
+        const thread = await createThread('user-a', 'Explain closures');
+        await appendMessages('user-a', thread.id, [
+            { role: 'user', content: 'Explain closures' },
+            { role: 'model', content: 'A closure is', stopped: true },
+        ]);
+
+        const [question, reply] = (await getThread('user-a', thread.id))!.messages;
+        expect(question.stopped).toBeUndefined();
+        expect(reply).toMatchObject({ content: 'A closure is', stopped: true });
+    });
+});
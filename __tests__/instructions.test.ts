@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+import { completeWithFallback } from '@/lib/chat/fallback';
+import {
+    getInstructions,
+    resolveInstructions,
+    restoreInstructions,
+    saveInstructions,
+} from '@/lib/instructions/instruction-service';
+import { PLATFORM_INSTRUCTIONS, mergeInstructions, platformLayer } from '@/lib/instructions/merge';
+import type { GenerateRequest, LLMProvider } from '@/lib/llm/types';
+import { resetCollections } from '@/lib/storage/collection';
+
+describe('Instruction merging', () => {
+    it('should order layers the same way regardless of input order', () => {
+        const personal = { layer: 'personal' as const, version: 2, text: 'Be brief.' };
+        const project = { layer: 'project' as const, version: 5, text: 'We use pnpm and Vitest.', scopeName: 'Web' };
+
+        const a = mergeInstructions([personal, platformLayer(), project]);
+        const b = mergeInstructions([project, personal, platformLayer()]);
+
+        expect(a).toEqual(b);
+        expect(a.signature).toBe('platform@1+project@5+personal@2');
+        expect(a.text.startsWith(PLATFORM_INSTRUCTIONS)).toBe(true);
+        expect(a.text.indexOf('## Project conventions (Web)')).toBeLessThan(a.text.indexOf('## Personal preferences'));
+        expect(a.text).toContain('personal preferences over project conventions');
+    });
+
+    it('should drop empty layers', () => {
+        const merged = mergeInstructions([platformLayer(), { layer: 'organization', version: 3, text: '   ' }]);
+        expect(merged.text).toBe(PLATFORM_INSTRUCTIONS);
+        expect(merged.signature).toBe('platform@1');
+    });
+});
+
+describe('Instruction service', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterAll(() => {
+        delete process.env.CODINSPECT_STORE;
+        resetCollections();
+    });
+
+    it('should version every change and skip unchanged saves', async () => {
+        await saveInstructions('personal', 'user-a', 'Answer in British English.', 'user-a');
+        await saveInstructions('personal', 'user-a', '  Answer in British English.  ', 'user-a');
+        await saveInstructions('personal', 'user-a', 'Use tabs.', 'user-a');
+
+        const doc = await getInstructions('personal', 'user-a');
+        expect(doc?.versions.map((v) => [v.version, v.text])).toEqual([
+            [1, 'Answer in British English.'],
+            [2, 'Use tabs.'],
+        ]);
+
+        await restoreInstructions('personal', 'user-a', 1, 'user-a');
+        expect((await getInstructions('personal', 'user-a'))?.versions.at(-1)).toMatchObject({ version: 3, text: 'Answer in British English.' });
+        expect(await restoreInstructions('personal', 'user-a', 99, 'user-a')).toBeNull();
+    });
+
+    it('should resolve every layer that applies to a chat', async () => {
+        await saveInstructions('organization', 'org-1', 'Never log secrets.', 'admin');
+        await saveInstructions('project', 'p-1', 'We use pnpm.', 'user-a');
+        await saveInstructions('personal', 'user-a', 'Be brief.', 'user-a');
+        await saveInstructions('personal', 'user-b', 'Be verbose.', 'user-b');
+
+        const effective = await resolveInstructions({ userId: 'user-a', orgId: 'org-1', project: { id: 'p-1', name: 'Web' } });
+        expect(effective.signature).toBe('platform@1+organization@1+project@1+personal@1');
+        expect(effective.text).toContain('Never log secrets.');
+        expect(effective.text).not.toContain('Be verbose.');
+
+        const personalOnly = await resolveInstructions({ userId: 'user-a' });
+        expect(personalOnly.signature).toBe('platform@1+personal@1');
+    });
+});
+
+describe('System instruction delivery', () => {
+    function recordingProvider(systemInstruction: boolean, seen: GenerateRequest[]): LLMProvider {
+        return {
+            id: 'rec',
+            type: 'mock',
+            capabilities: { streaming: true, systemInstruction, tokenCounting: 'estimate', functionCalling: false },
+            async chat() { return 'ok'; },
+            async *stream(request) {
+                seen.push(request);
+                yield 'ok';
+            },
+            async countTokens() { return 0; },
+        };
+    }
+
+    it('should use the native field when the provider has one', async () => {
+        const seen: GenerateRequest[] = [];
+        const chain = [{ provider: recordingProvider(true, seen), model: 'm', label: 'm', settings: {} }];
+        await completeWithFallback(chain, { system: 'Be brief.', history: [], message: 'hi' });
+
+        expect(seen[0].system).toBe('Be brief.');
+        expect(seen[0].history).toEqual([]);
+    });
+
+    it('should fold the prompt into the history otherwise', async () => {
+        const seen: GenerateRequest[] = [];
+        const chain = [{ provider: recordingProvider(false, seen), model: 'm', label: 'm', settings: {} }];
+        await completeWithFallback(chain, { system: 'Be brief.', history: [], message: 'hi' });
+
+        expect(seen[0].system).toBeUndefined();
+        expect(seen[0].history[0]).toEqual({ role: 'user', content: 'Be brief.' });
+    });
+});
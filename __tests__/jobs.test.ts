@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+    JobLimitError,
+    MAX_ACTIVE_JOBS,
+    STALE_JOB_MS,
+    cancelJob,
+    claimNextJob,
+    createJob,
+    getJob,
+    getJobEvents,
+    listJobs,
+    saveJob,
+    sweepJobs,
+} from '@/lib/jobs/job-service';
+import { runJob, runNextJob } from '@/lib/jobs/worker';
+import { getCollection, resetCollections } from '@/lib/storage/collection';
+import { getThread } from '@/lib/threads/thread-service';
+import type { Job } from '@/lib/jobs/types';
+
+describe('Background jobs', () => {
+    const originalConfig = process.env.CODINSPECT_LLM_CONFIG;
+    let workspaces: string;
+
+    beforeEach(async () => {
+        workspaces = await mkdtemp(path.join(os.tmpdir(), 'codinspect-'));
+        process.env.CODINSPECT_WORKSPACE_DIR = workspaces;
+        process.env.CODINSPECT_STORE = 'memory';
+        process.env.CODINSPECT_LLM_CONFIG = JSON.stringify({
+            providers: [{ id: 'test', type: 'mock' }],
+            models: [{ provider: 'test', model: 'mock-1' }],
+        });
+        resetCollections();
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        delete process.env.CODINSPECT_WORKSPACE_DIR;
+        delete process.env.CODINSPECT_STORE;
+        if (originalConfig === undefined) delete process.env.CODINSPECT_LLM_CONFIG;
+        else process.env.CODINSPECT_LLM_CONFIG = originalConfig;
+        resetCollections();
+        jest.restoreAllMocks();
+        await rm(workspaces, { recursive: true, force: true });
+    });
+
+    it('should queue Agent mode requests and limit how many a user has open', async () => {
+        const job = await createJob('owner', null, { message: 'Refactor   the\nparser', mode: 'Ask' });
+        for (let i = 1; i < MAX_ACTIVE_JOBS; i++) await createJob('owner', null, { message: `Task ${i}` });
+
+        expect(job).toMatchObject({ state: 'queued', title: 'Refactor the parser', threadId: null, startedAt: null });
+        await expect(createJob('owner', null, { message: 'One more' })).rejects.toBeInstanceOf(JobLimitError);
+        await expect(createJob('someone-else', null, { message: 'Mine' })).resolves.toMatchObject({ state: 'queued' });
+
+        expect(await listJobs('owner')).toHaveLength(MAX_ACTIVE_JOBS);
+        expect(await getJob('someone-else', job.id)).toBeNull();
+        expect((await getCollection<Job>('jobs').get(job.id))!.request).toMatchObject({ mode: 'Agent', stream: true });
+    });
+
+    it('should run the oldest queued job and store its events, progress and reply', async () => {
+        const queued = await createJob('owner', null, { message: 'Summarize the repo' });
+
+        const finished = await runNextJob();
+
+        expect(finished).toMatchObject({ id: queued.id, state: 'succeeded', error: null, progress: { message: 'Finished' } });
+        expect(finished!.threadId).toEqual(expect.any(String));
+        expect(finished!.logs.map((entry) => entry.message)).toEqual(expect.arrayContaining(['Queued', 'Picked up by the worker', 'Started on mock-1', 'Finished']));
+
+        const events = await getJobEvents('owner', queued.id, 1);
+        expect(events!.events[0].seq).toBe(2);
+        expect(events!.events.map(({ event }) => event.type)).toContain('done');
+
+        const thread = await getThread('owner', finished!.threadId!);
+        expect(thread!.messages.map((message) => message.role)).toEqual(['user', 'model']);
+        expect(await runNextJob()).toBeNull();
+    });
+
+    it('should fail jobs the model cannot answer', async () => {
+        process.env.CODINSPECT_LLM_CONFIG = JSON.stringify({
+            providers: [{ id: 'test', type: 'mock', failingModels: ['broken-1'] }],
+            models: [{ provider: 'test', model: 'broken-1' }],
+        });
+        await createJob('owner', null, { message: 'This will not work' });
+
+        const failed = await runNextJob();
+
+        expect(failed!.state).toBe('failed');
+        expect(failed!.error).toBeTruthy();
+        expect(failed!.logs[failed!.logs.length - 1]).toMatchObject({ level: 'error', message: failed!.error });
+    });
+
+    it('should cancel queued jobs at once and running ones through the worker', async () => {
+        const queued = await createJob('owner', null, { message: 'Never mind' });
+        expect(await cancelJob('owner', queued.id)).toMatchObject({ state: 'cancelled' });
+        expect(await claimNextJob()).toBeNull();
+
+        const started = await createJob('owner', null, { message: 'Stop this' });
+        const claimed = await claimNextJob();
+        expect(await cancelJob('owner', started.id)).toMatchObject({ state: 'running', progress: { message: 'Cancelling' } });
+
+        const cancelled = await runJob(claimed!);
+        expect(cancelled).toMatchObject({ state: 'cancelled', error: null });
+        expect(await cancelJob('intruder', started.id)).toBeNull();
+    });
+
+    it('should fail jobs whose worker went away and delete old finished ones', async () => {
+        const lost = await createJob('owner', null, { message: 'Lost' });
+        const claimed = await claimNextJob();
+        await saveJob({ ...claimed!, heartbeatAt: new Date(Date.now() - STALE_JOB_MS - 1000).toISOString() });
+        const old = await createJob('owner', null, { message: 'Old' });
+        await cancelJob('owner', old.id);
+
+        const swept = await sweepJobs(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+        expect(swept).toEqual({ failed: 1, deleted: 1 });
+        expect(await getJob('owner', lost.id)).toMatchObject({ state: 'failed', error: 'The worker stopped while the job was running' });
+        expect(await getJob('owner', old.id)).toBeNull();
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+import { loadLLMConfig } from '@/lib/llm/config';
+import { createMockProvider } from '@/lib/llm/providers/mock';
+import { createOpenAICompatibleProvider } from '@/lib/llm/providers/openai-compatible';
+import { resolveModelChain } from '@/lib/llm/registry';
+import type { GenerateRequest } from '@/lib/llm/types';
+
+const request: GenerateRequest = {
+    model: 'mock-1',
+    message: 'Explain closures in JavaScript',
+    history: [{ role: 'user', content: 'hi' }, { role: 'model', content: 'hello' }],
+};
+
+async function collect(iterable: AsyncIterable<string>): Promise<string[]> {
+    const parts: string[] = [];
+    for await (const part of iterable) parts.push(part);
+    return parts;
+}
+
+function restoreEnv(name: string, value: string | undefined) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+}
+
+describe('LLM provider layer', () => {
+    const originalConfig = process.env.CODINSPECT_LLM_CONFIG;
+    const originalKey = process.env.GEMINI_API_KEY;
+
+    afterEach(() => {
+        restoreEnv('CODINSPECT_LLM_CONFIG', originalConfig);
+        restoreEnv('GEMINI_API_KEY', originalKey);
+        jest.restoreAllMocks();
+    });
+
+    describe('Mock provider', () => {
+        it('should return the same reply for the same request', async () => {
+            const provider = createMockProvider('mock');
+            await expect(provider.chat(request)).resolves.toBe(await provider.chat(request));
+        });
+
+        it('should stream deltas that re-join into the chat reply', async () => {
+            const provider = createMockProvider('mock', { replies: { [request.message]: 'A closure  captures\nscope.' } });
+            const parts = await collect(provider.stream(request));
+
+            expect(parts.length).toBeGreaterThan(1);
+            expect(parts.join('')).toBe(await provider.chat(request));
+        });
+
+        it('should fail on models configured to fail', async () => {
+            const provider = createMockProvider('mock', { failingModels: ['mock-1'] });
+            await expect(provider.chat(request)).rejects.toThrow('503');
+        });
+    });
+
+    describe('OpenAI-compatible provider', () => {
+        it('should parse streamed chat completion chunks', async () => {
+            const sse = [
+                'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+                'data: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n',
+            ];
+            const encoder = new TextEncoder();
+            const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(new ReadableStream({
+                start(controller) {
+                    sse.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+                    controller.close();
+                },
+            })));
+
+            const provider = createOpenAICompatibleProvider('local', 'http://localhost:11434/v1/');
+            await expect(collect(provider.stream({ ...request, system: 'Be brief' }))).resolves.toEqual(['Hel', 'lo']);
+
+            const [url, init] = fetchMock.mock.calls[0];
+            expect(url).toBe('http://localhost:11434/v1/chat/completions');
+            const body = JSON.parse(String(init?.body));
+            expect(body.messages[0]).toEqual({ role: 'system', content: 'Be brief' });
+            expect(body.messages[2].role).toBe('assistant');
+        });
+
+        it('should surface the HTTP status on failure', async () => {
+            jest.spyOn(global, 'fetch').mockResolvedValue(new Response('no such model', { status: 404, statusText: 'Not Found' }));
+            const provider = createOpenAICompatibleProvider('local', 'http://localhost:8080/v1');
+            await expect(provider.chat(request)).rejects.toThrow('404');
+        });
+    });
+
+    describe('Configuration', () => {
+        it('should fall back to the Gemini chain when unconfigured', () => {
+            delete process.env.CODINSPECT_LLM_CONFIG;
+            delete process.env.GEMINI_API_KEY;
+
+            expect(loadLLMConfig().tiers?.Fast?.[0]).toMatchObject({ provider: 'gemini', model: 'gemini-2.5-flash' });
+            expect(resolveModelChain()).toEqual([]);
+        });
+
+        it('should build the chain from inline JSON config', () => {
+            process.env.CODINSPECT_LLM_CONFIG = JSON.stringify({
+                providers: [
+                    { id: 'local', type: 'openai-compatible', baseUrl: 'http://localhost:11434/v1' },
+                    { id: 'test', type: 'mock' },
+                ],
+                models: [
+                    { provider: 'local', model: 'qwen2.5-coder' },
+                    { provider: 'test', model: 'mock-1' },
+                ],
+            });
+
+            const chain = resolveModelChain();
+            expect(chain.map(({ provider, model }) => `${provider.type}:${model}`)).toEqual([
+                'openai-compatible:qwen2.5-coder',
+                'mock:mock-1',
+            ]);
+        });
+
+        it('should reject models that reference unknown providers', () => {
+            process.env.CODINSPECT_LLM_CONFIG = JSON.stringify({
+                providers: [],
+                models: [{ provider: 'missing', model: 'x' }],
+            });
+            expect(() => loadLLMConfig()).toThrow('unknown provider');
+        });
+    });
+});
@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+import { backoffDelay, streamWithFallback } from '@/lib/chat/fallback';
+import { circuitKey, circuitOpenFor, resetCircuits } from '@/lib/llm/circuit-breaker';
+import { ModelError, ModelQuotaError, classifyModelError, describeModelError, parseRetryAfter } from '@/lib/llm/errors';
+import { createMockProvider } from '@/lib/llm/providers/mock';
+import { createOpenAICompatibleProvider } from '@/lib/llm/providers/openai-compatible';
+import type { ResolvedModel } from '@/lib/llm/registry';
+import type { LLMProvider } from '@/lib/llm/types';
+
+/** Provider that fails with the given errors in turn, then answers */
+function flaky(id: string, failures: unknown[]): ResolvedModel & { calls: () => number } {
+    let calls = 0;
+    const provider: LLMProvider = {
+        ...createMockProvider(id),
+        id,
+        async *stream() {
+            const failure = failures[calls++];
+            if (failure) throw failure;
+            yield `${id} ok`;
+        },
+    };
+    return { provider, model: id, label: id, settings: {}, calls: () => calls };
+}
+
+describe('Model error classification', () => {
+    it('should map provider failures to typed errors', () => {
+        const gemini = Object.assign(new Error('[GoogleGenerativeAI Error]: quota'), {
+            status: 429,
+            errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '17s' }],
+        });
+
+        expect(classifyModelError(gemini)).toMatchObject({ kind: 'quota', status: 429, retryAfterSeconds: 17 });
+        expect(classifyModelError(new Error('[400 Bad Request] API_KEY_INVALID')).kind).toBe('auth');
+        expect(classifyModelError(new Error('[404 Not Found] no such model')).kind).toBe('not_found');
+        expect(classifyModelError(new Error('Response was blocked due to SAFETY'))).toMatchObject({ kind: 'safety', status: 422 });
+        expect(classifyModelError(new Error('fetch failed'))).toMatchObject({ kind: 'transient', retryable: true, retryAfterSeconds: 5 });
+        expect(classifyModelError(new Error('something odd'))).toMatchObject({ kind: 'unknown', status: 502 });
+    });
+
+    it('should read Retry-After from OpenAI-compatible servers', async () => {
+        jest.spyOn(global, 'fetch').mockResolvedValue(new Response('slow down', {
+            status: 429,
+            statusText: 'Too Many Requests',
+            headers: { 'Retry-After': '12' },
+        }));
+        const provider = createOpenAICompatibleProvider('local', 'http://localhost:8080/v1');
+
+        const error = await provider.chat({ model: 'm', message: 'hi', history: [] }).catch((err) => err);
+        expect(error).toBeInstanceOf(ModelQuotaError);
+        expect(error.retryAfterSeconds).toBe(12);
+        jest.restoreAllMocks();
+    });
+
+    it('should parse Retry-After durations and dates', () => {
+        expect(parseRetryAfter('1.5s')).toBe(1500);
+        expect(parseRetryAfter('30')).toBe(30000);
+        expect(parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())).toBeGreaterThan(50_000);
+        expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+
+    it('should give every kind its own actionable message', () => {
+        const kinds = ['auth', 'quota', 'not_found', 'safety', 'timeout', 'transient', 'unknown'] as const;
+        const messages = kinds.map((kind) => describeModelError(kind));
+
+        expect(new Set(messages).size).toBe(kinds.length);
+        expect(describeModelError('quota', 20)).toContain('in 20 seconds');
+    });
+});
+
+describe('Retries and circuit breaking', () => {
+    beforeEach(() => {
+        resetCircuits();
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should back off exponentially and honour short Retry-After values', () => {
+        expect(backoffDelay(0)).toBeLessThanOrEqual(250);
+        expect(backoffDelay(3)).toBeGreaterThanOrEqual(1000);
+        expect(backoffDelay(0, 1200)).toBe(1200);
+        expect(backoffDelay(0, 60_000)).toBeNull();
+    });
+
+    it('should retry transient failures on the same model', async () => {
+        const model = flaky('a', [new Error('[503 Service Unavailable] overloaded')]);
+        const started = await streamWithFallback([model], { message: 'hi', history: [] });
+
+        expect(started?.firstText).toBe('a ok');
+        expect(model.calls()).toBe(2);
+    });
+
+    it('should not retry quota errors but fall back to the next model', async () => {
+        const limited = flaky('a', [new Error('[429 Too Many Requests] quota')]);
+        const backup = flaky('b', []);
+        const started = await streamWithFallback([limited, backup], { message: 'hi', history: [] });
+
+        expect(started?.model).toBe('b');
+        expect(limited.calls()).toBe(1);
+    });
+
+    it('should stop the chain when a prompt is blocked', async () => {
+        const blocked = flaky('a', [new Error('Candidate was blocked due to SAFETY')]);
+        const backup = flaky('b', []);
+
+        await expect(streamWithFallback([blocked, backup], { message: 'hi', history: [] })).rejects.toMatchObject({ kind: 'safety' });
+        expect(backup.calls()).toBe(0);
+    });
+
+    it('should skip a model whose circuit is open', async () => {
+        const notFound = () => new Error('[404 Not Found] gone');
+        const broken = flaky('a', [notFound(), notFound(), notFound(), notFound()]);
+        const backup = flaky('b', []);
+
+        for (let i = 0; i < 3; i++) {
+            await streamWithFallback([broken, backup], { message: 'hi', history: [] });
+        }
+        expect(circuitOpenFor(circuitKey('a', 'a'))).toBeGreaterThan(0);
+
+        await streamWithFallback([broken, backup], { message: 'hi', history: [] });
+        expect(broken.calls()).toBe(3);
+
+        const error = await streamWithFallback([broken], { message: 'hi', history: [] }).catch((err) => err);
+        expect(error).toBeInstanceOf(ModelError);
+        expect(error).toMatchObject({ kind: 'transient', status: 503 });
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import { completeWithFallback, streamWithFallback } from '@/lib/chat/fallback';
+import { listAvailableModels, resolveModelChain, type ResolvedModel } from '@/lib/llm/registry';
+import { createMockProvider } from '@/lib/llm/providers/mock';
+import type { GenerateRequest, LLMConfig, LLMProvider } from '@/lib/llm/types';
+
+const config: LLMConfig = {
+    providers: [
+        { id: 'local', type: 'mock' },
+        { id: 'cloud', type: 'gemini', apiKeyEnv: 'CODINSPECT_TEST_MISSING_KEY' },
+    ],
+    tiers: {
+        Fast: [{ provider: 'local', model: 'small', timeoutMs: 500 }],
+        Pro: [
+            { provider: 'cloud', model: 'big', label: 'Big' },
+            { provider: 'local', model: 'medium', label: 'Medium', maxOutputTokens: 4096, temperature: 0.1 },
+        ],
+    },
+    defaultTier: 'Pro',
+};
+
+/** Provider that never yields, to exercise first-token timeouts */
+function hangingModel(timeoutMs: number): ResolvedModel {
+    const provider: LLMProvider = {
+        ...createMockProvider('hang'),
+        async *stream(request: GenerateRequest) {
+            await new Promise((_, reject) => request.signal?.addEventListener('abort', () => reject(new Error('aborted'))));
+        },
+    };
+    return { provider, model: 'hang', label: 'Hang', settings: { timeoutMs } };
+}
+
+describe('Model routing policy', () => {
+    it('should resolve each tier to its own chain, skipping unavailable providers', () => {
+        expect(resolveModelChain('Fast', config).map((m) => m.model)).toEqual(['small']);
+        expect(resolveModelChain('Pro', config).map((m) => m.model)).toEqual(['medium']);
+        expect(resolveModelChain(undefined, config).map((m) => m.model)).toEqual(['medium']);
+    });
+
+    it('should carry per-model settings into the resolved chain', () => {
+        const [medium] = resolveModelChain('Pro', config);
+        expect(medium.settings).toEqual({ timeoutMs: undefined, maxOutputTokens: 4096, temperature: 0.1 });
+        expect(medium.label).toBe('Medium');
+    });
+
+    it('should list only the models that are actually available', () => {
+        expect(listAvailableModels(config)).toEqual({
+            defaultTier: 'Pro',
+            tiers: [
+                { tier: 'Fast', models: [{ provider: 'local', model: 'small', label: 'small' }] },
+                { tier: 'Pro', models: [{ provider: 'local', model: 'medium', label: 'Medium' }] },
+            ],
+        });
+    });
+
+    it('should fall back when a model misses its first-token timeout', async () => {
+        const chain = [hangingModel(20), ...resolveModelChain('Fast', config)];
+        const result = await completeWithFallback(chain, { message: 'ping', history: [] });
+
+        expect(result).toEqual({ model: 'small', text: '[small] ping' });
+    });
+
+    it('should pass max output tokens and temperature to the provider', async () => {
+        const [medium] = resolveModelChain('Pro', config);
+        const spy = jest.spyOn(medium.provider, 'stream');
+
+        await streamWithFallback([medium], { message: 'hi', history: [] });
+        expect(spy.mock.calls[0][0]).toMatchObject({ model: 'medium', maxOutputTokens: 4096, temperature: 0.1 });
+    });
+
+    it('should throw the last error when every model times out', async () => {
+        await expect(streamWithFallback([hangingModel(10)], { message: 'x', history: [] })).rejects.toThrow('No response within 10ms');
+    });
+});
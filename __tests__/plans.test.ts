@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+import { getPlan, planFeatureList, planPrice } from '@/lib/plans/plans';
+import {
+    EntitlementError,
+    getUsage,
+    getUserPlan,
+    requireFeature,
+    requireTier,
+    requireUploadSize,
+    reserveAgentSession,
+    setUserPlan,
+} from '@/lib/plans/entitlement-service';
+import { resetCollections } from '@/lib/storage/collection';
+
+describe('Plan catalogue', () => {
+    it('should discount yearly billing', () => {
+        expect(planPrice(getPlan('professional'), 'monthly')).toBe(29);
+        expect(planPrice(getPlan('professional'), 'yearly')).toBe(25);
+        expect(planPrice(getPlan('developer'), 'yearly')).toBe(0);
+    });
+
+    it('should list the enforced limits before the highlights', () => {
+        expect(planFeatureList(getPlan('developer')).slice(0, 3)).toEqual([
+            '5 Background sessions/mo',
+            'Fast models',
+            'Uploads up to 5MB',
+        ]);
+        expect(planFeatureList(getPlan('professional'))).toContain('Repository indexing');
+    });
+
+    it('should fall back to the default plan for unknown ids', () => {
+        expect(getPlan('platinum').id).toBe('developer');
+    });
+});
+
+describe('Entitlements', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterEach(() => {
+        delete process.env.CODINSPECT_STORE;
+        delete process.env.CODINSPECT_DEFAULT_PLAN;
+        resetCollections();
+    });
+
+    it('should resolve subscriptions, then the configured default, then Developer', async () => {
+        expect((await getUserPlan('user_1')).id).toBe('developer');
+
+        process.env.CODINSPECT_DEFAULT_PLAN = 'enterprise';
+        expect((await getUserPlan('user_1')).id).toBe('enterprise');
+
+        await setUserPlan('user_1', 'professional', 'yearly');
+        expect((await getUserPlan('user_1')).id).toBe('professional');
+    });
+
+    it('should point restricted requests at the cheapest plan that allows them', () => {
+        const developer = getPlan('developer');
+
+        const error = (() => {
+            try {
+                requireTier(developer, 'Pro');
+            } catch (err) {
+                return err;
+            }
+        })();
+        expect(error).toBeInstanceOf(EntitlementError);
+        expect(error).toMatchObject({ code: 'upgrade_required', status: 403, upgradeTo: 'professional' });
+
+        expect(() => requireFeature(developer, 'repository_indexing')).toThrow(/Upgrade to Professional/);
+        expect(() => requireFeature(getPlan('professional'), 'repository_indexing')).not.toThrow();
+        expect(() => requireFeature(developer, 'agent_commands')).toThrow(/Running commands in Agent mode is not included/);
+        expect(() => requireFeature(getPlan('professional'), 'agent_commands')).not.toThrow();
+        expect(() => requireUploadSize(developer, 50 * 1024 * 1024)).toThrow(/Upgrade to Enterprise/);
+        expect(() => requireUploadSize(developer, 1024)).not.toThrow();
+    });
+
+    it('should meter Agent sessions against the monthly quota', async () => {
+        const developer = getPlan('developer');
+        for (let i = 0; i < 5; i++) await (await reserveAgentSession('user_1', developer)).commit(`thread-${i}`);
+
+        await expect(reserveAgentSession('user_1', developer)).rejects.toMatchObject({
+            code: 'quota_exceeded',
+            status: 402,
+            upgradeTo: 'professional',
+        });
+        expect((await getUsage('user_1')).agentSessions).toBe(5);
+
+        // Continuing a session charged this month needs no quota
+        await (await reserveAgentSession('user_1', developer, 'thread-0')).commit('thread-0');
+        expect((await getUsage('user_1')).agentSessions).toBe(5);
+
+        await (await reserveAgentSession('user_1', getPlan('professional'))).commit('thread-5');
+        expect((await getUsage('user_1')).agentSessions).toBe(6);
+    });
+
+    it('should only charge runs that succeed and hold slots for runs in progress', async () => {
+        const developer = getPlan('developer');
+        (await reserveAgentSession('user_1', developer)).release();
+        expect((await getUsage('user_1')).agentSessions).toBe(0);
+
+        const attempts = await Promise.allSettled(Array.from({ length: 7 }, () => reserveAgentSession('user_1', developer)));
+        const held = attempts.flatMap((attempt) => attempt.status === 'fulfilled' ? [attempt.value] : []);
+        expect(held).toHaveLength(5);
+        expect(attempts.filter((attempt) => attempt.status === 'rejected')).toHaveLength(2);
+
+        // Two runs in the same new thread are one session; a stopped run frees its slot
+        await held[0].commit('thread-a');
+        await held[1].commit('thread-a');
+        held[2].release();
+        held[2].release();
+        expect(await getUsage('user_1')).toMatchObject({ agentSessions: 1, agentSessionIds: ['thread-a'] });
+        held.slice(3).forEach((reservation) => reservation.release());
+        const next = await reserveAgentSession('user_1', developer);
+        next.release();
+    });
+});
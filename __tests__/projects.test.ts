@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+import {
+    createProject,
+    deleteProject,
+    getActiveProject,
+    listProjects,
+    setActiveProject,
+    updateProject,
+} from '@/lib/projects/project-service';
+import { resetCollections } from '@/lib/storage/collection';
+import { createThread, getThread, listThreads } from '@/lib/threads/thread-service';
+
+describe('Project service', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterAll(() => {
+        delete process.env.CODINSPECT_STORE;
+        resetCollections();
+    });
+
+    it('should create projects with defaults and scope them to their owner', async () => {
+        const project = await createProject('user-a', { name: '  Billing   API ' });
+
+        expect(project).toMatchObject({ name: 'Billing API', defaultMode: 'Ask', defaultTier: 'Fast' });
+        expect(project.indexId).toBeUndefined();
+        expect(await listProjects('user-a')).toHaveLength(1);
+        expect(await listProjects('user-b')).toEqual([]);
+        expect(await updateProject('user-b', project.id, { name: 'Hijacked' })).toBeNull();
+    });
+
+    it('should reject invalid fields', async () => {
+        await expect(createProject('user-a', {})).rejects.toThrow('name is required');
+        await expect(createProject('user-a', { name: 'x', defaultTier: 'Ultra' as never })).rejects.toThrow('Unknown model tier');
+        await expect(createProject('user-a', { name: 'x', indexId: 'missing' })).rejects.toThrow('Index not found');
+
+        const project = await createProject('user-a', { name: 'x' });
+        await expect(updateProject('user-a', project.id, { defaultMode: 'Chat' as never })).rejects.toThrow('Unknown mode');
+    });
+
+    it('should switch the active project per user', async () => {
+        const project = await createProject('user-a', { name: 'Web', defaultMode: 'Agent' });
+
+        expect(await getActiveProject('user-a')).toBeNull();
+        await setActiveProject('user-a', project.id);
+        expect((await getActiveProject('user-a'))?.id).toBe(project.id);
+        expect(await getActiveProject('user-b')).toBeNull();
+
+        await expect(setActiveProject('user-b', project.id)).rejects.toThrow('Project not found');
+        await setActiveProject('user-a', null);
+        expect(await getActiveProject('user-a')).toBeNull();
+    });
+
+    it('should list threads per project and move them to personal on delete', async () => {
+        const project = await createProject('user-a', { name: 'Web' });
+        await setActiveProject('user-a', project.id);
+        const inProject = await createThread('user-a', 'Fix the navbar', project.id);
+        const personal = await createThread('user-a', 'Weekend plans');
+
+        expect((await listThreads('user-a', { projectId: project.id })).map((t) => t.id)).toEqual([inProject.id]);
+        expect((await listThreads('user-a', { projectId: null })).map((t) => t.id)).toEqual([personal.id]);
+        expect(await listThreads('user-a')).toHaveLength(2);
+
+        expect(await deleteProject('user-a', project.id)).toBe(true);
+        expect((await getThread('user-a', inProject.id))?.projectId).toBeUndefined();
+        expect(await listThreads('user-a', { projectId: null })).toHaveLength(2);
+        expect(await getActiveProject('user-a')).toBeNull();
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+import { checkRateLimit, clientIp, rateLimitHeaders } from '@/lib/rate-limit/rate-limiter';
+import { createMemoryRateLimitStore, setRateLimitStore, type RateLimitStore } from '@/lib/rate-limit/store';
+
+const policy = { limit: 3, windowMs: 60_000 };
+
+describe('Sliding-window rate limits', () => {
+    beforeEach(() => {
+        setRateLimitStore(null);
+    });
+
+    it('should allow up to the limit and reject the rest of the window', async () => {
+        const results = [];
+        for (let i = 0; i < 4; i++) results.push(await checkRateLimit('user:a', policy, 1000 + i * 1000));
+
+        expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+        expect(results.map((r) => r.remaining)).toEqual([2, 1, 0, 0]);
+        expect(results[3].resetMs).toBe(60_000 - 3000);
+        expect((await checkRateLimit('user:b', policy, 4000)).allowed).toBe(true);
+    });
+
+    it('should free slots as old requests slide out of the window', async () => {
+        for (let i = 0; i < 3; i++) await checkRateLimit('user:a', policy, i * 10_000);
+
+        expect((await checkRateLimit('user:a', policy, 59_999)).allowed).toBe(false);
+        expect((await checkRateLimit('user:a', policy, 60_001)).allowed).toBe(true);
+        expect((await checkRateLimit('user:a', policy, 60_002)).allowed).toBe(false);
+    });
+
+    it('should not count rejected requests', async () => {
+        for (let i = 0; i < 10; i++) await checkRateLimit('user:a', policy, 0);
+        expect((await checkRateLimit('user:a', policy, 60_001)).remaining).toBe(2);
+    });
+
+    it('should use a store plugged in at runtime', async () => {
+        const memory = createMemoryRateLimitStore();
+        const keys: string[] = [];
+        const store: RateLimitStore = {
+            consume(key, ...rest) {
+                keys.push(key);
+                return memory.consume(key, ...rest);
+            },
+        };
+
+        setRateLimitStore(store);
+        await checkRateLimit('chat:ip:1.2.3.4', policy);
+        expect(keys).toEqual(['chat:ip:1.2.3.4']);
+    });
+});
+
+describe('Rate-limit HTTP helpers', () => {
+    it('should emit standard headers and Retry-After only when rejected', () => {
+        expect(rateLimitHeaders({ allowed: true, limit: 20, remaining: 5, resetMs: 1500 })).toEqual({
+            'RateLimit-Limit': '20',
+            'RateLimit-Remaining': '5',
+            'RateLimit-Reset': '2',
+        });
+        expect(rateLimitHeaders({ allowed: false, limit: 20, remaining: 0, resetMs: 30_000 })['Retry-After']).toBe('30');
+    });
+
+    it('should read the client address from proxy headers', () => {
+        const req = (headers: Record<string, string>) => new Request('http://localhost/api/chat', { headers });
+
+        expect(clientIp(req({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+        expect(clientIp(req({ 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2');
+        expect(clientIp(req({}))).toBe('unknown');
+    });
+
+    it('should ignore X-Forwarded-For hops the client sent itself', () => {
+        const req = (forwarded: string) => new Request('http://localhost/api/chat', { headers: { 'x-forwarded-for': forwarded } });
+
+        expect(clientIp(req('1.2.3.4, 203.0.113.7'))).toBe('203.0.113.7');
+        expect(clientIp(req('5.6.7.8, 203.0.113.7'))).toBe('203.0.113.7');
+
+        process.env.CODINSPECT_TRUSTED_PROXIES = '2';
+        try {
+            expect(clientIp(req('1.2.3.4, 203.0.113.7, 10.0.0.1'))).toBe('203.0.113.7');
+        } finally {
+            delete process.env.CODINSPECT_TRUSTED_PROXIES;
+        }
+    });
+});
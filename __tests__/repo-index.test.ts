@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+import { execFileSync } from 'child_process';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createAttachment } from '@/lib/attachments/attachment-service';
+import { chunkFile } from '@/lib/indexing/chunker';
+import { buildRetrievalContext, createIndex, listIndexes, searchIndex } from '@/lib/indexing/index-service';
+import { readCheckout, resolveCheckoutPath } from '@/lib/indexing/sources';
+import { createMockProvider } from '@/lib/llm/providers/mock';
+import { resetCollections } from '@/lib/storage/collection';
+
+const SOURCE = [
+    'import { db } from "./db";',
+    '',
+    '/** Loads a user */',
+    'export async function getUser(id: string) {',
+    '    return db.users.find(id);',
+    '}',
+    '',
+    'export class SessionStore {',
+    '    private sessions = new Map<string, string>();',
+    '}',
+].join('\n');
+
+describe('Chunker', () => {
+    it('should cut source files between top-level declarations', () => {
+        const long = Array.from({ length: 3 }, (_, i) =>
+            `export function handler${i}() {\n${'    work();\n'.repeat(30)}}`
+        ).join('\n\n');
+
+        const chunks = chunkFile('src/handlers.ts', long, 'typescript');
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+            expect(chunk.text.startsWith('export function')).toBe(true);
+        }
+        expect(chunks[0]).toMatchObject({ startLine: 1, symbol: 'handler0' });
+    });
+
+    it('should keep doc comments with the declaration below them', () => {
+        const chunks = chunkFile('src/users.ts', SOURCE, 'typescript');
+        const text = chunks.map((chunk) => chunk.text).join('\n');
+        expect(text).toContain('/** Loads a user */\nexport async function getUser');
+        expect(chunks[chunks.length - 1].endLine).toBe(10);
+    });
+
+    it('should cut Markdown at headings and leave code fences intact', () => {
+        const doc = `# Title\n${'intro\n'.repeat(45)}## Usage\n\`\`\`sh\n# not a heading\n\`\`\``;
+        const chunks = chunkFile('README.md', doc, 'markdown');
+        expect(chunks.map((chunk) => chunk.text.split('\n')[0])).toEqual(['# Title', '## Usage']);
+    });
+});
+
+describe('Repository index', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterAll(() => {
+        delete process.env.CODINSPECT_STORE;
+        delete process.env.CODINSPECT_REPO_ROOTS;
+        resetCollections();
+    });
+
+    async function uploadRepo(userId = 'user-a') {
+        const attachment = await createAttachment(userId, 'users.ts', Buffer.from(SOURCE));
+        const other = await createAttachment(userId, 'billing.py', Buffer.from('def charge_invoice(total):\n    return total\n'));
+        return { attachment, other };
+    }
+
+    it('should retrieve chunks lexically without an embedding model', async () => {
+        const { attachment } = await uploadRepo();
+        const index = await createIndex('user-a', 'users', { type: 'attachment', attachmentId: attachment.id }, null);
+
+        expect(index.embedding).toBeUndefined();
+        const hits = await searchIndex(index, 'where is the session store?', 3, null);
+        expect(hits[0].chunk.text).toContain('class SessionStore');
+
+        const context = buildRetrievalContext(index.name, hits);
+        expect(context).toContain('### users.ts:');
+        expect(context).toContain('class SessionStore');
+    });
+
+    it('should store embeddings and fuse them with BM25 when a model is configured', async () => {
+        const { other } = await uploadRepo();
+        const embedder = { provider: createMockProvider('mock'), model: 'embed' };
+        const index = await createIndex('user-a', 'billing', { type: 'attachment', attachmentId: other.id }, embedder);
+
+        expect(index.embedding?.vectors).toHaveLength(index.chunks.length);
+        const hits = await searchIndex(index, 'charge invoice', 1, embedder);
+        expect(hits[0].chunk.symbol).toBe('charge_invoice');
+
+        const summaries = await listIndexes('user-a');
+        expect(summaries[0]).toMatchObject({ name: 'billing', embeddingModel: 'embed', chunkCount: index.chunks.length });
+        expect(await listIndexes('user-b')).toEqual([]);
+    });
+
+    it('should fall back to a lexical-only index when embedding fails', async () => {
+        const { attachment } = await uploadRepo();
+        const broken = { provider: createMockProvider('mock', { failingModels: ['embed'] }), model: 'embed' };
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        const index = await createIndex('user-a', 'users', { type: 'attachment', attachmentId: attachment.id }, broken);
+        warn.mockRestore();
+
+        expect(index.embedding).toBeUndefined();
+        expect((await searchIndex(index, 'getUser', 1, broken))[0].chunk.path).toBe('users.ts');
+    });
+
+    it('should refuse attachments owned by someone else', async () => {
+        const { attachment } = await uploadRepo('user-b');
+        await expect(createIndex('user-a', 'x', { type: 'attachment', attachmentId: attachment.id }, null))
+            .rejects.toThrow('Attachment not found');
+    });
+
+    it('should only index checkouts inside the allowed roots', async () => {
+        const root = await mkdtemp(path.join(os.tmpdir(), 'codinspect-repos-'));
+        try {
+            await mkdir(path.join(root, 'app', 'node_modules', 'dep'), { recursive: true });
+            await writeFile(path.join(root, 'app', 'main.ts'), SOURCE);
+            await writeFile(path.join(root, 'app', 'node_modules', 'dep', 'index.js'), 'module.exports = {};');
+
+            delete process.env.CODINSPECT_REPO_ROOTS;
+            await expect(resolveCheckoutPath(path.join(root, 'app'))).rejects.toThrow('disabled');
+
+            process.env.CODINSPECT_REPO_ROOTS = root;
+            await expect(resolveCheckoutPath('/etc')).rejects.toThrow('outside');
+            await expect(resolveCheckoutPath('../')).rejects.toThrow('outside');
+
+            const index = await createIndex('user-a', 'app', { type: 'checkout', path: 'app' }, null);
+            expect(index.fileCount).toBe(1);
+            expect(index.chunks.every((chunk) => chunk.path === 'main.ts')).toBe(true);
+        } finally {
+            await rm(root, { recursive: true, force: true });
+        }
+    });
+
+    it('should not follow tracked symbolic links out of the checkout', async () => {
+        const root = await mkdtemp(path.join(os.tmpdir(), 'codinspect-repos-'));
+        const outside = await mkdtemp(path.join(os.tmpdir(), 'codinspect-secrets-'));
+        try {
+            await writeFile(path.join(outside, 'secret.ts'), 'export const key = "hunter2";\n');
+            await mkdir(path.join(root, 'app'));
+            await writeFile(path.join(root, 'app', 'main.ts'), SOURCE);
+            await symlink(path.join(outside, 'secret.ts'), path.join(root, 'app', 'linked.ts'));
+            await symlink(outside, path.join(root, 'app', 'linked-dir'));
+            execFileSync('git', ['init', '-q'], { cwd: path.join(root, 'app') });
+            execFileSync('git', ['add', '-A'], { cwd: path.join(root, 'app') });
+
+            const files = await readCheckout(path.join(root, 'app'));
+
+            expect(files.map((file) => file.path)).toEqual(['main.ts']);
+        } finally {
+            await rm(root, { recursive: true, force: true });
+            await rm(outside, { recursive: true, force: true });
+        }
+    });
+});
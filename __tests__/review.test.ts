@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+import { buildReviewReport, findReviewPatch, reviewPrompt, reviewToMarkdown } from '@/lib/review/review';
+
+const PATCH = [
+    '--- a/src/user.ts',
+    '+++ b/src/user.ts',
+    '@@ -10,3 +10,4 @@ export function load',
+    ' export function load(id: string) {',
+    '-    return db.get(id);',
+    '+    const user = db.get(id);',
+    '+    return user.name;',
+    ' }',
+].join('\n');
+
+const FORMAT_PATCH = [
+    'From 1234567890abcdef Mon Sep 17 00:00:00 2001',
+    'From: Dev <dev@example.com>',
+    'Subject: [PATCH 1/2] Return the user name',
+    '',
+    '---',
+    ' src/user.ts | 3 ++-',
+    '',
+    PATCH,
+    '-- ',
+    '2.43.0',
+].join('\n');
+
+const reply = (answer: object) => `\`\`\`json\n${JSON.stringify(answer)}\n\`\`\``;
+
+describe('Review mode', () => {
+    it('should find a pasted, fenced or attached patch', () => {
+        expect(findReviewPatch(PATCH, [])).toBe(PATCH);
+        expect(findReviewPatch(`Please look at this\n\n\`\`\`diff\n${PATCH}\n\`\`\``, [])).toBe(PATCH);
+        expect(findReviewPatch('Review this', [{ path: 'fix.patch', content: FORMAT_PATCH }])).toBe(FORMAT_PATCH);
+    });
+
+    it('should return null when there is nothing to review', () => {
+        expect(findReviewPatch('What does this do?', [])).toBeNull();
+        expect(findReviewPatch('Review this', [{ path: 'src/user.ts', content: PATCH }])).toBeNull();
+    });
+
+    it('should number lines as the changed file does', () => {
+        const prompt = reviewPrompt(PATCH);
+
+        expect(prompt).toContain('File: src/user.ts');
+        expect(prompt).toContain('   11 +     const user = db.get(id);');
+        expect(prompt).toContain('   12 +     return user.name;');
+    });
+
+    it('should anchor comments to the patch and title format-patch mails by subject', () => {
+        const report = buildReviewReport(reply({
+            summary: 'Crashes on unknown ids.',
+            comments: [
+                { severity: 'major', file: 'src/user.ts', startLine: 11, endLine: 12, message: 'user may be undefined', suggestion: 'return user?.name;\n' },
+                { severity: 'urgent', file: 'user.ts', startLine: 40, message: 'Unrelated' },
+            ],
+        }), FORMAT_PATCH, '2026-01-01T00:00:00.000Z');
+
+        expect(report).toMatchObject({ format: 'codinspect.review', title: 'Return the user name', summary: 'Crashes on unknown ids.', issues: [] });
+        expect(report.files).toEqual([{ path: 'src/user.ts', additions: 2, deletions: 1 }]);
+        expect(report.comments).toEqual([
+            { id: 'c1', severity: 'major', file: 'src/user.ts', startLine: 11, endLine: 12, message: 'user may be undefined', suggestion: 'return user?.name;', anchored: true },
+            { id: 'c2', severity: 'minor', file: 'src/user.ts', startLine: 40, endLine: 40, message: 'Unrelated', anchored: false },
+        ]);
+    });
+
+    it('should drop comments on files the patch does not change', () => {
+        const report = buildReviewReport(reply({
+            summary: '',
+            comments: [{ severity: 'nit', file: 'src/other.ts', startLine: 1, endLine: 1, message: 'Typo' }, { file: 'src/user.ts' }],
+        }), PATCH);
+
+        expect(report.title).toBe('Review of src/user.ts');
+        expect(report.comments).toEqual([]);
+        expect(report.issues).toEqual(['Comment 1 names src/other.ts, which the patch does not change', 'Comment 2 has no message']);
+    });
+
+    it('should keep a reply without JSON as the summary', () => {
+        const report = buildReviewReport('Looks fine to me.', PATCH);
+
+        expect(report.summary).toBe('Looks fine to me.');
+        expect(report.comments).toEqual([]);
+        expect(report.issues).toEqual(['The model did not return a structured review']);
+    });
+
+    it('should render a report as Markdown', () => {
+        const report = buildReviewReport(reply({
+            summary: 'One problem.',
+            comments: [{ severity: 'critical', file: 'src/user.ts', startLine: 12, endLine: 12, message: 'Null dereference', suggestion: 'return user?.name;' }],
+        }), PATCH);
+
+        expect(reviewToMarkdown(report)).toBe([
+            '**Review of src/user.ts**',
+            '',
+            'One problem.',
+            '',
+            '- **critical** `src/user.ts:12` — Null dereference',
+            '',
+            '  ```',
+            '  return user?.name;',
+            '  ```',
+        ].join('\n'));
+        expect(reviewToMarkdown({ ...report, comments: [] })).toContain('No problems found.');
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import { runSnippet } from '@/lib/sandbox/sandbox';
+import { dataDir } from '@/lib/storage/collection';
+import { SANDBOX_LIMITS, hasCodeBlock, sandboxLanguage } from '@/lib/sandbox/snippets';
+import type { RunOutput } from '@/lib/sandbox/types';
+
+const stdout = (output: RunOutput[]) => output.filter((chunk) => chunk.stream === 'stdout').map((chunk) => chunk.text).join('');
+
+describe('Sandboxed code runs', () => {
+    it('should run JavaScript, TypeScript, Python and shell snippets', async () => {
+        const js = await runSnippet('javascript', 'console.log([1, 2, 3].map((n) => n * 2).join(","));');
+        const ts = await runSnippet('typescript', 'const greet = (name: string): string => `hi ${name}`;\nconsole.log(greet("ts"));');
+        const py = await runSnippet('python', 'import sys\nprint(sum(range(5)))\nsys.exit(3)');
+        const sh = await runSnippet('shell', 'echo out; echo err >&2; pwd');
+
+        expect(js).toMatchObject({ exitCode: 0, timedOut: false, truncated: false });
+        expect(stdout(js.output)).toBe('2,4,6\n');
+        expect(stdout(ts.output)).toBe('hi ts\n');
+        expect(py.exitCode).toBe(3);
+        expect(stdout(py.output)).toBe('10\n');
+        expect(sh.output).toContainEqual({ stream: 'stderr', text: 'err\n' });
+        expect(stdout(sh.output)).toBe('out\n/work\n');
+    }, 30_000);
+
+    it('should stream output as it is written', async () => {
+        const chunks: RunOutput[] = [];
+        await runSnippet('shell', 'echo one; sleep 0.2; echo two', { onOutput: (chunk) => chunks.push(chunk) });
+
+        expect(chunks.map((chunk) => chunk.text)).toEqual(['one\n', 'two\n']);
+    }, 30_000);
+
+    it('should not pass on the server environment or reach the network', async () => {
+        process.env.CODINSPECT_TEST_SECRET = 'do-not-leak';
+        const env = await runSnippet('javascript', 'console.log(process.env.CODINSPECT_TEST_SECRET ?? "none")');
+        const network = await runSnippet('python', [
+            'import socket',
+            'try:',
+            '    socket.create_connection(("1.1.1.1", 80), timeout=2)',
+            '    print("connected")',
+            'except OSError:',
+            '    print("offline")',
+        ].join('\n'));
+        delete process.env.CODINSPECT_TEST_SECRET;
+
+        expect(stdout(env.output)).toBe('none\n');
+        expect(stdout(network.output)).toBe('offline\n');
+    }, 30_000);
+
+    it('should only see system directories and write only to its working directory', async () => {
+        const project = await runSnippet('shell', `cat ${process.cwd()}/package.json || echo blocked`);
+        const data = await runSnippet('shell', `ls ${dataDir()} || echo blocked`);
+        const writes = await runSnippet('shell', [
+            'touch /usr/escape 2>/dev/null || echo read-only',
+            'mount -o remount,rw /usr 2>/dev/null || echo no-remount',
+            'echo kept > note.txt && cat note.txt',
+        ].join('\n'));
+
+        expect(stdout(project.output)).toBe('blocked\n');
+        expect(stdout(data.output)).toBe('blocked\n');
+        expect(stdout(writes.output)).toBe('read-only\nno-remount\nkept\n');
+    }, 30_000);
+
+    it('should kill runs that exceed the time or output limit', async () => {
+        const slow = await runSnippet('shell', 'sleep 5', { limits: { ...SANDBOX_LIMITS, timeoutMs: 300 } });
+        const noisy = await runSnippet('shell', 'yes', { limits: { ...SANDBOX_LIMITS, maxOutputBytes: 1000 } });
+
+        expect(slow).toMatchObject({ exitCode: null, signal: 'SIGKILL', timedOut: true });
+        expect(noisy.truncated).toBe(true);
+        expect(stdout(noisy.output)).toHaveLength(1000);
+    }, 30_000);
+
+    it('should only accept code blocks the reply contains', () => {
+        const reply = 'Try this:\n\n1. Run it\n\n   ```py\n   for i in range(2):\n       print(i)\n   ```\n';
+
+        expect(sandboxLanguage('py')).toBe('python');
+        expect(sandboxLanguage('rust')).toBeNull();
+        expect(hasCodeBlock(reply, 'python', 'for i in range(2):\n    print(i)')).toBe(true);
+        expect(hasCodeBlock(reply, 'shell', 'for i in range(2):\n    print(i)')).toBe(false);
+        expect(hasCodeBlock(reply, 'python', 'import os')).toBe(false);
+    });
+});
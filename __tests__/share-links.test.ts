@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+import {
+    createShareLink,
+    deleteShareLinks,
+    listShareLinks,
+    openShareLink,
+    revokeShareLink,
+} from '@/lib/sharing/share-service';
+import { resetCollections } from '@/lib/storage/collection';
+import { appendMessages, createThread } from '@/lib/threads/thread-service';
+
+async function threadWithAnswer(userId = 'owner') {
+    const thread = await createThread(userId, 'Explain closures');
+    const updated = await appendMessages(userId, thread.id, [
+        { role: 'user', content: 'Explain closures' },
+        { role: 'model', content: 'A closure keeps its scope:\n\n```js\nconst add = (a) => (b) => a + b;\n```' },
+    ]);
+    return updated!;
+}
+
+describe('Share links', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterEach(() => {
+        delete process.env.CODINSPECT_STORE;
+        resetCollections();
+        jest.useRealTimers();
+    });
+
+    it('should snapshot the branch behind an unguessable token', async () => {
+        const thread = await threadWithAnswer();
+        const share = await createShareLink('owner', thread.id);
+
+        expect(share!.id).toMatch(/^[A-Za-z0-9_-]{32}$/);
+        expect(share).toMatchObject({ messageCount: 2, requireAuth: false, expiresAt: null, revokedAt: null });
+
+        // Messages added later are not part of the link
+        await appendMessages('owner', thread.id, [{ role: 'user', content: 'And currying?' }]);
+        const access = await openShareLink(share!.id, null);
+        expect(access.status).toBe('ok');
+        expect(access.status === 'ok' && access.share.messages.map((m) => m.role)).toEqual(['user', 'model']);
+    });
+
+    it('should share only the chosen branch', async () => {
+        const thread = await threadWithAnswer();
+        const share = await createShareLink('owner', thread.id, { leafId: thread.messages[0].id });
+
+        expect(share!.messageCount).toBe(1);
+        await expect(createShareLink('owner', thread.id, { leafId: 'missing' })).rejects.toThrow('Message not found');
+    });
+
+    it('should not let other users share or revoke a thread', async () => {
+        const thread = await threadWithAnswer();
+        expect(await createShareLink('intruder', thread.id)).toBeNull();
+
+        const share = await createShareLink('owner', thread.id);
+        expect(await revokeShareLink('intruder', share!.id)).toBeNull();
+        expect((await openShareLink(share!.id, null)).status).toBe('ok');
+    });
+
+    it('should stop working once revoked', async () => {
+        const thread = await threadWithAnswer();
+        const share = await createShareLink('owner', thread.id);
+
+        const revoked = await revokeShareLink('owner', share!.id);
+        expect(revoked!.revokedAt).not.toBeNull();
+        expect(await openShareLink(share!.id, null)).toEqual({ status: 'revoked' });
+        expect((await listShareLinks('owner', thread.id))[0].revokedAt).toBe(revoked!.revokedAt);
+    });
+
+    it('should expire after the chosen number of days', async () => {
+        jest.useFakeTimers({ now: new Date('2026-10-01T00:00:00Z') });
+        const thread = await threadWithAnswer();
+        const share = await createShareLink('owner', thread.id, { expiresInDays: 7 });
+        expect(share!.expiresAt).toBe('2026-10-08T00:00:00.000Z');
+
+        jest.setSystemTime(new Date('2026-10-07T23:59:00Z'));
+        expect((await openShareLink(share!.id, null)).status).toBe('ok');
+        jest.setSystemTime(new Date('2026-10-08T00:00:00Z'));
+        expect(await openShareLink(share!.id, null)).toEqual({ status: 'expired' });
+
+        await expect(createShareLink('owner', thread.id, { expiresInDays: 0 })).rejects.toThrow(/expiresInDays/);
+        await expect(createShareLink('owner', thread.id, { expiresInDays: 400 })).rejects.toThrow(/expiresInDays/);
+    });
+
+    it('should ask anonymous viewers to sign in for auth-only links', async () => {
+        const thread = await threadWithAnswer();
+        const share = await createShareLink('owner', thread.id, { requireAuth: true });
+
+        expect(await openShareLink(share!.id, null)).toEqual({ status: 'sign_in' });
+        expect((await openShareLink(share!.id, 'teammate')).status).toBe('ok');
+    });
+
+    it('should report unknown tokens and drop links with their thread', async () => {
+        const thread = await threadWithAnswer();
+        const share = await createShareLink('owner', thread.id);
+
+        expect(await openShareLink('not-a-token', null)).toEqual({ status: 'not_found' });
+        expect(await deleteShareLinks('owner', thread.id)).toBe(1);
+        expect(await openShareLink(share!.id, null)).toEqual({ status: 'not_found' });
+    });
+});
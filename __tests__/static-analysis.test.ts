@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+import { buildAttachmentContext, createAttachment, getAttachments } from '@/lib/attachments/attachment-service';
+import { buildAnalysisContext, formatDiagnostic } from '@/lib/analysis/diagnostics';
+import { MAX_ANALYZED_BYTES, MAX_ANALYZED_FILES, analyzeFiles } from '@/lib/analysis/static-analysis';
+import { resetCollections } from '@/lib/storage/collection';
+import type { AttachmentFile } from '@/lib/attachments/types';
+
+const file = (path: string, content: string, language = 'typescript'): AttachmentFile => ({ path, content, bytes: content.length, language });
+
+const MATH = file('src/math.ts', [
+    "import { round } from 'lodash';",
+    "import { PI } from './constants';",
+    '',
+    'export function area(radius: number): number {',
+    '    const unused = 1;',
+    '    return round(PI * radius * radius, "2");',
+    '}',
+    '',
+    'export const label: number = "circle";',
+].join('\n'));
+
+const CONSTANTS = file('src/constants.ts', 'export const PI = 3.14159;\n');
+
+describe('Static analysis', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterEach(() => {
+        resetCollections();
+    });
+
+    it('should report compiler and lint findings but not missing dependencies', async () => {
+        const analysis = await analyzeFiles([MATH, CONSTANTS, file('README.md', '# Math', 'markdown')], '2026-01-01T00:00:00.000Z');
+
+        expect(analysis.fileCount).toBe(2);
+        expect(analysis.truncated).toBe(0);
+        expect(analysis.diagnostics).toContainEqual({
+            source: 'typescript',
+            file: 'src/math.ts',
+            line: 9,
+            column: 14,
+            severity: 'error',
+            code: 'TS2322',
+            message: "Type 'string' is not assignable to type 'number'.",
+        });
+        expect(analysis.diagnostics).toContainEqual(expect.objectContaining({
+            source: 'eslint',
+            file: 'src/math.ts',
+            line: 5,
+            severity: 'warning',
+            code: '@typescript-eslint/no-unused-vars',
+        }));
+        expect(analysis.diagnostics.map((diagnostic) => diagnostic.code)).not.toContain('TS2307');
+        expect(analysis.diagnostics[0].severity).toBe('error');
+    }, 60_000);
+
+    it('should report syntax errors in JavaScript', async () => {
+        const analysis = await analyzeFiles([file('app.js', 'function broken( {\n', 'javascript')]);
+
+        expect(analysis.diagnostics.some((diagnostic) => diagnostic.source === 'typescript' && diagnostic.severity === 'error')).toBe(true);
+        expect(analysis.diagnostics.some((diagnostic) => diagnostic.source === 'eslint' && diagnostic.code === undefined)).toBe(true);
+    }, 60_000);
+
+    it('should skip attachments without TypeScript or JavaScript', async () => {
+        const analysis = await analyzeFiles([file('main.py', 'print(1)', 'python')]);
+
+        expect(analysis).toMatchObject({ fileCount: 0, diagnostics: [] });
+        expect(buildAnalysisContext('main.py', analysis)).toBe('');
+    });
+
+    it('should cap how much of a large attachment is checked', async () => {
+        const many = Array.from({ length: MAX_ANALYZED_FILES + 10 }, (_, i) => file(`src/m${String(i).padStart(2, '0')}.ts`, `export const n${i} = ${i};\n`));
+        const huge = file('src/a-huge.ts', `// ${'x'.repeat(MAX_ANALYZED_BYTES)}\n`);
+
+        const analysis = await analyzeFiles([huge, ...many]);
+        expect(analysis).toMatchObject({ fileCount: MAX_ANALYZED_FILES, unchecked: 11, diagnostics: [] });
+        expect(buildAnalysisContext('big.tar', analysis)).toContain(`checked ${MAX_ANALYZED_FILES} files of big.tar (11 more were past the analysis limits`);
+    }, 60_000);
+
+    it('should analyze an attachment when it is uploaded and put the findings in the prompt', async () => {
+        const created = await createAttachment('user-a', 'label.ts', Buffer.from('export const label: number = "circle";\n'));
+
+        const [stored] = await getAttachments('user-a', [created.id]);
+        expect(stored.analysis).toMatchObject({ fileCount: 1, diagnostics: [expect.objectContaining({ code: 'TS2322' })] });
+        expect(stored.analysis).toEqual(created.analysis);
+
+        const context = buildAttachmentContext([stored]);
+        expect(context.text).toContain('The TypeScript compiler and ESLint checked 1 file of label.ts');
+        expect(context.text).toContain('label.ts:1:14 error TS2322 Type \'string\' is not assignable to type \'number\'.');
+        expect(context.refs[0].analysis).toEqual(stored.analysis);
+    }, 60_000);
+
+    it('should format diagnostics without a code', () => {
+        expect(formatDiagnostic({ source: 'eslint', file: 'a.js', line: 1, column: 18, severity: 'error', message: 'Parsing error: Unexpected token' }))
+            .toBe('a.js:1:18 error Parsing error: Unexpected token');
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+import { resetCollections } from '@/lib/storage/collection';
+import {
+    THREAD_EXPORT_VERSION,
+    exportFileName,
+    threadToMarkdown,
+    toThreadExport,
+    validateThreadExport,
+} from '@/lib/threads/thread-export';
+import { appendMessages, createThread, getThread, importThread } from '@/lib/threads/thread-service';
+import { activePath } from '@/lib/threads/thread-tree';
+import type { ThreadMessage } from '@/lib/threads/types';
+
+const message = (id: string, role: ThreadMessage['role'], content: string, extra: Partial<ThreadMessage> = {}): ThreadMessage => ({
+    id,
+    role,
+    content,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    ...extra,
+});
+
+describe('Markdown export', () => {
+    it('should keep code fences and mark stopped replies', () => {
+        const markdown = threadToMarkdown('Sorting', [
+            message('a', 'user', 'How do I sort?', { attachments: [{ id: 'f1', name: 'list.ts', fileCount: 1 }] }),
+            message('b', 'model', 'Use this:\n\n```ts\nlist.sort((a, b) => a - b);\n```', { stopped: true }),
+        ]);
+
+        expect(markdown).toContain('# Sorting\n\n## You');
+        expect(markdown).toContain('Attached: `list.ts` (1 files)');
+        expect(markdown).toContain('```ts\nlist.sort((a, b) => a - b);\n```');
+        expect(markdown).toContain('> _Stopped before the answer was complete._');
+    });
+
+    it('should fence tool output that itself contains fences', () => {
+        const markdown = threadToMarkdown('Agent', [
+            message('a', 'model', 'Done', {
+                steps: [{ id: 's1', kind: 'tool_result', tool: 'read_file', ok: true, output: '```js\nx\n```' }],
+            }),
+        ]);
+
+        expect(markdown).toContain('<details>\n<summary>Agent steps</summary>');
+        expect(markdown).toContain('````text\n```js\nx\n```\n````');
+    });
+
+    it('should derive safe file names', () => {
+        expect(exportFileName('Fix: auth/session bug!', 'md')).toBe('fix-auth-session-bug.md');
+        expect(exportFileName('???', 'json')).toBe('thread.json');
+    });
+});
+
+describe('JSON export and import', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterEach(() => {
+        delete process.env.CODINSPECT_STORE;
+        resetCollections();
+    });
+
+    it('should round-trip every branch into a new thread', async () => {
+        const thread = await createThread('user-a', 'Sorting');
+        const first = await appendMessages('user-a', thread.id, [
+            { role: 'user', content: 'Sort this' },
+            { role: 'model', content: 'Use sort()' },
+        ]);
+        await appendMessages('user-a', thread.id, [{ role: 'model', content: 'Use toSorted()' }], first!.messages[0].id);
+        const stored = (await getThread('user-a', thread.id))!;
+
+        const exported = JSON.parse(JSON.stringify(toThreadExport(stored)));
+        const validation = validateThreadExport(exported);
+        expect(validation.isValid).toBe(true);
+
+        const imported = await importThread('user-b', validation.value!);
+        expect(imported.id).not.toBe(thread.id);
+        expect(imported.messages).toHaveLength(3);
+        expect(imported.messages.map((m) => m.id)).not.toContain(stored.messages[0].id);
+        expect(activePath(imported).map((m) => m.content)).toEqual(['Sort this', 'Use toSorted()']);
+    });
+
+    it('should export a single branch', async () => {
+        const thread = await createThread('user-a', 'Sorting');
+        const first = await appendMessages('user-a', thread.id, [
+            { role: 'user', content: 'Sort this' },
+            { role: 'model', content: 'Use sort()' },
+        ]);
+        await appendMessages('user-a', thread.id, [{ role: 'model', content: 'Use toSorted()' }], first!.messages[0].id);
+
+        const exported = toThreadExport((await getThread('user-a', thread.id))!, first!.messages[1].id);
+        expect(exported.messages.map((m) => m.content)).toEqual(['Sort this', 'Use sort()']);
+        expect(exported.version).toBe(THREAD_EXPORT_VERSION);
+    });
+
+    it('should reject files that are not valid exports', () => {
+        const valid = { format: 'codinspect.thread', version: 1, title: 'T', messages: [message('a', 'user', 'hi')] };
+
+        expect(validateThreadExport({ title: 'T' }).error).toBe('This is not a CodInspect thread export');
+        expect(validateThreadExport({ ...valid, version: THREAD_EXPORT_VERSION + 1 }).error).toMatch(/reads up to version/);
+        expect(validateThreadExport({ ...valid, messages: [message('a', 'user', 'hi', { parentId: 'b' })] }).error)
+            .toBe('messages[0].parentId must name an earlier message');
+        expect(validateThreadExport({ ...valid, messages: [message('a', 'user', 'hi'), message('a', 'model', 'dup')] }).error)
+            .toBe('messages[1] needs a unique id');
+        expect(validateThreadExport({ ...valid, messages: [{ ...message('a', 'model', 'x'), steps: [{ kind: 'nope' }] }] }).error)
+            .toBe('messages[0].steps are malformed');
+    });
+
+    it('should check optional step fields and drop what import does not restore', () => {
+        const call = { id: 's1', kind: 'tool_call', tool: 'grep', input: { pattern: 'x' }, thought: 'Look', permission: 'read' };
+        const result = { id: 's2', kind: 'tool_result', tool: 'grep', ok: true, output: 'none', durationMs: 3, denied: false };
+        const reply = {
+            ...message('a', 'model', 'Looks good'),
+            steps: [{ ...call, extra: 1 }, result],
+            patchCheck: { files: [] },
+            review: { summary: 'ok' },
+            runs: [{ id: 'r1' }],
+        };
+        const exported = (messages: unknown[]) => ({ format: 'codinspect.thread', version: 1, title: 'T', messages });
+
+        const validation = validateThreadExport(exported([reply]));
+        expect(validation.value!.messages[0]).toEqual({ id: 'a', role: 'model', content: 'Looks good', createdAt: expect.any(String), steps: [call, result] });
+
+        for (const step of [{ ...call, thought: 42 }, { ...call, permission: 'root' }, { ...result, durationMs: '3' }, { ...result, denied: 'no' }]) {
+            expect(validateThreadExport(exported([{ ...reply, steps: [step] }])).error).toBe('messages[0].steps are malformed');
+        }
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import { resetCollections } from '@/lib/storage/collection';
+import { buildSnippet } from '@/lib/search/snippet';
+import { searchThreads } from '@/lib/search/thread-search';
+import { parseQuery, splitIdentifier, tokenize } from '@/lib/search/tokenize';
+import { appendMessages, createThread } from '@/lib/threads/thread-service';
+
+describe('Search tokenizer', () => {
+    it('should split identifiers on case and underscore boundaries', () => {
+        expect(splitIdentifier('parseHTTPResponse')).toEqual(['parse', 'http', 'response']);
+        expect(splitIdentifier('max_output_tokens')).toEqual(['max', 'output', 'tokens']);
+        expect(splitIdentifier('plain')).toEqual(['plain']);
+    });
+
+    it('should index identifiers whole and by part', () => {
+        expect(tokenize('call getUserId()')).toEqual(['call', 'getuserid', 'get', 'user', 'id']);
+    });
+
+    it('should separate quoted phrases from free terms', () => {
+        expect(parseQuery('useEffect "missing   dependency" array')).toEqual({
+            terms: ['useeffect', 'use', 'effect', 'array'],
+            phrases: ['missing dependency'],
+        });
+    });
+});
+
+describe('Snippet builder', () => {
+    it('should keep short text whole and merge overlapping highlights', () => {
+        expect(buildSnippet('hello world', [[0, 5], [3, 8]])).toEqual({ text: 'hello world', highlights: [[0, 8]] });
+    });
+
+    it('should cut long text around the match and re-base highlights', () => {
+        const text = `${'lorem '.repeat(60)}needle${' ipsum'.repeat(60)}`;
+        const start = text.indexOf('needle');
+        const snippet = buildSnippet(text, [[start, start + 6]], 80);
+        const [[s, e]] = snippet.highlights;
+
+        expect(snippet.text.startsWith('…')).toBe(true);
+        expect(snippet.text.endsWith('…')).toBe(true);
+        expect(snippet.text.slice(s, e)).toBe('needle');
+    });
+});
+
+describe('Thread search', () => {
+    beforeEach(async () => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+
+        const hooks = await createThread('user-a', 'React hooks');
+        await appendMessages('user-a', hooks.id, [
+            { role: 'user', content: 'Why does useEffect warn about a missing dependency?' },
+            { role: 'model', content: 'The linter found a missing dependency in the array. Wrap the handler in useCallback.' },
+        ]);
+
+        const auth = await createThread('user-a', 'Auth');
+        await appendMessages('user-a', auth.id, [
+            { role: 'user', content: 'Where is getUserId defined?' },
+            { role: 'model', content: 'In lib/auth/session.ts; it reads the user id from the session.' },
+        ]);
+
+        const other = await createThread('user-b', 'Private');
+        await appendMessages('user-b', other.id, [{ role: 'user', content: 'useEffect dependency secrets' }]);
+    });
+
+    afterAll(() => {
+        delete process.env.CODINSPECT_STORE;
+        resetCollections();
+    });
+
+    it('should only search the requesting user\'s threads', async () => {
+        const results = await searchThreads('user-a', 'secrets');
+        expect(results).toEqual([]);
+    });
+
+    it('should require quoted phrases to match exactly', async () => {
+        const results = await searchThreads('user-a', '"missing dependency" useCallback');
+
+        expect(results.map((r) => r.role)).toEqual(['model', 'user']);
+        const { text, highlights } = results[0].snippet;
+        expect(highlights.map(([s, e]) => text.slice(s, e))).toEqual(
+            expect.arrayContaining(['missing dependency', 'useCallback'])
+        );
+        expect(await searchThreads('user-a', '"dependency missing"')).toEqual([]);
+    });
+
+    it('should rank verbatim identifier matches first', async () => {
+        const results = await searchThreads('user-a', 'getUserId');
+
+        expect(results[0].threadTitle).toBe('Auth');
+        expect(results[0].role).toBe('user');
+        expect(results[0].snippet.text).toContain('getUserId');
+    });
+
+    it('should return nothing for an empty query', async () => {
+        expect(await searchThreads('user-a', '   ')).toEqual([]);
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { CodeRun } from '@/lib/sandbox/types';
+import { createFileCollection, resetCollections } from '@/lib/storage/collection';
+import {
+    appendMessages,
+    createThread,
+    deleteThread,
+    getThread,
+    listThreads,
+    recordCodeRun,
+    renameThread,
+    saveContextSummary,
+    selectBranch,
+    titleFromMessage,
+} from '@/lib/threads/thread-service';
+import { activePath } from '@/lib/threads/thread-tree';
+
+describe('Thread service', () => {
+    beforeEach(() => {
+        process.env.CODINSPECT_STORE = 'memory';
+        resetCollections();
+    });
+
+    afterAll(() => {
+        delete process.env.CODINSPECT_STORE;
+        resetCollections();
+    });
+
+    it('should scope threads to their owner', async () => {
+        const mine = await createThread('user-a', 'Refactor auth');
+        await createThread('user-b', 'Someone else');
+
+        expect((await listThreads('user-a')).map((t) => t.id)).toEqual([mine.id]);
+        expect(await getThread('user-b', mine.id)).toBeNull();
+        expect(await renameThread('user-b', mine.id, 'Hijacked')).toBeNull();
+        expect(await deleteThread('user-b', mine.id)).toBe(false);
+    });
+
+    it('should append messages in order and bump updatedAt', async () => {
+        const thread = await createThread('user-a');
+        const updated = await appendMessages('user-a', thread.id, [
+            { role: 'user', content: 'What is a monad?' },
+            { role: 'model', content: 'A monoid in the category of endofunctors.' },
+        ]);
+
+        expect(updated?.messages.map((m) => m.role)).toEqual(['user', 'model']);
+        expect(updated!.updatedAt >= thread.updatedAt).toBe(true);
+        expect((await listThreads('user-a'))[0].messageCount).toBe(2);
+    });
+
+    it('should branch from an earlier message and switch between branches', async () => {
+        const thread = await createThread('user-a');
+        const first = await appendMessages('user-a', thread.id, [
+            { role: 'user', content: 'Sort this list' },
+            { role: 'model', content: 'Use sort()' },
+        ]);
+        const [prompt, reply] = first!.messages;
+
+        // Regenerating adds a second reply to the same prompt and shows it
+        const regenerated = await appendMessages('user-a', thread.id, [{ role: 'model', content: 'Use toSorted()' }], prompt.id);
+        expect(activePath(regenerated!).map((m) => m.content)).toEqual(['Sort this list', 'Use toSorted()']);
+
+        // Editing the first prompt starts a branch at the top of the thread
+        const edited = await appendMessages('user-a', thread.id, [{ role: 'user', content: 'Sort this list in place' }], null);
+        expect(activePath(edited!).map((m) => m.content)).toEqual(['Sort this list in place']);
+        expect((await listThreads('user-a'))[0].messageCount).toBe(1);
+
+        // Switching back continues down the newest reply of that branch
+        const switched = await selectBranch('user-a', thread.id, prompt.id);
+        expect(activePath(switched!).map((m) => m.content)).toEqual(['Sort this list', 'Use toSorted()']);
+        expect(switched!.messages.find((m) => m.id === reply.id)).toBeDefined();
+        expect(await selectBranch('user-a', thread.id, 'missing')).toBeNull();
+    });
+
+    it('should rename and delete owned threads', async () => {
+        const thread = await createThread('user-a', 'Old');
+
+        expect((await renameThread('user-a', thread.id, '  New   title '))?.title).toBe('New title');
+        expect(await deleteThread('user-a', thread.id)).toBe(true);
+        expect(await getThread('user-a', thread.id)).toBeNull();
+    });
+
+    it('should keep every write when updates to a thread overlap', async () => {
+        const thread = await createThread('user-a');
+        const [first] = (await appendMessages('user-a', thread.id, [{ role: 'model', content: 'print(1)' }]))!.messages;
+        const run: CodeRun = {
+            id: 'run-1', language: 'python', code: 'print(1)', startedAt: first.createdAt, durationMs: 5,
+            output: [{ stream: 'stdout', text: '1\n' }], exitCode: 0, timedOut: false, truncated: false,
+        };
+
+        await Promise.all([
+            appendMessages('user-a', thread.id, [{ role: 'user', content: 'Next' }]),
+            recordCodeRun('user-a', thread.id, first.id, run),
+            saveContextSummary('user-a', thread.id, { text: 'Notes', messageCount: 1 }),
+            appendMessages('user-a', thread.id, [{ role: 'model', content: 'Done' }]),
+        ]);
+
+        const saved = (await getThread('user-a', thread.id))!;
+        expect(saved.messages.map((message) => message.content)).toEqual(['print(1)', 'Next', 'Done']);
+        expect(saved.messages[0].runs).toHaveLength(1);
+        expect(saved.contextSummary?.text).toBe('Notes');
+    });
+
+    it('should derive short single-line titles', () => {
+        expect(titleFromMessage('')).toBe('New thread');
+        expect(titleFromMessage('fix\nthis bug')).toBe('fix this bug');
+        expect(titleFromMessage('x'.repeat(200))).toHaveLength(80);
+    });
+});
+
+describe('File collection', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(os.tmpdir(), 'codinspect-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should persist records across instances', async () => {
+        await createFileCollection<{ id: string; n: number }>(dir).put({ id: 'abc', n: 1 });
+        const reopened = createFileCollection<{ id: string; n: number }>(dir);
+
+        expect(await reopened.get('abc')).toEqual({ id: 'abc', n: 1 });
+        expect(await reopened.list()).toHaveLength(1);
+    });
+
+    it('should not mix up concurrent writes of the same record', async () => {
+        const collection = createFileCollection<{ id: string; n: number }>(dir);
+
+        await Promise.all(Array.from({ length: 10 }, (_, n) => collection.put({ id: 'abc', n })));
+        expect((await collection.get('abc'))?.n).toEqual(expect.any(Number));
+        expect(await collection.list()).toHaveLength(1);
+    });
+
+    it('should refuse ids that escape the directory', async () => {
+        const collection = createFileCollection<{ id: string }>(dir);
+
+        await expect(collection.put({ id: '../evil' })).rejects.toThrow('Invalid record id');
+        expect(await collection.get('../evil')).toBeNull();
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import { activePath, childrenByParent, latestLeaf, pathTo, withParents } from '@/lib/threads/thread-tree';
+
+const message = (id: string, parentId?: string | null) => ({ id, ...(parentId !== undefined ? { parentId } : {}) });
+
+describe('Thread tree', () => {
+    // a ─ b ─ c        (stored before branching: no parentIds)
+    //      └─ d ─ e    (regenerated reply to a, continued)
+    //   f              (edited first prompt)
+    const messages = [
+        message('a'),
+        message('b'),
+        message('c'),
+        message('d', 'a'),
+        message('e', 'd'),
+        message('f', null),
+    ];
+
+    it('should treat messages without a parent as following the one before them', () => {
+        expect(withParents(messages.slice(0, 3)).map((m) => m.parentId)).toEqual([null, 'a', 'b']);
+    });
+
+    it('should walk from the root to any message', () => {
+        expect(pathTo(messages, 'e').map((m) => m.id)).toEqual(['a', 'd', 'e']);
+        expect(pathTo(messages, 'c').map((m) => m.id)).toEqual(['a', 'b', 'c']);
+        expect(pathTo(messages, 'missing')).toEqual([]);
+    });
+
+    it('should list siblings oldest first', () => {
+        const children = childrenByParent(messages);
+        expect(children.get('a')?.map((m) => m.id)).toEqual(['b', 'd']);
+        expect(children.get(null)?.map((m) => m.id)).toEqual(['a', 'f']);
+    });
+
+    it('should continue a branch down its newest replies', () => {
+        expect(latestLeaf(messages, 'a')).toBe('e');
+        expect(latestLeaf(messages, 'b')).toBe('c');
+        expect(latestLeaf(messages, 'f')).toBe('f');
+    });
+
+    it('should show the active leaf, or the newest message', () => {
+        const thread = (activeLeafId?: string) => ({
+            messages: messages.map((m) => ({ ...m, role: 'user' as const, content: m.id, createdAt: '' })),
+            activeLeafId,
+        });
+
+        expect(activePath(thread('c')).map((m) => m.id)).toEqual(['a', 'b', 'c']);
+        expect(activePath(thread()).map((m) => m.id)).toEqual(['f']);
+        expect(activePath({ messages: [] })).toEqual([]);
+    });
+});
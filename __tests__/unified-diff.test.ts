@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { checkAgainstSources, checkReplyPatches, extractDiffBlocks, parseUnifiedDiff } from '@/lib/diff/unified-diff';
+
+const PATCH = [
+    'diff --git a/src/math.ts b/src/math.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/math.ts',
+    '+++ b/src/math.ts',
+    '@@ -1,5 +1,5 @@ export function add',
+    ' export function add(a: number, b: number) {',
+    '-    return a - b;',
+    '+    return a + b;',
+    ' }',
+    // Blank context line whose leading space was lost
+    '',
+    ' export const zero = 0;',
+].join('\n');
+
+const SOURCE = 'export function add(a: number, b: number) {\n    return a - b;\n}\n\nexport const zero = 0;\n';
+
+describe('Unified diff parsing', () => {
+    it('should parse files, hunks and line numbers', () => {
+        const { files, issues } = parseUnifiedDiff(PATCH);
+
+        expect(issues).toEqual([]);
+        expect(files).toHaveLength(1);
+        expect(files[0]).toMatchObject({ oldPath: 'src/math.ts', newPath: 'src/math.ts' });
+
+        const [hunk] = files[0].hunks;
+        expect(hunk).toMatchObject({ oldStart: 1, oldLines: 5, newStart: 1, newLines: 5, section: 'export function add' });
+        expect(hunk.lines.map((line) => line.kind)).toEqual(['context', 'remove', 'add', 'context', 'context', 'context']);
+        expect(hunk.lines[2]).toEqual({ kind: 'add', text: '    return a + b;', newLine: 2 });
+        expect(hunk.lines[4]).toEqual({ kind: 'context', text: '', oldLine: 4, newLine: 4 });
+    });
+
+    it('should recognize created and deleted files', () => {
+        const { files } = parseUnifiedDiff('--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1 @@\n+export {};\n--- a/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-gone');
+
+        expect(files.map((file) => [file.oldPath, file.newPath])).toEqual([[null, 'new.ts'], ['old.ts', null]]);
+    });
+
+    it('should report miscounted hunks and missing headers', () => {
+        expect(parseUnifiedDiff('--- a/x.ts\n+++ b/x.ts\n@@ -1,3 +1,3 @@\n a\n-b\n+c\n').issues)
+            .toEqual([{ file: 'x.ts', hunk: 1, message: 'Hunk 1 of x.ts declares -3 +3 lines but has -2 +2' }]);
+        expect(parseUnifiedDiff('--- a/x.ts\n+++ b/x.ts\n@@ @@\n-b\n+c').issues.map((issue) => issue.message))
+            .toEqual(['Hunk 1 of x.ts has no line numbers']);
+        expect(parseUnifiedDiff('@@ -1 +1 @@\n-b\n+c').issues[0].message).toBe('A hunk appears before any --- / +++ file header');
+        expect(parseUnifiedDiff('just prose').issues).toEqual([{ message: 'No unified diff found' }]);
+    });
+
+    it('should end a hunk at prose instead of swallowing it', () => {
+        const { files, issues } = parseUnifiedDiff('--- a/x.ts\n+++ b/x.ts\n@@ -1 +1 @@\n-b\n+c\n\nThen run the tests.');
+
+        expect(issues).toEqual([]);
+        expect(files[0].hunks[0].lines).toHaveLength(2);
+    });
+
+    it('should find diff and patch blocks in a reply', () => {
+        const reply = `Fix:\n\n\`\`\`diff\n${PATCH}\n\`\`\`\n\nAlso:\n\n\`\`\`ts\nconst x = 1;\n\`\`\`\n\n~~~patch\n--- a/y\n+++ b/y\n~~~`;
+
+        expect(extractDiffBlocks(reply)).toEqual([PATCH, '--- a/y\n+++ b/y']);
+    });
+});
+
+describe('Patch validation', () => {
+    it('should accept hunks that match the original, even at another line', () => {
+        const shifted = PATCH.replace('@@ -1,5 +1,5 @@', '@@ -10,5 +10,5 @@');
+        const { files } = parseUnifiedDiff(shifted);
+
+        expect(checkAgainstSources(files, new Map([['src/math.ts', SOURCE]]))).toEqual([]);
+    });
+
+    it('should flag hunks whose context is not in the original', () => {
+        const { files } = parseUnifiedDiff(PATCH.replace('return a - b;', 'return a * b;'));
+
+        expect(checkAgainstSources(files, new Map([['project/src/math.ts', SOURCE]]))).toEqual([
+            { file: 'src/math.ts', hunk: 1, message: 'Hunk 1 of src/math.ts does not match the original file' },
+        ]);
+    });
+
+    it('should summarize the patches in a reply', () => {
+        expect(checkReplyPatches(`\`\`\`diff\n${PATCH}\n\`\`\``, new Map([['src/math.ts', SOURCE]])))
+            .toEqual({ files: ['src/math.ts'], hunks: 1, issues: [] });
+        expect(checkReplyPatches('Here is the whole file instead.').issues).toEqual([{ message: 'The reply has no ```diff block' }]);
+    });
+});
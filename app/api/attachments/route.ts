@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { createAttachment } from "@/lib/attachments/attachment-service";
+import { EntitlementError, getUserPlan, requireUploadSize } from "@/lib/plans/entitlement-service";
+
+export async function POST(req: Request) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    let form: FormData;
+    try {
+        form = await req.formData();
+    } catch {
+        return NextResponse.json({ error: "Expected a multipart/form-data upload" }, { status: 400 });
+    }
+
+    const uploads = form.getAll("files").filter((value): value is File => value instanceof File);
+    if (uploads.length === 0) {
+        return NextResponse.json({ error: "No files were uploaded" }, { status: 400 });
+    }
+
+    // The largest upload a user may send depends on their plan
+    const plan = await getUserPlan(userId);
+    for (const file of uploads) {
+        try {
+            requireUploadSize(plan, file.size);
+        } catch (error) {
+            if (!(error instanceof EntitlementError)) throw error;
+            return NextResponse.json(
+                { error: `${file.name} is too large. ${error.message}`, code: error.code, upgradeTo: error.upgradeTo },
+                { status: 413 }
+            );
+        }
+    }
+
+    try {
+        const created = [];
+        for (const file of uploads) {
+            const attachment = await createAttachment(userId, file.name, Buffer.from(await file.arrayBuffer()));
+            created.push({
+                id: attachment.id,
+                name: attachment.name,
+                fileCount: attachment.files.length,
+                skippedCount: attachment.skipped.length,
+            });
+        }
+        return NextResponse.json({ attachments: created }, { status: 201 });
+    } catch (error) {
+        console.error("Error processing attachment:", error);
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return NextResponse.json({ error: `Could not read attachment: ${message}` }, { status: 422 });
+    }
+}
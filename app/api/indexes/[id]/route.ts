@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { deleteIndex, getIndex, summarizeIndex } from "@/lib/indexing/index-service";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const index = await getIndex(userId, id);
+    if (!index) {
+        return NextResponse.json({ error: "Index not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ index: summarizeIndex(index) });
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteIndex(userId, id))) {
+        return NextResponse.json({ error: "Index not found" }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+}
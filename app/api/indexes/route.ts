@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { isRecord } from "@/lib/chat/chat-request";
+import { createIndex, listIndexes, summarizeIndex } from "@/lib/indexing/index-service";
+import type { IndexSource } from "@/lib/indexing/types";
+import { EntitlementError, getUserPlan, requireFeature } from "@/lib/plans/entitlement-service";
+
+export async function GET() {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    try {
+        return NextResponse.json({ indexes: await listIndexes(userId) });
+    } catch (error) {
+        console.error("Error listing indexes:", error);
+        return NextResponse.json({ error: "An error occurred while listing indexes" }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    try {
+        requireFeature(await getUserPlan(userId), "repository_indexing");
+    } catch (error) {
+        if (!(error instanceof EntitlementError)) throw error;
+        return NextResponse.json({ error: error.message, code: error.code, upgradeTo: error.upgradeTo }, { status: error.status });
+    }
+
+    const body: unknown = await req.json().catch(() => ({}));
+    if (!isRecord(body)) {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+    let source: IndexSource;
+    if (typeof body.path === "string" && body.path.trim()) {
+        source = { type: "checkout", path: body.path.trim() };
+    } else if (typeof body.attachmentId === "string") {
+        source = { type: "attachment", attachmentId: body.attachmentId };
+    } else {
+        return NextResponse.json({ error: "Provide a local `path` or an uploaded `attachmentId`" }, { status: 400 });
+    }
+
+    const name = typeof body.name === "string" && body.name.trim()
+        ? body.name.trim()
+        : source.type === "checkout" ? source.path.split(/[\\/]/).filter(Boolean).pop() ?? source.path : "Uploaded archive";
+
+    try {
+        const index = await createIndex(userId, name, source);
+        return NextResponse.json({ index: summarizeIndex(index) }, { status: 201 });
+    } catch (error) {
+        console.error("Error building index:", error);
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return NextResponse.json({ error: `Could not index repository: ${message}` }, { status: 422 });
+    }
+}
@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import { getSession, type SessionInfo } from "@/lib/auth/session";
+import { isRecord } from "@/lib/chat/chat-request";
+import {
+    getInstructions,
+    resolveInstructions,
+    restoreInstructions,
+    saveInstructions,
+} from "@/lib/instructions/instruction-service";
+import { platformLayer } from "@/lib/instructions/merge";
+import type { EditableLayer } from "@/lib/instructions/types";
+import { getActiveProject, getProject } from "@/lib/projects/project-service";
+
+const EDITABLE_LAYERS: EditableLayer[] = ["organization", "project", "personal"];
+
+/** Only organization admins may change the organization's rules */
+function canEditOrganization(session: SessionInfo): boolean {
+    return session.orgRole === "org:admin";
+}
+
+async function projectFor(session: SessionInfo, projectId: string | null) {
+    return projectId ? getProject(session.userId, projectId) : getActiveProject(session.userId);
+}
+
+/**
+ * Describes every layer the user can see, with version history, plus the
+ * effective prompt they produce
+ */
+async function describeLayers(session: SessionInfo, projectId: string | null) {
+    const project = await projectFor(session, projectId);
+    const [organization, projectDoc, personal, effective] = await Promise.all([
+        session.orgId ? getInstructions("organization", session.orgId) : null,
+        project ? getInstructions("project", project.id) : null,
+        getInstructions("personal", session.userId),
+        resolveInstructions({ userId: session.userId, orgId: session.orgId, project }),
+    ]);
+
+    return {
+        layers: {
+            platform: platformLayer(),
+            organization: session.orgId
+                ? { scopeId: session.orgId, editable: canEditOrganization(session), versions: organization?.versions ?? [] }
+                : null,
+            project: project
+                ? { scopeId: project.id, name: project.name, editable: true, versions: projectDoc?.versions ?? [] }
+                : null,
+            personal: { scopeId: session.userId, editable: true, versions: personal?.versions ?? [] },
+        },
+        effective,
+    };
+}
+
+export async function GET(req: Request) {
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    try {
+        const projectId = new URL(req.url).searchParams.get("projectId");
+        return NextResponse.json(await describeLayers(session, projectId));
+    } catch (error) {
+        console.error("Error loading instructions:", error);
+        return NextResponse.json({ error: "An error occurred while loading instructions" }, { status: 500 });
+    }
+}
+
+export async function PUT(req: Request) {
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body: unknown = await req.json().catch(() => ({}));
+    if (!isRecord(body)) {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+    const layer = body.layer as EditableLayer;
+    if (!EDITABLE_LAYERS.includes(layer)) {
+        return NextResponse.json({ error: `Layer must be one of ${EDITABLE_LAYERS.join(", ")}` }, { status: 400 });
+    }
+    if (typeof body.text !== "string" && typeof body.restoreVersion !== "number") {
+        return NextResponse.json({ error: "Provide `text` or `restoreVersion`" }, { status: 400 });
+    }
+
+    const projectId = typeof body.projectId === "string" ? body.projectId : null;
+    let scopeId: string;
+
+    if (layer === "organization") {
+        if (!session.orgId) {
+            return NextResponse.json({ error: "No organization is selected" }, { status: 404 });
+        }
+        if (!canEditOrganization(session)) {
+            return NextResponse.json({ error: "Only organization admins can edit organization rules" }, { status: 403 });
+        }
+        scopeId = session.orgId;
+    } else if (layer === "project") {
+        const project = await projectFor(session, projectId);
+        if (!project) {
+            return NextResponse.json({ error: "Project not found" }, { status: 404 });
+        }
+        scopeId = project.id;
+    } else {
+        scopeId = session.userId;
+    }
+
+    try {
+        if (typeof body.text === "string") {
+            await saveInstructions(layer, scopeId, body.text, session.userId);
+        } else if (!(await restoreInstructions(layer, scopeId, body.restoreVersion as number, session.userId))) {
+            return NextResponse.json({ error: `Version ${body.restoreVersion} not found` }, { status: 404 });
+        }
+    } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid instructions" }, { status: 400 });
+    }
+
+    return NextResponse.json(await describeLayers(session, projectId));
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { CHAT_STREAM_CONTENT_TYPE, encodeChatEvent } from "@/lib/chat/stream";
+import { getJobEvents, isFinished } from "@/lib/jobs/job-service";
+import type { JobStreamEvent } from "@/lib/jobs/types";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/** How often the stored job is read for new events */
+const POLL_MS = 500;
+
+/**
+ * Streams a job's events from `?after=<seq>` on, with its summary whenever
+ * its state or progress changes, until the job finishes. Closing the stream
+ * leaves the job running; reconnect with the last seq seen to resume
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const after = Number(new URL(req.url).searchParams.get("after") ?? 0);
+    let lastSeq = Number.isInteger(after) && after > 0 ? after : 0;
+    const first = await getJobEvents(userId, id, lastSeq);
+    if (!first) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return new Response(new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: JobStreamEvent) => {
+                if (!req.signal.aborted) controller.enqueue(encodeChatEvent(event));
+            };
+            let current = first;
+            let lastSummary = "";
+
+            try {
+                while (!req.signal.aborted) {
+                    for (const { seq, event } of current.events) {
+                        send({ type: "event", seq, event });
+                        lastSeq = seq;
+                    }
+                    const summary = JSON.stringify(current.job);
+                    if (summary !== lastSummary) {
+                        send({ type: "state", job: current.job });
+                        lastSummary = summary;
+                    }
+                    if (isFinished(current.job.state)) break;
+
+                    await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+                    const next = await getJobEvents(userId, id, lastSeq);
+                    if (!next) break;
+                    current = next;
+                }
+            } catch (error) {
+                console.error("❌ Job event stream failed:", error);
+            } finally {
+                if (!req.signal.aborted) controller.close();
+            }
+        },
+    }), {
+        headers: {
+            "Content-Type": CHAT_STREAM_CONTENT_TYPE,
+            "Cache-Control": "no-cache, no-transform",
+        },
+    });
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { getJob } from "@/lib/jobs/job-service";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/** Polls a job: its state, progress and logs */
+export async function GET(_req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = await getJob(userId, id);
+    if (!job) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { validateChatRequest } from "@/lib/chat/chat-request";
+import { JobLimitError, createJob, listJobs } from "@/lib/jobs/job-service";
+import { EntitlementError, getUserPlan, requireFeature } from "@/lib/plans/entitlement-service";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit/rate-limiter";
+import { getThread } from "@/lib/threads/thread-service";
+
+export async function GET(req: Request) {
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const threadId = new URL(req.url).searchParams.get("threadId") ?? undefined;
+    return NextResponse.json({ jobs: await listJobs(session.userId, threadId) });
+}
+
+/**
+ * Starts a background session: takes a chat request, queues it for the
+ * worker and answers at once. Jobs always run in Agent mode
+ */
+export async function POST(req: Request) {
+    const session = await getSession();
+    if (!session) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+    const { userId, orgId } = session;
+
+    // Starting a job sends a message, so it counts against the same per-user rate as the chat
+    const plan = await getUserPlan(userId);
+    const limit = await checkRateLimit(`chat:user:${userId}`, { limit: plan.limits.chatRequestsPerMinute, windowMs: 60_000 });
+    if (!limit.allowed) {
+        return NextResponse.json(
+            { error: `You can send ${limit.limit} messages per minute. Please wait before sending more.`, code: "rate_limited" },
+            { status: 429, headers: rateLimitHeaders(limit) }
+        );
+    }
+
+    const body = await req.json().catch(() => undefined);
+    const isObject = typeof body === "object" && body !== null && !Array.isArray(body);
+    const validation = validateChatRequest(isObject ? { mode: "Agent", ...body } : body);
+    if (!validation.isValid) {
+        return NextResponse.json({ error: "Invalid chat request", code: "invalid_request", fields: validation.errors }, { status: 400 });
+    }
+    if (validation.request.mode !== "Agent") {
+        return NextResponse.json({ error: "Background sessions run in Agent mode", code: "invalid_request" }, { status: 400 });
+    }
+
+    try {
+        requireFeature(plan, "agent_mode");
+        if (validation.request.toolPermissions?.includes("execute")) requireFeature(plan, "agent_commands");
+    } catch (error) {
+        if (!(error instanceof EntitlementError)) throw error;
+        return NextResponse.json({ error: error.message, code: error.code, upgradeTo: error.upgradeTo }, { status: error.status });
+    }
+
+    const { threadId } = validation.request;
+    if (threadId && !(await getThread(userId, threadId))) {
+        return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    try {
+        const job = await createJob(userId, orgId, validation.request);
+        return NextResponse.json({ job }, { status: 202, headers: rateLimitHeaders(limit) });
+    } catch (error) {
+        if (error instanceof JobLimitError) {
+            return NextResponse.json({ error: error.message, code: "rate_limited" }, { status: 429 });
+        }
+        console.error("❌ Could not queue job:", error);
+        return NextResponse.json({ error: "The job could not be started" }, { status: 500 });
+    }
+}
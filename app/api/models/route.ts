@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { listAvailableModels } from "@/lib/llm/registry";
+
+export async function GET() {
+    try {
+        return NextResponse.json(listAvailableModels());
+    } catch (error) {
+        console.error("Error loading model configuration:", error);
+        return NextResponse.json({ error: "Model configuration is invalid" }, { status: 500 });
+    }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { getUsage, getUserPlan } from "@/lib/plans/entitlement-service";
+
+export async function GET() {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    try {
+        const [plan, usage] = await Promise.all([getUserPlan(userId), getUsage(userId)]);
+        return NextResponse.json({ plan, usage: { period: usage.period, agentSessions: usage.agentSessions } });
+    } catch (error) {
+        console.error("Error loading plan:", error);
+        return NextResponse.json({ error: "An error occurred while loading your plan" }, { status: 500 });
+    }
+}
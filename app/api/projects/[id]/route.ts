@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { isRecord } from "@/lib/chat/chat-request";
+import { deleteProject, getProject, updateProject } from "@/lib/projects/project-service";
+import type { ProjectInput } from "@/lib/projects/types";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const project = await getProject(userId, id);
+    if (!project) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ project });
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body: unknown = await req.json().catch(() => ({}));
+    if (!isRecord(body)) {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+    const { id } = await params;
+
+    // The project service checks each field's value
+    let project;
+    try {
+        project = await updateProject(userId, id, {
+            name: body.name,
+            indexId: body.indexId,
+            defaultMode: body.defaultMode,
+            defaultTier: body.defaultTier,
+        } as ProjectInput);
+    } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid project" }, { status: 400 });
+    }
+
+    if (!project) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ project });
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteProject(userId, id))) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { isRecord } from "@/lib/chat/chat-request";
+import { getActiveProject, getProject, setActiveProject } from "@/lib/projects/project-service";
+
+export async function GET() {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    return NextResponse.json({ project: await getActiveProject(userId) });
+}
+
+export async function PUT(req: Request) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body: unknown = await req.json().catch(() => ({}));
+    if (!isRecord(body)) {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+    const projectId = typeof body.projectId === "string" ? body.projectId : null;
+
+    if (projectId && !(await getProject(userId, projectId))) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ project: await setActiveProject(userId, projectId) });
+}
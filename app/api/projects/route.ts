@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { isRecord } from "@/lib/chat/chat-request";
+import { createProject, getActiveProject, listProjects, setActiveProject } from "@/lib/projects/project-service";
+import type { ProjectInput } from "@/lib/projects/types";
+
+export async function GET() {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    try {
+        const [projects, active] = await Promise.all([listProjects(userId), getActiveProject(userId)]);
+        return NextResponse.json({ projects, activeProjectId: active?.id ?? null });
+    } catch (error) {
+        console.error("Error listing projects:", error);
+        return NextResponse.json({ error: "An error occurred while listing projects" }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body: unknown = await req.json().catch(() => ({}));
+    if (!isRecord(body)) {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+
+    // The project service checks each field's value
+    let project;
+    try {
+        project = await createProject(userId, {
+            name: body.name,
+            indexId: body.indexId,
+            defaultMode: body.defaultMode,
+            defaultTier: body.defaultTier,
+        } as ProjectInput);
+    } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid project" }, { status: 400 });
+    }
+
+    // New projects become the active workspace unless the caller opts out
+    if (body.activate !== false) {
+        await setActiveProject(userId, project.id);
+    }
+
+    return NextResponse.json({ project }, { status: 201 });
+}
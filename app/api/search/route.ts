@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { searchThreads } from "@/lib/search/thread-search";
+
+const MAX_QUERY_LENGTH = 200;
+
+export async function GET(req: Request) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const query = new URL(req.url).searchParams.get("q")?.trim() ?? "";
+    if (query.length > MAX_QUERY_LENGTH) {
+        return NextResponse.json({ error: `Query must be at most ${MAX_QUERY_LENGTH} characters` }, { status: 400 });
+    }
+
+    try {
+        return NextResponse.json({ results: await searchThreads(userId, query) });
+    } catch (error) {
+        console.error("Error searching threads:", error);
+        return NextResponse.json({ error: "An error occurred while searching threads" }, { status: 500 });
+    }
+}
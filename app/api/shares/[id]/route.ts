@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { revokeShareLink } from "@/lib/sharing/share-service";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const share = await revokeShareLink(userId, id);
+    if (!share) {
+        return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ share });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { exportFileName, exportedBranch, threadToMarkdown, toThreadExport } from "@/lib/threads/thread-export";
+import { getThread } from "@/lib/threads/thread-service";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const thread = await getThread(userId, id);
+    if (!thread) {
+        return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    const url = new URL(req.url);
+    const format = url.searchParams.get("format") ?? "markdown";
+    const branch = url.searchParams.get("branch") ?? undefined;
+    if (branch && !thread.messages.some((message) => message.id === branch)) {
+        return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    // JSON keeps every branch unless one is asked for; Markdown is always a single branch
+    if (format === "json") {
+        return new Response(JSON.stringify(toThreadExport(thread, branch), null, 2), {
+            headers: {
+                "Content-Type": "application/json; charset=utf-8",
+                "Content-Disposition": `attachment; filename="${exportFileName(thread.title, "json")}"`,
+            },
+        });
+    }
+    if (format === "markdown") {
+        return new Response(threadToMarkdown(thread.title, exportedBranch(thread, branch)), {
+            headers: {
+                "Content-Type": "text/markdown; charset=utf-8",
+                "Content-Disposition": `attachment; filename="${exportFileName(thread.title, "md")}"`,
+            },
+        });
+    }
+
+    return NextResponse.json({ error: "format must be markdown or json" }, { status: 400 });
+}
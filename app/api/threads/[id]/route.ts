@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { markThreadDeleted } from "@/lib/agent/audit";
+import { deleteWorkspace } from "@/lib/agent/workspace";
+import { getUserId } from "@/lib/auth/session";
+import { isRecord } from "@/lib/chat/chat-request";
+import { deleteShareLinks } from "@/lib/sharing/share-service";
+import { deleteThread, getThread, renameThread, selectBranch } from "@/lib/threads/thread-service";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const thread = await getThread(userId, id);
+    if (!thread) {
+        return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ thread });
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body: unknown = await req.json().catch(() => ({}));
+    if (!isRecord(body)) {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+    const { id } = await params;
+
+    // Switching branches names any message on the branch to show
+    if (body.activeMessageId !== undefined) {
+        if (typeof body.activeMessageId !== "string") {
+            return NextResponse.json({ error: "activeMessageId must be a message id" }, { status: 400 });
+        }
+        const thread = await selectBranch(userId, id, body.activeMessageId);
+        if (!thread) {
+            return NextResponse.json({ error: "Message not found" }, { status: 404 });
+        }
+        return NextResponse.json({ thread });
+    }
+
+    if (typeof body.title !== "string" || body.title.trim() === "") {
+        return NextResponse.json({ error: "Title is required" }, { status: 400 });
+    }
+
+    const thread = await renameThread(userId, id, body.title);
+    if (!thread) {
+        return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ thread });
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteThread(userId, id))) {
+        return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+    // Links hold a snapshot, so they would otherwise outlive the thread
+    await deleteShareLinks(userId, id);
+    // The tool-call audit log outlives the thread
+    await markThreadDeleted(userId, id);
+    await deleteWorkspace(id);
+
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { isRecord } from "@/lib/chat/chat-request";
+import { CHAT_STREAM_CONTENT_TYPE, encodeChatEvent } from "@/lib/chat/stream";
+import { CODE_RUN_RATE_LIMIT, checkRateLimit, rateLimitHeaders } from "@/lib/rate-limit/rate-limiter";
+import { SandboxBusyError, SandboxUnavailableError, runSnippet } from "@/lib/sandbox/sandbox";
+import { MAX_SNIPPET_LENGTH, SANDBOX_LANGUAGES, hasCodeBlock } from "@/lib/sandbox/snippets";
+import type { CodeRun, RunStreamEvent, SandboxLanguage } from "@/lib/sandbox/types";
+import { newId } from "@/lib/storage/collection";
+import { getThread, recordCodeRun } from "@/lib/threads/thread-service";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Runs one of a reply's code blocks in the sandbox and streams its output.
+ * The finished run is stored on the reply
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body: unknown = await req.json().catch(() => ({}));
+    if (!isRecord(body)) {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+    const { messageId, language, code } = body;
+    if (typeof messageId !== "string" || typeof code !== "string" || !SANDBOX_LANGUAGES.includes(language as SandboxLanguage)) {
+        return NextResponse.json({ error: `Expected messageId, code and a language of ${SANDBOX_LANGUAGES.join(", ")}` }, { status: 400 });
+    }
+    const snippetLanguage = language as SandboxLanguage;
+    if (code.length > MAX_SNIPPET_LENGTH) {
+        return NextResponse.json({ error: `Snippets up to ${MAX_SNIPPET_LENGTH} characters can be run` }, { status: 413 });
+    }
+
+    const { id } = await params;
+    const thread = await getThread(userId, id);
+    if (!thread) {
+        return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+    const message = thread.messages.find((candidate) => candidate.id === messageId && candidate.role === "model");
+    if (!message) {
+        return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+    // Only code the reply shows can be run from it
+    if (!hasCodeBlock(message.content, snippetLanguage, code)) {
+        return NextResponse.json({ error: "The reply has no such code block" }, { status: 400 });
+    }
+
+    const limit = await checkRateLimit(`runs:user:${userId}`, CODE_RUN_RATE_LIMIT);
+    if (!limit.allowed) {
+        return NextResponse.json(
+            { error: `You can run ${limit.limit} snippets per minute. Please wait before running more.`, code: "rate_limited" },
+            { status: 429, headers: rateLimitHeaders(limit) }
+        );
+    }
+
+    const startedAt = new Date().toISOString();
+    return new Response(new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: RunStreamEvent) => {
+                if (!req.signal.aborted) controller.enqueue(encodeChatEvent(event));
+            };
+
+            try {
+                const result = await runSnippet(snippetLanguage, code, {
+                    signal: req.signal,
+                    onOutput: (output) => send({ type: "output", output }),
+                });
+                const run: CodeRun = { id: newId(), language: snippetLanguage, code, startedAt, ...result };
+                await recordCodeRun(userId, id, messageId, run);
+                send({ type: "exit", run });
+            } catch (error) {
+                if (!(error instanceof SandboxUnavailableError) && !(error instanceof SandboxBusyError)) {
+                    console.error("❌ Code run failed:", error);
+                }
+                send({ type: "error", error: error instanceof Error ? error.message : "The snippet could not be run" });
+            } finally {
+                if (!req.signal.aborted) controller.close();
+            }
+        },
+    }), {
+        headers: {
+            "Content-Type": CHAT_STREAM_CONTENT_TYPE,
+            "Cache-Control": "no-cache, no-transform",
+        },
+    });
+}
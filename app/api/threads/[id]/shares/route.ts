@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { isRecord } from "@/lib/chat/chat-request";
+import { createShareLink, listShareLinks } from "@/lib/sharing/share-service";
+import type { ShareInput } from "@/lib/sharing/types";
+import { getThread } from "@/lib/threads/thread-service";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await getThread(userId, id))) {
+        return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ shares: await listShareLinks(userId, id) });
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body: unknown = await req.json().catch(() => ({}));
+    if (!isRecord(body)) {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+    const { id } = await params;
+
+    // The share service checks each option's value
+    let share;
+    try {
+        share = await createShareLink(userId, id, {
+            leafId: body.leafId,
+            expiresInDays: body.expiresInDays,
+            requireAuth: body.requireAuth,
+        } as ShareInput);
+    } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : "Invalid share options" }, { status: 400 });
+    }
+    if (!share) {
+        return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ share }, { status: 201 });
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { listToolCalls } from "@/lib/agent/audit";
+import { getUserId } from "@/lib/auth/session";
+import { getThread } from "@/lib/threads/thread-service";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/** Audit log of the tool calls Agent mode made in a thread, oldest first; kept after the thread is deleted */
+export async function GET(_req: Request, { params }: RouteContext) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const toolCalls = await listToolCalls(userId, id);
+    if (toolCalls.length === 0 && !(await getThread(userId, id))) {
+        return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ toolCalls });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { getActiveProject } from "@/lib/projects/project-service";
+import { validateThreadExport } from "@/lib/threads/thread-export";
+import { importThread } from "@/lib/threads/thread-service";
+
+export async function POST(req: Request) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => undefined);
+    const validation = validateThreadExport(body);
+    if (!validation.isValid) {
+        return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    try {
+        // Imported threads join the project the user is working in, like new ones
+        const project = await getActiveProject(userId);
+        return NextResponse.json({ thread: await importThread(userId, validation.value, project?.id) }, { status: 201 });
+    } catch (error) {
+        console.error("Error importing thread:", error);
+        return NextResponse.json({ error: "An error occurred while importing the thread" }, { status: 500 });
+    }
+}
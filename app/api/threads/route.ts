@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getUserId } from "@/lib/auth/session";
+import { isRecord } from "@/lib/chat/chat-request";
+import { getActiveProject } from "@/lib/projects/project-service";
+import { createThread, listThreads } from "@/lib/threads/thread-service";
+
+export async function GET() {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    try {
+        // The sidebar lists the threads of the project the user is working in
+        const project = await getActiveProject(userId);
+        return NextResponse.json({ threads: await listThreads(userId, { projectId: project?.id ?? null }) });
+    } catch (error) {
+        console.error("Error listing threads:", error);
+        return NextResponse.json({ error: "An error occurred while listing threads" }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const userId = await getUserId();
+    if (!userId) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body: unknown = await req.json().catch(() => ({}));
+    if (!isRecord(body)) {
+        return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+
+    try {
+        const title = typeof body.title === "string" ? body.title : undefined;
+        const project = await getActiveProject(userId);
+        return NextResponse.json({ thread: await createThread(userId, title, project?.id) }, { status: 201 });
+    } catch (error) {
+        console.error("Error creating thread:", error);
+        return NextResponse.json({ error: "An error occurred while creating the thread" }, { status: 500 });
+    }
+}
@@ -1,10 +1,24 @@
 import { currentUser } from "@clerk/nextjs/server";
 import ChatInterface from "@/components/chat-interface";
+import { getThread } from "@/lib/threads/thread-service";
 
-export default async function DashboardPage() {
+export default async function DashboardPage({
+    searchParams,
+}: {
+    searchParams: Promise<{ thread?: string; message?: string }>;
+}) {
     const user = await currentUser();
 
     if (!user) return null;
 
-    return <ChatInterface />;
+    const { thread: threadId, message: messageId } = await searchParams;
+    const thread = threadId ? await getThread(user.id, threadId) : null;
+
+    return (
+        <ChatInterface
+            key={`${thread?.id ?? "new"}:${messageId ?? ""}`}
+            initialThread={thread}
+            focusMessageId={messageId}
+        />
+    );
 }
@@ -0,0 +1,106 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { Code2, FileCode2, Lock, Square } from "lucide-react";
+import AgentSteps from "@/components/agent-steps";
+import FindingsList from "@/components/findings-list";
+import MessageMarkdown from "@/components/message-markdown";
+import { getUserId } from "@/lib/auth/session";
+import { openShareLink } from "@/lib/sharing/share-service";
+
+export const metadata: Metadata = {
+    title: "Shared conversation | CodInspect",
+    // Links are unlisted; keep them out of search results even if one is posted publicly
+    robots: { index: false, follow: false },
+};
+
+const UNAVAILABLE = {
+    not_found: "This link does not exist.",
+    revoked: "The owner has turned this link off.",
+    expired: "This link has expired.",
+} as const;
+
+export default async function SharedThreadPage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params;
+    const access = await openShareLink(token, await getUserId());
+
+    if (access.status !== "ok") {
+        return (
+            <div className="flex flex-col items-center justify-center min-h-screen gap-4 bg-[#FAFAFA] px-6 text-center">
+                <Lock size={20} className="text-[#AAA]" />
+                {access.status === "sign_in" ? (
+                    <>
+                        <p className="text-sm text-[#555]">Sign in to view this conversation.</p>
+                        <Link
+                            href={`/sign-in?redirect_url=${encodeURIComponent(`/share/${token}`)}`}
+                            className="px-5 py-2 rounded-full bg-black text-white text-sm font-medium hover:bg-slate-800 transition-colors"
+                        >
+                            Sign in
+                        </Link>
+                    </>
+                ) : (
+                    <p className="text-sm text-[#555]">{UNAVAILABLE[access.status]}</p>
+                )}
+            </div>
+        );
+    }
+
+    const { share } = access;
+    return (
+        <div className="min-h-screen bg-[#FAFAFA]">
+            <header className="flex items-center justify-between px-6 md:px-10 py-4 border-b border-[#EAEAEA] bg-white">
+                <Link href="/">
+                    <Image src="/logo.png" alt="Logo" width={110} height={30} className="h-8 w-auto" />
+                </Link>
+                <span className="text-[11px] font-semibold uppercase tracking-wider text-[#999]">Read-only</span>
+            </header>
+            <main className="max-w-3xl mx-auto px-6 py-10 space-y-8">
+                <div>
+                    <h1 className="text-2xl font-semibold text-[#111]">{share.title}</h1>
+                    <p className="mt-1 text-xs text-[#999]">
+                        Shared {new Date(share.createdAt).toLocaleDateString()}
+                        {share.expiresAt && ` · expires ${new Date(share.expiresAt).toLocaleDateString()}`}
+                    </p>
+                </div>
+                {share.messages.map((msg) => (
+                    <div key={msg.id} className={`flex w-full ${msg.role === "user" ? "justify-end" : "justify-start"}`}>
+                        <div className={`${msg.role === "user" ? "max-w-[80%]" : "w-full"} rounded-2xl shadow-sm border ${msg.role === "user"
+                            ? "bg-[#F3F4F6] border-transparent text-black px-5 py-3 rounded-br-sm"
+                            : "bg-white border-[#EAEAEA] text-slate-800 px-6 py-5 rounded-bl-sm"
+                            }`}>
+                            {msg.role === "model" && (
+                                <div className="flex items-center gap-2 mb-4 pb-3 border-b border-slate-50">
+                                    <div className="h-6 w-6 rounded-md bg-black text-white flex items-center justify-center shadow-md shadow-green-900/10">
+                                        <Code2 size={14} />
+                                    </div>
+                                    <span className="text-sm font-semibold text-slate-900">CodInspect</span>
+                                </div>
+                            )}
+                            {msg.attachments && msg.attachments.length > 0 && (
+                                <div className="flex flex-wrap gap-1.5 mb-2">
+                                    {msg.attachments.map((attachment) => (
+                                        <span key={attachment.id} className="inline-flex items-center gap-1.5 max-w-[240px] px-2.5 py-1 rounded-lg bg-white border border-[#EAEAEA] text-xs font-medium text-[#555] shadow-sm">
+                                            <FileCode2 size={12} className="flex-shrink-0 text-green-600" />
+                                            <span className="truncate">{attachment.name}</span>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            {msg.attachments && <FindingsList attachments={msg.attachments} />}
+                            {msg.steps && msg.steps.length > 0 && <AgentSteps steps={msg.steps} running={false} />}
+                            <div className={`prose prose-slate max-w-none text-[15px] leading-7 ${msg.role === "user" ? "" : "text-[#333]"}`}>
+                                <MessageMarkdown content={msg.content} />
+                            </div>
+                            {msg.stopped && (
+                                <div className="mt-3 flex items-center gap-1.5 text-[11px] font-medium text-slate-400">
+                                    <Square size={10} fill="currentColor" />
+                                    Stopped
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </main>
+        </div>
+    );
+}
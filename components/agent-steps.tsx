@@ -0,0 +1,99 @@
+"use client";
+
+import { ListChecks, Lock, Pencil, Sparkles, Terminal, Wrench } from "lucide-react";
+import type { AgentStep, ToolCallStep, ToolResultStep } from "@/lib/agent/types";
+
+/**
+ * Plan and tool calls of an Agent reply, each call collapsed with its result.
+ * Shared by ChatInterface and the read-only share page.
+ */
+
+/** Inputs that say what a call is about, in the order they are looked for */
+const KEY_INPUTS = ["command", "path", "pattern", "query"];
+
+/**
+ * @param step - Tool call
+ * @returns Its most telling argument, shown on the collapsed card
+ */
+function keyArgument(step: ToolCallStep): string | undefined {
+    const key = KEY_INPUTS.find((name) => typeof step.input[name] === "string");
+    return key ? step.input[key] as string : undefined;
+}
+
+function formatDuration(ms: number): string {
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function ResultBadge({ result }: { result: ToolResultStep }) {
+    if (result.denied) {
+        return (
+            <span className="flex items-center gap-1 text-[10px] font-bold uppercase text-amber-600">
+                <Lock size={10} /> denied
+            </span>
+        );
+    }
+    return (
+        <span className={`text-[10px] font-bold uppercase ${result.ok ? "text-green-600" : "text-red-500"}`}>
+            {result.ok ? "done" : "failed"}
+        </span>
+    );
+}
+export default function AgentSteps({ steps, running }: { steps: AgentStep[], running: boolean }) {
+    const results = new Map(
+        steps.flatMap((step, i) => step.kind === "tool_result" ? [[i, step] as const] : [])
+    );
+
+    return (
+        <div className="flex flex-col gap-2 mb-5">
+            {steps.map((step, i) => {
+                if (step.kind === "plan") {
+                    return (
+                        <div key={step.id} className="rounded-xl border border-slate-100 bg-slate-50/50 px-4 py-3">
+                            <div className="flex items-center gap-2 text-[11px] font-bold uppercase tracking-wider text-slate-400 mb-2">
+                                <ListChecks size={12} /> Plan
+                            </div>
+                            <ol className="list-decimal list-inside space-y-1 text-sm text-slate-700">
+                                {step.steps.map((item, n) => <li key={n}>{item}</li>)}
+                            </ol>
+                        </div>
+                    );
+                }
+
+                if (step.kind === "tool_result") return null;
+
+                // Tool results directly follow their call
+                const result = results.get(i + 1);
+                const argument = keyArgument(step);
+                return (
+                    <details key={step.id} className="group/step rounded-xl border border-slate-100 bg-white px-4 py-2.5">
+                        <summary className="flex items-center gap-2 cursor-pointer list-none text-sm">
+                            {step.permission === "execute" ? <Terminal size={12} className="text-slate-400" />
+                                : step.permission === "write" ? <Pencil size={12} className="text-slate-400" />
+                                : <Wrench size={12} className="text-slate-400" />}
+                            <span className="font-mono text-[13px] font-semibold text-slate-800">{step.tool}</span>
+                            {argument && (
+                                <span className="max-w-[40%] truncate font-mono text-xs text-slate-500" title={argument}>{argument}</span>
+                            )}
+                            <span className="flex-1 truncate text-xs text-slate-400">{step.thought}</span>
+                            {step.permission && step.permission !== "read" && (
+                                <span className="rounded-full bg-slate-100 px-1.5 py-0.5 text-[10px] font-semibold text-slate-500">{step.permission}</span>
+                            )}
+                            {result?.durationMs !== undefined && !result.denied && (
+                                <span className="text-[10px] text-slate-400">{formatDuration(result.durationMs)}</span>
+                            )}
+                            {result ? (
+                                <ResultBadge result={result} />
+                            ) : running && (
+                                <Sparkles size={12} className="text-green-500 animate-spin" />
+                            )}
+                        </summary>
+                        <pre className="mt-2 text-xs font-mono text-slate-600 whitespace-pre-wrap break-words">{JSON.stringify(step.input, null, 2)}</pre>
+                        {result && (
+                            <pre className="mt-2 max-h-60 overflow-y-auto text-xs font-mono text-slate-500 whitespace-pre-wrap break-words border-t border-slate-50 pt-2">{result.output}</pre>
+                        )}
+                    </details>
+                );
+            })}
+        </div>
+    );
+}
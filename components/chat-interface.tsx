@@ -1,31 +1,130 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { Fragment, useState, useRef, useEffect, useCallback, useMemo } from "react";
+import { useRouter } from "next/navigation";
 import { UserButton, useUser } from "@clerk/nextjs";
 import {
     Send, Plus, Search, History, Settings,
     MessageSquare, ChevronDown, Paperclip,
     Zap, Sparkles, FolderGit2,
-    Code2, Box, ArrowRight, Copy, Check
+    Code2, Box, ArrowRight, Check,
+    Pencil, Trash2, FileCode2, X, Layers, Square,
+    ChevronLeft, ChevronRight, RotateCcw, Download, Upload, Share2,
+    FileDiff, AlertTriangle, ScanSearch, Clock, FilePen, Terminal
 } from "lucide-react";
-import ReactMarkdown from "react-markdown";
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { CHAT_REQUEST_LIMITS, DEFAULT_TOOL_PERMISSIONS, validateChatRequest, type ChatOutput, type ChatRequest, type ChatRequestFieldError } from "@/lib/chat/chat-request";
+import { CHAT_STREAM_CONTENT_TYPE, readChatStream, type ChatStreamEvent } from "@/lib/chat/stream";
+import { MODEL_ERROR_TITLES, ModelError, type ModelErrorKind } from "@/lib/llm/errors";
+import type { Thread, ThreadMessage, ThreadSummary } from "@/lib/threads/types";
+import { activePath, childrenByParent, latestLeaf, pathTo } from "@/lib/threads/thread-tree";
+import { exportFileName, exportedBranch } from "@/lib/threads/thread-export";
+import { downloadFile } from "@/lib/download";
+import type { ThreadSearchResult } from "@/lib/search/thread-search";
+import type { Snippet } from "@/lib/search/snippet";
+import type { AgentStep } from "@/lib/agent/types";
+import type { PatchCheck } from "@/lib/diff/types";
+import type { ReviewReport } from "@/lib/review/types";
+import type { CodeRun, RunStreamEvent, SandboxLanguage } from "@/lib/sandbox/types";
+import type { JobStreamEvent, JobSummary } from "@/lib/jobs/types";
+import type { ModelTier } from "@/lib/llm/types";
+import type { TierModels } from "@/lib/llm/registry";
+import type { AttachmentRef } from "@/lib/attachments/types";
+import type { RepoIndexSummary } from "@/lib/indexing/types";
+import type { Project } from "@/lib/projects/types";
+import type { Plan } from "@/lib/plans/types";
+import { allowsTier, cheapestPlanWith, hasFeature } from "@/lib/plans/plans";
+import type { EditableLayer } from "@/lib/instructions/types";
+import ProjectsPanel from "@/components/projects-panel";
+import InstructionsEditor from "@/components/instructions-editor";
+import { renderThreadHtml } from "@/components/thread-html-export";
+import MessageMarkdown, { type CodeRunner } from "@/components/message-markdown";
+import ReviewView from "@/components/review-view";
+import AgentSteps from "@/components/agent-steps";
+import FindingsList from "@/components/findings-list";
+import SharePanel from "@/components/share-panel";
 
 interface Message {
+    id?: string;
+    parentId?: string | null;
     role: "user" | "model";
     content: string;
+    steps?: AgentStep[];
+    attachments?: AttachmentRef[];
+    stopped?: boolean;
+    patchCheck?: PatchCheck;
+    review?: ReviewReport;
+    runs?: CodeRun[];
 }
 
-export default function ChatInterface() {
+interface PendingAttachment extends AttachmentRef {
+    skippedCount: number;
+}
+
+interface ChatInterfaceProps {
+    initialThread?: Thread | null;
+    focusMessageId?: string;
+}
+
+export default function ChatInterface({ initialThread = null, focusMessageId }: ChatInterfaceProps) {
     const { user } = useUser();
-    const [messages, setMessages] = useState<Message[]>([]);
+    const router = useRouter();
+    // Every branch of the stored thread; `messages` is the branch being shown
+    const [threadMessages, setThreadMessages] = useState<ThreadMessage[]>(initialThread?.messages ?? []);
+    const [messages, setMessages] = useState<Message[]>(() => {
+        if (!initialThread) return [];
+        // A search hit on another branch opens that branch
+        const focused = focusMessageId && initialThread.messages.some((message) => message.id === focusMessageId);
+        return (focused ? pathTo(initialThread.messages, latestLeaf(initialThread.messages, focusMessageId)) : activePath(initialThread)).map(toMessage);
+    });
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editDraft, setEditDraft] = useState("");
+    const branches = useMemo(() => childrenByParent(threadMessages), [threadMessages]);
+    const [exportMenuOpen, setExportMenuOpen] = useState(false);
+    const [shareMenuOpen, setShareMenuOpen] = useState(false);
+    const [threadId, setThreadId] = useState<string | null>(initialThread?.id ?? null);
+    // Leading messages the model only sees as a summary
+    const [summarizedCount, setSummarizedCount] = useState(initialThread?.contextSummary?.messageCount ?? 0);
+    const [threads, setThreads] = useState<ThreadSummary[]>([]);
+    const [searchQuery, setSearchQuery] = useState("");
+    const [searchResults, setSearchResults] = useState<ThreadSearchResult[] | null>(null);
     const [input, setInput] = useState("");
     const [isLoading, setIsLoading] = useState(false);
+    const [isStreaming, setIsStreaming] = useState(false);
     const [mode, setMode] = useState<"Agent" | "Ask">("Ask");
-    const [model, setModel] = useState<"Fast" | "Pro">("Fast");
+    const [output, setOutput] = useState<ChatOutput>("markdown");
+    // Agent requests run as background sessions, which keep going when the tab is closed
+    const [background, setBackground] = useState(false);
+    // Agent tools only read unless editing files or running commands is switched on
+    const [allowWrite, setAllowWrite] = useState(false);
+    const [allowExecute, setAllowExecute] = useState(false);
+    const [model, setModel] = useState<ModelTier>("Fast");
+    const [plan, setPlan] = useState<{ plan: Plan; usage: { agentSessions: number } } | null>(null);
+    const [availableTiers, setAvailableTiers] = useState<TierModels[]>([]);
+    const [modelMenuOpen, setModelMenuOpen] = useState(false);
+    const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+    const [isUploading, setIsUploading] = useState(false);
+    // Upload failures and messages the request contract rejects, shown above the input
+    const [composerError, setComposerError] = useState<string | null>(null);
+    const [indexes, setIndexes] = useState<RepoIndexSummary[]>([]);
+    const [activeIndexId, setActiveIndexId] = useState<string | null>(null);
+    const [indexMenuOpen, setIndexMenuOpen] = useState(false);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [activeProject, setActiveProject] = useState<Project | null>(null);
+    const [sidebarView, setSidebarView] = useState<"threads" | "projects">("threads");
+    const [instructionsLayer, setInstructionsLayer] = useState<EditableLayer | null>(null);
+    const [isIndexing, setIsIndexing] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const archiveInputRef = useRef<HTMLInputElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
+    // Aborts the request in flight; the server keeps whatever was generated
+    const abortRef = useRef<AbortController | null>(null);
+    // The background session being followed; stopping cancels it on the server
+    const jobRef = useRef<string | null>(null);
+    // The code run in progress, shown under its block until it is stored on the message
+    const [liveRun, setLiveRun] = useState<{ messageId: string, run: CodeRun } | null>(null);
+    const runAbortRef = useRef<AbortController | null>(null);
 
     // Auto-resize textarea
     useEffect(() => {
@@ -47,38 +146,611 @@ export default function ChatInterface() {
         scrollToBottom();
     }, [messages]);
 
-    const handleSend = async () => {
-        if (!input.trim() || isLoading) return;
+    const loadThreads = useCallback(async () => {
+        try {
+            const response = await fetch("/api/threads");
+            if (!response.ok) return;
+            const data = await response.json();
+            setThreads(data.threads);
+        } catch (error) {
+            console.error("Error loading threads:", error);
+        }
+    }, []);
 
-        const userMessage = input.trim();
-        setInput("");
-        setMessages((prev) => [...prev, { role: "user", content: userMessage }]);
-        setIsLoading(true);
+    useEffect(() => {
+        loadThreads();
+    }, [loadThreads]);
+
+    const loadProjects = useCallback(async () => {
+        try {
+            const response = await fetch("/api/projects");
+            if (!response.ok) return null;
+            const data = await response.json();
+            const active: Project | null = data.projects.find((project: Project) => project.id === data.activeProjectId) ?? null;
+            setProjects(data.projects);
+            setActiveProject(active);
+            return active;
+        } catch (error) {
+            console.error("Error loading projects:", error);
+            return null;
+        }
+    }, []);
+
+    const loadPlan = useCallback(async () => {
+        try {
+            const response = await fetch("/api/plan");
+            if (!response.ok) return null;
+            const data = await response.json();
+            setPlan(data);
+            return data as { plan: Plan; usage: { agentSessions: number } };
+        } catch (error) {
+            console.error("Error loading plan:", error);
+            return null;
+        }
+    }, []);
 
+    const agentSessionLimit = plan?.plan.limits.agentSessionsPerMonth ?? null;
+    const agentSessionsLeft = plan && agentSessionLimit !== null ? Math.max(0, agentSessionLimit - plan.usage.agentSessions) : null;
+
+    const applyProjectDefaults = (project: Project | null) => {
+        setMode(project?.defaultMode ?? "Ask");
+        if (project) setModel(project.defaultTier);
+        setActiveIndexId(project?.indexId ?? null);
+    };
+
+    // Only offer the models this deployment can actually reach; the active project picks the defaults
+    useEffect(() => {
+        Promise.all([
+            fetch("/api/models").then((response) => response.ok ? response.json() : null),
+            loadProjects(),
+            loadPlan(),
+        ])
+            .then(([data, project, current]) => {
+                if (data) {
+                    setAvailableTiers(data.tiers);
+                    setModel(current && !allowsTier(current.plan, data.defaultTier) ? current.plan.limits.modelTiers[0] : data.defaultTier);
+                }
+                applyProjectDefaults(project);
+            })
+            .catch((error) => console.error("Error loading models:", error));
+    }, [loadProjects, loadPlan]);
+
+    const loadIndexes = useCallback(async () => {
         try {
-            const response = await fetch("/api/chat", {
+            const response = await fetch("/api/indexes");
+            if (!response.ok) return;
+            const data = await response.json();
+            setIndexes(data.indexes);
+        } catch (error) {
+            console.error("Error loading indexes:", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadIndexes();
+    }, [loadIndexes]);
+
+    // Jump to a message opened from search results
+    useEffect(() => {
+        if (!focusMessageId) return;
+        document.getElementById(`message-${focusMessageId}`)?.scrollIntoView({ block: "center" });
+    }, [focusMessageId]);
+
+    // Debounced thread search
+    useEffect(() => {
+        const query = searchQuery.trim();
+        if (!query) {
+            setSearchResults(null);
+            return;
+        }
+
+        const timer = setTimeout(async () => {
+            try {
+                const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
+                if (!response.ok) return;
+                const data = await response.json();
+                setSearchResults(data.results);
+            } catch (error) {
+                console.error("Error searching threads:", error);
+            }
+        }, 250);
+
+        return () => clearTimeout(timer);
+    }, [searchQuery]);
+
+    const handleRenameThread = async (thread: ThreadSummary) => {
+        const title = window.prompt("Rename thread", thread.title);
+        if (!title || title.trim() === "" || title === thread.title) return;
+
+        await fetch(`/api/threads/${thread.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ title }),
+        });
+        loadThreads();
+    };
+
+    const handleDeleteThread = async (thread: ThreadSummary) => {
+        if (!window.confirm(`Delete "${thread.title}"?`)) return;
+
+        await fetch(`/api/threads/${thread.id}`, { method: "DELETE" });
+        if (thread.id === threadId) {
+            router.push("/dashboard");
+        }
+        loadThreads();
+    };
+
+    // Exports cover the branch on screen; messages still waiting for their ids are left out
+    // Exports and share links cover the branch on screen, up to its last stored message
+    const shownLeafId = [...messages].reverse().find((message) => message.id)?.id;
+
+    const handleExport = async (format: "markdown" | "html" | "json" | "json-all") => {
+        setExportMenuOpen(false);
+        if (!threadId) return;
+
+        if (format !== "html") {
+            const branch = format !== "json-all" && shownLeafId ? `&branch=${shownLeafId}` : "";
+            window.location.href = `/api/threads/${threadId}/export?format=${format === "markdown" ? "markdown" : "json"}${branch}`;
+            return;
+        }
+
+        try {
+            const response = await fetch(`/api/threads/${threadId}`);
+            if (!response.ok) throw new Error("The thread could not be loaded");
+            const { thread }: { thread: Thread } = await response.json();
+            const html = await renderThreadHtml(thread.title, exportedBranch(thread, shownLeafId));
+            downloadFile(exportFileName(thread.title, "html"), html, "text/html");
+        } catch (error) {
+            alert(error instanceof Error ? error.message : "Export failed");
+        }
+    };
+
+    const handleImport = async (files: FileList | null) => {
+        const file = files?.[0];
+        if (importInputRef.current) importInputRef.current.value = "";
+        if (!file) return;
+
+        try {
+            const response = await fetch("/api/threads/import", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ message: userMessage, history: messages }),
+                body: await file.text(),
             });
+            const data = await response.json();
+            if (data.error) throw new Error(data.error);
+            loadThreads();
+            router.push(`/dashboard?thread=${data.thread.id}`);
+        } catch (error) {
+            alert(error instanceof Error ? error.message : "Import failed");
+        }
+    };
+
+    const handleSwitchProject = async (projectId: string | null) => {
+        const response = await fetch("/api/projects/active", {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ projectId }),
+        });
+        if (!response.ok) return;
+
+        const project = await loadProjects();
+        applyProjectDefaults(project);
+        loadThreads();
+        if (threadId) router.push("/dashboard");
+    };
 
+    const handleAttach = async (files: FileList | null) => {
+        if (!files || files.length === 0) return;
+
+        const form = new FormData();
+        Array.from(files).forEach((file) => form.append("files", file));
+        setIsUploading(true);
+        setComposerError(null);
+
+        try {
+            const response = await fetch("/api/attachments", { method: "POST", body: form });
             const data = await response.json();
             if (data.error) throw new Error(data.error);
-            setMessages((prev) => [...prev, { role: "model", content: data.text }]);
-        } catch (error: any) {
+            setPendingAttachments((prev) => [...prev, ...data.attachments]);
+        } catch (error) {
+            setComposerError(error instanceof Error ? error.message : "Upload failed");
+        } finally {
+            setIsUploading(false);
+            if (fileInputRef.current) fileInputRef.current.value = "";
+        }
+    };
+
+    const buildIndex = async (source: { path: string } | { attachmentId: string, name: string }) => {
+        setIndexMenuOpen(false);
+        setIsIndexing(true);
+        try {
+            const response = await fetch("/api/indexes", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(source),
+            });
+            const data = await response.json();
+            if (data.error) throw new Error(data.error);
+            setIndexes((prev) => [data.index, ...prev]);
+            setActiveIndexId(data.index.id);
+        } catch (error) {
+            alert(error instanceof Error ? error.message : "Indexing failed");
+        } finally {
+            setIsIndexing(false);
+        }
+    };
+
+    const handleIndexPath = () => {
+        const path = prompt("Path of a local git checkout to index");
+        if (path?.trim()) buildIndex({ path: path.trim() });
+    };
+
+    const handleIndexArchive = async (files: FileList | null) => {
+        const file = files?.[0];
+        if (archiveInputRef.current) archiveInputRef.current.value = "";
+        if (!file) return;
+
+        const form = new FormData();
+        form.append("files", file);
+        setIsIndexing(true);
+        try {
+            const response = await fetch("/api/attachments", { method: "POST", body: form });
+            const data = await response.json();
+            if (data.error) throw new Error(data.error);
+            await buildIndex({ attachmentId: data.attachments[0].id, name: file.name.replace(/\.(zip|tar\.gz|tgz|tar)$/i, "") });
+        } catch (error) {
+            setIsIndexing(false);
+            alert(error instanceof Error ? error.message : "Upload failed");
+        }
+    };
+
+    // Reloads the stored tree once a reply is saved, so new messages get ids and branches
+    const loadThreadMessages = async (id: string) => {
+        try {
+            const response = await fetch(`/api/threads/${id}`);
+            if (!response.ok) return;
+            const { thread }: { thread: Thread } = await response.json();
+            setThreadMessages(thread.messages);
+            setMessages(activePath(thread).map(toMessage));
+        } catch (error) {
+            console.error("Error loading thread:", error);
+        }
+    };
+
+    const handleSend = async () => {
+        if (!input.trim() || isLoading || isUploading) return;
+
+        const attachments = pendingAttachments.map(({ id, name, fileCount }) => ({ id, name, fileCount }));
+        await submit({ message: input.trim(), attachments, parentId: messages[messages.length - 1]?.id }, messages, () => {
+            setInput("");
+            setPendingAttachments([]);
+        });
+    };
+
+    // An edited prompt becomes a sibling of the original, with its own reply
+    const handleEditSubmit = async (original: Message) => {
+        if (!editDraft.trim() || isLoading || !original.id) return;
+
+        const base = messages.slice(0, messages.indexOf(original));
+        await submit({ message: editDraft.trim(), attachments: original.attachments ?? [], parentId: original.parentId ?? null }, base, () => {
+            setEditingId(null);
+        });
+    };
+
+    const handleRegenerate = async (reply: Message) => {
+        const prompt = messages[messages.indexOf(reply) - 1];
+        if (isLoading || !prompt?.id || prompt.role !== "user") return;
+
+        await submit({ message: prompt.content, attachments: prompt.attachments ?? [], parentId: prompt.id, regenerate: true }, messages.slice(0, messages.indexOf(prompt) + 1));
+    };
+
+    // Sibling navigation: show another version of a message and the newest replies under it
+    const switchBranch = async (messageId: string) => {
+        if (!threadId || isLoading) return;
+        setMessages(pathTo(threadMessages, latestLeaf(threadMessages, messageId)).map(toMessage));
+        try {
+            await fetch(`/api/threads/${threadId}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ activeMessageId: messageId }),
+            });
+        } catch (error) {
+            console.error("Error switching branch:", error);
+        }
+    };
+
+    /**
+     * Applies a chat stream's events to the reply below the last message.
+     * The reply bubble appears with the first delta or agent step
+     * @param onThread - Called with the thread the reply is stored in
+     * @returns The event handler and whether the reply has started
+     */
+    const replyUpdater = (onThread: (id: string) => void) => {
+        let started = false;
+        const updateReply = (update: (reply: Message) => Message) => {
+            if (!started) {
+                started = true;
+                setIsStreaming(true);
+                setMessages((prev) => [...prev, update({ role: "model", content: "" })]);
+                return;
+            }
+
+            setMessages((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+        };
+
+        const onEvent = (event: ChatStreamEvent) => {
+            if (event.type === "error") throw chatError(event.error, event.code, event.retryAfter);
+            if (event.type === "start" && event.threadId) onThread(event.threadId);
+            if (event.type === "context") setSummarizedCount(event.summarizedCount);
+            // Sent before the reply starts, so the prompt is still the last message
+            if (event.type === "analysis") {
+                setMessages((prev) => [...prev.slice(0, -1), { ...prev[prev.length - 1], attachments: event.attachments }]);
+            }
+            if (event.type === "delta") {
+                updateReply((reply) => ({ ...reply, content: reply.content + event.text }));
+            }
+            if (event.type === "step") {
+                updateReply((reply) => ({ ...reply, steps: [...(reply.steps ?? []), event.step] }));
+            }
+            if (event.type === "patch") {
+                updateReply((reply) => ({ ...reply, patchCheck: event.check }));
+            }
+            if (event.type === "review") {
+                updateReply((reply) => ({ ...reply, content: event.text, review: event.review }));
+            }
+        };
+
+        return { onEvent, started: () => started };
+    };
+
+    /**
+     * Follows a background session until it finishes, applying its events like a chat stream
+     * @param jobId - Job to follow
+     * @param signal - Stops following; the job keeps running
+     * @param onEvent - Called for every event of the job, from its first
+     * @returns The finished job
+     */
+    const followJob = async (jobId: string, signal: AbortSignal, onEvent: (event: ChatStreamEvent) => void): Promise<JobSummary> => {
+        jobRef.current = jobId;
+        const response = await fetch(`/api/jobs/${jobId}/events`, { signal });
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error ?? "The background session could not be followed");
+        }
+
+        let job: JobSummary | null = null;
+        await readChatStream<JobStreamEvent>(response, (frame) => {
+            if (frame.type === "event") onEvent(frame.event);
+            else job = frame.job;
+        });
+        const finished = job as JobSummary | null;
+        if (!finished || finished.state === "queued" || finished.state === "running") {
+            throw new Error("Lost track of the background session. It is still running; reopen the thread to follow it.");
+        }
+        if (finished.state === "failed") throw new Error(finished.error ?? "The background session failed");
+        return finished;
+    };
+
+    /**
+     * Sends a prompt and streams the reply below the given messages
+     * @param turn - Prompt text, its attachments and the message it follows
+     * @param base - Messages shown above the new turn
+     * @param onAccepted - Called once the request passed validation, to clear the composer
+     */
+    const submit = async (
+        turn: { message: string; attachments: AttachmentRef[]; parentId?: string | null; regenerate?: boolean },
+        base: Message[],
+        onAccepted?: () => void
+    ) => {
+        const { message: userMessage, attachments, parentId, regenerate } = turn;
+        const request: ChatRequest = {
+            message: userMessage,
+            ...(threadId ? { threadId } : {}),
+            // Reviews are single-turn
+            mode: output === "review" ? "Ask" : mode,
+            tier: model,
+            attachmentIds: attachments.map((attachment) => attachment.id),
+            indexId: activeIndexId,
+            stream: true,
+            ...(threadId && parentId !== undefined ? { parentId } : {}),
+            ...(regenerate ? { regenerate } : {}),
+            ...(output !== "markdown" ? { output } : {}),
+            ...(allowWrite || allowExecute ? {
+                toolPermissions: [...DEFAULT_TOOL_PERMISSIONS, ...(allowWrite ? ["write" as const] : []), ...(allowExecute ? ["execute" as const] : [])],
+            } : {}),
+        };
+        const inBackground = background && request.mode === "Agent";
+
+        // Same contract the route enforces, so problems show up before anything is sent
+        const validation = validateChatRequest(request);
+        if (!validation.isValid) {
+            setComposerError(validation.errors[0].message);
+            return;
+        }
+
+        onAccepted?.();
+        setComposerError(null);
+        setMessages(regenerate ? base : [...base, { role: "user", content: userMessage, attachments }]);
+        setIsLoading(true);
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        let savedThreadId = threadId;
+        let answered = false;
+        const reply = replyUpdater((id) => openThread(savedThreadId = id));
+
+        try {
+            const response = await fetch(inBackground ? "/api/jobs" : "/api/chat", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(validation.request),
+                signal: controller.signal,
+            });
+
+            // Errors before the first token still come back as a JSON blob
+            if (!response.headers.get("Content-Type")?.includes(CHAT_STREAM_CONTENT_TYPE)) {
+                const data = await response.json();
+                if (data.fields) throw new Error((data.fields as ChatRequestFieldError[]).map((field) => field.message).join("\n"));
+                if (data.error) throw chatError(data.error, data.code, data.retryAfter);
+                if (data.job) {
+                    const job = await followJob(data.job.id, controller.signal, reply.onEvent);
+                    if (job.state === "cancelled") {
+                        setMessages((prev) => reply.started()
+                            ? [...prev.slice(0, -1), { ...prev[prev.length - 1], stopped: true }]
+                            : [...prev, { role: "model", content: "", stopped: true }]);
+                        return;
+                    }
+                    answered = true;
+                    return;
+                }
+                if (data.threadId) openThread(savedThreadId = data.threadId);
+                if (data.summarizedCount) setSummarizedCount(data.summarizedCount);
+                setMessages((prev) => [...prev, { role: "model", content: data.text, steps: data.steps, patchCheck: data.patchCheck, review: data.review }]);
+                answered = true;
+                return;
+            }
+
+            await readChatStream(response, reply.onEvent);
+            answered = true;
+        } catch (error) {
+            // Keep the partial reply, marked the same way the server stores it
+            if (controller.signal.aborted) {
+                setMessages((prev) => reply.started()
+                    ? [...prev.slice(0, -1), { ...prev[prev.length - 1], stopped: true }]
+                    : [...prev, { role: "model", content: "", stopped: true }]);
+                return;
+            }
+
             console.error("Error:", error);
+            const title = error instanceof ModelError ? MODEL_ERROR_TITLES[error.kind] : "Error";
+            const detail = error instanceof Error && error.message ? error.message : "I encountered an unexpected error. Please try again.";
             setMessages((prev) => [
                 ...prev,
                 {
                     role: "model",
-                    content: `### ⚠️ Error\n${error.message || "I encountered an unexpected error. Please try again."}`
+                    content: `### ⚠️ ${title}\n${detail}`
                 },
             ]);
         } finally {
+            abortRef.current = null;
+            jobRef.current = null;
             setIsLoading(false);
+            setIsStreaming(false);
+            loadThreads();
+            if (mode === "Agent" && output !== "review") loadPlan();
+            // Stopped replies are still being saved and errors are not stored, so both keep their local copy
+            if (savedThreadId && answered) loadThreadMessages(savedThreadId);
+        }
+    };
+
+    // Background sessions outlive the tab that started them; opening their thread follows them again
+    useEffect(() => {
+        if (!threadId) return;
+        let ignore = false;
+
+        (async () => {
+            const response = await fetch(`/api/jobs?threadId=${threadId}`);
+            if (!response.ok) return;
+            const { jobs }: { jobs: JobSummary[] } = await response.json();
+            const job = jobs.find((candidate) => candidate.state === "queued" || candidate.state === "running");
+            if (!job || ignore || abortRef.current) return;
+
+            const controller = new AbortController();
+            abortRef.current = controller;
+            setIsLoading(true);
+            // Events are replayed from the start, so the reply is rebuilt below the stored prompt
+            const reply = replyUpdater(() => undefined);
+            try {
+                await followJob(job.id, controller.signal, reply.onEvent);
+            } catch (error) {
+                if (!controller.signal.aborted) console.error("Error following background session:", error);
+            } finally {
+                abortRef.current = null;
+                jobRef.current = null;
+                setIsLoading(false);
+                setIsStreaming(false);
+                loadThreadMessages(threadId);
+            }
+        })().catch((error) => console.error("Error loading background sessions:", error));
+
+        return () => {
+            ignore = true;
+        };
+    }, [threadId]);
+
+    const handleStop = () => {
+        // Background sessions are cancelled on the server; their stream ends once the worker has stopped
+        if (jobRef.current) {
+            fetch(`/api/jobs/${jobRef.current}/cancel`, { method: "POST" }).catch((error) => console.error("Error cancelling background session:", error));
+            return;
+        }
+        abortRef.current?.abort();
+    };
+
+    /**
+     * Runs a reply's code block in the sandbox, streaming its output under the block
+     * @param messageId - Stored reply the block belongs to
+     * @param language - Language to run it as
+     * @param code - The block's code
+     */
+    const runCode = async (messageId: string, language: SandboxLanguage, code: string) => {
+        if (!threadId || runAbortRef.current) return;
+
+        const controller = new AbortController();
+        runAbortRef.current = controller;
+        let run: CodeRun = { id: "live", language, code, startedAt: new Date().toISOString(), durationMs: 0, output: [], exitCode: null, timedOut: false, truncated: false };
+        const update = (next: CodeRun) => {
+            run = next;
+            setLiveRun({ messageId, run });
+        };
+        update(run);
+
+        try {
+            const response = await fetch(`/api/threads/${threadId}/runs`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ messageId, language, code }),
+                signal: controller.signal,
+            });
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error ?? "The snippet could not be run");
+            }
+
+            await readChatStream<RunStreamEvent>(response, (event) => {
+                if (event.type === "error") throw new Error(event.error);
+                if (event.type === "output") update({ ...run, output: [...run.output, event.output] });
+                if (event.type === "exit") update(event.run);
+            });
+        } catch (error) {
+            // A stopped run was killed on the server; anything else is reported like the snippet's own errors
+            update(controller.signal.aborted
+                ? { ...run, signal: "SIGKILL", durationMs: Date.now() - Date.parse(run.startedAt) }
+                : { ...run, output: [...run.output, { stream: "stderr", text: error instanceof Error ? error.message : String(error) }] });
+        } finally {
+            runAbortRef.current = null;
+            setLiveRun(null);
+            setMessages((prev) => prev.map((msg) => msg.id === messageId ? { ...msg, runs: [...(msg.runs ?? []), run] } : msg));
         }
     };
 
+    const runnerFor = (messageId: string): CodeRunner => ({
+        runFor: (code) => liveRun?.messageId === messageId && liveRun.run.code === code
+            ? liveRun.run
+            : messages.find((msg) => msg.id === messageId)?.runs?.findLast((run) => run.code === code),
+        running: liveRun?.messageId === messageId ? liveRun.run.code : null,
+        disabled: isLoading || liveRun !== null,
+        run: (language, code) => runCode(messageId, language, code),
+        stop: () => runAbortRef.current?.abort(),
+    });
+
+    // Keep the URL pointing at the thread without remounting mid-stream
+    const openThread = (id: string) => {
+        if (id === threadId) return;
+        setThreadId(id);
+        window.history.replaceState(null, "", `/dashboard?thread=${id}`);
+    };
+
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === "Enter" && !e.shiftKey) {
             e.preventDefault();
@@ -88,6 +760,28 @@ export default function ChatInterface() {
 
     return (
         <div className="flex h-screen bg-[#FFFFFF] text-[#111111] font-sans overflow-hidden antialiased relative selection:bg-green-100 selection:text-green-900">
+            <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => handleAttach(e.target.files)}
+            />
+            <input
+                ref={archiveInputRef}
+                type="file"
+                accept=".zip,.tar,.tar.gz,.tgz"
+                className="hidden"
+                onChange={(e) => handleIndexArchive(e.target.files)}
+            />
+
+            {instructionsLayer && (
+                <InstructionsEditor
+                    initialLayer={instructionsLayer}
+                    projectId={activeProject?.id}
+                    onClose={() => setInstructionsLayer(null)}
+                />
+            )}
 
             {/* Background Glow Effects - Refined & Subtler */}
             <div className="absolute top-[-100px] right-[-100px] -z-10 w-[800px] h-[800px] bg-green-200/20 rounded-full blur-[130px] opacity-60 pointer-events-none"></div>
@@ -102,13 +796,13 @@ export default function ChatInterface() {
                 </div>
 
                 <div className="flex flex-col gap-4 w-full">
-                    <NavIcon icon={<Search size={22} />} active label="Search" />
-                    <NavIcon icon={<History size={22} />} label="History" />
-                    <NavIcon icon={<FolderGit2 size={22} />} label="Projects" />
+                    <NavIcon icon={<Search size={22} />} active={sidebarView === "threads"} label="Search" onClick={() => setSidebarView("threads")} />
+                    <NavIcon icon={<History size={22} />} label="History" onClick={() => setSidebarView("threads")} />
+                    <NavIcon icon={<FolderGit2 size={22} />} active={sidebarView === "projects"} label="Projects" onClick={() => setSidebarView("projects")} />
                 </div>
 
                 <div className="mt-auto flex flex-col gap-6 items-center mb-2">
-                    <NavIcon icon={<Settings size={22} />} label="Settings" />
+                    <NavIcon icon={<Settings size={22} />} label="Instructions" onClick={() => setInstructionsLayer("personal")} />
                     <div className="hover:ring-2 ring-slate-100 rounded-full transition-all duration-300 p-0.5 mb-2">
                         {mounted && <UserButton
                             appearance={{
@@ -125,16 +819,19 @@ export default function ChatInterface() {
             {/* 2. Secondary Sidebar - Refined */}
             <div className="w-[300px] bg-[#FCFCFC] border-r border-[#F0F0F0] flex flex-col flex-shrink-0 z-10">
                 <div className="h-[72px] flex items-center justify-between px-5">
-                    <button className="flex items-center gap-2 group">
+                    <button onClick={() => setSidebarView(sidebarView === "projects" ? "threads" : "projects")} className="flex items-center gap-2 group">
                         <div className="flex flex-col items-start">
                             <span className="text-sm font-bold text-[#111] leading-none mb-1 flex items-center gap-1.5">
                                 venom001e
                                 <ChevronDown size={12} className="text-slate-400 group-hover:text-slate-900 transition-colors" />
                             </span>
-                            <span className="text-[10px] font-bold text-green-600 uppercase tracking-widest leading-none">Personal</span>
+                            <span className="text-[10px] font-bold text-green-600 uppercase tracking-widest leading-none truncate max-w-[180px]">{activeProject?.name ?? "Personal"}</span>
                         </div>
                     </button>
-                    <button className="h-8 w-8 flex items-center justify-center bg-white border border-[#EAEAEA] rounded-lg text-slate-500 hover:text-black hover:border-black/20 hover:shadow-sm transition-all">
+                    <button
+                        onClick={() => router.push("/dashboard")}
+                        className="h-8 w-8 flex items-center justify-center bg-white border border-[#EAEAEA] rounded-lg text-slate-500 hover:text-black hover:border-black/20 hover:shadow-sm transition-all"
+                    >
                         <Plus size={18} />
                     </button>
                 </div>
@@ -143,6 +840,8 @@ export default function ChatInterface() {
                     <div className="relative group">
                         <Search className="absolute left-3.5 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-green-600 transition-colors" size={15} />
                         <input
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
                             placeholder="Search threads..."
                             className="w-full bg-[#F5F5F5] border-transparent rounded-xl pl-10 pr-4 py-2.5 text-sm font-medium focus:outline-none focus:bg-white focus:ring-2 focus:ring-green-500/10 focus:border-green-500/20 transition-all border outline-none"
                         />
@@ -150,18 +849,96 @@ export default function ChatInterface() {
                 </div>
 
                 <div className="flex-1 overflow-y-auto px-3 pb-4">
-                    <div className="px-3 py-2 flex items-center justify-between mb-1">
-                        <span className="text-[10px] font-black text-[#999] uppercase tracking-[0.2em]">Recent Activity</span>
-                    </div>
+                    {sidebarView === "projects" ? (
+                        <ProjectsPanel
+                            projects={projects}
+                            activeProject={activeProject}
+                            indexes={indexes}
+                            onSwitch={handleSwitchProject}
+                            onChange={() => loadProjects().then(applyProjectDefaults)}
+                            onEditInstructions={() => setInstructionsLayer("project")}
+                        />
+                    ) : (
+                        <>
+                            <div className="px-3 py-2 flex items-center justify-between mb-1">
+                                <span className="text-[10px] font-black text-[#999] uppercase tracking-[0.2em]">
+                                    {searchResults ? "Search Results" : "Recent Activity"}
+                                </span>
+                                <button
+                                    onClick={() => importInputRef.current?.click()}
+                                    className="text-slate-400 hover:text-black transition-colors"
+                                    aria-label="Import thread"
+                                    title="Import a thread from a JSON export"
+                                >
+                                    <Upload size={12} />
+                                </button>
+                                <input
+                                    ref={importInputRef}
+                                    type="file"
+                                    accept=".json,application/json"
+                                    className="hidden"
+                                    onChange={(e) => handleImport(e.target.files)}
+                                />
+                            </div>
 
-                    {/* Empty State - Better Visuals */}
-                    <div className="mt-16 flex flex-col items-center justify-center px-8 text-center">
-                        <div className="w-12 h-12 bg-[#F5F5F5] rounded-full flex items-center justify-center mb-4">
-                            <MessageSquare size={20} className="text-[#CCC]" />
-                        </div>
-                        <h3 className="text-sm font-semibold text-[#333] mb-1">No threads yet</h3>
-                        <p className="text-xs text-[#999] leading-relaxed">Start a new conversation to see your history here.</p>
-                    </div>
+                            {searchResults ? (
+                                searchResults.length === 0 ? (
+                                    <p className="px-3 py-2 text-xs text-[#999]">No messages match &ldquo;{searchQuery.trim()}&rdquo;.</p>
+                                ) : (
+                                    <div className="flex flex-col gap-1">
+                                        {searchResults.map((result) => (
+                                            <button
+                                                key={result.messageId}
+                                                onClick={() => router.push(`/dashboard?thread=${result.threadId}&message=${result.messageId}`)}
+                                                className="flex flex-col items-start gap-1 px-3 py-2 rounded-lg text-left hover:bg-[#F5F5F5] transition-colors"
+                                            >
+                                                <span className="w-full truncate text-xs font-semibold text-[#333]">{result.threadTitle}</span>
+                                                <span className="text-xs text-[#777] leading-relaxed line-clamp-3">
+                                                    <HighlightedSnippet snippet={result.snippet} />
+                                                </span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )
+                            ) : threads.length === 0 ? (
+                                /* Empty State - Better Visuals */
+                                <div className="mt-16 flex flex-col items-center justify-center px-8 text-center">
+                                    <div className="w-12 h-12 bg-[#F5F5F5] rounded-full flex items-center justify-center mb-4">
+                                        <MessageSquare size={20} className="text-[#CCC]" />
+                                    </div>
+                                    <h3 className="text-sm font-semibold text-[#333] mb-1">No threads yet</h3>
+                                    <p className="text-xs text-[#999] leading-relaxed">Start a new conversation to see your history here.</p>
+                                </div>
+                            ) : (
+                                <div className="flex flex-col gap-0.5">
+                                    {threads.map((thread) => (
+                                        <div
+                                            key={thread.id}
+                                            className={`group/thread flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-colors ${thread.id === threadId ? "bg-[#F0F0F0] text-black" : "text-[#555] hover:bg-[#F5F5F5]"}`}
+                                            onClick={() => router.push(`/dashboard?thread=${thread.id}`)}
+                                        >
+                                            <MessageSquare size={14} className="flex-shrink-0 text-[#AAA]" />
+                                            <span className="flex-1 truncate text-sm font-medium">{thread.title}</span>
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); handleRenameThread(thread); }}
+                                                className="opacity-0 group-hover/thread:opacity-100 text-slate-400 hover:text-black transition-opacity"
+                                                aria-label="Rename thread"
+                                            >
+                                                <Pencil size={12} />
+                                            </button>
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); handleDeleteThread(thread); }}
+                                                className="opacity-0 group-hover/thread:opacity-100 text-slate-400 hover:text-red-600 transition-opacity"
+                                                aria-label="Delete thread"
+                                            >
+                                                <Trash2 size={12} />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
                 </div>
             </div>
 
@@ -194,13 +971,23 @@ export default function ChatInterface() {
                             {/* Input Box - The Centerpiece */}
                             <div className="w-full relative group">
                                 <div className="absolute -inset-1 bg-gradient-to-r from-green-100 via-blue-50 to-purple-50 rounded-2xl opacity-0 group-hover:opacity-100 transition duration-500 blur-xl"></div>
-                                <div className="relative w-full bg-white border border-[#EAEAEA] rounded-2xl shadow-[0_4px_20px_rgba(0,0,0,0.03)] focus-within:shadow-[0_8px_30px_rgba(0,0,0,0.08)] focus-within:border-black/10 transition-all duration-300 overflow-hidden">
+                                <div className="relative w-full bg-white border border-[#EAEAEA] rounded-2xl shadow-[0_4px_20px_rgba(0,0,0,0.03)] focus-within:shadow-[0_8px_30px_rgba(0,0,0,0.08)] focus-within:border-black/10 transition-all duration-300">
+                                    <div className="px-4 pt-3 empty:hidden">
+                                        {(pendingAttachments.length > 0 || composerError) && (
+                                            <PendingAttachments
+                                                attachments={pendingAttachments}
+                                                error={composerError}
+                                                onRemove={(id) => setPendingAttachments((prev) => prev.filter((a) => a.id !== id))}
+                                            />
+                                        )}
+                                    </div>
                                     <textarea
                                         ref={textareaRef}
                                         value={input}
+                                        maxLength={CHAT_REQUEST_LIMITS.maxMessageLength}
                                         onChange={(e) => setInput(e.target.value)}
                                         onKeyDown={handleKeyDown}
-                                        placeholder="Ask a question or generate code..."
+                                        placeholder={output === "review" ? "Paste a diff to review, or attach a .patch file..." : "Ask a question or generate code..."}
                                         className="w-full bg-transparent text-[#111111] placeholder:text-[#A0A0A0] text-[15px] px-5 py-4 resize-none outline-none min-h-[100px] leading-relaxed font-medium transition-all"
                                         rows={1}
                                     />
@@ -208,18 +995,99 @@ export default function ChatInterface() {
                                     {/* Toolbar */}
                                     <div className="flex items-center justify-between px-3 pb-3 pt-2 bg-gradient-to-b from-transparent to-white/50">
                                         <div className="flex items-center gap-2">
+                                            <div className="relative">
+                                                <button
+                                                    onClick={() => setModelMenuOpen(!modelMenuOpen)}
+                                                    className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg bg-[#F5F5F5] hover:bg-[#EAEAEA] text-xs font-semibold text-[#555] transition-colors border border-transparent hover:border-[#DDD]"
+                                                >
+                                                    <Zap size={12} className={model === "Fast" ? "text-amber-500 fill-amber-500" : "text-[#999]"} />
+                                                    {model}
+                                                    <ChevronDown size={12} className="opacity-40" />
+                                                </button>
+                                                {modelMenuOpen && (
+                                                    <div className="absolute left-0 top-[calc(100%+6px)] z-30 w-64 bg-white border border-[#EAEAEA] rounded-xl shadow-[0_8px_30px_rgba(0,0,0,0.08)] p-1.5">
+                                                        {availableTiers.map(({ tier, models }) => {
+                                                            const locked = plan !== null && !allowsTier(plan.plan, tier);
+                                                            return (
+                                                                <button
+                                                                    key={tier}
+                                                                    disabled={models.length === 0 || locked}
+                                                                    onClick={() => { setModel(tier); setModelMenuOpen(false); }}
+                                                                    className={`w-full flex flex-col items-start gap-0.5 px-3 py-2 rounded-lg text-left transition-colors disabled:opacity-40 ${tier === model ? "bg-[#F5F5F5]" : "hover:bg-[#F9F9F9]"}`}
+                                                                >
+                                                                    <span className="text-xs font-semibold text-[#111]">{tier}</span>
+                                                                    <span className="text-[11px] text-[#999] truncate w-full">
+                                                                        {locked
+                                                                            ? `Available on ${cheapestPlanWith((candidate) => allowsTier(candidate, tier))?.name ?? "a higher plan"}`
+                                                                            : models.length > 0 ? models.map((m) => m.label).join(" → ") : "No models available"}
+                                                                    </span>
+                                                                </button>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                )}
+                                            </div>
                                             <button
-                                                onClick={() => setModel(model === "Fast" ? "Pro" : "Fast")}
-                                                className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg bg-[#F5F5F5] hover:bg-[#EAEAEA] text-xs font-semibold text-[#555] transition-colors border border-transparent hover:border-[#DDD]"
+                                                onClick={() => setMode(mode === "Ask" ? "Agent" : "Ask")}
+                                                disabled={output === "review"}
+                                                title={output === "review" ? "Reviews run in Ask mode" : agentSessionsLeft !== null ? `${agentSessionsLeft} Agent sessions left this month` : undefined}
+                                                className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg bg-[#F5F5F5] hover:bg-[#EAEAEA] text-xs font-semibold text-[#555] transition-colors border border-transparent hover:border-[#DDD] disabled:opacity-40"
                                             >
-                                                <Zap size={12} className={model === "Fast" ? "text-amber-500 fill-amber-500" : "text-[#999]"} />
-                                                {model}
-                                                <ChevronDown size={12} className="opacity-40" />
+                                                {mode === "Agent" ? <Code2 size={12} className="text-green-600" /> : <MessageSquare size={12} className="text-[#999]" />}
+                                                {mode}
+                                                {mode === "Agent" && agentSessionsLeft !== null && (
+                                                    <span className={`font-medium ${agentSessionsLeft === 0 ? "text-red-500" : "text-[#999]"}`}>{agentSessionsLeft} left</span>
+                                                )}
                                             </button>
+                                            {mode === "Agent" && output !== "review" && (
+                                                <OutputToggle
+                                                    active={background}
+                                                    icon={Clock}
+                                                    label="Background"
+                                                    title="Run as a background session that keeps going after you close this tab"
+                                                    onClick={() => setBackground(!background)}
+                                                />
+                                            )}
+                                            {mode === "Agent" && output !== "review" && (
+                                                <OutputToggle
+                                                    active={allowWrite}
+                                                    icon={FilePen}
+                                                    label="Edit files"
+                                                    title="Let the agent write files in this thread's workspace"
+                                                    onClick={() => setAllowWrite(!allowWrite)}
+                                                />
+                                            )}
+                                            {mode === "Agent" && output !== "review" && plan && hasFeature(plan.plan, "agent_commands") && (
+                                                <OutputToggle
+                                                    active={allowExecute}
+                                                    icon={Terminal}
+                                                    label="Commands"
+                                                    title="Let the agent run shell commands in this thread's workspace, in the code sandbox"
+                                                    onClick={() => setAllowExecute(!allowExecute)}
+                                                />
+                                            )}
+                                            <OutputToggle
+                                                active={output === "diff"}
+                                                icon={FileDiff}
+                                                label="Diff"
+                                                title="Ask for unified diffs against your files instead of whole files"
+                                                onClick={() => setOutput(output === "diff" ? "markdown" : "diff")}
+                                            />
+                                            <OutputToggle
+                                                active={output === "review"}
+                                                icon={ScanSearch}
+                                                label="Review"
+                                                title="Review a pasted diff or an attached .patch file"
+                                                onClick={() => setOutput(output === "review" ? "markdown" : "review")}
+                                            />
                                             <div className="w-px h-4 bg-slate-200 mx-1"></div>
-                                            <button className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg hover:bg-[#F5F5F5] text-xs font-medium text-[#666] transition-colors">
-                                                <Paperclip size={14} />
-                                                Add Context
+                                            <button
+                                                onClick={() => fileInputRef.current?.click()}
+                                                disabled={isUploading}
+                                                className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg hover:bg-[#F5F5F5] text-xs font-medium text-[#666] transition-colors disabled:opacity-50"
+                                            >
+                                                <Paperclip size={14} className={isUploading ? "animate-pulse" : ""} />
+                                                {isUploading ? "Uploading..." : "Add Context"}
                                             </button>
                                         </div>
 
@@ -238,8 +1106,51 @@ export default function ChatInterface() {
                                 <div className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-100 rounded-full shadow-sm">
                                     <Code2 size={12} /> Agent Mode
                                 </div>
-                                <div className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-100 rounded-full shadow-sm">
-                                    <FolderGit2 size={12} /> RAG Enabled
+                                <div className="relative">
+                                    <button
+                                        onClick={() => setIndexMenuOpen(!indexMenuOpen)}
+                                        disabled={isIndexing}
+                                        className={`flex items-center gap-1.5 px-3 py-1.5 bg-white border rounded-full shadow-sm transition-colors hover:border-slate-300 ${activeIndexId ? "border-green-200 text-green-700" : "border-slate-100"}`}
+                                    >
+                                        <FolderGit2 size={12} className={isIndexing ? "animate-pulse" : ""} />
+                                        {isIndexing
+                                            ? "Indexing..."
+                                            : activeIndexId
+                                                ? `RAG: ${indexes.find((index) => index.id === activeIndexId)?.name ?? "Repository"}`
+                                                : "RAG Off"}
+                                    </button>
+                                    {indexMenuOpen && (
+                                        <div className="absolute left-0 bottom-[calc(100%+6px)] z-30 w-72 bg-white border border-[#EAEAEA] rounded-xl shadow-[0_8px_30px_rgba(0,0,0,0.08)] p-1.5 text-left">
+                                            <button
+                                                onClick={() => { setActiveIndexId(null); setIndexMenuOpen(false); }}
+                                                className={`w-full px-3 py-2 rounded-lg text-xs font-semibold text-[#111] text-left transition-colors ${!activeIndexId ? "bg-[#F5F5F5]" : "hover:bg-[#F9F9F9]"}`}
+                                            >
+                                                No repository
+                                            </button>
+                                            {indexes.map((index) => (
+                                                <button
+                                                    key={index.id}
+                                                    onClick={() => { setActiveIndexId(index.id); setIndexMenuOpen(false); }}
+                                                    className={`w-full flex flex-col items-start gap-0.5 px-3 py-2 rounded-lg text-left transition-colors ${index.id === activeIndexId ? "bg-[#F5F5F5]" : "hover:bg-[#F9F9F9]"}`}
+                                                >
+                                                    <span className="text-xs font-semibold text-[#111] truncate w-full">{index.name}</span>
+                                                    <span className="text-[11px] text-[#999]">
+                                                        {index.fileCount} files · {index.chunkCount} chunks · {index.embeddingModel ? "hybrid" : "lexical"}
+                                                    </span>
+                                                </button>
+                                            ))}
+                                            <div className="h-px bg-[#F0F0F0] my-1"></div>
+                                            <button onClick={handleIndexPath} className="w-full px-3 py-2 rounded-lg text-xs font-medium text-[#555] text-left hover:bg-[#F9F9F9]">
+                                                Index a local checkout…
+                                            </button>
+                                            <button
+                                                onClick={() => { setIndexMenuOpen(false); archiveInputRef.current?.click(); }}
+                                                className="w-full px-3 py-2 rounded-lg text-xs font-medium text-[#555] text-left hover:bg-[#F9F9F9]"
+                                            >
+                                                Index an uploaded archive…
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
 
@@ -247,68 +1158,116 @@ export default function ChatInterface() {
                     ) : (
                         /* Chat View */
                         <div className="flex flex-col h-full w-full">
+                            {threadId && (
+                                <div className="absolute top-4 right-6 z-20 flex items-start gap-2">
+                                    <div className="relative">
+                                        <button
+                                            onClick={() => { setShareMenuOpen(!shareMenuOpen); setExportMenuOpen(false); }}
+                                            className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg bg-white border border-[#EAEAEA] text-xs font-semibold text-[#555] hover:border-black/20 hover:shadow-sm transition-all"
+                                        >
+                                            <Share2 size={12} />
+                                            Share
+                                        </button>
+                                        {shareMenuOpen && (
+                                            <div className="absolute right-0 top-[calc(100%+6px)] z-30 w-80 bg-white border border-[#EAEAEA] rounded-xl shadow-[0_8px_30px_rgba(0,0,0,0.08)] p-1.5">
+                                                <SharePanel threadId={threadId} leafId={shownLeafId} />
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div className="relative">
+                                        <button
+                                            onClick={() => { setExportMenuOpen(!exportMenuOpen); setShareMenuOpen(false); }}
+                                            className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg bg-white border border-[#EAEAEA] text-xs font-semibold text-[#555] hover:border-black/20 hover:shadow-sm transition-all"
+                                        >
+                                            <Download size={12} />
+                                            Export
+                                        </button>
+                                        {exportMenuOpen && (
+                                            <div className="absolute right-0 top-[calc(100%+6px)] z-30 w-56 bg-white border border-[#EAEAEA] rounded-xl shadow-[0_8px_30px_rgba(0,0,0,0.08)] p-1.5">
+                                                {([
+                                                    ["markdown", "Markdown", "This branch, for docs and PRs"],
+                                                    ["html", "HTML", "This branch, as a standalone page"],
+                                                    ["json", "JSON", "This branch, for import"],
+                                                    ["json-all", "JSON, all branches", "The whole thread, for import"],
+                                                ] as const).map(([format, label, description]) => (
+                                                    <button
+                                                        key={format}
+                                                        onClick={() => handleExport(format)}
+                                                        className="w-full flex flex-col items-start gap-0.5 px-3 py-2 rounded-lg text-left hover:bg-[#F9F9F9] transition-colors"
+                                                    >
+                                                        <span className="text-xs font-semibold text-[#111]">{label}</span>
+                                                        <span className="text-[11px] text-[#999]">{description}</span>
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
                             <div className="flex-1 overflow-y-auto p-6 md:p-8 space-y-8 scroll-smooth pb-32">
                                 {messages.map((msg, idx) => (
-                                    <div key={idx} className={`flex gap-4 w-full ${msg.role === "user" ? "justify-end" : "justify-start"} animate-in fade-in slide-in-from-bottom-4 duration-500`}>
-                                        <div className={`${msg.role === "user" ? "max-w-[80%]" : "w-full"} rounded-2xl shadow-sm border ${msg.role === "user"
-                                            ? "bg-[#F3F4F6] border-transparent text-black px-5 py-3 rounded-br-sm"
-                                            : "bg-white border-[#EAEAEA] text-slate-800 px-6 py-5 rounded-bl-sm"
-                                            }`}>
-                                            {msg.role === "model" && (
-                                                <div className="flex items-center gap-2 mb-4 pb-3 border-b border-slate-50">
-                                                    <div className="h-6 w-6 rounded-md bg-black text-white flex items-center justify-center shadow-md shadow-green-900/10">
-                                                        <Code2 size={14} />
+                                    <Fragment key={msg.id ?? idx}>
+                                        <div id={msg.id ? `message-${msg.id}` : undefined} className={`flex gap-4 w-full ${msg.role === "user" ? "justify-end" : "justify-start"} animate-in fade-in slide-in-from-bottom-4 duration-500`}>
+                                            <div className={`${msg.role === "user" ? "max-w-[80%]" : "w-full"} rounded-2xl shadow-sm border ${msg.id && msg.id === focusMessageId ? "ring-2 ring-green-500/30" : ""} ${msg.role === "user"
+                                                ? "bg-[#F3F4F6] border-transparent text-black px-5 py-3 rounded-br-sm"
+                                                : "bg-white border-[#EAEAEA] text-slate-800 px-6 py-5 rounded-bl-sm"
+                                                }`}>
+                                                {msg.role === "model" && (
+                                                    <div className="flex items-center gap-2 mb-4 pb-3 border-b border-slate-50">
+                                                        <div className="h-6 w-6 rounded-md bg-black text-white flex items-center justify-center shadow-md shadow-green-900/10">
+                                                            <Code2 size={14} />
+                                                        </div>
+                                                        <span className="text-sm font-semibold text-slate-900">CodInspect</span>
+                                                        <span className="text-[10px] bg-slate-100 px-1.5 py-0.5 rounded text-slate-500 font-medium tracking-tight">AI ENGINEER</span>
+                                                    </div>
+                                                )}
+                                                {msg.attachments && msg.attachments.length > 0 && (
+                                                    <div className="flex flex-wrap gap-1.5 mb-2">
+                                                        {msg.attachments.map((attachment) => (
+                                                            <AttachmentChip key={attachment.id} attachment={attachment} />
+                                                        ))}
                                                     </div>
-                                                    <span className="text-sm font-semibold text-slate-900">CodInspect</span>
-                                                    <span className="text-[10px] bg-slate-100 px-1.5 py-0.5 rounded text-slate-500 font-medium tracking-tight">AI ENGINEER</span>
+                                                )}
+                                                {msg.attachments && <FindingsList attachments={msg.attachments} />}
+                                                {msg.steps && msg.steps.length > 0 && (
+                                                    <AgentSteps steps={msg.steps} running={isLoading && idx === messages.length - 1} />
+                                                )}
+                                                {editingId === msg.id && (
+                                                    <MessageEditor
+                                                        value={editDraft}
+                                                        onChange={setEditDraft}
+                                                        onCancel={() => setEditingId(null)}
+                                                        onSubmit={() => handleEditSubmit(msg)}
+                                                    />
+                                                )}
+                                                <div className={`prose prose-slate max-w-none text-[15px] leading-7 ${msg.role === "user" ? "" : "text-[#333]"} ${editingId === msg.id ? "hidden" : ""}`}>
+                                                    {msg.review
+                                                        ? <ReviewView report={msg.review} />
+                                                        : <MessageMarkdown content={msg.content} runner={msg.role === "model" && msg.id && threadId ? runnerFor(msg.id) : undefined} />}
                                                 </div>
-                                            )}
-                                            <div className={`prose prose-slate max-w-none text-[15px] leading-7 ${msg.role === "user" ? "" : "text-[#333]"}`}>
-                                                <ReactMarkdown
-                                                    components={{
-                                                        code({ node, inline, className, children, ...props }: any) {
-                                                            const match = /language-(\w+)/.exec(className || '')
-                                                            return !inline && match ? (
-                                                                <div className="rounded-xl overflow-hidden border border-slate-100 my-6 shadow-sm group/code">
-                                                                    <div className="bg-slate-50/50 backdrop-blur-sm px-4 py-2 border-b border-slate-100 flex justify-between items-center text-[11px] text-slate-400 font-bold uppercase tracking-wider">
-                                                                        <span className="font-mono">{match[1]}</span>
-                                                                        <button className="flex items-center gap-1.5 hover:text-slate-900 transition-colors">
-                                                                            <Copy size={12} /> Copy
-                                                                        </button>
-                                                                    </div>
-                                                                    <div className="overflow-x-auto custom-scrollbar">
-                                                                        <SyntaxHighlighter
-                                                                            style={oneLight}
-                                                                            language={match[1]}
-                                                                            PreTag="div"
-                                                                            customStyle={{
-                                                                                margin: 0,
-                                                                                padding: '1.5rem',
-                                                                                fontSize: '0.85rem',
-                                                                                backgroundColor: '#ffffff',
-                                                                                lineHeight: '1.6'
-                                                                            }}
-                                                                            {...props}
-                                                                        >
-                                                                            {String(children).replace(/\n$/, '')}
-                                                                        </SyntaxHighlighter>
-                                                                    </div>
-                                                                </div>
-                                                            ) : (
-                                                                <code className={`${className} bg-slate-100/50 px-1.5 py-0.5 rounded text-[13px] font-mono text-slate-700 border border-slate-200/50`} {...props}>
-                                                                    {children}
-                                                                </code>
-                                                            )
-                                                        }
-                                                    }}
-                                                >
-                                                    {msg.content}
-                                                </ReactMarkdown>
+                                                {msg.patchCheck && <PatchCheckNote check={msg.patchCheck} />}
+                                                {msg.stopped && (
+                                                    <div className="mt-3 flex items-center gap-1.5 text-[11px] font-medium text-slate-400">
+                                                        <Square size={10} fill="currentColor" />
+                                                        Stopped
+                                                    </div>
+                                                )}
+                                                {msg.id && editingId !== msg.id && (
+                                                    <MessageActions
+                                                        siblings={branches.get(msg.parentId ?? null) ?? []}
+                                                        messageId={msg.id}
+                                                        disabled={isLoading}
+                                                        onSwitch={switchBranch}
+                                                        onEdit={msg.role === "user" ? () => { setEditingId(msg.id ?? null); setEditDraft(msg.content); } : undefined}
+                                                        onRegenerate={msg.role === "model" && messages[idx - 1]?.role === "user" ? () => handleRegenerate(msg) : undefined}
+                                                    />
+                                                )}
                                             </div>
                                         </div>
-                                    </div>
+                                        {idx === summarizedCount - 1 && idx < messages.length - 1 && <ContextDivider count={summarizedCount} />}
+                                    </Fragment>
                                 ))}
-                                {isLoading && (
+                                {isLoading && !isStreaming && (
                                     <div className="flex gap-4 px-0 max-w-[85%]">
                                         <div className="h-8 w-8 rounded-xl bg-white border border-slate-100 flex items-center justify-center shadow-sm">
                                             <Sparkles size={16} className="text-green-500 animate-spin" />
@@ -324,25 +1283,50 @@ export default function ChatInterface() {
                             {/* Bottom Bar - Floating Glass */}
                             <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-white via-white/95 to-transparent z-20">
                                 <div className="max-w-3xl mx-auto">
+                                    <PendingAttachments
+                                        attachments={pendingAttachments}
+                                        error={composerError}
+                                        onRemove={(id) => setPendingAttachments((prev) => prev.filter((a) => a.id !== id))}
+                                    />
                                     <div className="flex gap-3 p-1.5 bg-white border border-slate-200 rounded-2xl shadow-[0_10px_40px_-10px_rgba(0,0,0,0.1)] focus-within:ring-2 ring-slate-100 transition-all">
+                                        <button
+                                            onClick={() => fileInputRef.current?.click()}
+                                            disabled={isUploading}
+                                            aria-label="Attach files"
+                                            className="h-10 w-10 flex items-center justify-center rounded-xl text-slate-400 hover:text-black hover:bg-[#F5F5F5] disabled:opacity-50 transition-all"
+                                        >
+                                            <Paperclip size={16} className={isUploading ? "animate-pulse" : ""} />
+                                        </button>
                                         <div className="flex-1 relative flex items-center">
                                             <textarea
                                                 ref={textareaRef}
                                                 value={input}
+                                                maxLength={CHAT_REQUEST_LIMITS.maxMessageLength}
                                                 onChange={(e) => setInput(e.target.value)}
                                                 onKeyDown={handleKeyDown}
-                                                placeholder="Ask a follow-up..."
+                                                placeholder={output === "review" ? "Paste another diff to review..." : "Ask a follow-up..."}
                                                 className="w-full bg-transparent outline-none text-[15px] placeholder:text-slate-400 px-4 py-3 resize-none max-h-40 min-h-[44px] transition-all"
                                                 rows={1}
                                             />
                                         </div>
-                                        <button
-                                            onClick={handleSend}
-                                            disabled={!input.trim() || isLoading}
-                                            className="h-10 w-10 flex items-center justify-center rounded-xl bg-black text-white hover:bg-slate-800 disabled:opacity-20 transition-all shadow-lg shadow-black/5 active:scale-95"
-                                        >
-                                            <ArrowRight size={18} strokeWidth={2.5} />
-                                        </button>
+                                        {isLoading ? (
+                                            <button
+                                                onClick={handleStop}
+                                                aria-label="Stop generating"
+                                                title="Stop generating"
+                                                className="h-10 w-10 flex items-center justify-center rounded-xl bg-black text-white hover:bg-slate-800 transition-all shadow-lg shadow-black/5 active:scale-95"
+                                            >
+                                                <Square size={14} fill="currentColor" />
+                                            </button>
+                                        ) : (
+                                            <button
+                                                onClick={handleSend}
+                                                disabled={!input.trim()}
+                                                className="h-10 w-10 flex items-center justify-center rounded-xl bg-black text-white hover:bg-slate-800 disabled:opacity-20 transition-all shadow-lg shadow-black/5 active:scale-95"
+                                            >
+                                                <ArrowRight size={18} strokeWidth={2.5} />
+                                            </button>
+                                        )}
                                     </div>
                                     <div className="text-center mt-3 text-[10px] text-slate-400 font-semibold tracking-wide uppercase opacity-70">
                                         CodInspect Agent Beta • AI can produce inaccurate code
@@ -357,13 +1341,13 @@ export default function ChatInterface() {
     );
 }
 
-function NavIcon({ icon, active = false, label }: { icon: React.ReactNode, active?: boolean, label?: string }) {
+function NavIcon({ icon, active = false, label, onClick }: { icon: React.ReactNode, active?: boolean, label?: string, onClick?: () => void }) {
     return (
         <div className="group relative flex items-center justify-center w-full px-2">
             {active && (
                 <div className="absolute left-0 w-1 h-6 bg-[#111] rounded-r-full" />
             )}
-            <button className={`p-2.5 rounded-xl transition-all duration-200 flex items-center justify-center w-full ${active
+            <button onClick={onClick} className={`p-2.5 rounded-xl transition-all duration-200 flex items-center justify-center w-full ${active
                 ? "text-black bg-[#F5F5F5]"
                 : "text-slate-400 hover:text-black hover:bg-[#F5F5F5]"
                 }`}>
@@ -377,3 +1361,220 @@ function NavIcon({ icon, active = false, label }: { icon: React.ReactNode, activ
         </div>
     );
 }
+
+function HighlightedSnippet({ snippet }: { snippet: Snippet }) {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    snippet.highlights.forEach(([start, end], i) => {
+        if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+        parts.push(
+            <mark key={i} className="bg-green-100 text-green-900 rounded-sm px-0.5">
+                {snippet.text.slice(start, end)}
+            </mark>
+        );
+        cursor = end;
+    });
+    parts.push(snippet.text.slice(cursor));
+
+    return <>{parts}</>;
+}
+
+function AttachmentChip({ attachment, onRemove }: { attachment: AttachmentRef, onRemove?: () => void }) {
+    return (
+        <span className="inline-flex items-center gap-1.5 max-w-[240px] px-2.5 py-1 rounded-lg bg-white border border-[#EAEAEA] text-xs font-medium text-[#555] shadow-sm">
+            <FileCode2 size={12} className="flex-shrink-0 text-green-600" />
+            <span className="truncate">{attachment.name}</span>
+            {attachment.fileCount !== 1 && (
+                <span className="flex-shrink-0 text-[#999]">{attachment.fileCount} files</span>
+            )}
+            {attachment.omitted ? (
+                <span className="flex-shrink-0 text-amber-600" title="Left out to fit the context window">−{attachment.omitted}</span>
+            ) : null}
+            {onRemove && (
+                <button onClick={onRemove} aria-label={`Remove ${attachment.name}`} className="flex-shrink-0 text-[#AAA] hover:text-black">
+                    <X size={12} />
+                </button>
+            )}
+        </span>
+    );
+}
+
+function PendingAttachments({ attachments, error, onRemove }: {
+    attachments: PendingAttachment[],
+    error: string | null,
+    onRemove: (id: string) => void
+}) {
+    if (attachments.length === 0 && !error) return null;
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5 mb-2">
+            {attachments.map((attachment) => (
+                <span key={attachment.id} title={attachment.skippedCount ? `${attachment.skippedCount} binary or vendored files skipped` : undefined}>
+                    <AttachmentChip attachment={attachment} onRemove={() => onRemove(attachment.id)} />
+                </span>
+            ))}
+            {error && <span className="text-xs text-red-500">{error}</span>}
+        </div>
+    );
+}
+
+/** Server errors with a model error code keep it so the chat can title them */
+function chatError(message: string, code?: string, retryAfter?: number): Error {
+    return code && code in MODEL_ERROR_TITLES
+        ? new ModelError(code as ModelErrorKind, message, retryAfter ? retryAfter * 1000 : undefined)
+        : new Error(message);
+}
+
+function toMessage({ id, parentId, role, content, steps, attachments, stopped, patchCheck, review, runs }: ThreadMessage): Message {
+    return { id, parentId, role, content, steps, attachments, stopped, patchCheck, review, runs };
+}
+
+function OutputToggle({ active, icon: Icon, label, title, onClick }: {
+    active: boolean,
+    icon: React.ComponentType<{ size?: number, className?: string }>,
+    label: string,
+    title: string,
+    onClick: () => void,
+}) {
+    return (
+        <button
+            onClick={onClick}
+            title={title}
+            className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-semibold transition-colors border ${active
+                ? "bg-green-50 text-green-700 border-green-200"
+                : "bg-[#F5F5F5] hover:bg-[#EAEAEA] text-[#555] border-transparent hover:border-[#DDD]"
+                }`}
+        >
+            <Icon size={12} className={active ? "text-green-600" : "text-[#999]"} />
+            {label}
+        </button>
+    );
+}
+
+function PatchCheckNote({ check }: { check: PatchCheck }) {
+    if (check.issues.length === 0) {
+        return (
+            <div className="mt-3 flex items-center gap-1.5 text-[11px] font-medium text-green-600">
+                <Check size={12} />
+                Patch checked: {check.files.length} {check.files.length === 1 ? "file" : "files"}, {check.hunks} {check.hunks === 1 ? "hunk" : "hunks"}
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-3 flex flex-col gap-1 rounded-lg border border-amber-100 bg-amber-50/60 px-3 py-2 text-[12px] text-amber-700">
+            {check.issues.map((issue, i) => (
+                <span key={i} className="flex items-center gap-1.5"><AlertTriangle size={12} className="flex-shrink-0" /> {issue.message}</span>
+            ))}
+        </div>
+    );
+}
+
+function MessageActions({ siblings, messageId, disabled, onSwitch, onEdit, onRegenerate }: {
+    siblings: ThreadMessage[],
+    messageId: string,
+    disabled: boolean,
+    onSwitch: (messageId: string) => void,
+    onEdit?: () => void,
+    onRegenerate?: () => void,
+}) {
+    const position = siblings.findIndex((sibling) => sibling.id === messageId);
+    const previous = siblings[position - 1];
+    const next = siblings[position + 1];
+
+    return (
+        <div className="mt-2 flex items-center gap-1 text-[11px] font-medium text-slate-400">
+            {siblings.length > 1 && (
+                <div className="flex items-center gap-0.5 mr-1">
+                    <button
+                        onClick={() => previous && onSwitch(previous.id)}
+                        disabled={disabled || !previous}
+                        aria-label="Previous version"
+                        className="p-1 rounded hover:bg-slate-100 hover:text-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                    >
+                        <ChevronLeft size={12} />
+                    </button>
+                    <span className="tabular-nums">{position + 1}/{siblings.length}</span>
+                    <button
+                        onClick={() => next && onSwitch(next.id)}
+                        disabled={disabled || !next}
+                        aria-label="Next version"
+                        className="p-1 rounded hover:bg-slate-100 hover:text-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                    >
+                        <ChevronRight size={12} />
+                    </button>
+                </div>
+            )}
+            {onEdit && (
+                <button
+                    onClick={onEdit}
+                    disabled={disabled}
+                    className="flex items-center gap-1 px-1.5 py-1 rounded hover:bg-slate-100 hover:text-slate-700 disabled:opacity-40 transition-colors"
+                >
+                    <Pencil size={11} /> Edit
+                </button>
+            )}
+            {onRegenerate && (
+                <button
+                    onClick={onRegenerate}
+                    disabled={disabled}
+                    className="flex items-center gap-1 px-1.5 py-1 rounded hover:bg-slate-100 hover:text-slate-700 disabled:opacity-40 transition-colors"
+                >
+                    <RotateCcw size={11} /> Regenerate
+                </button>
+            )}
+        </div>
+    );
+}
+
+function MessageEditor({ value, onChange, onCancel, onSubmit }: {
+    value: string,
+    onChange: (value: string) => void,
+    onCancel: () => void,
+    onSubmit: () => void,
+}) {
+    return (
+        <div className="flex flex-col gap-2 min-w-[320px]">
+            <textarea
+                autoFocus
+                value={value}
+                maxLength={CHAT_REQUEST_LIMITS.maxMessageLength}
+                onChange={(e) => onChange(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.shiftKey) {
+                        e.preventDefault();
+                        onSubmit();
+                    }
+                    if (e.key === "Escape") onCancel();
+                }}
+                rows={3}
+                className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-[15px] outline-none focus:ring-2 ring-slate-100 resize-y"
+            />
+            <div className="flex justify-end gap-2">
+                <button onClick={onCancel} className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#666] hover:bg-white transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={onSubmit}
+                    disabled={!value.trim()}
+                    className="px-3 py-1.5 rounded-lg bg-black text-white text-xs font-semibold hover:bg-slate-800 disabled:opacity-30 transition-colors"
+                >
+                    Send
+                </button>
+            </div>
+        </div>
+    );
+}
+
+function ContextDivider({ count }: { count: number }) {
+    return (
+        <div className="flex items-center gap-3 text-[11px] font-medium text-[#999]" title={`The first ${count} messages reach the model as a summary`}>
+            <div className="flex-1 h-px bg-[#EAEAEA]" />
+            <span className="inline-flex items-center gap-1.5">
+                <Layers size={12} /> Earlier messages were summarized to fit the context window
+            </span>
+            <div className="flex-1 h-px bg-[#EAEAEA]" />
+        </div>
+    );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { Fragment, useMemo, useState, type ReactNode } from "react";
+import { AlertTriangle, Check, Columns2, Copy, Download, Rows2 } from "lucide-react";
+import { downloadFile } from "@/lib/download";
+import type { DiffHunk, DiffLine, FilePatch } from "@/lib/diff/types";
+import { lineNumber, parseUnifiedDiff, patchPath } from "@/lib/diff/unified-diff";
+
+type Layout = "inline" | "split";
+
+/** Content shown under a line, such as review comments; keyed by file path and lineNumber() */
+export type DiffAnnotator = (path: string, line: number) => ReactNode;
+
+const LINE_STYLES: Record<DiffLine["kind"], string> = {
+    context: "text-slate-600",
+    add: "bg-green-50 text-green-900",
+    remove: "bg-red-50 text-red-900",
+};
+
+const MARKERS: Record<DiffLine["kind"], string> = { context: " ", add: "+", remove: "-" };
+
+/**
+ * Pairs removed lines with the added lines that replace them, so a split view
+ * shows each change across from its original
+ * @param hunk - Parsed hunk
+ * @returns Rows of [old side, new side]; either may be empty
+ */
+function splitRows(hunk: DiffHunk): [DiffLine | null, DiffLine | null][] {
+    const rows: [DiffLine | null, DiffLine | null][] = [];
+    let removed: DiffLine[] = [];
+    let added: DiffLine[] = [];
+
+    const flush = () => {
+        for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+            rows.push([removed[i] ?? null, added[i] ?? null]);
+        }
+        removed = [];
+        added = [];
+    };
+
+    for (const line of hunk.lines) {
+        if (line.kind === "remove") removed.push(line);
+        else if (line.kind === "add") added.push(line);
+        else {
+            flush();
+            rows.push([line, line]);
+        }
+    }
+    flush();
+    return rows;
+}
+
+function LineNumber({ value }: { value?: number }) {
+    return <td className="w-10 select-none px-2 text-right text-slate-300 align-top">{value ?? ""}</td>;
+}
+
+function Cell({ line }: { line: DiffLine | null }) {
+    if (!line) return <td className="bg-slate-50/60" />;
+    return (
+        <td className={`px-2 whitespace-pre-wrap break-all ${LINE_STYLES[line.kind]}`}>
+            <span className="select-none opacity-50">{MARKERS[line.kind]}</span>{line.text}
+        </td>
+    );
+}
+
+function HunkRows({ file, hunk, layout, annotate }: { file: FilePatch, hunk: DiffHunk, layout: Layout, annotate?: DiffAnnotator }) {
+    const columns = layout === "split" ? 4 : 3;
+    const annotation = (line: DiffLine | null) => {
+        const number = line ? lineNumber(file, line) : undefined;
+        const content = number !== undefined ? annotate?.(patchPath(file), number) : null;
+        return content ? <tr><td colSpan={columns} className="p-0">{content}</td></tr> : null;
+    };
+
+    const header = (
+        <tr>
+            <td colSpan={columns} className="px-3 py-1 bg-sky-50/60 text-sky-700">
+                @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@ {hunk.section}
+            </td>
+        </tr>
+    );
+
+    if (layout === "split") {
+        return (
+            <>
+                {header}
+                {splitRows(hunk).map(([left, right], i) => (
+                    <Fragment key={i}>
+                        <tr>
+                            <LineNumber value={left?.oldLine} />
+                            <Cell line={left} />
+                            <LineNumber value={right?.newLine} />
+                            <Cell line={right} />
+                        </tr>
+                        {annotation(file.newPath !== null ? right : left)}
+                    </Fragment>
+                ))}
+            </>
+        );
+    }
+
+    return (
+        <>
+            {header}
+            {hunk.lines.map((line, i) => (
+                <Fragment key={i}>
+                    <tr>
+                        <LineNumber value={line.oldLine} />
+                        <LineNumber value={line.newLine} />
+                        <Cell line={line} />
+                    </tr>
+                    {annotation(line)}
+                </Fragment>
+            ))}
+        </>
+    );
+}
+
+function FileDiff({ file, layout, annotate, annotateFile }: {
+    file: FilePatch,
+    layout: Layout,
+    annotate?: DiffAnnotator,
+    annotateFile?: (path: string) => ReactNode,
+}) {
+    const added = file.hunks.reduce((sum, hunk) => sum + hunk.lines.filter((line) => line.kind === "add").length, 0);
+    const removed = file.hunks.reduce((sum, hunk) => sum + hunk.lines.filter((line) => line.kind === "remove").length, 0);
+    const status = file.oldPath === null ? "new" : file.newPath === null ? "deleted" : file.oldPath !== file.newPath ? `from ${file.oldPath}` : null;
+
+    return (
+        <div className="border-t border-slate-100 first:border-t-0">
+            <div className="flex items-center gap-2 px-4 py-2 bg-white text-[12px]">
+                <span className="font-mono font-semibold text-slate-800 truncate">{patchPath(file)}</span>
+                {status && <span className="text-[10px] text-slate-400">{status}</span>}
+                <span className="ml-auto font-mono text-green-600">+{added}</span>
+                <span className="font-mono text-red-500">−{removed}</span>
+            </div>
+            {annotateFile?.(patchPath(file))}
+            <table className="w-full border-collapse font-mono text-[12px] leading-5">
+                <tbody>
+                    {file.hunks.map((hunk, i) => <HunkRows key={i} file={file} hunk={hunk} layout={layout} annotate={annotate} />)}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+interface DiffViewerProps {
+    patch: string;
+    /** What to render when the text is not a diff at all */
+    fallback?: ReactNode;
+    annotate?: DiffAnnotator;
+    /** Content shown under a file's header, e.g. comments that match none of its lines */
+    annotateFile?: (path: string) => ReactNode;
+}
+
+/**
+ * Renders a unified diff inline or side by side, with copy and download
+ * actions for the raw patch. Used by MessageMarkdown for ```diff blocks and
+ * by ReviewView, which anchors comments under the lines they discuss
+ */
+export default function DiffViewer({ patch, fallback = null, annotate, annotateFile }: DiffViewerProps) {
+    const [layout, setLayout] = useState<Layout>("inline");
+    const [copied, setCopied] = useState(false);
+    const parsed = useMemo(() => parseUnifiedDiff(patch), [patch]);
+
+    if (parsed.files.every((file) => file.hunks.length === 0)) return <>{fallback}</>;
+
+    const firstPath = patchPath(parsed.files[0]);
+    const fileName = `${firstPath.split("/").pop()?.replace(/[^A-Za-z0-9._-]+/g, "-") || "changes"}.patch`;
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(`${patch.replace(/\n+$/, "")}\n`);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    return (
+        <div className="rounded-xl overflow-hidden border border-slate-100 my-6 shadow-sm not-prose">
+            <div className="bg-slate-50/50 backdrop-blur-sm px-4 py-2 border-b border-slate-100 flex items-center gap-3 text-[11px] text-slate-400 font-bold uppercase tracking-wider">
+                <span className="font-mono">diff</span>
+                <span className="normal-case font-medium tracking-normal">
+                    {parsed.files.length} {parsed.files.length === 1 ? "file" : "files"}
+                </span>
+                <div className="ml-auto flex items-center gap-3">
+                    <button
+                        onClick={() => setLayout(layout === "inline" ? "split" : "inline")}
+                        className="flex items-center gap-1.5 hover:text-slate-900 transition-colors"
+                    >
+                        {layout === "inline" ? <Columns2 size={12} /> : <Rows2 size={12} />}
+                        {layout === "inline" ? "Split" : "Inline"}
+                    </button>
+                    <button onClick={handleCopy} className="flex items-center gap-1.5 hover:text-slate-900 transition-colors">
+                        {copied ? <Check size={12} /> : <Copy size={12} />} Copy patch
+                    </button>
+                    <button
+                        onClick={() => downloadFile(fileName, `${patch.replace(/\n+$/, "")}\n`, "text/x-patch")}
+                        className="flex items-center gap-1.5 hover:text-slate-900 transition-colors"
+                    >
+                        <Download size={12} /> .patch
+                    </button>
+                </div>
+            </div>
+            <div className="overflow-x-auto custom-scrollbar">
+                {parsed.files.map((file, i) => (
+                    <FileDiff key={i} file={file} layout={layout} annotate={annotate} annotateFile={annotateFile} />
+                ))}
+            </div>
+            {parsed.issues.length > 0 && (
+                <div className="flex flex-col gap-1 px-4 py-2 border-t border-amber-100 bg-amber-50/60 text-[12px] text-amber-700">
+                    {parsed.issues.map((issue, i) => (
+                        <span key={i} className="flex items-center gap-1.5"><AlertTriangle size={12} /> {issue.message}</span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { AlertTriangle, Check, ScanLine, XCircle } from "lucide-react";
+import { diagnosticLocation } from "@/lib/analysis/diagnostics";
+import type { AttachmentRef } from "@/lib/attachments/types";
+
+/**
+ * What the compiler and linter found in a prompt's attachments, collapsed to
+ * a count until opened. Shared by ChatInterface and the read-only share page.
+ */
+export default function FindingsList({ attachments }: { attachments: AttachmentRef[] }) {
+    const analyzed = attachments.flatMap((attachment) => attachment.analysis?.fileCount ? [{ name: attachment.name, analysis: attachment.analysis }] : []);
+    if (analyzed.length === 0) return null;
+
+    const diagnostics = analyzed.flatMap(({ analysis }) => analysis.diagnostics);
+    const truncated = analyzed.reduce((sum, { analysis }) => sum + analysis.truncated, 0);
+    const fileCount = analyzed.reduce((sum, { analysis }) => sum + analysis.fileCount, 0);
+
+    if (diagnostics.length === 0) {
+        return (
+            <div className="mb-2 flex items-center gap-1.5 text-[11px] font-medium text-green-600">
+                <Check size={12} />
+                TypeScript and ESLint found no problems in {fileCount} {fileCount === 1 ? "file" : "files"}
+            </div>
+        );
+    }
+
+    const errors = diagnostics.filter((diagnostic) => diagnostic.severity === "error").length;
+    const warnings = diagnostics.length - errors;
+
+    return (
+        <details className="group/findings mb-2 rounded-lg border border-[#E5E5E5] bg-white text-[12px]">
+            <summary className="flex items-center gap-2 cursor-pointer list-none px-3 py-1.5 text-[#555]">
+                <ScanLine size={12} className="text-[#999]" />
+                <span className="font-semibold">Findings</span>
+                {errors > 0 && <span className="text-red-600">{errors} {errors === 1 ? "error" : "errors"}</span>}
+                {warnings > 0 && <span className="text-amber-600">{warnings} {warnings === 1 ? "warning" : "warnings"}</span>}
+                <span className="ml-auto text-[10px] text-[#AAA] group-open/findings:hidden">Show</span>
+            </summary>
+            <ul className="max-h-64 overflow-y-auto custom-scrollbar border-t border-[#F0F0F0] px-3 py-2 space-y-1.5">
+                {diagnostics.map((diagnostic, i) => (
+                    <li key={i} className="flex items-start gap-2">
+                        {diagnostic.severity === "error"
+                            ? <XCircle size={12} className="mt-0.5 flex-shrink-0 text-red-500" />
+                            : <AlertTriangle size={12} className="mt-0.5 flex-shrink-0 text-amber-500" />}
+                        <span className="min-w-0">
+                            <span className="font-mono text-[11px] text-[#888]">{diagnosticLocation(diagnostic)}</span>{" "}
+                            <span className="text-[#333]">{diagnostic.message}</span>{" "}
+                            <span className="font-mono text-[10px] text-[#AAA]">{diagnostic.code ?? diagnostic.source}</span>
+                        </span>
+                    </li>
+                ))}
+                {truncated > 0 && <li className="text-[11px] text-[#999]">… and {truncated} more</li>}
+            </ul>
+        </details>
+    );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { History, RotateCcw, X } from "lucide-react";
+import { mergeInstructions } from "@/lib/instructions/merge";
+import type { EditableLayer, EffectiveInstructions, InstructionVersion, ResolvedLayer } from "@/lib/instructions/types";
+
+interface LayerState {
+    scopeId: string;
+    name?: string;
+    editable: boolean;
+    versions: InstructionVersion[];
+}
+
+interface InstructionsResponse {
+    layers: {
+        platform: ResolvedLayer;
+        organization: LayerState | null;
+        project: LayerState | null;
+        personal: LayerState;
+    };
+    effective: EffectiveInstructions;
+}
+
+const LAYER_LABELS: Record<EditableLayer, string> = {
+    organization: "Organization",
+    project: "Project",
+    personal: "Personal",
+};
+
+const LAYER_HINTS: Record<EditableLayer, string> = {
+    organization: "Rules for everyone in your organization, e.g. security or licensing policies.",
+    project: "Conventions for this project, e.g. \"we use pnpm and Vitest\".",
+    personal: "Your own preferences, e.g. answer length or explanation style.",
+};
+
+interface InstructionsEditorProps {
+    initialLayer?: EditableLayer;
+    projectId?: string | null;
+    onClose: () => void;
+}
+
+export default function InstructionsEditor({ initialLayer = "personal", projectId, onClose }: InstructionsEditorProps) {
+    const [data, setData] = useState<InstructionsResponse | null>(null);
+    const [layer, setLayer] = useState<EditableLayer>(initialLayer);
+    const [drafts, setDrafts] = useState<Partial<Record<EditableLayer, string>>>({});
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const apply = useCallback((next: InstructionsResponse) => {
+        setData(next);
+        setDrafts({});
+        setError(null);
+    }, []);
+
+    useEffect(() => {
+        fetch(`/api/instructions${projectId ? `?projectId=${projectId}` : ""}`)
+            .then((response) => response.json())
+            .then((next) => next.error ? setError(next.error) : apply(next))
+            .catch(() => setError("Could not load instructions"));
+    }, [projectId, apply]);
+
+    const layers = (["organization", "project", "personal"] as EditableLayer[])
+        .filter((name) => data?.layers[name]);
+    const current = data?.layers[layer] ?? null;
+    const latest = current?.versions[current.versions.length - 1];
+    const savedText = latest?.text ?? "";
+    const draft = drafts[layer] ?? savedText;
+    const isDirty = draft.trim() !== savedText;
+
+    // Preview merges unsaved drafts the same way the server merges saved versions
+    const preview = data
+        ? mergeInstructions([
+            data.layers.platform,
+            ...layers.map((name) => {
+                const state = data.layers[name]!;
+                const saved = state.versions[state.versions.length - 1];
+                const text = drafts[name] ?? saved?.text ?? "";
+                const changed = text.trim() !== (saved?.text ?? "");
+                return {
+                    layer: name,
+                    text,
+                    version: (saved?.version ?? 0) + (changed ? 1 : 0),
+                    ...(state.name ? { scopeName: state.name } : {}),
+                };
+            }),
+        ])
+        : null;
+
+    const send = async (body: Record<string, unknown>) => {
+        setIsSaving(true);
+        try {
+            const response = await fetch("/api/instructions", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ...body, layer, projectId: data?.layers.project?.scopeId }),
+            });
+            const next = await response.json();
+            if (next.error) setError(next.error);
+            else apply(next);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm p-6" onClick={onClose}>
+            <div
+                className="w-full max-w-5xl h-[80vh] bg-white border border-[#EAEAEA] rounded-2xl shadow-[0_20px_60px_rgba(0,0,0,0.15)] flex flex-col overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="h-14 flex items-center justify-between px-5 border-b border-[#F0F0F0]">
+                    <span className="text-sm font-bold text-[#111]">System Instructions</span>
+                    <button onClick={onClose} className="text-slate-400 hover:text-black transition-colors" aria-label="Close">
+                        <X size={18} />
+                    </button>
+                </div>
+
+                {!data ? (
+                    <div className="flex-1 flex items-center justify-center text-xs text-[#999]">{error ?? "Loading..."}</div>
+                ) : (
+                    <div className="flex-1 grid grid-cols-2 min-h-0">
+                        {/* Editor */}
+                        <div className="flex flex-col min-h-0 border-r border-[#F0F0F0] p-5 gap-3">
+                            <div className="flex gap-1 p-1 bg-[#F5F5F5] rounded-xl self-start">
+                                {layers.map((name) => (
+                                    <button
+                                        key={name}
+                                        onClick={() => setLayer(name)}
+                                        className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${name === layer ? "bg-white text-[#111] shadow-sm" : "text-[#777] hover:text-[#111]"}`}
+                                    >
+                                        {LAYER_LABELS[name]}
+                                        {drafts[name] !== undefined && drafts[name]!.trim() !== (data.layers[name]!.versions.at(-1)?.text ?? "") && " •"}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-[#999]">
+                                {LAYER_HINTS[layer]}
+                                {current?.name && <> Applies to <span className="font-semibold text-[#555]">{current.name}</span>.</>}
+                            </p>
+                            <textarea
+                                value={draft}
+                                readOnly={!current?.editable}
+                                onChange={(e) => setDrafts((prev) => ({ ...prev, [layer]: e.target.value }))}
+                                placeholder={current?.editable ? "No instructions yet." : "Only organization admins can edit these rules."}
+                                className="flex-1 min-h-[160px] w-full bg-[#F9F9F9] border border-[#EAEAEA] rounded-xl px-4 py-3 text-[13px] leading-relaxed font-mono text-[#333] outline-none resize-none focus:bg-white focus:border-green-500/20 focus:ring-2 focus:ring-green-500/10 transition-all read-only:opacity-70"
+                            />
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => send({ text: draft })}
+                                    disabled={!current?.editable || !isDirty || isSaving}
+                                    className="px-3 py-1.5 rounded-lg bg-[#111] text-white text-xs font-semibold hover:bg-black disabled:opacity-30 transition-colors"
+                                >
+                                    {isSaving ? "Saving..." : "Save version"}
+                                </button>
+                                {isDirty && (
+                                    <button
+                                        onClick={() => setDrafts((prev) => ({ ...prev, [layer]: undefined }))}
+                                        className="px-3 py-1.5 rounded-lg text-xs font-medium text-[#777] hover:bg-[#F5F5F5] transition-colors"
+                                    >
+                                        Discard
+                                    </button>
+                                )}
+                                {error && <span className="text-xs text-red-500">{error}</span>}
+                                <span className="ml-auto text-[11px] text-[#999]">{latest ? `v${latest.version}` : "Not set"}</span>
+                            </div>
+
+                            {current && current.versions.length > 1 && (
+                                <div className="max-h-40 overflow-y-auto border-t border-[#F0F0F0] pt-3">
+                                    <div className="flex items-center gap-1.5 mb-2 text-[10px] font-black text-[#999] uppercase tracking-[0.2em]">
+                                        <History size={11} /> History
+                                    </div>
+                                    {[...current.versions].reverse().slice(1).map((version) => (
+                                        <div key={version.version} className="group/version flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-[#F9F9F9]">
+                                            <span className="text-[11px] font-semibold text-[#555] w-8">v{version.version}</span>
+                                            <span className="flex-1 truncate text-[11px] text-[#999]">{version.text || "(cleared)"}</span>
+                                            <span className="text-[11px] text-[#BBB]">{new Date(version.createdAt).toLocaleDateString()}</span>
+                                            {current.editable && (
+                                                <button
+                                                    onClick={() => send({ restoreVersion: version.version })}
+                                                    className="opacity-0 group-hover/version:opacity-100 text-slate-400 hover:text-black transition-opacity"
+                                                    aria-label={`Restore version ${version.version}`}
+                                                >
+                                                    <RotateCcw size={12} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Effective prompt preview */}
+                        <div className="flex flex-col min-h-0 p-5 gap-3 bg-[#FCFCFC]">
+                            <div className="flex items-center justify-between">
+                                <span className="text-[10px] font-black text-[#999] uppercase tracking-[0.2em]">Effective prompt</span>
+                                <span className="text-[11px] font-mono text-[#999]">{preview?.signature}</span>
+                            </div>
+                            <pre className="flex-1 overflow-y-auto whitespace-pre-wrap text-[12px] leading-relaxed font-mono text-[#444] bg-white border border-[#EAEAEA] rounded-xl px-4 py-3">
+                                {preview?.text}
+                            </pre>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { createContext, useContext, type ComponentPropsWithoutRef } from "react";
+import { Copy, Play } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import DiffViewer from "@/components/diff-viewer";
+import RunOutput from "@/components/run-output";
+import { SANDBOX_LIMITS, sandboxLanguage } from "@/lib/sandbox/snippets";
+import type { CodeRun, SandboxLanguage } from "@/lib/sandbox/types";
+
+/** Lets a reply's JavaScript, TypeScript, Python and shell blocks be run */
+export interface CodeRunner {
+    /** Latest run of a snippet, finished or in progress */
+    runFor: (code: string) => CodeRun | undefined;
+    /** Snippet of this message being run, if any */
+    running: string | null;
+    /** Another run or a reply is in progress */
+    disabled: boolean;
+    run: (language: SandboxLanguage, code: string) => void;
+    stop: () => void;
+}
+
+const CodeRunnerContext = createContext<CodeRunner | null>(null);
+
+const RUN_TITLE = `Run in a sandbox: no network, ${SANDBOX_LIMITS.timeoutMs / 1000} s, ${SANDBOX_LIMITS.memoryMb} MB`;
+
+function CodeBlock({ className, children }: ComponentPropsWithoutRef<"code">) {
+    const runner = useContext(CodeRunnerContext);
+    const match = /language-(\w+)/.exec(className || '');
+    if (!match) {
+        return (
+            <code className={`${className} bg-slate-100/50 px-1.5 py-0.5 rounded text-[13px] font-mono text-slate-700 border border-slate-200/50`}>
+                {children}
+            </code>
+        );
+    }
+
+    const code = String(children).replace(/\n$/, '');
+    const runnable = runner ? sandboxLanguage(match[1]) : null;
+    const run = runnable ? runner?.runFor(code) : undefined;
+    const running = runner?.running === code;
+
+    const block = (
+        <div className="rounded-xl overflow-hidden border border-slate-100 my-6 shadow-sm group/code">
+            <div className="bg-slate-50/50 backdrop-blur-sm px-4 py-2 border-b border-slate-100 flex justify-between items-center text-[11px] text-slate-400 font-bold uppercase tracking-wider">
+                <span className="font-mono">{match[1]}</span>
+                <div className="flex items-center gap-3">
+                    {runnable && runner && (
+                        <button
+                            onClick={() => runner.run(runnable, code)}
+                            disabled={runner.disabled}
+                            title={RUN_TITLE}
+                            className="flex items-center gap-1.5 hover:text-slate-900 transition-colors disabled:opacity-40 disabled:hover:text-slate-400"
+                        >
+                            <Play size={12} /> Run
+                        </button>
+                    )}
+                    <button
+                        onClick={() => navigator.clipboard.writeText(code)}
+                        className="flex items-center gap-1.5 hover:text-slate-900 transition-colors"
+                    >
+                        <Copy size={12} /> Copy
+                    </button>
+                </div>
+            </div>
+            <div className="overflow-x-auto custom-scrollbar">
+                <SyntaxHighlighter
+                    style={oneLight}
+                    language={match[1]}
+                    PreTag="div"
+                    customStyle={{
+                        margin: 0,
+                        padding: '1.5rem',
+                        fontSize: '0.85rem',
+                        backgroundColor: '#ffffff',
+                        lineHeight: '1.6'
+                    }}
+                >
+                    {code}
+                </SyntaxHighlighter>
+            </div>
+            {run && <RunOutput run={run} running={running} onStop={runner?.stop} />}
+        </div>
+    );
+
+    // Patches get the diff viewer; anything that does not parse as one stays highlighted
+    return match[1] === "diff" || match[1] === "patch" ? <DiffViewer patch={code} fallback={block} /> : block;
+}
+
+/**
+ * A message body as the chat shows it: Markdown with highlighted code blocks.
+ * Shared by ChatInterface and the read-only share page; only the chat passes
+ * a runner, so shared threads cannot run code.
+ */
+export default function MessageMarkdown({ content, runner }: { content: string, runner?: CodeRunner }) {
+    const markdown = <ReactMarkdown components={{ code: CodeBlock }}>{content}</ReactMarkdown>;
+    return runner ? <CodeRunnerContext.Provider value={runner}>{markdown}</CodeRunnerContext.Provider> : markdown;
+}
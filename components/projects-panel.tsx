@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { Check, FolderGit2, Plus, Trash2, User } from "lucide-react";
+import type { ChatMode } from "@/lib/agent/types";
+import type { RepoIndexSummary } from "@/lib/indexing/types";
+import { MODEL_TIERS, type ModelTier } from "@/lib/llm/types";
+import type { Project } from "@/lib/projects/types";
+
+interface ProjectsPanelProps {
+    projects: Project[];
+    activeProject: Project | null;
+    indexes: RepoIndexSummary[];
+    onSwitch: (projectId: string | null) => void;
+    onChange: () => void;
+    onEditInstructions: () => void;
+}
+
+export default function ProjectsPanel({ projects, activeProject, indexes, onSwitch, onChange, onEditInstructions }: ProjectsPanelProps) {
+    const handleCreate = async () => {
+        const name = window.prompt("Project name");
+        if (!name || name.trim() === "") return;
+
+        const response = await fetch("/api/projects", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name }),
+        });
+        const data = await response.json();
+        if (data.error) {
+            alert(data.error);
+            return;
+        }
+        onSwitch(data.project.id);
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div>
+                <div className="px-3 py-2 flex items-center justify-between mb-1">
+                    <span className="text-[10px] font-black text-[#999] uppercase tracking-[0.2em]">Projects</span>
+                    <button
+                        onClick={handleCreate}
+                        className="text-slate-400 hover:text-black transition-colors"
+                        aria-label="New project"
+                    >
+                        <Plus size={14} />
+                    </button>
+                </div>
+                <div className="flex flex-col gap-0.5">
+                    <ProjectRow
+                        icon={<User size={14} className="flex-shrink-0 text-[#AAA]" />}
+                        name="Personal"
+                        active={!activeProject}
+                        onClick={() => onSwitch(null)}
+                    />
+                    {projects.map((project) => (
+                        <ProjectRow
+                            key={project.id}
+                            icon={<FolderGit2 size={14} className="flex-shrink-0 text-[#AAA]" />}
+                            name={project.name}
+                            active={project.id === activeProject?.id}
+                            onClick={() => onSwitch(project.id)}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            {activeProject && (
+                <ProjectSettings
+                    key={activeProject.id}
+                    project={activeProject}
+                    indexes={indexes}
+                    onChange={onChange}
+                    onDeleted={() => onSwitch(null)}
+                    onEditInstructions={onEditInstructions}
+                />
+            )}
+        </div>
+    );
+}
+
+function ProjectRow({ icon, name, active, onClick }: { icon: React.ReactNode, name: string, active: boolean, onClick: () => void }) {
+    return (
+        <button
+            onClick={onClick}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg text-left transition-colors ${active ? "bg-[#F0F0F0] text-black" : "text-[#555] hover:bg-[#F5F5F5]"}`}
+        >
+            {icon}
+            <span className="flex-1 truncate text-sm font-medium">{name}</span>
+            {active && <Check size={12} className="text-green-600" />}
+        </button>
+    );
+}
+
+function ProjectSettings({ project, indexes, onChange, onDeleted, onEditInstructions }: {
+    project: Project,
+    indexes: RepoIndexSummary[],
+    onChange: () => void,
+    onDeleted: () => void,
+    onEditInstructions: () => void
+}) {
+    const [name, setName] = useState(project.name);
+    const [indexId, setIndexId] = useState(project.indexId ?? "");
+    const [defaultMode, setDefaultMode] = useState<ChatMode>(project.defaultMode);
+    const [defaultTier, setDefaultTier] = useState<ModelTier>(project.defaultTier);
+    const [status, setStatus] = useState<string | null>(null);
+
+    const handleSave = async () => {
+        setStatus(null);
+        const response = await fetch(`/api/projects/${project.id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name, indexId: indexId || null, defaultMode, defaultTier }),
+        });
+        const data = await response.json();
+        setStatus(data.error ?? "Saved");
+        if (!data.error) onChange();
+    };
+
+    const handleDelete = async () => {
+        if (!window.confirm(`Delete the project "${project.name}"? Its threads move to Personal.`)) return;
+
+        await fetch(`/api/projects/${project.id}`, { method: "DELETE" });
+        onDeleted();
+    };
+
+    const fieldClass = "w-full bg-[#F5F5F5] border border-transparent rounded-lg px-3 py-2 text-xs font-medium text-[#333] outline-none focus:bg-white focus:border-green-500/20 focus:ring-2 focus:ring-green-500/10 transition-all";
+    const labelClass = "block text-[10px] font-bold text-[#999] uppercase tracking-widest mb-1";
+
+    return (
+        <div className="mx-3 p-3 bg-white border border-[#EAEAEA] rounded-xl flex flex-col gap-3">
+            <div>
+                <label className={labelClass}>Name</label>
+                <input value={name} onChange={(e) => setName(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+                <label className={labelClass}>Repository</label>
+                <select value={indexId} onChange={(e) => setIndexId(e.target.value)} className={fieldClass}>
+                    <option value="">None</option>
+                    {indexes.map((index) => (
+                        <option key={index.id} value={index.id}>{index.name}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex gap-2">
+                <div className="flex-1">
+                    <label className={labelClass}>Mode</label>
+                    <select value={defaultMode} onChange={(e) => setDefaultMode(e.target.value as ChatMode)} className={fieldClass}>
+                        <option value="Ask">Ask</option>
+                        <option value="Agent">Agent</option>
+                    </select>
+                </div>
+                <div className="flex-1">
+                    <label className={labelClass}>Model</label>
+                    <select value={defaultTier} onChange={(e) => setDefaultTier(e.target.value as ModelTier)} className={fieldClass}>
+                        {MODEL_TIERS.map((tier) => (
+                            <option key={tier} value={tier}>{tier}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            <button onClick={onEditInstructions} className="text-left text-[11px] font-medium text-green-700 hover:underline">
+                Edit project conventions…
+            </button>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={handleSave}
+                    className="px-3 py-1.5 rounded-lg bg-[#111] text-white text-xs font-semibold hover:bg-black transition-colors"
+                >
+                    Save
+                </button>
+                {status && <span className={`text-xs ${status === "Saved" ? "text-green-600" : "text-red-500"}`}>{status}</span>}
+                <button
+                    onClick={handleDelete}
+                    className="ml-auto text-slate-400 hover:text-red-600 transition-colors"
+                    aria-label="Delete project"
+                >
+                    <Trash2 size={14} />
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { AlertTriangle, FileJson, MessageSquareWarning } from "lucide-react";
+import DiffViewer from "@/components/diff-viewer";
+import MessageMarkdown from "@/components/message-markdown";
+import { downloadFile } from "@/lib/download";
+import { REVIEW_SEVERITIES, commentLocation } from "@/lib/review/review";
+import type { ReviewComment, ReviewReport, ReviewSeverity } from "@/lib/review/types";
+import { exportFileName } from "@/lib/threads/thread-export";
+
+const SEVERITY_STYLES: Record<ReviewSeverity, string> = {
+    critical: "bg-red-100 text-red-700",
+    major: "bg-orange-100 text-orange-700",
+    minor: "bg-amber-100 text-amber-700",
+    nit: "bg-slate-100 text-slate-500",
+};
+
+function CommentCard({ comment }: { comment: ReviewComment }) {
+    return (
+        <div className="mx-3 my-2 rounded-lg border border-slate-200 bg-white px-3 py-2 font-sans text-[13px] text-slate-700 shadow-sm">
+            <div className="flex items-center gap-2 mb-1">
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${SEVERITY_STYLES[comment.severity]}`}>{comment.severity}</span>
+                <span className="font-mono text-[11px] text-slate-400">{commentLocation(comment)}</span>
+            </div>
+            <p className="whitespace-pre-wrap">{comment.message}</p>
+            {comment.suggestion && (
+                <pre className="mt-2 rounded-md bg-green-50/60 border border-green-100 px-2 py-1.5 font-mono text-[12px] text-green-900 whitespace-pre-wrap break-all">{comment.suggestion}</pre>
+            )}
+        </div>
+    );
+}
+
+/**
+ * A review-mode reply: the summary, the reviewed patch with comments anchored
+ * under the lines they refer to, and the report as a JSON download
+ */
+export default function ReviewView({ report }: { report: ReviewReport }) {
+    const anchored = (path: string, line: number) => report.comments.filter((comment) => comment.anchored && comment.file === path && comment.endLine === line);
+    const unanchored = (path: string) => report.comments.filter((comment) => !comment.anchored && comment.file === path);
+
+    return (
+        <div className="not-prose flex flex-col gap-3">
+            <div className="flex items-center gap-2 flex-wrap">
+                <MessageSquareWarning size={14} className="text-slate-400" />
+                <span className="text-sm font-semibold text-slate-900">{report.title}</span>
+                {REVIEW_SEVERITIES.map((severity) => {
+                    const count = report.comments.filter((comment) => comment.severity === severity).length;
+                    return count > 0 && (
+                        <span key={severity} className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${SEVERITY_STYLES[severity]}`}>
+                            {count} {severity}
+                        </span>
+                    );
+                })}
+                <button
+                    onClick={() => downloadFile(exportFileName(report.title, "review.json"), JSON.stringify(report, null, 2), "application/json")}
+                    className="ml-auto flex items-center gap-1.5 text-[11px] font-bold uppercase tracking-wider text-slate-400 hover:text-slate-900 transition-colors"
+                >
+                    <FileJson size={12} /> JSON report
+                </button>
+            </div>
+            {report.summary && (
+                <div className="prose prose-slate max-w-none text-[15px] leading-7 text-[#333]">
+                    <MessageMarkdown content={report.summary} />
+                </div>
+            )}
+            {report.comments.length === 0 && <p className="text-sm text-green-600">No problems found.</p>}
+            {report.issues.length > 0 && (
+                <div className="flex flex-col gap-1 rounded-lg border border-amber-100 bg-amber-50/60 px-3 py-2 text-[12px] text-amber-700">
+                    {report.issues.map((issue, i) => (
+                        <span key={i} className="flex items-center gap-1.5"><AlertTriangle size={12} className="flex-shrink-0" /> {issue}</span>
+                    ))}
+                </div>
+            )}
+            <DiffViewer
+                patch={report.patch}
+                annotate={(path, line) => {
+                    const comments = anchored(path, line);
+                    return comments.length > 0 && <div className="bg-slate-50/80 py-1">{comments.map((comment) => <CommentCard key={comment.id} comment={comment} />)}</div>;
+                }}
+                annotateFile={(path) => {
+                    const comments = unanchored(path);
+                    return comments.length > 0 && <div className="bg-slate-50/80 py-1 border-b border-slate-100">{comments.map((comment) => <CommentCard key={comment.id} comment={comment} />)}</div>;
+                }}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { Loader2, Square } from "lucide-react";
+import type { CodeRun } from "@/lib/sandbox/types";
+
+/**
+ * @param run - Finished run
+ * @returns e.g. "exit 0 · 120 ms" or "killed: timed out after 10 s"
+ */
+function exitLabel(run: CodeRun): string {
+    const duration = run.durationMs < 1000 ? `${run.durationMs} ms` : `${(run.durationMs / 1000).toFixed(1)} s`;
+    if (run.timedOut) return `killed: timed out after ${duration}`;
+    if (run.truncated) return `killed: output limit reached after ${duration}`;
+    if (run.exitCode === null) return `killed by ${run.signal ?? "a signal"} after ${duration}`;
+    return `exit ${run.exitCode} · ${duration}`;
+}
+
+/**
+ * Terminal-style output of a code block's latest run, under the block.
+ * While the run is in progress, onStop ends it
+ */
+export default function RunOutput({ run, running, onStop }: { run: CodeRun, running: boolean, onStop?: () => void }) {
+    return (
+        <div className="border-t border-slate-100 bg-slate-950 text-[12px] font-mono">
+            <pre className="max-h-72 overflow-auto custom-scrollbar px-4 py-3 whitespace-pre-wrap break-all leading-5">
+                {run.output.length === 0 && !running && <span className="text-slate-500">(no output)</span>}
+                {run.output.map((chunk, i) => (
+                    <span key={i} className={chunk.stream === "stderr" ? "text-red-300" : "text-slate-100"}>{chunk.text}</span>
+                ))}
+            </pre>
+            <div className="flex items-center gap-2 px-4 py-1.5 border-t border-slate-800 text-[11px] text-slate-400">
+                {running ? (
+                    <>
+                        <Loader2 size={12} className="animate-spin" />
+                        <span>Running in the sandbox…</span>
+                        {onStop && (
+                            <button onClick={onStop} className="ml-auto flex items-center gap-1.5 hover:text-white transition-colors">
+                                <Square size={10} fill="currentColor" /> Stop
+                            </button>
+                        )}
+                    </>
+                ) : (
+                    <span className={run.exitCode === 0 ? "text-green-400" : "text-red-300"}>{exitLabel(run)}</span>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, Link2, Lock } from "lucide-react";
+import type { ShareLinkSummary } from "@/lib/sharing/types";
+
+interface SharePanelProps {
+    threadId: string;
+    /** Last message of the branch on screen, which is what gets shared */
+    leafId?: string;
+}
+
+const EXPIRY_OPTIONS = [
+    [null, "Never"],
+    [1, "1 day"],
+    [7, "7 days"],
+    [30, "30 days"],
+] as const;
+
+function shareUrl(token: string): string {
+    return `${window.location.origin}/share/${token}`;
+}
+
+function linkStatus(share: ShareLinkSummary): string {
+    if (share.revokedAt) return "Revoked";
+    if (share.expiresAt && Date.parse(share.expiresAt) <= Date.now()) return "Expired";
+    return share.expiresAt ? `Until ${new Date(share.expiresAt).toLocaleDateString()}` : "No expiry";
+}
+
+export default function SharePanel({ threadId, leafId }: SharePanelProps) {
+    const [shares, setShares] = useState<ShareLinkSummary[]>([]);
+    const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+    const [requireAuth, setRequireAuth] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetch(`/api/threads/${threadId}/shares`)
+            .then((response) => response.json())
+            .then((data) => setShares(data.shares ?? []))
+            .catch((error) => console.error("Failed to load share links:", error));
+    }, [threadId]);
+
+    const copy = async (token: string) => {
+        await navigator.clipboard.writeText(shareUrl(token));
+        setCopiedId(token);
+    };
+
+    const handleCreate = async () => {
+        setError(null);
+        const response = await fetch(`/api/threads/${threadId}/shares`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ leafId, expiresInDays, requireAuth }),
+        });
+        const data = await response.json();
+        if (data.error) {
+            setError(data.error);
+            return;
+        }
+        setShares((current) => [data.share, ...current]);
+        await copy(data.share.id);
+    };
+
+    const handleRevoke = async (token: string) => {
+        const response = await fetch(`/api/shares/${token}`, { method: "DELETE" });
+        const data = await response.json();
+        if (data.error) {
+            setError(data.error);
+            return;
+        }
+        setShares((current) => current.map((share) => share.id === token ? data.share : share));
+    };
+
+    return (
+        <div className="flex flex-col gap-3 p-1.5">
+            <div className="px-1.5 text-[11px] text-[#999]">
+                Anyone with the link sees a read-only copy of this branch as it is now.
+            </div>
+            <div className="flex items-center gap-2 px-1.5">
+                <select
+                    value={expiresInDays ?? ""}
+                    onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                    className="flex-1 px-2 py-1.5 rounded-lg border border-[#EAEAEA] text-xs text-[#555] bg-white"
+                    aria-label="Link expiry"
+                >
+                    {EXPIRY_OPTIONS.map(([days, label]) => (
+                        <option key={label} value={days ?? ""}>{label}</option>
+                    ))}
+                </select>
+                <label className="flex items-center gap-1.5 text-xs text-[#555]">
+                    <input type="checkbox" checked={requireAuth} onChange={(e) => setRequireAuth(e.target.checked)} />
+                    Signed-in only
+                </label>
+            </div>
+            <button
+                onClick={handleCreate}
+                className="mx-1.5 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-black text-white text-xs font-semibold hover:bg-slate-800 transition-colors"
+            >
+                <Link2 size={12} />
+                Create and copy link
+            </button>
+            {error && <div className="px-1.5 text-[11px] text-red-500">{error}</div>}
+            {shares.length > 0 && (
+                <div className="flex flex-col gap-0.5 border-t border-[#F0F0F0] pt-2">
+                    {shares.map((share) => {
+                        const status = linkStatus(share);
+                        const active = !share.revokedAt && status !== "Expired";
+                        return (
+                            <div key={share.id} className="flex items-center gap-2 px-1.5 py-1 text-xs">
+                                {share.requireAuth && <Lock size={11} className="flex-shrink-0 text-[#AAA]" aria-label="Signed-in only" />}
+                                <span className={`flex-1 truncate ${active ? "text-[#555]" : "text-[#BBB] line-through"}`}>
+                                    {new Date(share.createdAt).toLocaleDateString()} · {share.messageCount} messages
+                                </span>
+                                <span className="text-[10px] text-[#999]">{status}</span>
+                                {active && (
+                                    <>
+                                        <button onClick={() => copy(share.id)} aria-label="Copy link" className="text-[#AAA] hover:text-black">
+                                            {copiedId === share.id ? <Check size={12} /> : <Copy size={12} />}
+                                        </button>
+                                        <button onClick={() => handleRevoke(share.id)} className="text-[10px] font-semibold text-red-500 hover:text-red-700">
+                                            Revoke
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import type { ComponentPropsWithoutRef } from "react";
+import ReactMarkdown from "react-markdown";
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import type { AgentStep } from "@/lib/agent/types";
+import type { ThreadMessage } from "@/lib/threads/types";
+
+/** Layout for the exported page; code blocks carry the highlighter's inline styles */
+const DOCUMENT_STYLES = `
+body { margin: 0; background: #fafafa; color: #333; font: 15px/1.7 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+main { max-width: 820px; margin: 0 auto; padding: 48px 24px; }
+h1 { font-size: 24px; color: #111; margin: 0 0 32px; }
+article { background: #fff; border: 1px solid #eaeaea; border-radius: 16px; padding: 20px 24px; margin-bottom: 24px; }
+article.user { background: #f3f4f6; border-color: transparent; margin-left: 20%; }
+.role { font-size: 12px; font-weight: 700; text-transform: uppercase; letter-spacing: .08em; color: #999; margin-bottom: 8px; }
+.code { border: 1px solid #f1f5f9; border-radius: 12px; overflow: hidden; margin: 24px 0; }
+.code .language { background: #f8fafc; border-bottom: 1px solid #f1f5f9; padding: 8px 16px; font: 700 11px ui-monospace, monospace; text-transform: uppercase; color: #94a3b8; }
+code { font: 13px ui-monospace, SFMono-Regular, Menlo, monospace; }
+:not(pre) > code { background: #f1f5f9; border-radius: 4px; padding: 2px 6px; }
+details { border: 1px solid #eaeaea; border-radius: 12px; padding: 8px 16px; margin-bottom: 16px; font-size: 13px; }
+details pre { white-space: pre-wrap; background: #f8fafc; padding: 8px; border-radius: 8px; }
+.note { font-size: 12px; color: #94a3b8; }
+`;
+
+function CodeBlock({ className, children }: ComponentPropsWithoutRef<"code">) {
+    const match = /language-(\w+)/.exec(className || '');
+    if (!match) return <code className={className}>{children}</code>;
+
+    return (
+        <div className="code">
+            <div className="language">{match[1]}</div>
+            <SyntaxHighlighter
+                style={oneLight}
+                language={match[1]}
+                PreTag="div"
+                customStyle={{
+                    margin: 0,
+                    padding: '1.5rem',
+                    fontSize: '0.85rem',
+                    backgroundColor: '#ffffff',
+                    lineHeight: '1.6'
+                }}
+            >
+                {String(children).replace(/\n$/, '')}
+            </SyntaxHighlighter>
+        </div>
+    );
+}
+
+function StepList({ steps }: { steps: AgentStep[] }) {
+    return (
+        <details>
+            <summary>Agent steps</summary>
+            {steps.map((step) => (
+                <div key={step.id}>
+                    {step.kind === "plan" && <ol>{step.steps.map((item, i) => <li key={i}>{item}</li>)}</ol>}
+                    {step.kind === "tool_call" && <p><strong>Called {step.tool}</strong>{step.thought ? ` — ${step.thought}` : ""}</p>}
+                    {step.kind === "tool_result" && <pre>{step.output}</pre>}
+                </div>
+            ))}
+        </details>
+    );
+}
+
+function ThreadDocument({ title, messages }: { title: string, messages: ThreadMessage[] }) {
+    return (
+        <html lang="en">
+            {/* A standalone file, not a Next page, so next/head does not apply */}
+            {/* eslint-disable-next-line @next/next/no-head-element */}
+            <head>
+                <meta charSet="utf-8" />
+                <meta name="viewport" content="width=device-width, initial-scale=1" />
+                <title>{title}</title>
+                <style dangerouslySetInnerHTML={{ __html: DOCUMENT_STYLES }} />
+            </head>
+            <body>
+                <main>
+                    <h1>{title}</h1>
+                    {messages.map((message) => (
+                        <article key={message.id} className={message.role}>
+                            <div className="role">{message.role === "user" ? "You" : "CodInspect"}</div>
+                            {message.attachments?.length ? (
+                                <p className="note">Attached: {message.attachments.map((ref) => ref.name).join(", ")}</p>
+                            ) : null}
+                            {message.steps?.length ? <StepList steps={message.steps} /> : null}
+                            <ReactMarkdown components={{ code: CodeBlock }}>{message.content}</ReactMarkdown>
+                            {message.stopped && <p className="note">Stopped before the answer was complete.</p>}
+                        </article>
+                    ))}
+                </main>
+            </body>
+        </html>
+    );
+}
+
+/**
+ * Renders a branch as a self-contained HTML page, highlighted exactly like the chat
+ * @param title - Thread title
+ * @param messages - Branch to render, oldest first
+ * @returns Complete HTML document
+ */
+export async function renderThreadHtml(title: string, messages: ThreadMessage[]): Promise<string> {
+    // Loaded on demand so the chat bundle does not carry the server renderer
+    const { renderToStaticMarkup } = await import("react-dom/server");
+    return `<!DOCTYPE html>\n${renderToStaticMarkup(<ThreadDocument title={title} messages={messages} />)}`;
+}
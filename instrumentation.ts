@@ -0,0 +1,11 @@
+/**
+ * Runs once when the server starts. The background job worker runs in the
+ * Node.js server process; set CODINSPECT_WORKER=off on every instance but
+ * one when several share a data directory.
+ */
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== "nodejs" || process.env.CODINSPECT_WORKER === "off") return;
+
+    const { startWorker } = await import("@/lib/jobs/worker");
+    startWorker();
+}
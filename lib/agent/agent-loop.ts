@@ -0,0 +1,161 @@
+import { completeWithFallback } from "@/lib/chat/fallback";
+import type { ResolvedModel } from "@/lib/llm/registry";
+import type { ChatTurn } from "@/lib/llm/types";
+import { checkToolPermission, describeInput, toolDeclarations, validateToolInput, type AgentContext, type AgentTool } from "./tools";
+import type { AgentEvent, AgentStep, ToolCallStep, ToolResultStep } from "./types";
+
+export interface AgentOptions {
+    chain: ResolvedModel[];
+    task: string;
+    history: ChatTurn[];
+    system?: string;
+    tools: AgentTool[];
+    context: AgentContext;
+    maxSteps?: number;
+    /** Stops the run at its next model call */
+    signal?: AbortSignal;
+    /** Called with every tool call once its result is in, denied calls included */
+    audit?: (call: ToolCallStep, result: ToolResultStep) => Promise<void>;
+}
+
+const DEFAULT_MAX_STEPS = 6;
+const MAX_TOOL_OUTPUT = 4000;
+
+/**
+ * Pulls the first JSON object out of a model reply, tolerating code fences and prose
+ * @param text - Raw model reply
+ * @returns Parsed object, or null when the reply holds no valid JSON object
+ */
+export function extractJson(text: string): Record<string, unknown> | null {
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start === -1 || end <= start) return null;
+
+    try {
+        const value = JSON.parse(text.slice(start, end + 1));
+        return value && typeof value === "object" && !Array.isArray(value) ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+function describeTools(tools: AgentTool[]): string {
+    return tools.map((tool) => `- ${tool.name}: ${tool.description} Input: ${describeInput(tool.parameters)}`).join("\n");
+}
+
+function describeScratchpad(steps: AgentStep[]): string {
+    return steps
+        .map((step) => {
+            if (step.kind === "plan") return `PLAN:\n${step.steps.map((s, i) => `${i + 1}. ${s}`).join("\n")}`;
+            if (step.kind === "tool_call") return `CALL ${step.tool} ${JSON.stringify(step.input)}`;
+            return `RESULT ${step.tool} (${step.denied ? "denied" : step.ok ? "ok" : "error"}):\n${step.output}`;
+        })
+        .join("\n\n");
+}
+
+/**
+ * Runs the Agent mode plan/act loop.
+ * The model first writes a plan, then repeatedly picks a tool or finishes
+ * with a markdown summary. Every step is yielded as soon as it happens.
+ * Tool calls are checked against the tool's input schema and the run's
+ * permissions before they run, and reported to `audit` with their result.
+ * @param options - Model chain, task, tools and limits
+ * @returns Async stream of steps followed by exactly one final event
+ * @throws GenerationAbortedError when `signal` fires
+ */
+export async function* runAgent(options: AgentOptions): AsyncGenerator<AgentEvent> {
+    const { chain, task, history, system, tools, context, signal, audit } = options;
+    const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+    const steps: AgentStep[] = [];
+    let stepCounter = 0;
+    const nextId = () => `step-${++stepCounter}`;
+
+    const ask = async (instructions: string, offerTools = false) => {
+        const { text } = await completeWithFallback(chain, {
+            system,
+            history,
+            message: `${instructions}\n\nTASK:\n${task}\n\n${describeScratchpad(steps)}`.trim(),
+            signal,
+            ...(offerTools && tools.length ? { tools: toolDeclarations(tools) } : {}),
+        });
+        return text;
+    };
+
+    // 1. Plan
+    const planReply = await ask(
+        'You are working in Agent mode. Break the task into a short plan of at most 5 concrete steps. ' +
+        'Reply with JSON only: {"plan": ["step", ...]}'
+    );
+    const planned = extractJson(planReply)?.plan;
+    const plan: AgentStep = {
+        id: nextId(),
+        kind: "plan",
+        steps: Array.isArray(planned) ? planned.map(String) : [task],
+    };
+    steps.push(plan);
+    yield { type: "step", step: plan };
+
+    // 2. Act
+    for (let turn = 0; turn < maxSteps; turn++) {
+        const reply = await ask(
+            `You are working in Agent mode. Follow the plan. Available tools:\n${describeTools(tools)}\n\n` +
+            'Reply with JSON only, either {"thought": string, "tool": string, "input": object} to call a tool, ' +
+            'or {"thought": string, "final": string} with a markdown answer that summarizes what you did.',
+            true
+        );
+        const action = extractJson(reply);
+
+        // A reply that is not an action is treated as the final answer
+        if (!action || typeof action.final === "string" || typeof action.tool !== "string") {
+            yield { type: "final", text: typeof action?.final === "string" ? action.final : reply };
+            return;
+        }
+
+        const input = action.input && typeof action.input === "object" && !Array.isArray(action.input) ? action.input as Record<string, unknown> : {};
+        const tool = tools.find((candidate) => candidate.name === action.tool);
+        const call: ToolCallStep = {
+            id: nextId(),
+            kind: "tool_call",
+            tool: action.tool,
+            input,
+            thought: typeof action.thought === "string" ? action.thought : undefined,
+            ...(tool ? { permission: tool.permission } : {}),
+        };
+        steps.push(call);
+        yield { type: "step", step: call };
+
+        const started = Date.now();
+        const denial = tool ? checkToolPermission(tool, context) : null;
+        let output: string;
+        let ok = true;
+        try {
+            if (!tool) throw new Error(`Unknown tool "${call.tool}"`);
+            if (denial) throw new Error(denial);
+            const invalid = validateToolInput(tool, input);
+            if (invalid) throw new Error(invalid);
+            output = await tool.run(input, { ...context, signal });
+        } catch (err) {
+            ok = false;
+            output = err instanceof Error ? err.message : String(err);
+        }
+
+        const result: ToolResultStep = {
+            id: nextId(),
+            kind: "tool_result",
+            tool: call.tool,
+            ok,
+            output: output.length > MAX_TOOL_OUTPUT ? `${output.slice(0, MAX_TOOL_OUTPUT)}\n…(truncated)` : output,
+            durationMs: Date.now() - started,
+            ...(denial ? { denied: true } : {}),
+        };
+        steps.push(result);
+        await audit?.(call, result);
+        yield { type: "step", step: result };
+    }
+
+    // 3. Out of steps: force a summary
+    const summary = await ask(
+        "You are out of tool calls. Write the final markdown answer for the user, summarizing what you found and did."
+    );
+    yield { type: "final", text: summary };
+}
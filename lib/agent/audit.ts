@@ -0,0 +1,61 @@
+import { getCollection, newId } from "@/lib/storage/collection";
+import type { ToolCallRecord, ToolCallStep, ToolResultStep } from "./types";
+
+/**
+ * Audit log of Agent mode tool calls: every call with its input and result,
+ * denied ones included. Records are never deleted; deleting a thread only
+ * marks its records, so a user cannot erase what their runs did.
+ */
+
+function toolCalls() {
+    return getCollection<ToolCallRecord>("tool-calls");
+}
+
+/**
+ * Records a finished tool call
+ * @param userId - Owner of the thread
+ * @param threadId - Thread the call ran in
+ * @param call - The tool_call step
+ * @param result - Its tool_result step
+ * @returns The stored record
+ */
+export async function recordToolCall(userId: string, threadId: string, call: ToolCallStep, result: ToolResultStep): Promise<ToolCallRecord> {
+    return toolCalls().put({
+        id: newId(),
+        userId,
+        threadId,
+        stepId: call.id,
+        tool: call.tool,
+        permission: call.permission ?? null,
+        input: call.input,
+        ok: result.ok,
+        denied: result.denied ?? false,
+        output: result.output,
+        durationMs: result.durationMs ?? 0,
+        at: new Date().toISOString(),
+        threadDeletedAt: null,
+    });
+}
+
+/**
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @returns The thread's tool calls, oldest first
+ */
+export async function listToolCalls(userId: string, threadId: string): Promise<ToolCallRecord[]> {
+    const records = await toolCalls().list((record) => record.userId === userId && record.threadId === threadId);
+    return records.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/**
+ * Marks a thread's records as belonging to a deleted thread, keeping them
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @returns Number of records marked
+ */
+export async function markThreadDeleted(userId: string, threadId: string): Promise<number> {
+    const records = await toolCalls().list((record) => record.userId === userId && record.threadId === threadId && !record.threadDeletedAt);
+    const at = new Date().toISOString();
+    await Promise.all(records.map((record) => toolCalls().put({ ...record, threadDeletedAt: at })));
+    return records.length;
+}
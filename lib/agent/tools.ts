@@ -0,0 +1,314 @@
+import { mkdir, readFile, readdir, stat, writeFile } from "fs/promises";
+import path from "path";
+import { searchIndex } from "@/lib/indexing/index-service";
+import type { RepoIndex } from "@/lib/indexing/types";
+import type { ToolDeclaration, ToolParameters } from "@/lib/llm/types";
+import { runSnippet } from "@/lib/sandbox/sandbox";
+import { searchThreads } from "@/lib/search/thread-search";
+import type { ToolPermission } from "./types";
+import { MAX_WORKSPACE_FILE_BYTES, resolveWorkspacePath } from "./workspace";
+
+/**
+ * Registry of the tools Agent mode can call. Each tool declares its input as
+ * JSON Schema, which is sent to models with function calling and checked
+ * before the tool runs, and the permission it needs from the run.
+ */
+
+export interface AgentContext {
+    userId: string | null;
+    /** Scratch workspace of the thread; file tools and commands are unavailable without one */
+    workspace?: string | null;
+    /** Repository index search_index searches */
+    index?: RepoIndex | null;
+    /** Permissions granted to this run; read only when unset */
+    permissions?: ToolPermission[];
+    /** Stops a running command */
+    signal?: AbortSignal;
+}
+
+export interface AgentTool {
+    name: string;
+    description: string;
+    parameters: ToolParameters;
+    permission: ToolPermission;
+    run(input: Record<string, unknown>, context: AgentContext): Promise<string>;
+}
+
+/** Limits on what list_dir and grep return */
+const MAX_LISTED_ENTRIES = 200;
+const MAX_GREP_MATCHES = 100;
+const MAX_GREP_FILES = 2000;
+/** Longest text grep looks for, and the part of a matching line it shows */
+const MAX_GREP_PATTERN = 200;
+const MAX_GREP_LINE = 300;
+
+/** Directories grep never descends into */
+const SKIPPED_DIRS = new Set([".git", "node_modules"]);
+
+function requireWorkspace(context: AgentContext): string {
+    if (!context.workspace) throw new Error("No workspace: this run has no files to work on.");
+    return context.workspace;
+}
+
+/**
+ * Walks a directory depth-first in name order
+ * @param dir - Directory to walk
+ * @returns Absolute paths of the files below it
+ */
+async function* walk(dir: string): AsyncGenerator<string> {
+    const entries = (await readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+        if (entry.isDirectory() && !SKIPPED_DIRS.has(entry.name)) yield* walk(path.join(dir, entry.name));
+        else if (entry.isFile()) yield path.join(dir, entry.name);
+    }
+}
+
+const readFileTool: AgentTool = {
+    name: "read_file",
+    description: "Reads a file from the workspace, optionally a range of its lines.",
+    parameters: {
+        type: "object",
+        properties: {
+            path: { type: "string", description: "Path relative to the workspace root" },
+            startLine: { type: "integer", description: "First line to read, 1-based" },
+            endLine: { type: "integer", description: "Last line to read, inclusive" },
+        },
+        required: ["path"],
+    },
+    permission: "read",
+    async run(input, context) {
+        const file = await resolveWorkspacePath(requireWorkspace(context), input.path as string);
+        if ((await stat(file)).size > MAX_WORKSPACE_FILE_BYTES) {
+            throw new Error(`${input.path} is larger than ${MAX_WORKSPACE_FILE_BYTES / 1024} KB; use grep to find what you need`);
+        }
+        const lines = (await readFile(file, "utf8")).split("\n");
+        const start = Math.max(1, (input.startLine as number | undefined) ?? 1);
+        const end = Math.min(lines.length, (input.endLine as number | undefined) ?? lines.length);
+        return lines.slice(start - 1, end).map((line, i) => `${start + i}: ${line}`).join("\n") || "(empty file)";
+    },
+};
+
+const listDirTool: AgentTool = {
+    name: "list_dir",
+    description: "Lists a workspace directory. Directories end with a slash.",
+    parameters: {
+        type: "object",
+        properties: {
+            path: { type: "string", description: 'Directory relative to the workspace root; "." for the root' },
+        },
+        required: [],
+    },
+    permission: "read",
+    async run(input, context) {
+        const dir = await resolveWorkspacePath(requireWorkspace(context), (input.path as string | undefined) ?? ".");
+        const entries = (await readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+        if (entries.length === 0) return "(empty directory)";
+
+        const names = entries.slice(0, MAX_LISTED_ENTRIES).map((entry) => entry.isDirectory() ? `${entry.name}/` : entry.name);
+        const more = entries.length - names.length;
+        return more > 0 ? `${names.join("\n")}\n…and ${more} more` : names.join("\n");
+    },
+};
+
+const grepTool: AgentTool = {
+    name: "grep",
+    // Literal matching: a model-chosen regular expression could backtrack for minutes on the server's event loop
+    description: "Searches the workspace's files for a piece of text, case-insensitively. The text is matched literally, not as a regular expression.",
+    parameters: {
+        type: "object",
+        properties: {
+            pattern: { type: "string", description: `Text to find, up to ${MAX_GREP_PATTERN} characters` },
+            path: { type: "string", description: "Directory or file to search; the whole workspace by default" },
+        },
+        required: ["pattern"],
+    },
+    permission: "read",
+    async run(input, context) {
+        const root = requireWorkspace(context);
+        const pattern = (input.pattern as string).toLowerCase();
+        if (!pattern) throw new Error("pattern must not be empty");
+        if (pattern.length > MAX_GREP_PATTERN) throw new Error(`pattern is limited to ${MAX_GREP_PATTERN} characters`);
+
+        const base = await resolveWorkspacePath(root, (input.path as string | undefined) ?? ".");
+        const files = (await stat(base)).isDirectory() ? walk(base) : [base];
+        const realRoot = await resolveWorkspacePath(root, ".");
+        const matches: string[] = [];
+        let searched = 0;
+
+        for await (const file of files) {
+            if (++searched > MAX_GREP_FILES || matches.length >= MAX_GREP_MATCHES) break;
+            if ((await stat(file)).size > MAX_WORKSPACE_FILE_BYTES) continue;
+
+            const lines = (await readFile(file, "utf8")).split("\n");
+            lines.forEach((line, i) => {
+                if (matches.length < MAX_GREP_MATCHES && line.toLowerCase().includes(pattern)) {
+                    const text = line.trim();
+                    matches.push(`${path.relative(realRoot, file)}:${i + 1}: ${text.length > MAX_GREP_LINE ? `${text.slice(0, MAX_GREP_LINE)}…` : text}`);
+                }
+            });
+        }
+        if (matches.length === 0) return "No matches.";
+        return matches.length >= MAX_GREP_MATCHES ? `${matches.join("\n")}\n…stopped after ${MAX_GREP_MATCHES} matches` : matches.join("\n");
+    },
+};
+
+const writeFileTool: AgentTool = {
+    name: "write_file",
+    description: "Creates or overwrites a file in the workspace with the given content.",
+    parameters: {
+        type: "object",
+        properties: {
+            path: { type: "string", description: "Path relative to the workspace root" },
+            content: { type: "string", description: "Complete new content of the file" },
+        },
+        required: ["path", "content"],
+    },
+    permission: "write",
+    async run(input, context) {
+        const content = input.content as string;
+        const bytes = Buffer.byteLength(content);
+        if (bytes > MAX_WORKSPACE_FILE_BYTES) {
+            throw new Error(`Files up to ${MAX_WORKSPACE_FILE_BYTES / 1024} KB can be written`);
+        }
+
+        const file = await resolveWorkspacePath(requireWorkspace(context), input.path as string);
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, content, "utf8");
+        return `Wrote ${bytes} bytes to ${input.path}`;
+    },
+};
+
+const runCommandTool: AgentTool = {
+    name: "run_command",
+    description: "Runs a shell command in the workspace, in the code sandbox: no network, 10 s and 256 MB at most.",
+    parameters: {
+        type: "object",
+        properties: {
+            command: { type: "string", description: "Bash command line, e.g. \"node --test\"" },
+        },
+        required: ["command"],
+    },
+    permission: "execute",
+    async run(input, context) {
+        const result = await runSnippet("shell", input.command as string, { cwd: requireWorkspace(context), signal: context.signal });
+        const output = result.output.map((chunk) => chunk.text).join("").trimEnd();
+        const status = result.timedOut
+            ? "killed: timed out"
+            : result.exitCode === null ? `killed by ${result.signal ?? "a signal"}` : `exit ${result.exitCode}`;
+        if (result.exitCode !== 0) throw new Error(`${output}\n(${status})`.trim());
+        return `${output}\n(${status})`.trim();
+    },
+};
+
+const searchIndexTool: AgentTool = {
+    name: "search_index",
+    description: "Searches the repository index selected for this chat for code relevant to a query.",
+    parameters: {
+        type: "object",
+        properties: {
+            query: { type: "string", description: "What to look for, in words or identifiers" },
+        },
+        required: ["query"],
+    },
+    permission: "read",
+    async run(input, context) {
+        if (!context.index) throw new Error("No repository index is selected for this chat.");
+
+        const hits = await searchIndex(context.index, input.query as string, 5);
+        if (hits.length === 0) return "No matching code.";
+        return hits
+            .map(({ chunk }) => `### ${chunk.path}:${chunk.startLine}-${chunk.endLine}\n${chunk.text}`)
+            .join("\n\n");
+    },
+};
+
+const searchThreadsTool: AgentTool = {
+    name: "search_threads",
+    description: "Full-text search over the user's earlier CodInspect conversations.",
+    parameters: {
+        type: "object",
+        properties: {
+            query: { type: "string", description: "Words or a \"quoted phrase\" to find" },
+        },
+        required: ["query"],
+    },
+    permission: "read",
+    async run(input, context) {
+        if (!context.userId) return "Search is unavailable: the user is not signed in.";
+
+        const results = await searchThreads(context.userId, input.query as string, 5);
+        if (results.length === 0) return "No matching messages.";
+
+        return results
+            .map((result) => `- [${result.threadTitle}] (${result.role}) ${result.snippet.text}`)
+            .join("\n");
+    },
+};
+
+/**
+ * Tools available to Agent mode by default
+ * @returns Tool list, in the order shown to the model
+ */
+export function defaultAgentTools(): AgentTool[] {
+    return [readFileTool, listDirTool, grepTool, writeFileTool, runCommandTool, searchIndexTool, searchThreadsTool];
+}
+
+/**
+ * @param tools - Tools offered to the model
+ * @returns Their function declarations
+ */
+export function toolDeclarations(tools: AgentTool[]): ToolDeclaration[] {
+    return tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+/**
+ * Describes a tool's input for models without function calling
+ * @param parameters - The tool's input schema
+ * @returns e.g. { "path": string, "startLine"?: integer }
+ */
+export function describeInput(parameters: ToolParameters): string {
+    const fields = Object.entries(parameters.properties).map(([name, property]) => {
+        const optional = parameters.required.includes(name) ? "" : "?";
+        const type = property.type === "array" ? `${property.items?.type ?? "string"}[]` : property.type;
+        return `"${name}"${optional}: ${type}`;
+    });
+    return `{ ${fields.join(", ")} }`;
+}
+
+/**
+ * Checks a call's input against the tool's schema
+ * @param tool - Tool being called
+ * @param input - Input the model sent
+ * @returns What is wrong with the input, or null when it is valid
+ */
+export function validateToolInput(tool: AgentTool, input: Record<string, unknown>): string | null {
+    const { properties, required } = tool.parameters;
+    for (const name of required) {
+        if (input[name] === undefined || input[name] === null) return `${tool.name} needs "${name}"`;
+    }
+    for (const [name, value] of Object.entries(input)) {
+        const property = properties[name];
+        if (!property) return `${tool.name} has no input "${name}"`;
+        if (value === undefined || value === null) continue;
+
+        const valid = property.type === "integer" ? Number.isInteger(value)
+            : property.type === "array" ? Array.isArray(value) && value.every((item) => typeof item === "string")
+            : typeof value === property.type;
+        const expected = property.type === "array" ? "an array of strings" : property.type === "integer" ? "an integer" : `a ${property.type}`;
+        if (!valid) return `"${name}" must be ${expected}`;
+    }
+    return null;
+}
+
+/**
+ * Checks that the run was granted what a tool needs
+ * @param tool - Tool being called
+ * @param context - The run's context
+ * @returns Why the call is refused, or null when it may run
+ */
+export function checkToolPermission(tool: AgentTool, context: AgentContext): string | null {
+    const granted = context.permissions ?? ["read"];
+    return granted.includes(tool.permission)
+        ? null
+        : `Permission denied: ${tool.name} needs the ${tool.permission} permission, which this chat did not grant`;
+}
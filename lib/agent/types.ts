@@ -0,0 +1,53 @@
+/**
+ * Structured steps produced by Agent mode. They are streamed to the client,
+ * stored alongside the final answer and rendered as cards in ChatInterface.
+ */
+
+export type ChatMode = "Agent" | "Ask";
+
+/**
+ * What a tool may do. Reads cover the workspace, indexes and threads; writes
+ * go to the thread's scratch workspace, and commands run in the code sandbox
+ * with the workspace as the only directory they can write
+ */
+export type ToolPermission = "read" | "write" | "execute";
+
+export type AgentStep =
+    | { id: string; kind: "plan"; steps: string[] }
+    | { id: string; kind: "tool_call"; tool: string; input: Record<string, unknown>; thought?: string; permission?: ToolPermission }
+    | {
+        id: string;
+        kind: "tool_result";
+        tool: string;
+        ok: boolean;
+        output: string;
+        durationMs?: number;
+        /** The run was not granted the tool's permission, so it did not run */
+        denied?: boolean;
+    };
+
+export type ToolCallStep = Extract<AgentStep, { kind: "tool_call" }>;
+export type ToolResultStep = Extract<AgentStep, { kind: "tool_result" }>;
+
+export type AgentEvent =
+    | { type: "step"; step: AgentStep }
+    | { type: "final"; text: string };
+
+/** Audit record of one tool call, kept per thread */
+export interface ToolCallRecord {
+    id: string;
+    userId: string;
+    threadId: string;
+    /** Id of the tool_call step in the reply's steps */
+    stepId: string;
+    tool: string;
+    permission: ToolPermission | null;
+    input: Record<string, unknown>;
+    ok: boolean;
+    denied: boolean;
+    output: string;
+    durationMs: number;
+    at: string;
+    /** When the thread was deleted; its records are kept for audit */
+    threadDeletedAt: string | null;
+}
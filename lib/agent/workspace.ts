@@ -0,0 +1,99 @@
+import { lstat, mkdir, realpath, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { AttachmentFile } from "@/lib/attachments/types";
+
+/**
+ * Scratch workspaces for Agent mode: one directory per thread holding copies
+ * of the files attached on it. Agent tools read, write and run commands there,
+ * and never outside it. Workspaces live apart from the data directory, and
+ * commands run in the code sandbox, which sees only the workspace. Server-only.
+ */
+
+/** Largest file the agent may write */
+export const MAX_WORKSPACE_FILE_BYTES = 512 * 1024;
+
+/** Thrown when a tool is given a path that leaves the workspace */
+export class WorkspacePathError extends Error {
+    constructor(relative: string) {
+        super(`"${relative}" is outside the workspace`);
+        this.name = "WorkspacePathError";
+    }
+}
+
+const SAFE_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * @param threadId - Thread id
+ * @returns Directory of the thread's workspace, under CODINSPECT_WORKSPACE_DIR or the temp directory
+ */
+function workspaceDir(threadId: string): string {
+    if (!SAFE_ID.test(threadId)) throw new Error("Invalid thread id");
+    return path.join(process.env.CODINSPECT_WORKSPACE_DIR ?? path.join(os.tmpdir(), "codinspect-workspaces"), threadId);
+}
+
+/**
+ * Resolves a path given to a tool against the workspace. Symbolic links are
+ * followed, so a link made by a command cannot lead a later read outside
+ * @param root - Workspace directory
+ * @param relative - Path relative to the workspace root; "" or "." for the root
+ * @returns Absolute path inside the workspace
+ * @throws WorkspacePathError when the path leaves the workspace
+ */
+export async function resolveWorkspacePath(root: string, relative: string): Promise<string> {
+    const realRoot = await realpath(root);
+    const target = path.resolve(realRoot, relative.replace(/^\/+/, ""));
+    if (target !== realRoot && !target.startsWith(realRoot + path.sep)) throw new WorkspacePathError(relative);
+
+    // The nearest existing ancestor decides where a new file would really land
+    let existing = target;
+    while (existing !== realRoot) {
+        try {
+            await lstat(existing);
+            break;
+        } catch {
+            existing = path.dirname(existing);
+        }
+    }
+    const real = await realpath(existing);
+    if (real !== realRoot && !real.startsWith(realRoot + path.sep)) throw new WorkspacePathError(relative);
+    return target;
+}
+
+/**
+ * Opens a thread's workspace, copying in attached files it does not have yet.
+ * Files the agent changed in earlier turns are kept
+ * @param threadId - Thread id
+ * @param files - Files attached on the thread's branch
+ * @returns Workspace directory
+ */
+export async function openWorkspace(threadId: string, files: AttachmentFile[]): Promise<string> {
+    const root = workspaceDir(threadId);
+    await mkdir(root, { recursive: true });
+
+    for (const file of files) {
+        let target: string;
+        try {
+            target = await resolveWorkspacePath(root, file.path);
+        } catch {
+            continue;
+        }
+        try {
+            await lstat(target);
+            continue;
+        } catch {
+            // Not copied yet
+        }
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, file.content, { encoding: "utf8", flag: "wx" }).catch(() => undefined);
+    }
+    return root;
+}
+
+/**
+ * Removes a thread's workspace, for when the thread itself is deleted
+ * @param threadId - Thread id
+ */
+export async function deleteWorkspace(threadId: string): Promise<void> {
+    await rm(workspaceDir(threadId), { recursive: true, force: true });
+}
@@ -0,0 +1,35 @@
+import { fence } from "@/lib/threads/thread-export";
+import type { Diagnostic, StaticAnalysis } from "./types";
+
+/**
+ * @param diagnostic - Compiler or lint finding
+ * @returns e.g. src/app.ts:12:5
+ */
+export function diagnosticLocation(diagnostic: Diagnostic): string {
+    return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`;
+}
+
+/**
+ * @param diagnostic - Compiler or lint finding
+ * @returns One line such as `src/app.ts:12:5 error TS2322 Type 'string' is not assignable to type 'number'.`
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+    return [diagnosticLocation(diagnostic), diagnostic.severity, diagnostic.code, diagnostic.message].filter(Boolean).join(" ");
+}
+
+/**
+ * Renders an attachment's analysis as a prompt section, so the model works
+ * from what the tools reported instead of guessing
+ * @param name - Attachment name
+ * @param analysis - Its static analysis
+ * @returns Prompt text, or "" when there was no code to check
+ */
+export function buildAnalysisContext(name: string, analysis: StaticAnalysis): string {
+    if (analysis.fileCount === 0) return "";
+    const skipped = analysis.unchecked ? ` (${analysis.unchecked} more were past the analysis limits and not checked)` : "";
+    const checked = `The TypeScript compiler and ESLint checked ${analysis.fileCount} ${analysis.fileCount === 1 ? "file" : "files"} of ${name}${skipped}`;
+    if (analysis.diagnostics.length === 0) return `${checked} and reported no problems.`;
+
+    const more = analysis.truncated ? `\n... and ${analysis.truncated} more` : "";
+    return `${checked}. Unresolved imports of packages that were not attached are left out. One diagnostic per line, as file:line:column severity code message:\n\n${fence(`${analysis.diagnostics.map(formatDiagnostic).join("\n")}${more}`, "text")}`;
+}
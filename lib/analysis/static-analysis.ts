@@ -0,0 +1,180 @@
+import path from "path";
+import type { AttachmentFile } from "@/lib/attachments/types";
+import type { Diagnostic, StaticAnalysis } from "./types";
+
+/**
+ * Static-analysis pre-pass: attached TypeScript and JavaScript files go
+ * through the TypeScript compiler and ESLint before the model sees them, so
+ * answers start from real errors. Runs once per attachment, when it is
+ * uploaded. Server-only; both tools are loaded on first use to keep them out
+ * of uploads without code.
+ */
+
+/** Files checked per attachment; the rest are left to the model */
+export const MAX_ANALYZED_FILES = 50;
+
+/**
+ * Source checked per attachment. The compiler and linter run on the server's
+ * event loop, so the work one upload can cause is bounded
+ */
+export const MAX_ANALYZED_BYTES = 256 * 1024;
+
+/** Diagnostics kept per attachment */
+export const MAX_DIAGNOSTICS = 100;
+
+const ANALYZED_LANGUAGES = new Set(["typescript", "tsx", "javascript", "jsx"]);
+
+/**
+ * Compiler errors that only mean a dependency or its types were not attached.
+ * Reporting them would bury the real problems under every import
+ */
+const ENVIRONMENT_CODES = new Set([
+    2307, // Cannot find module
+    2792, // Cannot find module, with a moduleResolution hint
+    7016, // Could not find a declaration file for module
+    2875, // JSX needs react/jsx-runtime
+    7026, // JSX element implicitly has type 'any'
+    2503, // Cannot find namespace, e.g. React or JSX
+    2686, // UMD global used in a module
+    2580, 2591, // Node globals such as require or process
+    2582, 2593, // Test runner globals such as describe or it
+]);
+
+/** Virtual directory the attached files are checked in */
+const ROOT = "/attachment";
+
+const position = (file: AttachmentFile) => path.posix.join(ROOT, file.path);
+
+/**
+ * Type-checks TypeScript files and syntax-checks JavaScript ones, together,
+ * so imports between attached files resolve
+ * @param files - Files to check
+ * @returns Compiler diagnostics, except those caused by missing dependencies
+ */
+async function typeCheck(files: AttachmentFile[]): Promise<Diagnostic[]> {
+    const ts = await import("typescript");
+    const sources = new Map(files.map((file) => [position(file), file]));
+
+    const options: import("typescript").CompilerOptions = {
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        jsx: ts.JsxEmit.ReactJSX,
+        lib: ["lib.es2022.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+        strict: true,
+        allowJs: true,
+        esModuleInterop: true,
+        resolveJsonModule: true,
+        skipLibCheck: true,
+        noEmit: true,
+        types: [],
+    };
+
+    // Only the attached files and the compiler's own lib files exist for the check
+    const host = ts.createCompilerHost(options);
+    const libDirectory = path.dirname(ts.getDefaultLibFilePath(options));
+    const readable = (fileName: string) => fileName.startsWith(libDirectory);
+    const getLibFile = host.getSourceFile.bind(host);
+
+    host.getCurrentDirectory = () => ROOT;
+    host.fileExists = (fileName) => sources.has(fileName) || (readable(fileName) && ts.sys.fileExists(fileName));
+    host.readFile = (fileName) => sources.get(fileName)?.content ?? (readable(fileName) ? ts.sys.readFile(fileName) : undefined);
+    host.directoryExists = (directory) => directory === ROOT || [...sources.keys()].some((fileName) => fileName.startsWith(`${directory}/`)) || readable(directory);
+    host.getDirectories = () => [];
+    host.getSourceFile = (fileName, languageVersion) => {
+        const source = sources.get(fileName);
+        if (source) return ts.createSourceFile(fileName, source.content, languageVersion, true);
+        return readable(fileName) ? getLibFile(fileName, languageVersion) : undefined;
+    };
+
+    const program = ts.createProgram([...sources.keys()], options, host);
+    const diagnostics = [...program.getSyntacticDiagnostics(), ...program.getSemanticDiagnostics()];
+
+    return diagnostics.flatMap((diagnostic): Diagnostic[] => {
+        const file = diagnostic.file && sources.get(diagnostic.file.fileName);
+        if (!file || ENVIRONMENT_CODES.has(diagnostic.code)) return [];
+        if (diagnostic.category !== ts.DiagnosticCategory.Error && diagnostic.category !== ts.DiagnosticCategory.Warning) return [];
+
+        const { line, character } = diagnostic.file!.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+        return [{
+            source: "typescript",
+            file: file.path,
+            line: line + 1,
+            column: character + 1,
+            severity: diagnostic.category === ts.DiagnosticCategory.Error ? "error" : "warning",
+            code: `TS${diagnostic.code}`,
+            message: ts.flattenDiagnosticMessageText(diagnostic.messageText, " "),
+        }];
+    });
+}
+
+/**
+ * Lints files with the rules this project lints itself with (see
+ * eslint.config.mjs), built inline so the linter never reads config files
+ * from the server's disk for user code
+ * @param files - Files to lint
+ * @returns Lint and parse errors
+ */
+async function lint(files: AttachmentFile[]): Promise<Diagnostic[]> {
+    const [{ ESLint }, { default: nextVitals }, { default: nextTs }] = await Promise.all([
+        import("eslint"),
+        import("eslint-config-next/core-web-vitals"),
+        import("eslint-config-next/typescript"),
+    ]);
+    const eslint = new ESLint({ cwd: process.cwd(), overrideConfigFile: true, overrideConfig: [...nextVitals, ...nextTs] });
+    const base = path.join(process.cwd(), "attachment");
+
+    const diagnostics: Diagnostic[] = [];
+    for (const file of files) {
+        // Let other requests run between files
+        await new Promise((resolve) => setImmediate(resolve));
+        const [result] = await eslint.lintText(file.content, { filePath: path.join(base, file.path) });
+        for (const message of result?.messages ?? []) {
+            diagnostics.push({
+                source: "eslint",
+                file: file.path,
+                line: message.line,
+                column: message.column,
+                severity: message.severity === 2 ? "error" : "warning",
+                ...(message.ruleId ? { code: message.ruleId } : {}),
+                message: message.message,
+            });
+        }
+    }
+    return diagnostics;
+}
+
+/**
+ * Runs the compiler and the linter over an attachment's code, up to
+ * MAX_ANALYZED_FILES files and MAX_ANALYZED_BYTES in path order
+ * @param files - Files of one attachment
+ * @param analyzedAt - Timestamp to record
+ * @returns Errors first, then warnings, each in file and line order
+ */
+export async function analyzeFiles(files: AttachmentFile[], analyzedAt = new Date().toISOString()): Promise<StaticAnalysis> {
+    const candidates = files.filter((file) => ANALYZED_LANGUAGES.has(file.language));
+    const code: AttachmentFile[] = [];
+    let bytes = 0;
+    for (const file of candidates) {
+        if (code.length === MAX_ANALYZED_FILES) break;
+        if (bytes + file.bytes > MAX_ANALYZED_BYTES) continue;
+        code.push(file);
+        bytes += file.bytes;
+    }
+    const unchecked = candidates.length - code.length;
+    if (code.length === 0) return { analyzedAt, fileCount: 0, diagnostics: [], truncated: 0, ...(unchecked ? { unchecked } : {}) };
+
+    const found = [...await typeCheck(code), ...await lint(code)];
+    found.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1)
+        || a.file.localeCompare(b.file)
+        || a.line - b.line
+        || a.column - b.column);
+
+    return {
+        analyzedAt,
+        fileCount: code.length,
+        diagnostics: found.slice(0, MAX_DIAGNOSTICS),
+        truncated: Math.max(0, found.length - MAX_DIAGNOSTICS),
+        ...(unchecked ? { unchecked } : {}),
+    };
+}
@@ -0,0 +1,25 @@
+export type DiagnosticSource = "typescript" | "eslint";
+
+export interface Diagnostic {
+    source: DiagnosticSource;
+    /** Path of the attached file */
+    file: string;
+    line: number;
+    column: number;
+    severity: "error" | "warning";
+    /** e.g. TS2322 or no-unused-vars; unset for parse errors */
+    code?: string;
+    message: string;
+}
+
+/** What the compiler and linter found in an attachment's TypeScript and JavaScript files */
+export interface StaticAnalysis {
+    analyzedAt: string;
+    /** Files that were checked; zero when the attachment holds no TypeScript or JavaScript */
+    fileCount: number;
+    diagnostics: Diagnostic[];
+    /** Diagnostics left out past the per-attachment limit */
+    truncated: number;
+    /** TypeScript and JavaScript files not checked, past the per-attachment file or size limit */
+    unchecked?: number;
+}
@@ -0,0 +1,206 @@
+import { gunzipSync, inflateRawSync } from "zlib";
+
+/**
+ * Minimal readers for the archive formats users upload: .zip, .tar and
+ * .tar.gz/.tgz. They only need regular files, so links, devices and
+ * ZIP64 archives are not supported.
+ */
+
+export interface ArchiveEntry {
+    path: string;
+    data: Buffer;
+}
+
+export interface ArchiveLimits {
+    /** Maximum number of file entries */
+    maxEntries: number;
+    /** Maximum total uncompressed size, guarding against archive bombs */
+    maxTotalBytes: number;
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+    maxEntries: 5000,
+    maxTotalBytes: 50 * 1024 * 1024,
+};
+
+export type ArchiveKind = "zip" | "tar" | "tar.gz";
+
+/**
+ * Detects the archive format from the file name
+ * @param name - Uploaded file name
+ * @returns Archive kind, or null for plain files
+ */
+export function archiveKind(name: string): ArchiveKind | null {
+    const lower = name.toLowerCase();
+    if (lower.endsWith(".zip")) return "zip";
+    if (lower.endsWith(".tar.gz") || lower.endsWith(".tgz")) return "tar.gz";
+    if (lower.endsWith(".tar")) return "tar";
+    return null;
+}
+
+/**
+ * Normalizes an archive path and rejects ones that escape the archive root
+ * @param raw - Path as stored in the archive
+ * @returns Relative forward-slash path, or null if unsafe
+ */
+export function normalizeEntryPath(raw: string): string | null {
+    const parts: string[] = [];
+    for (const part of raw.replace(/\\/g, "/").split("/")) {
+        if (part === "" || part === ".") continue;
+        if (part === "..") return null;
+        parts.push(part);
+    }
+    return parts.length ? parts.join("/") : null;
+}
+
+function checkLimits(entries: ArchiveEntry[], totalBytes: number, limits: ArchiveLimits) {
+    if (entries.length >= limits.maxEntries) {
+        throw new Error(`Archive has more than ${limits.maxEntries} files`);
+    }
+    if (totalBytes > limits.maxTotalBytes) {
+        throw new Error(`Archive expands to more than ${Math.round(limits.maxTotalBytes / 1024 / 1024)}MB`);
+    }
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/**
+ * Reads the regular files of a zip archive
+ * @param buffer - Whole archive
+ * @param limits - Entry count and size limits
+ * @returns Entries with safe relative paths
+ */
+export function readZip(buffer: Buffer, limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): ArchiveEntry[] {
+    // The end-of-central-directory record sits in the last 64KB + 22 bytes
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+        if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd === -1) throw new Error("Not a valid zip archive");
+
+    const count = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    if (count === 0xffff || offset === 0xffffffff) {
+        throw new Error("ZIP64 archives are not supported");
+    }
+
+    const entries: ArchiveEntry[] = [];
+    let totalBytes = 0;
+
+    for (let i = 0; i < count; i++) {
+        if (buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+            throw new Error("Corrupt zip central directory");
+        }
+
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const size = buffer.readUInt32LE(offset + 24);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const rawName = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        const path = normalizeEntryPath(rawName);
+        if (rawName.endsWith("/") || !path) continue;
+
+        if (buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+            throw new Error(`Corrupt zip entry: ${rawName}`);
+        }
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+
+        totalBytes += size;
+        checkLimits(entries, totalBytes, limits);
+
+        if (method === 0) {
+            entries.push({ path, data: Buffer.from(raw) });
+        } else if (method === 8) {
+            entries.push({ path, data: inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) }) });
+        } else {
+            throw new Error(`Unsupported zip compression method ${method} for ${rawName}`);
+        }
+    }
+
+    return entries;
+}
+
+function readString(block: Buffer, start: number, length: number): string {
+    const raw = block.subarray(start, start + length);
+    const end = raw.indexOf(0);
+    return raw.toString("utf8", 0, end === -1 ? raw.length : end);
+}
+
+/**
+ * Reads the regular files of a tar archive (ustar, GNU long names and pax paths)
+ * @param buffer - Whole, uncompressed archive
+ * @param limits - Entry count and size limits
+ * @returns Entries with safe relative paths
+ */
+export function readTar(buffer: Buffer, limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+    let totalBytes = 0;
+    let offset = 0;
+    let longName: string | null = null;
+
+    while (offset + 512 <= buffer.length) {
+        const header = buffer.subarray(offset, offset + 512);
+        if (header.every((byte) => byte === 0)) break;
+
+        const size = parseInt(readString(header, 124, 12).trim() || "0", 8);
+        const type = String.fromCharCode(header[156] || 48);
+        const prefix = readString(header, 345, 155);
+        const name = readString(header, 0, 100);
+        const data = buffer.subarray(offset + 512, offset + 512 + size);
+        offset += 512 + Math.ceil(size / 512) * 512;
+
+        if (type === "L") {
+            longName = readString(data, 0, data.length);
+            continue;
+        }
+        if (type === "x") {
+            const match = /\d+ path=([^\n]*)\n/.exec(data.toString("utf8"));
+            if (match) longName = match[1];
+            continue;
+        }
+
+        const fullName = longName ?? (prefix ? `${prefix}/${name}` : name);
+        longName = null;
+
+        // Only regular files ("0" or legacy NUL)
+        if (type !== "0") continue;
+
+        const path = normalizeEntryPath(fullName);
+        if (!path) continue;
+
+        totalBytes += size;
+        checkLimits(entries, totalBytes, limits);
+        entries.push({ path, data: Buffer.from(data) });
+    }
+
+    return entries;
+}
+
+/**
+ * Extracts an uploaded archive of any supported kind
+ * @param kind - Archive kind from archiveKind()
+ * @param buffer - Uploaded bytes
+ * @param limits - Entry count and size limits
+ * @returns Regular file entries
+ */
+export function extractArchive(kind: ArchiveKind, buffer: Buffer, limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): ArchiveEntry[] {
+    switch (kind) {
+        case "zip":
+            return readZip(buffer, limits);
+        case "tar":
+            return readTar(buffer, limits);
+        case "tar.gz":
+            return readTar(gunzipSync(buffer, { maxOutputLength: limits.maxTotalBytes + 1024 * 1024 }), limits);
+    }
+}
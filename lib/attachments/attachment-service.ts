@@ -0,0 +1,164 @@
+import { buildAnalysisContext } from "@/lib/analysis/diagnostics";
+import { analyzeFiles } from "@/lib/analysis/static-analysis";
+import type { StaticAnalysis } from "@/lib/analysis/types";
+import { getCollection, newId } from "@/lib/storage/collection";
+import { estimateTokens } from "@/lib/llm/tokens";
+import { archiveKind, extractArchive, normalizeEntryPath, type ArchiveEntry } from "./archive";
+import { languageFor, skipReason } from "./filters";
+import type { Attachment, AttachmentFile, AttachmentRef, SkippedFile } from "./types";
+
+/** Largest single text file kept from an upload */
+export const MAX_FILE_BYTES = 512 * 1024;
+
+/** Default share of the prompt reserved for attached files */
+export const DEFAULT_ATTACHMENT_TOKEN_BUDGET = 60_000;
+
+function attachments() {
+    return getCollection<Attachment>("attachments");
+}
+
+/**
+ * Turns an upload into a stored attachment, extracting archives and
+ * dropping binaries and vendored folders. Its code gets the static-analysis
+ * pre-pass here, once, so chats only read the findings; a failing analysis
+ * is logged and the attachment is stored without them
+ * @param userId - Owner id
+ * @param name - Uploaded file name
+ * @param data - Uploaded bytes
+ * @returns The stored attachment
+ * @throws When the archive is corrupt or exceeds the extraction limits
+ */
+export async function createAttachment(userId: string, name: string, data: Buffer): Promise<Attachment> {
+    const kind = archiveKind(name);
+    const entries: ArchiveEntry[] = kind
+        ? extractArchive(kind, data)
+        : [{ path: normalizeEntryPath(name) ?? "file", data }];
+
+    const files: AttachmentFile[] = [];
+    const skipped: SkippedFile[] = [];
+
+    for (const entry of entries) {
+        const reason = skipReason(entry.path, entry.data, MAX_FILE_BYTES);
+        if (reason) {
+            skipped.push({ path: entry.path, reason });
+            continue;
+        }
+
+        files.push({
+            path: entry.path,
+            content: entry.data.toString("utf8"),
+            bytes: entry.data.length,
+            language: languageFor(entry.path),
+        });
+    }
+
+    files.sort((a, b) => a.path.localeCompare(b.path));
+
+    let analysis: StaticAnalysis | undefined;
+    try {
+        analysis = await analyzeFiles(files);
+    } catch (error) {
+        console.warn(`⚠️ Static analysis of ${name} failed:`, error instanceof Error ? error.message : error);
+    }
+
+    return attachments().put({
+        id: newId(),
+        userId,
+        name,
+        createdAt: new Date().toISOString(),
+        files,
+        skipped,
+        ...(analysis ? { analysis } : {}),
+    });
+}
+
+/**
+ * Loads attachments the user owns, preserving the requested order
+ * @param userId - Owner id
+ * @param ids - Attachment ids
+ * @returns Attachments found; unknown or foreign ids are ignored
+ */
+export async function getAttachments(userId: string, ids: string[]): Promise<Attachment[]> {
+    const found = await Promise.all(ids.map((id) => attachments().get(id)));
+    return found.filter((attachment): attachment is Attachment => attachment?.userId === userId);
+}
+
+/**
+ * Ranks files so the most useful context is packed first: project source
+ * before docs and config, shallow paths before deep ones, small before large
+ */
+function packingOrder(a: AttachmentFile, b: AttachmentFile): number {
+    const weight = (file: AttachmentFile) =>
+        (["markdown", "json", "yaml", "toml", "text"].includes(file.language) ? 1 : 0) +
+        (/(^|\/)(tests?|__tests__|spec)\//.test(file.path) || /\.(test|spec)\./.test(file.path) ? 1 : 0);
+
+    return weight(a) - weight(b)
+        || a.path.split("/").length - b.path.split("/").length
+        || a.bytes - b.bytes;
+}
+
+export interface AttachmentContext {
+    /** Prompt section describing the attached files */
+    text: string;
+    refs: AttachmentRef[];
+}
+
+/**
+ * Packs attached files into a prompt section that fits the token budget.
+ * Files that do not fit are listed by path so the model knows they exist.
+ * Static-analysis findings are packed before the files they describe.
+ * @param list - Attachments to include
+ * @param tokenBudget - Maximum tokens for the whole section
+ * @returns Prompt text and per-attachment refs for the message chips
+ */
+export function buildAttachmentContext(list: Attachment[], tokenBudget = DEFAULT_ATTACHMENT_TOKEN_BUDGET): AttachmentContext {
+    let remaining = tokenBudget;
+    const sections: string[] = [];
+    const omittedPaths: string[] = [];
+    const analyses: string[] = [];
+    const refs: AttachmentRef[] = [];
+
+    for (const attachment of list) {
+        let omitted = 0;
+
+        const analysis = attachment.analysis?.fileCount ? attachment.analysis : undefined;
+        const findings = analysis ? buildAnalysisContext(attachment.name, analysis) : "";
+        if (findings && estimateTokens(findings) <= remaining) {
+            remaining -= estimateTokens(findings);
+            analyses.push(findings);
+        }
+
+        for (const file of [...attachment.files].sort(packingOrder)) {
+            const block = `### ${file.path}\n\`\`\`${file.language}\n${file.content}\n\`\`\``;
+            const cost = estimateTokens(block);
+            if (cost > remaining) {
+                omitted++;
+                omittedPaths.push(file.path);
+                continue;
+            }
+            remaining -= cost;
+            sections.push(block);
+        }
+
+        refs.push({
+            id: attachment.id,
+            name: attachment.name,
+            fileCount: attachment.files.length,
+            ...(omitted ? { omitted } : {}),
+            ...(analysis ? { analysis } : {}),
+        });
+    }
+
+    if (sections.length === 0 && omittedPaths.length === 0) {
+        return { text: "", refs };
+    }
+
+    const omittedNote = omittedPaths.length
+        ? `\n\nThese attached files were left out to fit the context window: ${omittedPaths.join(", ")}`
+        : "";
+
+    return {
+        text: `The user attached the following files:\n\n${sections.join("\n\n")}${omittedNote}${analyses.map((text) => `\n\n${text}`).join("")}`,
+        refs,
+    };
+}
@@ -0,0 +1,96 @@
+import type { SkippedFile } from "./types";
+
+/** Directories that hold dependencies, build output or VCS data rather than project source */
+const VENDORED_DIRECTORIES = new Set([
+    "node_modules", "bower_components", "vendor", "third_party",
+    ".git", ".hg", ".svn",
+    "dist", "build", "out", ".next", ".nuxt", "target", "coverage",
+    "__pycache__", ".venv", "venv", ".tox", ".mypy_cache", ".pytest_cache",
+    ".idea", ".vscode", ".gradle",
+]);
+
+/** Generated files that are large and rarely useful as context */
+const GENERATED_FILES = new Set([
+    "package-lock.json", "yarn.lock", "pnpm-lock.yaml", "bun.lockb",
+    "Cargo.lock", "poetry.lock", "composer.lock", "Gemfile.lock", "go.sum",
+    ".DS_Store",
+]);
+
+const BINARY_EXTENSIONS = new Set([
+    "png", "jpg", "jpeg", "gif", "webp", "ico", "bmp", "tiff", "psd",
+    "mp3", "mp4", "mov", "avi", "wav", "ogg", "webm",
+    "zip", "gz", "tgz", "tar", "bz2", "xz", "7z", "rar", "jar", "war",
+    "pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx",
+    "exe", "dll", "so", "dylib", "o", "a", "class", "pyc", "wasm",
+    "ttf", "otf", "woff", "woff2", "eot",
+    "sqlite", "db", "bin", "dat",
+]);
+
+const LANGUAGES: Record<string, string> = {
+    ts: "typescript", tsx: "tsx", js: "javascript", jsx: "jsx", mjs: "javascript", cjs: "javascript",
+    py: "python", rb: "ruby", go: "go", rs: "rust", java: "java", kt: "kotlin", swift: "swift",
+    c: "c", h: "c", cpp: "cpp", cc: "cpp", hpp: "cpp", cs: "csharp", php: "php", scala: "scala",
+    sh: "bash", bash: "bash", zsh: "bash", ps1: "powershell",
+    json: "json", yaml: "yaml", yml: "yaml", toml: "toml", xml: "xml", html: "html", css: "css", scss: "scss",
+    md: "markdown", sql: "sql", graphql: "graphql", proto: "protobuf", dockerfile: "dockerfile",
+    vue: "vue", svelte: "svelte", diff: "diff", patch: "diff",
+};
+
+function extensionOf(path: string): string {
+    const base = path.split("/").pop() ?? "";
+    if (base.toLowerCase() === "dockerfile") return "dockerfile";
+    const dot = base.lastIndexOf(".");
+    return dot > 0 ? base.slice(dot + 1).toLowerCase() : "";
+}
+
+/**
+ * Picks the code fence language for a file
+ * @param path - Relative file path
+ * @returns Language id understood by the syntax highlighter, or "text"
+ */
+export function languageFor(path: string): string {
+    return LANGUAGES[extensionOf(path)] ?? "text";
+}
+
+/**
+ * Checks whether a path lives in a vendored or generated location
+ * @param path - Normalized relative path
+ * @returns True if the file should not be sent to the model
+ */
+export function isVendored(path: string): boolean {
+    const parts = path.split("/");
+    const fileName = parts[parts.length - 1];
+    return parts.slice(0, -1).some((dir) => VENDORED_DIRECTORIES.has(dir)) || GENERATED_FILES.has(fileName);
+}
+
+/**
+ * Detects binary content by extension, NUL bytes or invalid UTF-8
+ * @param path - Relative file path
+ * @param data - File bytes
+ * @returns True if the file is not readable text
+ */
+export function isBinary(path: string, data: Buffer): boolean {
+    if (BINARY_EXTENSIONS.has(extensionOf(path))) return true;
+
+    const sample = data.subarray(0, 8000);
+    if (sample.includes(0)) return true;
+
+    // Decoding invalid UTF-8 yields replacement characters
+    const text = sample.toString("utf8");
+    const replacements = text.split("�").length - 1;
+    return replacements > 0 && replacements / Math.max(text.length, 1) > 0.01;
+}
+
+/**
+ * Decides whether an uploaded file is usable as model context
+ * @param path - Normalized relative path
+ * @param data - File bytes
+ * @param maxFileBytes - Largest single file to keep
+ * @returns The reason to skip it, or null to keep it
+ */
+export function skipReason(path: string, data: Buffer, maxFileBytes: number): SkippedFile["reason"] | null {
+    if (isVendored(path)) return "vendored";
+    if (isBinary(path, data)) return "binary";
+    if (data.length > maxFileBytes) return "too-large";
+    return null;
+}
@@ -0,0 +1,37 @@
+import type { StaticAnalysis } from "@/lib/analysis/types";
+
+export interface AttachmentFile {
+    /** Normalized relative path, e.g. src/index.ts */
+    path: string;
+    content: string;
+    bytes: number;
+    language: string;
+}
+
+export interface SkippedFile {
+    path: string;
+    reason: "binary" | "vendored" | "too-large" | "unsupported" | "limit";
+}
+
+export interface Attachment {
+    id: string;
+    userId: string;
+    /** Uploaded file name, e.g. project.tar.gz or utils.py */
+    name: string;
+    createdAt: string;
+    files: AttachmentFile[];
+    skipped: SkippedFile[];
+    /** Compiler and lint findings, computed when the attachment is uploaded */
+    analysis?: StaticAnalysis;
+}
+
+/** What a chat message keeps about an attachment, for rendering chips */
+export interface AttachmentRef {
+    id: string;
+    name: string;
+    fileCount: number;
+    /** Files left out of the prompt because the context budget ran out */
+    omitted?: number;
+    /** Static analysis of its TypeScript and JavaScript files, shown as findings under the prompt */
+    analysis?: StaticAnalysis;
+}
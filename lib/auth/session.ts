@@ -0,0 +1,39 @@
+import { auth } from "@clerk/nextjs/server";
+
+/**
+ * Resolves the signed-in user for API routes.
+ * Uses the same Clerk session that middleware.ts checks for /dashboard.
+ * @returns Clerk user id, or null when signed out
+ */
+export async function getUserId(): Promise<string | null> {
+    try {
+        const { userId } = await auth();
+        return userId;
+    } catch (error) {
+        console.error('Error resolving user session:', error);
+        return null;
+    }
+}
+
+export interface SessionInfo {
+    userId: string;
+    /** Active Clerk organization, if the user has one selected */
+    orgId: string | null;
+    /** Role in the active organization, e.g. "org:admin" */
+    orgRole: string | null;
+}
+
+/**
+ * Resolves the signed-in user together with their active organization
+ * @returns Session details, or null when signed out
+ */
+export async function getSession(): Promise<SessionInfo | null> {
+    try {
+        const { userId, orgId, orgRole } = await auth();
+        if (!userId) return null;
+        return { userId, orgId: orgId ?? null, orgRole: orgRole ?? null };
+    } catch (error) {
+        console.error('Error resolving user session:', error);
+        return null;
+    }
+}
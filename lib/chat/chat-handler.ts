@@ -0,0 +1,450 @@
+import { NextResponse } from "next/server";
+import { runAgent } from "@/lib/agent/agent-loop";
+import { recordToolCall } from "@/lib/agent/audit";
+import { defaultAgentTools } from "@/lib/agent/tools";
+import type { AgentEvent, AgentStep, ChatMode } from "@/lib/agent/types";
+import { openWorkspace } from "@/lib/agent/workspace";
+import { DEFAULT_ATTACHMENT_TOKEN_BUDGET, buildAttachmentContext, getAttachments } from "@/lib/attachments/attachment-service";
+import type { SessionInfo } from "@/lib/auth/session";
+import { DEFAULT_TOOL_PERMISSIONS, validateChatRequest, type ChatHistoryMessage } from "@/lib/chat/chat-request";
+import { chainSummarizer, compactHistory, historyBudget, nativeTokenCounter, planContextBudget } from "@/lib/chat/context-window";
+import { streamWithFallback } from "@/lib/chat/fallback";
+import { CHAT_STREAM_CONTENT_TYPE, encodeChatEvent, type ChatStreamEvent } from "@/lib/chat/stream";
+import type { PatchCheck } from "@/lib/diff/types";
+import { DIFF_OUTPUT_INSTRUCTIONS, checkReplyPatches } from "@/lib/diff/unified-diff";
+import { DEFAULT_RETRIEVAL_TOKEN_BUDGET, buildRetrievalContext, getIndex, searchIndex } from "@/lib/indexing/index-service";
+import { resolveInstructions } from "@/lib/instructions/instruction-service";
+import { GenerationAbortedError, ModelError, classifyModelError, describeModelError } from "@/lib/llm/errors";
+import { resolveModelChain } from "@/lib/llm/registry";
+import { MODEL_TIERS, type ChatTurn, type ModelTier } from "@/lib/llm/types";
+import { EntitlementError, requireFeature, requireTier, reserveAgentSession, type AgentSessionReservation } from "@/lib/plans/entitlement-service";
+import { allowsTier } from "@/lib/plans/plans";
+import type { Plan } from "@/lib/plans/types";
+import { getActiveProject, getProject } from "@/lib/projects/project-service";
+import { MAX_REVIEW_PATCH_LENGTH, REVIEW_OUTPUT_INSTRUCTIONS, buildReviewReport, findReviewPatch, reviewPrompt, reviewToMarkdown } from "@/lib/review/review";
+import type { ReviewReport } from "@/lib/review/types";
+import { appendMessages, createThread, getThread, saveContextSummary } from "@/lib/threads/thread-service";
+import { activePath, pathTo } from "@/lib/threads/thread-tree";
+
+/**
+ * Chat turns: validation, thread bookkeeping, context building and the model
+ * call. Shared by the chat route and the background job worker.
+ */
+
+function sseResponse(body: ReadableStream<Uint8Array>) {
+    return new Response(body, {
+        headers: {
+            "Content-Type": CHAT_STREAM_CONTENT_TYPE,
+            "Cache-Control": "no-cache, no-transform",
+            "Connection": "keep-alive",
+        },
+    });
+}
+
+/**
+ * Answers a failed model call with its status, an actionable message and Retry-After
+ * @param error - Classified model error
+ * @returns JSON error response
+ */
+function modelErrorResponse(error: ModelError) {
+    const retryAfter = error.retryAfterSeconds;
+    return NextResponse.json(
+        { error: describeModelError(error.kind, retryAfter), code: error.kind, retryAfter, detail: error.message },
+        { status: error.status, headers: retryAfter ? { "Retry-After": String(retryAfter) } : undefined }
+    );
+}
+
+/**
+ * Stream event for a failure after the response has started
+ * @param err - Error thrown mid-stream
+ * @returns Encoded error event
+ */
+function streamErrorEvent(err: unknown) {
+    const error = classifyModelError(err);
+    return encodeChatEvent({
+        type: "error",
+        error: describeModelError(error.kind, error.retryAfterSeconds),
+        code: error.kind,
+        retryAfter: error.retryAfterSeconds,
+    });
+}
+
+/**
+ * Reads the rest of a model stream, ending early when the user stops the request
+ * @param chunks - Stream whose first delta was already read
+ * @param firstText - That first delta
+ * @param signal - Fires when the user stops the request
+ * @param onDelta - Called with every further delta
+ * @returns The text generated and whether it was cut short
+ */
+async function drainReply(
+    chunks: AsyncIterator<string>,
+    firstText: string,
+    signal: AbortSignal,
+    onDelta?: (text: string) => void
+): Promise<{ text: string; stopped: boolean }> {
+    let text = firstText;
+    try {
+        for (let next = await chunks.next(); !next.done && !signal.aborted; next = await chunks.next()) {
+            if (!next.value) continue;
+            text += next.value;
+            onDelta?.(next.value);
+        }
+    } catch (err) {
+        // Aborting the provider call surfaces as an error from its stream
+        if (!signal.aborted) throw err;
+    }
+    return { text, stopped: signal.aborted };
+}
+
+/**
+ * Answers a chat request: a JSON reply, or an event stream when the request asks for one.
+ * Rate limits are the caller's; plan entitlements are checked here
+ * @param body - Request body, validated here
+ * @param session - Who is asking
+ * @param plan - Their plan
+ * @param stop - Fires when the caller stops the request; streams also stop when the reader cancels
+ * @returns The response to send
+ */
+export async function handleChat(body: unknown, session: SessionInfo, plan: Plan, stop?: AbortSignal): Promise<Response> {
+    const abort = new AbortController();
+    if (stop?.aborted) abort.abort();
+    else stop?.addEventListener("abort", () => abort.abort(), { once: true });
+    const { signal } = abort;
+    let agentSession: AgentSessionReservation | null = null;
+
+    try {
+        const validation = validateChatRequest(body);
+        if (!validation.isValid) {
+            return NextResponse.json({ error: "Invalid chat request", code: "invalid_request", fields: validation.errors }, { status: 400 });
+        }
+
+        const { history, threadId, stream, mode: requestedMode, tier: requestedTier, indexId, parentId, regenerate, output, toolPermissions } = validation.request;
+
+        // Every chat runs inside a stored thread; its messages are the history
+        const { userId } = session;
+        const existingThread = threadId ? await getThread(userId, threadId) : null;
+
+        if (threadId && !existingThread) {
+            return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+        }
+
+        // Edits and regenerations branch off an earlier message of the thread
+        const branchPoint = parentId ? existingThread?.messages.find((stored) => stored.id === parentId) : undefined;
+        if (parentId && !branchPoint) {
+            return NextResponse.json({ error: "Message not found" }, { status: 404 });
+        }
+        if (regenerate && branchPoint?.role !== "user") {
+            return NextResponse.json({ error: "Only replies to a prompt can be regenerated", code: "invalid_request" }, { status: 400 });
+        }
+
+        // The branch the new turn continues; regenerating answers its last prompt again
+        const branch = !existingThread ? [] : parentId === undefined ? activePath(existingThread) : parentId ? pathTo(existingThread.messages, parentId) : [];
+        const earlier = regenerate ? branch.slice(0, -1) : branch;
+        const message = regenerate && branchPoint ? branchPoint.content : validation.request.message;
+        const attachmentIds = regenerate ? branchPoint?.attachments?.map((ref) => ref.id) : validation.request.attachmentIds;
+
+        // Reviews need a change to review: a pasted diff or an attached .patch/.diff file
+        const reviewPatch = output === "review"
+            ? findReviewPatch(message, (await getAttachments(userId, attachmentIds ?? [])).flatMap((attachment) => attachment.files))
+            : null;
+        if (output === "review" && !reviewPatch) {
+            return NextResponse.json({ error: "Review mode needs a unified diff: paste one or attach a .patch file", code: "invalid_request" }, { status: 400 });
+        }
+        if (reviewPatch && reviewPatch.length > MAX_REVIEW_PATCH_LENGTH) {
+            return NextResponse.json({ error: `Patches up to ${MAX_REVIEW_PATCH_LENGTH} characters can be reviewed`, code: "invalid_request" }, { status: 413 });
+        }
+
+        // A thread runs in the project it belongs to; new threads join the active project
+        const project = existingThread
+            ? existingThread.projectId ? await getProject(userId, existingThread.projectId) : null
+            : await getActiveProject(userId);
+
+        // Settings sent with the request win over the project's defaults; an explicit tier must be in the plan
+        if (requestedTier) requireTier(plan, requestedTier);
+        const mode: ChatMode = output === "review" ? "Ask" : requestedMode ?? project?.defaultMode ?? "Ask";
+        if (mode === "Agent" && toolPermissions?.includes("execute")) requireFeature(plan, "agent_commands");
+        const projectTier = project && allowsTier(plan, project.defaultTier) ? project.defaultTier : undefined;
+        // Plans without every tier fall back to their first one instead of the config default
+        const planTier = MODEL_TIERS.every((candidate) => allowsTier(plan, candidate)) ? undefined : plan.limits.modelTiers[0];
+        const tier: ModelTier | undefined = requestedTier ?? projectTier ?? planTier;
+
+        // 🚀 SMART FALLBACK STRATEGY
+        // The tier's routing policy comes from CODINSPECT_LLM_CONFIG (Gemini by default)
+        const modelsToTry = resolveModelChain(tier);
+
+        if (modelsToTry.length === 0) {
+            return NextResponse.json(
+                { error: "No language model is configured. Add GEMINI_API_KEY or CODINSPECT_LLM_CONFIG to your .env.local file." },
+                { status: 500 }
+            );
+        }
+
+        // An Agent mode thread is a background session, charged against the monthly quota once a run in it succeeds
+        if (mode === "Agent") agentSession = await reserveAgentSession(userId, plan, existingThread?.id);
+
+        // Platform, organization, project and personal instructions, sent as the native system prompt
+        const instructions = await resolveInstructions({ userId, orgId: session.orgId, project });
+        const outputInstructions = output === "diff" ? DIFF_OUTPUT_INSTRUCTIONS : output === "review" ? REVIEW_OUTPUT_INSTRUCTIONS : "";
+        const system = outputInstructions ? `${instructions.text}\n\n${outputInstructions}` : instructions.text;
+
+        // The smallest context window in the chain is split between prompt sections and the reply
+        const budget = planContextBudget(modelsToTry, system);
+
+        const thread = existingThread ?? await createThread(userId, message, project?.id);
+
+        // Attached files are packed into the prompt of the turn they were sent with, after the compiler and linter saw them
+        const withAttachments = async (text: string, ids: string[]) => {
+            if (ids.length === 0) return { prompt: text, refs: undefined };
+            const tokenBudget = Math.min(DEFAULT_ATTACHMENT_TOKEN_BUDGET, budget.attachments);
+            const context = buildAttachmentContext(await getAttachments(userId, ids), tokenBudget);
+            return {
+                prompt: context.text ? `${context.text}\n\n${text}` : text,
+                refs: context.refs.length ? context.refs : undefined,
+            };
+        };
+
+        // Messages covered by the thread's rolling summary are not sent again, as long as
+        // this branch passes through them; API clients starting a new thread may seed it with their own history
+        const stored = thread.contextSummary;
+        const summary = stored && stored.messageCount <= earlier.length && (!stored.lastMessageId || earlier[stored.messageCount - 1]?.id === stored.lastMessageId)
+            ? stored
+            : undefined;
+        const priorMessages: ChatHistoryMessage[] = existingThread ? earlier.slice(summary?.messageCount ?? 0) : history ?? [];
+
+        // Robust History Formatting; replies stopped before any text are stored but not sent
+        const sent = priorMessages.flatMap((msg, position) => msg.content.trim() !== "" ? [{ msg, position }] : []);
+        const chatHistory: ChatTurn[] = await Promise.all(sent.map(async ({ msg }) => ({
+            role: msg.role,
+            content: (await withAttachments(msg.content, msg.attachments?.map((ref) => ref.id) ?? [])).prompt,
+        })));
+        // Folded turns counted in stored messages, empty ones between them included
+        const foldedMessages = (turns: number) => turns === 0 ? 0 : turns < sent.length ? sent[turns].position : priorMessages.length;
+
+        const current = await withAttachments(message, attachmentIds ?? []);
+        // Findings on the prompt's attachments are shown under it before the reply arrives
+        const analyzed = current.refs?.some((ref) => ref.analysis) ? current.refs : undefined;
+
+        // Code retrieved from the selected repository index grounds the current turn
+        const selectedIndexId = indexId === undefined ? project?.indexId : indexId;
+        const index = typeof selectedIndexId === "string" ? await getIndex(userId, selectedIndexId) : null;
+        const retrieved = index
+            ? buildRetrievalContext(index.name, await searchIndex(index, message), Math.min(DEFAULT_RETRIEVAL_TOKEN_BUDGET, budget.retrieval))
+            : "";
+        const grounded = retrieved ? `${retrieved}\n\n${current.prompt}` : current.prompt;
+        const prompt = reviewPatch ? `${reviewPrompt(reviewPatch)}\n\n${grounded}` : grounded;
+
+        // Older turns that overflow the history budget are folded into a rolling summary
+        const compacted = await compactHistory({
+            turns: chatHistory,
+            summary,
+            budget: historyBudget(budget, prompt),
+            summarize: chainSummarizer(modelsToTry, signal),
+            countTokens: nativeTokenCounter(modelsToTry[0].provider, modelsToTry[0].model),
+        });
+        const summarizedCount = (summary?.messageCount ?? 0) + foldedMessages(compacted.folded);
+        // A summary of seeded history would not line up with the stored messages
+        if (existingThread && compacted.summary && compacted.summary !== summary) {
+            await saveContextSummary(userId, thread.id, { ...compacted.summary, messageCount: summarizedCount, lastMessageId: earlier[summarizedCount - 1]?.id });
+        }
+
+        console.log(`Received ${mode}/${tier ?? "default"}${output && output !== "markdown" ? `/${output}` : ""} request with message length: ${message.length}, history items: ${chatHistory.length}, summarized: ${summarizedCount}, retrieval: ${index ? index.name : "off"}, project: ${project?.name ?? "personal"}, instructions: ${instructions.signature}`);
+
+        // The reply follows the regenerated prompt, or the one stored here
+        const promptId = regenerate && branchPoint
+            ? branchPoint.id
+            : (await appendMessages(userId, thread.id, [{ role: "user", content: message, attachments: current.refs }], parentId))?.activeLeafId;
+
+        // Every file attached on this branch, for patch checks and the agent's workspace
+        const branchFiles = async () => {
+            const branchMessages: ChatHistoryMessage[] = existingThread ? earlier : history ?? [];
+            const refs = [...branchMessages.flatMap((msg) => msg.attachments ?? []).map((ref) => ref.id), ...(attachmentIds ?? [])];
+            return (await getAttachments(userId, [...new Set(refs)])).flatMap((attachment) => attachment.files);
+        };
+
+        // Diff replies are checked against every file attached on this branch
+        const checkPatches = async (text: string) => {
+            const files = await branchFiles();
+            return checkReplyPatches(text, new Map(files.map((file) => [file.path, file.content])));
+        };
+
+        // Diff replies get their patches checked; review replies become a report stored as Markdown
+        const finishReply = async (text: string): Promise<{ content?: string; patchCheck?: PatchCheck; review?: ReviewReport }> => {
+            if (output === "diff") return { patchCheck: await checkPatches(text) };
+            if (!reviewPatch) return {};
+            const review = buildReviewReport(text, reviewPatch);
+            return { review, content: reviewToMarkdown(review) };
+        };
+
+        // Stopped replies are kept, marked as such, even when nothing was generated yet; partial replies are not finished
+        const saveReply = async (text: string, steps?: AgentStep[], stopped = false) => {
+            if (!text && !stopped) return {};
+            const finished = text && !stopped ? await finishReply(text) : {};
+            const { content = text, patchCheck, review } = finished;
+            await appendMessages(userId, thread.id, [{ role: "model", content, steps, stopped, patchCheck, review }], promptId);
+            return finished;
+        };
+        const stoppedBeforeReply = async (err: unknown): Promise<never> => {
+            if (signal.aborted) await saveReply("", undefined, true);
+            throw err;
+        };
+
+        if (mode === "Agent") {
+            // Tools work on copies of the branch's files in the thread's scratch workspace
+            const workspace = await openWorkspace(thread.id, await branchFiles());
+            const agent = runAgent({
+                chain: modelsToTry,
+                task: prompt,
+                history: compacted.history,
+                system,
+                tools: defaultAgentTools(),
+                context: { userId, workspace, index, permissions: toolPermissions ?? DEFAULT_TOOL_PERMISSIONS },
+                signal,
+                audit: async (call, result) => {
+                    await recordToolCall(userId, thread.id, call, result);
+                },
+            });
+
+            // Pull the first step eagerly so a failing model chain still returns a JSON error
+            const first = await agent.next().catch(stoppedBeforeReply);
+            const steps: AgentStep[] = [];
+            let finalText = "";
+
+            const consume = (event: AgentEvent) => {
+                if (event.type === "step") steps.push(event.step);
+                else finalText = event.text;
+            };
+
+            if (!stream) {
+                try {
+                    if (!first.done) consume(first.value);
+                    for await (const event of agent) consume(event);
+                } catch (err) {
+                    if (!signal.aborted) throw err;
+                    await saveReply(finalText, steps, true);
+                    throw new GenerationAbortedError();
+                }
+                const { patchCheck } = await saveReply(finalText, steps);
+                await agentSession?.commit(thread.id);
+                return NextResponse.json({ text: finalText, steps, threadId: thread.id, summarizedCount, patchCheck, attachments: analyzed });
+            }
+
+            return sseResponse(new ReadableStream<Uint8Array>({
+                async start(controller) {
+                    // Nothing can be sent once the client has gone away
+                    const send = (event: ChatStreamEvent) => {
+                        if (!signal.aborted) controller.enqueue(encodeChatEvent(event));
+                    };
+                    send({ type: "start", model: modelsToTry[0].model, threadId: thread.id });
+                    if (summarizedCount) send({ type: "context", summarizedCount });
+                    if (analyzed) send({ type: "analysis", attachments: analyzed });
+
+                    const forward = (event: AgentEvent) => {
+                        consume(event);
+                        send(event.type === "step" ? { type: "step", step: event.step } : { type: "delta", text: event.text });
+                    };
+
+                    try {
+                        if (!first.done) forward(first.value);
+                        for await (const event of agent) forward(event);
+                        const { patchCheck } = await saveReply(finalText, steps);
+                        await agentSession?.commit(thread.id);
+                        if (patchCheck) send({ type: "patch", check: patchCheck });
+                        send({ type: "done" });
+                    } catch (err) {
+                        if (signal.aborted) {
+                            console.log(`Agent run stopped by the user after ${steps.length} steps`);
+                            await saveReply(finalText, steps, true);
+                        } else {
+                            const reason = err instanceof Error ? err.message : "Agent run interrupted";
+                            console.error("❌ Agent run interrupted:", reason);
+                            controller.enqueue(streamErrorEvent(err));
+                        }
+                    } finally {
+                        agentSession?.release();
+                        if (!signal.aborted) controller.close();
+                    }
+                },
+                cancel() {
+                    abort.abort();
+                },
+            }));
+        }
+
+        const started = await streamWithFallback(modelsToTry, {
+            message: prompt,
+            history: compacted.history,
+            system,
+            signal,
+        }).catch(stoppedBeforeReply);
+
+        if (!started) {
+            return NextResponse.json({ text: null, threadId: thread.id });
+        }
+
+        const { model, firstText, chunks } = started;
+
+        if (!stream) {
+            const reply = await drainReply(chunks, firstText, signal);
+            const { content, patchCheck, review } = await saveReply(reply.text, undefined, reply.stopped);
+            if (reply.stopped) throw new GenerationAbortedError();
+            return NextResponse.json({ text: content ?? reply.text, threadId: thread.id, summarizedCount, patchCheck, review, attachments: analyzed });
+        }
+
+        return sseResponse(new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const send = (event: ChatStreamEvent) => {
+                    if (!signal.aborted) controller.enqueue(encodeChatEvent(event));
+                };
+                send({ type: "start", model, threadId: thread.id });
+                if (summarizedCount) send({ type: "context", summarizedCount });
+                if (analyzed) send({ type: "analysis", attachments: analyzed });
+                // A review is raw JSON until it is checked, so it arrives in one piece at the end
+                const forward = reviewPatch ? undefined : (text: string) => send({ type: "delta", text });
+                forward?.(firstText);
+
+                try {
+                    const reply = await drainReply(chunks, firstText, signal, forward);
+                    const { content, patchCheck, review } = await saveReply(reply.text, undefined, reply.stopped);
+                    if (patchCheck) send({ type: "patch", check: patchCheck });
+                    if (review) send({ type: "review", review, text: content ?? reply.text });
+                    if (reply.stopped) console.log(`Stream on model ${model} stopped by the user after ${reply.text.length} characters`);
+                    send({ type: "done" });
+                } catch (err) {
+                    // Tokens already reached the client, so a mid-stream failure cannot fall back
+                    const reason = err instanceof Error ? err.message : "Stream interrupted";
+                    console.error(`❌ Stream interrupted on model ${model}:`, reason);
+                    controller.enqueue(streamErrorEvent(err));
+                } finally {
+                    if (!signal.aborted) controller.close();
+                }
+            },
+            cancel() {
+                abort.abort();
+            },
+        }));
+
+    } catch (error) {
+        agentSession?.release();
+
+        // The user stopped the request; nobody is waiting for the answer
+        if (error instanceof GenerationAbortedError || signal.aborted) {
+            return NextResponse.json({ error: "Generation stopped", code: "stopped" }, { status: 499 });
+        }
+
+        // The plan does not cover the request; nothing went wrong
+        if (error instanceof EntitlementError) {
+            return NextResponse.json({ error: error.message, code: error.code, upgradeTo: error.upgradeTo }, { status: error.status });
+        }
+
+        console.error("Critical Error in Chat API:", error);
+
+        // Model failures carry their own status; anything else is a server bug
+        if (error instanceof ModelError) return modelErrorResponse(error);
+
+        return NextResponse.json(
+            { error: "Something went wrong on our side. Please try again." },
+            { status: 500 }
+        );
+    }
+}
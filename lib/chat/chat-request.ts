@@ -0,0 +1,301 @@
+import type { ChatMode, ToolPermission } from "@/lib/agent/types";
+import type { AttachmentRef } from "@/lib/attachments/types";
+import { MODEL_TIERS, type ChatRole, type ModelTier } from "@/lib/llm/types";
+
+/**
+ * Request contract of POST /api/chat, shared by the route and ChatInterface.
+ * Kept free of server imports so the client can validate before sending.
+ */
+
+export const CHAT_MODES: ChatMode[] = ["Ask", "Agent"];
+export const CHAT_ROLES: ChatRole[] = ["user", "model"];
+
+/**
+ * How the reply is written: free-form Markdown, unified diffs against the
+ * user's files, or a structured review of a diff the user supplies
+ */
+export type ChatOutput = "markdown" | "diff" | "review";
+export const CHAT_OUTPUTS: ChatOutput[] = ["markdown", "diff", "review"];
+
+/** Permissions a request can grant Agent mode tools */
+export const TOOL_PERMISSIONS: ToolPermission[] = ["read", "write", "execute"];
+
+/** What Agent mode tools may do unless the request asks for more */
+export const DEFAULT_TOOL_PERMISSIONS: ToolPermission[] = ["read"];
+
+export const CHAT_REQUEST_LIMITS = {
+    /** Characters in the message being sent */
+    maxMessageLength: 32_000,
+    /** Characters in one earlier message; replies can be long */
+    maxHistoryContentLength: 64_000,
+    /** Earlier messages sent by clients without a stored thread */
+    maxHistoryMessages: 100,
+    /** Attachments on one message */
+    maxAttachments: 10,
+} as const;
+
+export interface ChatHistoryMessage {
+    role: ChatRole;
+    content: string;
+    attachments?: AttachmentRef[];
+}
+
+export interface ChatRequest {
+    message: string;
+    /** Earlier turns, only used when there is no stored thread */
+    history?: ChatHistoryMessage[];
+    threadId?: string;
+    stream?: boolean;
+    mode?: ChatMode;
+    tier?: ModelTier;
+    attachmentIds?: string[];
+    /** Repository index to retrieve from; null turns the project's index off */
+    indexId?: string | null;
+    /**
+     * Message of the stored thread the new prompt follows, which starts a branch
+     * when it is not the last one shown (editing a prompt); null branches from
+     * the top of the thread. Defaults to the end of the shown branch
+     */
+    parentId?: string | null;
+    /** Answers the stored prompt `parentId` again as a new branch instead of sending `message` */
+    regenerate?: boolean;
+    /**
+     * Reply format. "diff" asks for patches and validates them; "review" reviews the
+     * diff in the message or an attached .patch file and runs in Ask mode. Defaults to markdown
+     */
+    output?: ChatOutput;
+    /**
+     * Permissions Agent mode tools get; calls needing others are refused and logged.
+     * Defaults to read only; "execute" needs a plan that includes agent commands
+     */
+    toolPermissions?: ToolPermission[];
+}
+
+export type ChatRequestErrorCode =
+    | "required"
+    | "invalid_type"
+    | "invalid_value"
+    | "invalid_id"
+    | "empty"
+    | "too_long"
+    | "too_many"
+    | "unknown_field";
+
+export interface ChatRequestFieldError {
+    /** Path of the field, e.g. "history[3].role" */
+    field: string;
+    code: ChatRequestErrorCode;
+    message: string;
+}
+
+export type ChatRequestValidation =
+    | { isValid: true; request: ChatRequest; errors: [] }
+    | { isValid: false; request: null; errors: ChatRequestFieldError[] };
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const KNOWN_FIELDS = new Set(["message", "history", "threadId", "stream", "mode", "tier", "attachmentIds", "indexId", "parentId", "regenerate", "output", "toolPermissions"]);
+
+/**
+ * @param value - Parsed JSON
+ * @returns True for a plain object, the shape every JSON request body must have
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Providers such as Gemini refuse a conversation that does not alternate between
+ * user and model turns, starting with the user. Blank turns are not sent, so they
+ * are skipped; the last turn sent must be a reply, since the message follows it
+ * @param history - Valid history items
+ * @param fail - Records the first turn out of order
+ */
+function checkTurnOrder(history: ChatHistoryMessage[], fail: (field: string, code: ChatRequestErrorCode, message: string) => void): void {
+    let expected: ChatHistoryMessage["role"] = "user";
+    let last = -1;
+    for (const [i, turn] of history.entries()) {
+        if (turn.content.trim() === "") continue;
+        if (turn.role !== expected) {
+            const reason = last === -1 ? "history must start with a user turn" : "history turns must alternate between user and model";
+            fail(`history[${i}].role`, "invalid_value", `history[${i}].role must be "${expected}": ${reason}`);
+            return;
+        }
+        expected = expected === "user" ? "model" : "user";
+        last = i;
+    }
+    if (expected === "model") {
+        fail(`history[${last}].role`, "invalid_value", `history[${last}].role must be "model": history must end with a reply, since message is the next user turn`);
+    }
+}
+
+/**
+ * Validates and normalizes a POST /api/chat body. Unknown fields are rejected
+ * so typos in the client surface as errors instead of being ignored.
+ * @param body - Parsed JSON body
+ * @returns The typed request, or every field error found
+ */
+export function validateChatRequest(body: unknown): ChatRequestValidation {
+    const errors: ChatRequestFieldError[] = [];
+    const fail = (field: string, code: ChatRequestErrorCode, message: string) => {
+        errors.push({ field, code, message });
+    };
+
+    if (!isRecord(body)) {
+        return { isValid: false, request: null, errors: [{ field: "", code: "invalid_type", message: "Request body must be a JSON object" }] };
+    }
+
+    for (const key of Object.keys(body)) {
+        if (!KNOWN_FIELDS.has(key)) fail(key, "unknown_field", `Unknown field "${key}"`);
+    }
+
+    const text = (field: string, value: unknown, maxLength: number): string | undefined => {
+        if (value === undefined || value === null) {
+            fail(field, "required", `${field} is required`);
+            return undefined;
+        }
+        if (typeof value !== "string") {
+            fail(field, "invalid_type", `${field} must be a string`);
+            return undefined;
+        }
+        if (value.length > maxLength) {
+            fail(field, "too_long", `${field} is limited to ${maxLength} characters`);
+        }
+        return value;
+    };
+
+    const id = (field: string, value: unknown): string | undefined => {
+        if (typeof value !== "string" || !ID_PATTERN.test(value)) {
+            fail(field, "invalid_id", `${field} must be a record id`);
+            return undefined;
+        }
+        return value;
+    };
+
+    const oneOf = <T extends string>(field: string, value: unknown, allowed: readonly T[]): T | undefined => {
+        if (value === undefined) return undefined;
+        if (!allowed.includes(value as T)) {
+            fail(field, "invalid_value", `${field} must be one of ${allowed.join(", ")}`);
+            return undefined;
+        }
+        return value as T;
+    };
+
+    const message = text("message", body.message, CHAT_REQUEST_LIMITS.maxMessageLength);
+    if (message !== undefined && message.trim() === "") fail("message", "empty", "message must not be empty");
+
+    let history: ChatHistoryMessage[] | undefined;
+    if (body.history !== undefined) {
+        if (!Array.isArray(body.history)) {
+            fail("history", "invalid_type", "history must be an array");
+        } else if (body.history.length > CHAT_REQUEST_LIMITS.maxHistoryMessages) {
+            fail("history", "too_many", `history is limited to ${CHAT_REQUEST_LIMITS.maxHistoryMessages} messages`);
+        } else {
+            history = body.history.flatMap((item: unknown, i): ChatHistoryMessage[] => {
+                const field = `history[${i}]`;
+                if (!isRecord(item)) {
+                    fail(field, "invalid_type", `${field} must be an object`);
+                    return [];
+                }
+                if (item.role === undefined) fail(`${field}.role`, "required", `${field}.role is required`);
+                const role = oneOf(`${field}.role`, item.role, CHAT_ROLES);
+                const content = text(`${field}.content`, item.content, CHAT_REQUEST_LIMITS.maxHistoryContentLength);
+                const attachments = attachmentRefs(`${field}.attachments`, item.attachments, fail);
+                if (!role || content === undefined) return [];
+                return [{ role, content, ...(attachments?.length ? { attachments } : {}) }];
+            });
+            if (history.length === body.history.length) checkTurnOrder(history, fail);
+        }
+    }
+
+    let attachmentIds: string[] | undefined;
+    if (body.attachmentIds !== undefined) {
+        if (!Array.isArray(body.attachmentIds)) {
+            fail("attachmentIds", "invalid_type", "attachmentIds must be an array");
+        } else if (body.attachmentIds.length > CHAT_REQUEST_LIMITS.maxAttachments) {
+            fail("attachmentIds", "too_many", `A message can carry at most ${CHAT_REQUEST_LIMITS.maxAttachments} attachments`);
+        } else {
+            attachmentIds = body.attachmentIds.flatMap((value: unknown, i) => id(`attachmentIds[${i}]`, value) ?? []);
+        }
+    }
+
+    const threadId = body.threadId === undefined || body.threadId === null ? undefined : id("threadId", body.threadId);
+    const indexId = body.indexId === undefined || body.indexId === null ? body.indexId : id("indexId", body.indexId);
+
+    if (body.stream !== undefined && typeof body.stream !== "boolean") {
+        fail("stream", "invalid_type", "stream must be a boolean");
+    }
+
+    // Branching needs stored messages to branch from
+    const parentId = body.parentId === undefined || body.parentId === null ? body.parentId : id("parentId", body.parentId);
+    if (body.parentId !== undefined && (body.threadId === undefined || body.threadId === null)) fail("threadId", "required", "threadId is required to branch a thread");
+    if (body.regenerate !== undefined && typeof body.regenerate !== "boolean") {
+        fail("regenerate", "invalid_type", "regenerate must be a boolean");
+    }
+    if (body.regenerate === true && typeof body.parentId !== "string") {
+        fail("parentId", "required", "parentId must name the prompt to regenerate");
+    }
+    const mode = oneOf("mode", body.mode, CHAT_MODES);
+    const tier = oneOf("tier", body.tier, MODEL_TIERS);
+    const output = oneOf("output", body.output, CHAT_OUTPUTS);
+    if (output === "review" && mode === "Agent") fail("mode", "invalid_value", "Reviews run in Ask mode");
+
+    let toolPermissions: ToolPermission[] | undefined;
+    if (body.toolPermissions !== undefined) {
+        if (!Array.isArray(body.toolPermissions)) {
+            fail("toolPermissions", "invalid_type", "toolPermissions must be an array");
+        } else {
+            toolPermissions = [...new Set(body.toolPermissions.flatMap((value: unknown, i) => oneOf(`toolPermissions[${i}]`, value, TOOL_PERMISSIONS) ?? []))];
+        }
+    }
+
+    if (errors.length > 0 || message === undefined) return { isValid: false, request: null, errors };
+
+    return {
+        isValid: true,
+        errors: [],
+        request: {
+            message,
+            ...(history ? { history } : {}),
+            ...(threadId ? { threadId } : {}),
+            ...(body.stream !== undefined ? { stream: body.stream as boolean } : {}),
+            ...(mode ? { mode } : {}),
+            ...(tier ? { tier } : {}),
+            ...(attachmentIds ? { attachmentIds } : {}),
+            ...(indexId !== undefined ? { indexId } : {}),
+            ...(parentId !== undefined ? { parentId } : {}),
+            ...(body.regenerate === true ? { regenerate: true } : {}),
+            ...(output ? { output } : {}),
+            ...(toolPermissions ? { toolPermissions } : {}),
+        },
+    };
+}
+
+function attachmentRefs(
+    field: string,
+    value: unknown,
+    fail: (field: string, code: ChatRequestErrorCode, message: string) => void
+): AttachmentRef[] | undefined {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+        fail(field, "invalid_type", `${field} must be an array`);
+        return undefined;
+    }
+    if (value.length > CHAT_REQUEST_LIMITS.maxAttachments) {
+        fail(field, "too_many", `${field} is limited to ${CHAT_REQUEST_LIMITS.maxAttachments} attachments`);
+        return undefined;
+    }
+
+    return value.flatMap((ref: unknown, i): AttachmentRef[] => {
+        const path = `${field}[${i}]`;
+        if (!isRecord(ref) || typeof ref.id !== "string" || !ID_PATTERN.test(ref.id)) {
+            fail(path, "invalid_id", `${path} must reference an uploaded attachment`);
+            return [];
+        }
+        if (typeof ref.name !== "string" || typeof ref.fileCount !== "number") {
+            fail(path, "invalid_type", `${path} needs a name and fileCount`);
+            return [];
+        }
+        return [{ id: ref.id, name: ref.name, fileCount: ref.fileCount }];
+    });
+}
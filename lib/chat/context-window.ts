@@ -0,0 +1,208 @@
+import { completeWithFallback } from "@/lib/chat/fallback";
+import { GenerationAbortedError } from "@/lib/llm/errors";
+import type { ResolvedModel } from "@/lib/llm/registry";
+import { estimateTokens } from "@/lib/llm/tokens";
+import type { ChatTurn, LLMProvider } from "@/lib/llm/types";
+
+/** Context window assumed for models whose config does not state one */
+export const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+/** Output reserved when a model has no maxOutputTokens setting */
+const DEFAULT_OUTPUT_TOKENS = 4096;
+
+/** Shares of the input budget available to retrieved code and attached files */
+const RETRIEVAL_SHARE = 0.15;
+const ATTACHMENT_SHARE = 0.25;
+
+/** After compaction, recent turns may fill this share of the history budget */
+const KEEP_SHARE = 0.6;
+
+/** Longest summary the model is asked to write */
+export const SUMMARY_MAX_TOKENS = 1024;
+
+const SUMMARIZER_INSTRUCTIONS = `You compress chat transcripts between a developer and a coding assistant.
+Write a summary of at most ${Math.floor(SUMMARY_MAX_TOKENS * 0.75)} words that preserves goals, decisions, file paths, identifiers, code snippets that were agreed on, and open questions.
+Write it as plain notes, without greetings or commentary.`;
+
+export interface ContextBudget {
+    /** Smallest context window across the fallback chain */
+    contextWindow: number;
+    /** Reserved for the reply */
+    output: number;
+    system: number;
+    /** Cap for code retrieved from a repository index */
+    retrieval: number;
+    /** Cap for files attached to the current message */
+    attachments: number;
+}
+
+/**
+ * Splits the context window between the system prompt, retrieved context,
+ * attachments and the reply. History gets whatever the current prompt leaves.
+ * @param chain - Models the request may be sent to
+ * @param system - Effective system prompt
+ * @returns Token budget that fits every model in the chain
+ */
+export function planContextBudget(chain: ResolvedModel[], system: string): ContextBudget {
+    const contextWindow = Math.min(...chain.map((entry) => entry.settings.contextWindow ?? DEFAULT_CONTEXT_WINDOW));
+    const output = Math.min(
+        Math.max(...chain.map((entry) => entry.settings.maxOutputTokens ?? DEFAULT_OUTPUT_TOKENS)),
+        Math.floor(contextWindow / 4)
+    );
+    const input = contextWindow - output;
+
+    return {
+        contextWindow,
+        output,
+        system: estimateTokens(system),
+        retrieval: Math.floor(input * RETRIEVAL_SHARE),
+        attachments: Math.floor(input * ATTACHMENT_SHARE),
+    };
+}
+
+/**
+ * Tokens left for earlier turns once the system prompt, current prompt and reply are accounted for
+ * @param budget - Plan from planContextBudget
+ * @param prompt - Current message with its retrieved context and attachments
+ * @returns Non-negative history budget
+ */
+export function historyBudget(budget: ContextBudget, prompt: string): number {
+    return Math.max(0, budget.contextWindow - budget.output - budget.system - estimateTokens(prompt));
+}
+
+export interface ContextSummary {
+    text: string;
+    /** How many of the thread's earliest messages the summary replaces */
+    messageCount: number;
+}
+
+export interface CompactOptions {
+    /** Earlier turns not yet covered by the summary, oldest first */
+    turns: ChatTurn[];
+    /** Summary saved by a previous compaction */
+    summary?: ContextSummary;
+    /** Tokens available for history */
+    budget: number;
+    /** Writes a summary of a transcript; may throw */
+    summarize: (transcript: string) => Promise<string>;
+    /** Counts tokens natively; the character estimate is used when omitted */
+    countTokens?: (turns: ChatTurn[]) => Promise<number>;
+}
+
+export interface CompactedHistory {
+    history: ChatTurn[];
+    /** The summary in effect, new or reused */
+    summary?: ContextSummary;
+    /** Leading input turns that were not sent verbatim */
+    folded: number;
+}
+
+function summaryTurns(summary: ContextSummary | undefined): ChatTurn[] {
+    if (!summary?.text) return [];
+    return [
+        { role: "user", content: `Summary of the earlier conversation, which was compressed to fit the context window:\n\n${summary.text}` },
+        { role: "model", content: "Understood. I will keep that context in mind." },
+    ];
+}
+
+function transcriptOf(turns: ChatTurn[]): string {
+    return turns.map((turn) => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`).join("\n\n");
+}
+
+/**
+ * Fits the conversation into the history budget. When it overflows, the
+ * oldest turns are folded into a rolling summary together with the previous
+ * summary; if summarizing fails they are dropped instead.
+ * @param options - Turns, previous summary, budget and model callbacks
+ * @returns History to send, plus the summary to persist
+ * @throws GenerationAbortedError when the request is stopped while summarizing
+ */
+export async function compactHistory(options: CompactOptions): Promise<CompactedHistory> {
+    const { turns, summary, budget } = options;
+    const history = [...summaryTurns(summary), ...turns];
+
+    // One native count calibrates the per-turn estimates for this provider
+    const estimated = history.reduce((total, turn) => total + estimateTokens(turn.content), 0);
+    const counted = options.countTokens && estimated > budget * 0.75 ? await options.countTokens(history) : estimated;
+    if (counted <= budget) return { history, summary, folded: 0 };
+
+    const ratio = estimated > 0 ? counted / estimated : 1;
+    const cost = (turn: ChatTurn) => Math.ceil(estimateTokens(turn.content) * ratio);
+
+    // Keep the newest turns that fit, leaving room for the summary
+    let kept = 0;
+    let used = 0;
+    const keepBudget = Math.max(0, budget * KEEP_SHARE - SUMMARY_MAX_TOKENS);
+    for (let i = turns.length - 1; i >= 0; i--) {
+        if (used + cost(turns[i]) > keepBudget) break;
+        used += cost(turns[i]);
+        kept++;
+    }
+
+    // Start the kept part on a user turn so roles keep alternating after the summary
+    let cut = turns.length - kept;
+    while (cut < turns.length && turns[cut].role !== "user") cut++;
+
+    const rest = turns.slice(cut);
+    const previousCount = summary?.messageCount ?? 0;
+
+    // The summarizer never sees more than one history budget of old turns
+    let start = 0;
+    let foldedCost = turns.slice(0, cut).reduce((total, turn) => total + cost(turn), 0);
+    while (start < cut - 1 && foldedCost > budget) foldedCost -= cost(turns[start++]);
+
+    try {
+        const transcript = [
+            summary?.text ? `Earlier summary:\n${summary.text}` : "",
+            transcriptOf(turns.slice(start, cut)),
+        ].filter(Boolean).join("\n\n");
+        const text = (await options.summarize(transcript)).trim();
+        if (!text) throw new Error("Empty summary");
+
+        const next = { text, messageCount: previousCount + cut };
+        return { history: [...summaryTurns(next), ...rest], summary: next, folded: cut };
+    } catch (error) {
+        // A stopped request is not a failed summary; nothing should carry on
+        if (error instanceof GenerationAbortedError) throw error;
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Could not summarize ${cut} earlier turns, dropping them:`, reason);
+        return { history: [...summaryTurns(summary), ...rest], summary, folded: cut };
+    }
+}
+
+/**
+ * Summarizes transcripts with the same fallback chain that answers the chat
+ * @param chain - Ordered provider/model pairs
+ * @param signal - Stops the summary with the request it is for
+ * @returns Summarizer for compactHistory
+ */
+export function chainSummarizer(chain: ResolvedModel[], signal?: AbortSignal): CompactOptions["summarize"] {
+    return async (transcript) => {
+        const { text } = await completeWithFallback(chain, {
+            system: SUMMARIZER_INSTRUCTIONS,
+            history: [],
+            message: transcript,
+            maxOutputTokens: SUMMARY_MAX_TOKENS,
+            signal,
+        });
+        return text;
+    };
+}
+
+/**
+ * Counts history tokens with the provider's own tokenizer when it has one
+ * @param provider - First provider in the chain
+ * @param model - Model id
+ * @returns Counter for compactHistory, or undefined for estimate-only providers
+ */
+export function nativeTokenCounter(provider: LLMProvider, model: string): CompactOptions["countTokens"] {
+    if (provider.capabilities.tokenCounting !== "native") return undefined;
+
+    return async (turns) => {
+        try {
+            return await provider.countTokens({ model, history: turns.slice(0, -1), message: turns.at(-1)?.content ?? "" });
+        } catch {
+            return turns.reduce((total, turn) => total + estimateTokens(turn.content), 0);
+        }
+    };
+}
@@ -0,0 +1,249 @@
+import { circuitKey, circuitOpenFor, recordFailure, recordSuccess } from "@/lib/llm/circuit-breaker";
+import { GenerationAbortedError, ModelTimeoutError, ModelTransientError, classifyModelError, type ModelError } from "@/lib/llm/errors";
+import type { ResolvedModel } from "@/lib/llm/registry";
+import type { GenerateRequest, LLMProvider } from "@/lib/llm/types";
+
+export type ModelRequest = Omit<GenerateRequest, "model">;
+
+/** Extra attempts on the same model after a transient failure */
+const MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 250;
+const MAX_BACKOFF_MS = 4000;
+
+export interface StartedStream {
+    provider: LLMProvider;
+    model: string;
+    /** First non-empty delta, already consumed from `chunks` */
+    firstText: string;
+    chunks: AsyncIterator<string>;
+}
+
+/**
+ * Moves the system prompt into the history for providers that have no
+ * system-instruction field, so every backend receives the same instructions
+ * @param provider - Provider about to be called
+ * @param request - Request with an optional system prompt
+ * @returns The request the provider should receive
+ */
+function forProvider(provider: LLMProvider, request: ModelRequest): ModelRequest {
+    if (!request.system || provider.capabilities.systemInstruction) return request;
+
+    return {
+        ...request,
+        system: undefined,
+        history: [
+            { role: "user", content: request.system },
+            { role: "model", content: "Understood. I will follow these instructions." },
+            ...request.history,
+        ],
+    };
+}
+
+/**
+ * Waits for the first delta of a stream, giving up after a deadline
+ * @param chunks - Provider stream
+ * @param timeoutMs - Deadline in milliseconds; no deadline when undefined
+ * @param onTimeout - Called when the deadline passes, to abort the request
+ * @returns The first iterator result
+ */
+async function firstChunk(
+    chunks: AsyncIterator<string>,
+    timeoutMs: number | undefined,
+    onTimeout: () => void
+): Promise<IteratorResult<string>> {
+    if (!timeoutMs) return chunks.next();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            onTimeout();
+            reject(new ModelTimeoutError(`No response within ${timeoutMs}ms`));
+        }, timeoutMs);
+    });
+
+    // The request is aborted on timeout, so its late rejection is expected
+    const pending = chunks.next();
+    pending.catch(() => undefined);
+
+    try {
+        return await Promise.race([pending, deadline]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Delay before retrying the same model: exponential backoff with jitter, or
+ * the backend's own Retry-After when it is short enough to wait for
+ * @param attempt - Zero-based number of the attempt that failed
+ * @param retryAfterMs - Delay requested by the backend
+ * @returns Milliseconds to wait, or null when the caller should move on
+ */
+export function backoffDelay(attempt: number, retryAfterMs?: number): number | null {
+    if (retryAfterMs !== undefined) return retryAfterMs <= MAX_BACKOFF_MS ? retryAfterMs : null;
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Waits between retries, cut short when the caller stops the request
+ * @param ms - Delay in milliseconds
+ * @param signal - Caller's abort signal
+ * @throws GenerationAbortedError when the signal fires first
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const stop = () => {
+            clearTimeout(timer);
+            reject(new GenerationAbortedError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", stop);
+            resolve();
+        }, ms);
+        if (signal?.aborted) stop();
+        else signal?.addEventListener("abort", stop, { once: true });
+    });
+}
+
+/**
+ * @param signal - Caller's abort signal
+ * @throws GenerationAbortedError when the caller has stopped the request
+ */
+function throwIfStopped(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) throw new GenerationAbortedError();
+}
+
+/**
+ * Calls one model until it produces its first token, retrying transient failures
+ * @param entry - Provider/model pair with its settings
+ * @param request - Request to send
+ * @returns The started stream, or null when the model returned nothing
+ * @throws ModelError once retries are exhausted or the failure is not retryable
+ */
+async function startModel({ provider, model, settings }: ResolvedModel, request: ModelRequest): Promise<StartedStream | null> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            console.log(`Attempting ${provider.id} with model: ${model}`);
+
+            // Aborted by the first-token deadline or by the caller, whichever comes first
+            const controller = new AbortController();
+            const chunks = provider.stream({
+                ...forProvider(provider, request),
+                model,
+                maxOutputTokens: settings.maxOutputTokens ?? request.maxOutputTokens,
+                temperature: settings.temperature ?? request.temperature,
+                signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
+            })[Symbol.asyncIterator]();
+            const first = await firstChunk(chunks, settings.timeoutMs, () => controller.abort());
+            const firstText = first.done ? "" : first.value;
+
+            return firstText ? { provider, model, firstText, chunks } : null;
+        } catch (err) {
+            // The provider call fails with its own abort error once the caller stops
+            throwIfStopped(request.signal);
+
+            const error = classifyModelError(err);
+            const delay = error.retryable && attempt < MAX_RETRIES ? backoffDelay(attempt, error.retryAfterMs) : null;
+            if (delay === null) throw error;
+
+            console.warn(`⚠️ ${error.kind} error from model ${model}, retrying in ${delay}ms:`, error.message);
+            await sleep(delay, request.signal);
+        }
+    }
+}
+
+/**
+ * 🚀 SMART FALLBACK STRATEGY
+ * Tries each model in order until one produces its first token, applying the
+ * model's routing settings (first-token timeout, max output tokens, temperature).
+ * Transient failures are retried with backoff first, and models whose circuit
+ * breaker is open are skipped. Once a token has been produced the caller owns
+ * the stream and no further fallback happens. Aborting `request.signal` stops
+ * the provider call and the loop.
+ * @param chain - Ordered provider/model pairs
+ * @param request - Request sent to every model
+ * @returns The stream that started, or null when every model returned nothing
+ * @throws GenerationAbortedError when the caller stops the request
+ * @throws The last ModelError when every model failed or was skipped
+ */
+export async function streamWithFallback(chain: ResolvedModel[], request: ModelRequest): Promise<StartedStream | null> {
+    let lastError: ModelError | null = null;
+    let shortestWait: number | undefined;
+    const rejectedProviders = new Set<string>();
+
+    // 🔄 Loop through models
+    for (const entry of chain) {
+        throwIfStopped(request.signal);
+        const { provider, model } = entry;
+        const key = circuitKey(provider.id, model);
+
+        // A rejected API key fails the same way for every model of that provider
+        if (rejectedProviders.has(provider.id)) continue;
+
+        const openFor = circuitOpenFor(key);
+        if (openFor) {
+            console.warn(`⚠️ Skipping model ${model}: failing repeatedly, retrying in ${Math.ceil(openFor / 1000)}s`);
+            shortestWait = Math.min(shortestWait ?? openFor, openFor);
+            continue;
+        }
+
+        try {
+            const started = await startModel(entry, request);
+            recordSuccess(key);
+            if (started) {
+                console.log(`✅ Streaming with model: ${model}`);
+                return started;
+            }
+        } catch (err) {
+            if (err instanceof GenerationAbortedError) throw err;
+            const error = err as ModelError;
+            console.warn(`⚠️ Failed with model ${model} (${error.kind}):`, error.message);
+            lastError = error;
+
+            // The prompt itself was blocked, so no other model should see it
+            if (error.kind === "safety") {
+                console.error("Critical API Error - Stopping fallbacks");
+                break;
+            }
+            if (error.kind === "auth") rejectedProviders.add(provider.id);
+            if (recordFailure(key)) console.warn(`⚠️ Circuit opened for model ${model}`);
+        }
+    }
+
+    if (lastError) {
+        console.error("❌ Final error after trying all models:", lastError.message);
+        throw lastError;
+    }
+
+    if (shortestWait !== undefined) {
+        throw new ModelTransientError("Every model is cooling down after repeated failures", shortestWait);
+    }
+
+    return null;
+}
+
+/**
+ * Runs the fallback loop and collects the whole reply
+ * @param chain - Ordered provider/model pairs
+ * @param request - Request sent to every model
+ * @returns Model that answered and its full text ("" when nothing was produced)
+ * @throws GenerationAbortedError when the caller stops the request
+ */
+export async function completeWithFallback(chain: ResolvedModel[], request: ModelRequest): Promise<{ model: string | null; text: string }> {
+    const started = await streamWithFallback(chain, request);
+    if (!started) return { model: null, text: "" };
+
+    let text = started.firstText;
+    try {
+        for (let next = await started.chunks.next(); !next.done; next = await started.chunks.next()) {
+            throwIfStopped(request.signal);
+            text += next.value;
+        }
+    } catch (err) {
+        throwIfStopped(request.signal);
+        throw err;
+    }
+
+    return { model: started.model, text };
+}
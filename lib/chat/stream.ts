@@ -0,0 +1,106 @@
+import type { AgentStep } from "@/lib/agent/types";
+import type { AttachmentRef } from "@/lib/attachments/types";
+import type { PatchCheck } from "@/lib/diff/types";
+import type { ModelErrorKind } from "@/lib/llm/errors";
+import type { ReviewReport } from "@/lib/review/types";
+
+/**
+ * Server-Sent Events protocol shared by /api/chat and ChatInterface.
+ * Every event is a single `data:` line holding one JSON-encoded ChatStreamEvent.
+ * Code runs stream their RunStreamEvents with the same framing.
+ */
+
+export type ChatStreamEvent =
+    | { type: "start"; model: string; threadId?: string }
+    /** How many of the thread's earliest messages reach the model only as a summary */
+    | { type: "context"; summarizedCount: number }
+    /** The prompt's attachments with their static-analysis findings, sent before the reply */
+    | { type: "analysis"; attachments: AttachmentRef[] }
+    | { type: "delta"; text: string }
+    | { type: "step"; step: AgentStep }
+    /** Validation of a diff-mode reply, sent once the whole reply is in */
+    | { type: "patch"; check: PatchCheck }
+    /** A review-mode reply, sent instead of deltas once the model's JSON is checked; text is its Markdown form */
+    | { type: "review"; review: ReviewReport; text: string }
+    | { type: "done" }
+    | { type: "error"; error: string; code?: ModelErrorKind; retryAfter?: number };
+
+export const CHAT_STREAM_CONTENT_TYPE = "text/event-stream";
+
+const encoder = new TextEncoder();
+
+/**
+ * Encodes a single event as an SSE frame
+ * @param event - Event to send to the client
+ * @returns Bytes ready to be enqueued on a ReadableStream
+ */
+export function encodeChatEvent<E = ChatStreamEvent>(event: E): Uint8Array {
+    return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Parses one SSE frame back into an event
+ * @param frame - Raw frame text without the trailing blank line
+ * @returns The decoded event, or null for comments and empty frames
+ */
+export function parseChatEvent<E = ChatStreamEvent>(frame: string): E | null {
+    const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+
+    if (!data) return null;
+
+    try {
+        return JSON.parse(data) as E;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reads a streaming chat response and invokes the callback for every event
+ * @param response - Fetch response returned by /api/chat with `stream: true`, or by a code run
+ * @param onEvent - Called once per decoded event, in order
+ * @param signal - Aborting cancels the stream and stops reading
+ */
+export async function readChatStream<E = ChatStreamEvent>(
+    response: Response,
+    onEvent: (event: E) => void,
+    signal?: AbortSignal
+): Promise<void> {
+    if (!response.body) {
+        throw new Error("Streaming is not supported by this browser.");
+    }
+
+    const reader = response.body.getReader();
+    // Cancelling resolves the pending read as done, even when the producer never closes the stream
+    const cancel = () => void reader.cancel().catch(() => undefined);
+    signal?.addEventListener("abort", cancel, { once: true });
+    if (signal?.aborted) cancel();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+
+            let boundary = buffer.indexOf("\n\n");
+            while (boundary !== -1) {
+                const event = parseChatEvent<E>(buffer.slice(0, boundary));
+                buffer = buffer.slice(boundary + 2);
+                if (event) onEvent(event);
+                boundary = buffer.indexOf("\n\n");
+            }
+        }
+    } finally {
+        signal?.removeEventListener("abort", cancel);
+    }
+
+    const trailing = parseChatEvent<E>(buffer + decoder.decode());
+    if (trailing) onEvent(trailing);
+}
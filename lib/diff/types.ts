@@ -0,0 +1,48 @@
+export type DiffLineKind = "context" | "add" | "remove";
+
+export interface DiffLine {
+    kind: DiffLineKind;
+    text: string;
+    /** Line number in the original file; absent for added lines */
+    oldLine?: number;
+    /** Line number in the changed file; absent for removed lines */
+    newLine?: number;
+}
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    /** Text after the closing @@, usually the enclosing function */
+    section?: string;
+    lines: DiffLine[];
+}
+
+export interface FilePatch {
+    /** Path before the change; null when the file is created */
+    oldPath: string | null;
+    /** Path after the change; null when the file is deleted */
+    newPath: string | null;
+    hunks: DiffHunk[];
+}
+
+export interface PatchIssue {
+    /** File the problem is in, when it is tied to one */
+    file?: string;
+    /** 1-based hunk number within that file */
+    hunk?: number;
+    message: string;
+}
+
+export interface ParsedPatch {
+    files: FilePatch[];
+    issues: PatchIssue[];
+}
+
+/** What the server found when checking the patches of a diff-mode reply */
+export interface PatchCheck {
+    files: string[];
+    hunks: number;
+    issues: PatchIssue[];
+}
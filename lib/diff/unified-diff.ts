@@ -0,0 +1,248 @@
+import type { DiffHunk, DiffLine, FilePatch, ParsedPatch, PatchCheck, PatchIssue } from "./types";
+
+/**
+ * Unified diffs as models write them. Parsing is lenient so a miscounted hunk
+ * still renders, but every departure from the format is reported as an issue.
+ * Client-safe: the diff viewer parses exactly what the server validated.
+ */
+
+/** Appended to the system prompt when a chat asks for diff output */
+export const DIFF_OUTPUT_INSTRUCTIONS = [
+    "Answer requests to change existing code with unified diffs, never with whole files.",
+    "Put each patch in a ```diff fenced block with `--- a/<path>` and `+++ b/<path>` headers, using the paths of the attached or retrieved files,",
+    "and `@@ -start,count +start,count @@` hunks that carry three lines of unchanged context and exact line counts.",
+    "Use /dev/null as the old path for new files and as the new path for deleted ones. Explain the change briefly outside the blocks.",
+].join(" ");
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+const DIFF_FENCE = /^(`{3,}|~{3,})[ \t]*(?:diff|patch)[ \t]*\n([\s\S]*?)\n\1[ \t]*$/gm;
+
+/**
+ * @param header - Text after `--- ` or `+++ `
+ * @returns Path without the a/ or b/ prefix, or null for /dev/null
+ */
+function headerPath(header: string): string | null {
+    const path = header.split("\t")[0].trim();
+    return path === "/dev/null" ? null : path.replace(/^[ab]\//, "");
+}
+
+/**
+ * @param file - Parsed file patch
+ * @returns The path a reader knows the file by
+ */
+export function patchPath(file: FilePatch): string {
+    return file.newPath ?? file.oldPath ?? "(unknown file)";
+}
+
+/**
+ * The number a reviewer refers to a line by: its line in the changed file, or
+ * in the original when the file is deleted
+ * @param file - File the line belongs to
+ * @param line - Line of one of its hunks
+ * @returns Line number, or undefined for removed lines of a file that still exists
+ */
+export function lineNumber(file: FilePatch, line: DiffLine): number | undefined {
+    return file.newPath !== null ? line.newLine : line.oldLine;
+}
+
+/**
+ * Parses one or more file patches in unified format
+ * @param text - Patch text, e.g. the body of a ```diff block
+ * @returns Files with their hunks, and every problem found
+ */
+export function parseUnifiedDiff(text: string): ParsedPatch {
+    const lines = text.replace(/\r\n/g, "\n").replace(/\n+$/, "").split("\n");
+    const files: FilePatch[] = [];
+    const issues: PatchIssue[] = [];
+
+    let file: FilePatch | null = null;
+    let hunk: DiffHunk | null = null;
+    let numbered = true;
+    let oldLine = 0;
+    let newLine = 0;
+
+    const isFileHeader = (i: number) => lines[i].startsWith("--- ") && (lines[i + 1]?.startsWith("+++ ") ?? false);
+    const isBoundary = (i: number) => lines[i].startsWith("diff ") || lines[i].startsWith("@@") || isFileHeader(i);
+    const counts = (current: DiffHunk) => ({
+        old: current.lines.filter((line) => line.kind !== "add").length,
+        new: current.lines.filter((line) => line.kind !== "remove").length,
+    });
+
+    const closeHunk = () => {
+        if (!hunk || !file) return;
+        const n = file.hunks.length;
+        const found = counts(hunk);
+        if (numbered && (found.old !== hunk.oldLines || found.new !== hunk.newLines)) {
+            issues.push({
+                file: patchPath(file),
+                hunk: n,
+                message: `Hunk ${n} of ${patchPath(file)} declares -${hunk.oldLines} +${hunk.newLines} lines but has -${found.old} +${found.new}`,
+            });
+        }
+        hunk = null;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (hunk && !isBoundary(i)) {
+            if (line.startsWith("\\")) continue; // "\ No newline at end of file"
+            // git format-patch ends each mail with a "-- " signature line
+            const found = counts(hunk);
+            const expectsMore = found.old < hunk.oldLines || found.new < hunk.newLines;
+            if (line === "-- " && !expectsMore) {
+                closeHunk();
+                continue;
+            }
+            if (line.startsWith("+")) {
+                hunk.lines.push({ kind: "add", text: line.slice(1), newLine: newLine++ });
+                continue;
+            }
+            if (line.startsWith("-")) {
+                hunk.lines.push({ kind: "remove", text: line.slice(1), oldLine: oldLine++ });
+                continue;
+            }
+            // Models often drop the space that marks an empty context line
+            if (line.startsWith(" ") || (line === "" && expectsMore)) {
+                hunk.lines.push({ kind: "context", text: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+                continue;
+            }
+            // Anything else, such as prose between patches, ends the hunk
+            closeHunk();
+            continue;
+        }
+
+        if (isFileHeader(i)) {
+            closeHunk();
+            file = { oldPath: headerPath(line.slice(4)), newPath: headerPath(lines[i + 1].slice(4)), hunks: [] };
+            files.push(file);
+            i++;
+            continue;
+        }
+
+        if (line.startsWith("@@")) {
+            closeHunk();
+            if (!file) {
+                issues.push({ message: "A hunk appears before any --- / +++ file header" });
+                file = { oldPath: null, newPath: null, hunks: [] };
+                files.push(file);
+            }
+
+            const match = HUNK_HEADER.exec(line);
+            numbered = match !== null;
+            if (!match) {
+                issues.push({ file: patchPath(file), hunk: file.hunks.length + 1, message: `Hunk ${file.hunks.length + 1} of ${patchPath(file)} has no line numbers` });
+            }
+            hunk = {
+                oldStart: match ? Number(match[1]) : 0,
+                oldLines: match ? Number(match[2] ?? 1) : 0,
+                newStart: match ? Number(match[3]) : 0,
+                newLines: match ? Number(match[4] ?? 1) : 0,
+                ...(match?.[5]?.trim() ? { section: match[5].trim() } : {}),
+                lines: [],
+            };
+            file.hunks.push(hunk);
+            oldLine = hunk.oldStart;
+            newLine = hunk.newStart;
+            continue;
+        }
+
+        // diff --git, index and mode lines carry nothing the viewer needs
+        closeHunk();
+    }
+    closeHunk();
+
+    for (const parsed of files) {
+        if (parsed.hunks.length === 0) issues.push({ file: patchPath(parsed), message: `${patchPath(parsed)} has no hunks` });
+    }
+    if (files.length === 0) issues.push({ message: "No unified diff found" });
+
+    return { files, issues };
+}
+
+/**
+ * @param markdown - A reply
+ * @returns Bodies of its ```diff and ```patch blocks, in order
+ */
+export function extractDiffBlocks(markdown: string): string[] {
+    return [...markdown.replace(/\r\n/g, "\n").matchAll(DIFF_FENCE)].map((match) => match[2]);
+}
+
+/**
+ * Looks up the original of a patched file, tolerating patches written
+ * relative to a different directory than the upload
+ * @param sources - File contents by path
+ * @param path - Path from the patch header
+ * @returns The file's content, or undefined when it was not provided
+ */
+function findSource(sources: Map<string, string>, path: string): string | undefined {
+    if (sources.has(path)) return sources.get(path);
+    for (const [candidate, content] of sources) {
+        if (candidate.endsWith(`/${path}`) || path.endsWith(`/${candidate}`)) return content;
+    }
+    return undefined;
+}
+
+/**
+ * @param haystack - File lines
+ * @param needle - Lines to find
+ * @param near - Index to try first
+ * @returns Index of the first line of the match, or -1
+ */
+function findLines(haystack: string[], needle: string[], near: number): number {
+    const matchesAt = (start: number) => needle.every((line, i) => haystack[start + i] === line);
+    if (near >= 0 && matchesAt(near)) return near;
+    for (let start = 0; start + needle.length <= haystack.length; start++) {
+        if (matchesAt(start)) return start;
+    }
+    return -1;
+}
+
+/**
+ * Checks that every hunk's context and removed lines exist in the original
+ * file. Like `patch`, a hunk may sit at another line than its header says.
+ * Files that were not provided cannot be checked and are skipped
+ * @param files - Parsed patches
+ * @param sources - Original file contents by path
+ * @returns Hunks that would not apply
+ */
+export function checkAgainstSources(files: FilePatch[], sources: Map<string, string>): PatchIssue[] {
+    const issues: PatchIssue[] = [];
+
+    for (const file of files) {
+        if (!file.oldPath) continue;
+        const source = findSource(sources, file.oldPath);
+        if (source === undefined) continue;
+
+        // Trailing whitespace is the usual casualty of copying code through a model
+        const sourceLines = source.replace(/\r\n/g, "\n").split("\n").map((line) => line.trimEnd());
+        file.hunks.forEach((hunk, i) => {
+            const expected = hunk.lines.filter((line) => line.kind !== "add").map((line) => line.text.trimEnd());
+            if (expected.length > 0 && findLines(sourceLines, expected, hunk.oldStart - 1) === -1) {
+                issues.push({ file: file.oldPath!, hunk: i + 1, message: `Hunk ${i + 1} of ${file.oldPath} does not match the original file` });
+            }
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Validates the patches in a diff-mode reply
+ * @param reply - Full reply text
+ * @param sources - Original contents of the files the user provided, by path
+ * @returns Patched files, hunk count and every problem found
+ */
+export function checkReplyPatches(reply: string, sources: Map<string, string> = new Map()): PatchCheck {
+    const blocks = extractDiffBlocks(reply);
+    if (blocks.length === 0) return { files: [], hunks: 0, issues: [{ message: "The reply has no ```diff block" }] };
+
+    const parsed = blocks.map(parseUnifiedDiff);
+    const files = parsed.flatMap((patch) => patch.files);
+
+    return {
+        files: [...new Set(files.map(patchPath))],
+        hunks: files.reduce((sum, file) => sum + file.hunks.length, 0),
+        issues: [...parsed.flatMap((patch) => patch.issues), ...checkAgainstSources(files, sources)],
+    };
+}
@@ -0,0 +1,15 @@
+/**
+ * Saves generated text as a file through the browser's download prompt.
+ * Browser-only.
+ * @param name - Suggested file name
+ * @param content - File content
+ * @param type - MIME type
+ */
+export function downloadFile(name: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = name;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,135 @@
+import type { CodeChunk } from "./types";
+
+/** Chunks grow by whole blocks until they reach this many lines */
+const TARGET_CHUNK_LINES = 40;
+
+/** Blocks longer than this are cut into windows */
+const MAX_CHUNK_LINES = 80;
+
+/** Window size for files without a syntax we understand */
+const PLAIN_WINDOW_LINES = 40;
+
+const CODE_LANGUAGES = new Set([
+    "typescript", "tsx", "javascript", "jsx", "python", "ruby", "go", "rust", "java", "kotlin",
+    "swift", "c", "cpp", "csharp", "php", "scala", "bash", "powershell", "vue", "svelte",
+    "graphql", "protobuf", "sql", "css", "scss",
+]);
+
+const DECLARATION_PATTERN =
+    /\b(?:function\*?|class|interface|type|enum|def|fn|func|struct|trait|impl|module|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+
+/** Lines that close the block above them rather than open a new one */
+const CLOSER_PATTERN = /^(?:[}\])]|end\b)/;
+
+interface Block {
+    start: number;
+    end: number;
+}
+
+/**
+ * Finds the lines where a new top-level block begins: an unindented line
+ * after a blank line, after the end of an indented body, or after a closing
+ * brace. Comments and decorators directly above a declaration stay with it.
+ */
+function codeBoundaries(lines: string[]): number[] {
+    const starts = [0];
+
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim() || /^\s/.test(line) || CLOSER_PATTERN.test(line)) continue;
+
+        const previous = lines[i - 1];
+        if (!previous.trim() || /^\s/.test(previous) || CLOSER_PATTERN.test(previous)) {
+            starts.push(i);
+        }
+    }
+
+    return starts;
+}
+
+function markdownBoundaries(lines: string[]): number[] {
+    const starts = [0];
+    let inFence = false;
+
+    lines.forEach((line, i) => {
+        if (line.startsWith("```")) inFence = !inFence;
+        if (!inFence && i > 0 && /^#{1,6}\s/.test(line)) starts.push(i);
+    });
+
+    return starts;
+}
+
+function windows(start: number, end: number, size: number): Block[] {
+    const blocks: Block[] = [];
+    for (let from = start; from < end; from += size) {
+        blocks.push({ start: from, end: Math.min(from + size, end) });
+    }
+    return blocks;
+}
+
+/**
+ * Merges consecutive blocks up to the target size and splits oversized ones
+ * @param boundaries - Sorted block start lines
+ * @param lineCount - Total lines in the file
+ * @returns Chunk line ranges, end-exclusive
+ */
+function packBlocks(boundaries: number[], lineCount: number): Block[] {
+    const packed: Block[] = [];
+    let current: Block | null = null;
+
+    for (let i = 0; i < boundaries.length; i++) {
+        const start = boundaries[i];
+        const end = boundaries[i + 1] ?? lineCount;
+
+        if (end - start > MAX_CHUNK_LINES) {
+            if (current) packed.push(current);
+            current = null;
+            packed.push(...windows(start, end, MAX_CHUNK_LINES));
+            continue;
+        }
+
+        if (current && end - current.start > TARGET_CHUNK_LINES) {
+            packed.push(current);
+            current = null;
+        }
+        current = current ? { start: current.start, end } : { start, end };
+    }
+
+    if (current) packed.push(current);
+    return packed;
+}
+
+/**
+ * Splits a file into retrieval chunks. Source files are cut between top-level
+ * declarations, Markdown between headings, and everything else into fixed windows.
+ * @param path - Relative file path
+ * @param content - File text
+ * @param language - Language id from languageFor()
+ * @returns Non-empty chunks in file order
+ */
+export function chunkFile(path: string, content: string, language: string): CodeChunk[] {
+    const lines = content.replace(/\r\n/g, "\n").split("\n");
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+    if (lines.length === 0) return [];
+
+    const blocks = CODE_LANGUAGES.has(language)
+        ? packBlocks(codeBoundaries(lines), lines.length)
+        : language === "markdown"
+            ? packBlocks(markdownBoundaries(lines), lines.length)
+            : windows(0, lines.length, PLAIN_WINDOW_LINES);
+
+    return blocks.flatMap(({ start, end }) => {
+        const text = lines.slice(start, end).join("\n");
+        if (!text.trim()) return [];
+
+        const symbol = DECLARATION_PATTERN.exec(text)?.[1];
+        return [{
+            path,
+            language,
+            startLine: start + 1,
+            endLine: end,
+            text,
+            ...(symbol ? { symbol } : {}),
+        }];
+    });
+}
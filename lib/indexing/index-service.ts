@@ -0,0 +1,243 @@
+import { getAttachments } from "@/lib/attachments/attachment-service";
+import { estimateTokens } from "@/lib/llm/tokens";
+import { resolveEmbeddingModel, type ResolvedEmbeddingModel } from "@/lib/llm/registry";
+import { buildBm25Index, scoreBm25 } from "@/lib/search/bm25";
+import { tokenize } from "@/lib/search/tokenize";
+import { getCollection, newId } from "@/lib/storage/collection";
+import { chunkFile } from "./chunker";
+import { readAttachment, readCheckout, resolveCheckoutPath, type SourceFile } from "./sources";
+import type { CodeChunk, IndexSource, RepoIndex, RepoIndexSummary, RetrievedChunk } from "./types";
+
+/** Chunks sent to the embedding model per request */
+const EMBEDDING_BATCH_SIZE = 32;
+
+/** Characters of each chunk sent to the embedding model */
+const EMBEDDING_INPUT_CHARS = 8000;
+
+/** Reciprocal-rank-fusion constant; larger values flatten the rank curve */
+const RRF_K = 60;
+
+/** Default number of chunks injected into a prompt */
+export const DEFAULT_RETRIEVAL_K = 6;
+
+/** Default share of the prompt reserved for retrieved code */
+export const DEFAULT_RETRIEVAL_TOKEN_BUDGET = 12_000;
+
+function indexes() {
+    return getCollection<RepoIndex>("indexes");
+}
+
+/**
+ * Describes an index without its chunks and vectors
+ * @param index - Stored index
+ * @returns Lightweight summary for listings
+ */
+export function summarizeIndex(index: RepoIndex): RepoIndexSummary {
+    return {
+        id: index.id,
+        name: index.name,
+        source: index.source,
+        createdAt: index.createdAt,
+        fileCount: index.fileCount,
+        chunkCount: index.chunks.length,
+        ...(index.embedding ? { embeddingModel: index.embedding.model } : {}),
+    };
+}
+
+function chunkTerms(chunk: CodeChunk): string[] {
+    return tokenize(`${chunk.path}\n${chunk.text}`);
+}
+
+function embeddingInput(chunk: CodeChunk): string {
+    return `${chunk.path}\n${chunk.text}`.slice(0, EMBEDDING_INPUT_CHARS);
+}
+
+/**
+ * Embeds every chunk, batch by batch
+ * @returns Vectors aligned with `chunks`, or null if the model failed
+ */
+async function embedChunks(chunks: CodeChunk[], embedder: ResolvedEmbeddingModel): Promise<number[][] | null> {
+    const vectors: number[][] = [];
+    try {
+        for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE).map(embeddingInput);
+            vectors.push(...await embedder.provider.embed!(batch, embedder.model));
+        }
+        return vectors;
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Embedding with ${embedder.model} failed, keeping a lexical-only index:`, reason);
+        return null;
+    }
+}
+
+async function readSource(userId: string, source: IndexSource): Promise<SourceFile[]> {
+    if (source.type === "checkout") {
+        return readCheckout(await resolveCheckoutPath(source.path));
+    }
+
+    const [attachment] = await getAttachments(userId, [source.attachmentId]);
+    if (!attachment) throw new Error("Attachment not found");
+    return readAttachment(attachment);
+}
+
+/**
+ * Chunks a repository and stores its lexical index, plus embeddings when a
+ * model is configured. Works fully offline with the lexical index alone.
+ * @param userId - Owner id
+ * @param name - Display name
+ * @param source - Local checkout or uploaded archive
+ * @param embedder - Embedding model; resolved from the LLM config by default
+ * @returns The stored index
+ * @throws When the source cannot be read or contains no text files
+ */
+export async function createIndex(
+    userId: string,
+    name: string,
+    source: IndexSource,
+    embedder: ResolvedEmbeddingModel | null = resolveEmbeddingModel()
+): Promise<RepoIndex> {
+    const files = await readSource(userId, source);
+    const chunks = files.flatMap((file) => chunkFile(file.path, file.content, file.language));
+    if (chunks.length === 0) {
+        throw new Error("No indexable text files were found");
+    }
+
+    const lexical = buildBm25Index(chunks.map((chunk, i) => ({ id: String(i), terms: chunkTerms(chunk) })));
+    const vectors = embedder ? await embedChunks(chunks, embedder) : null;
+
+    return indexes().put({
+        id: newId(),
+        userId,
+        name,
+        source,
+        createdAt: new Date().toISOString(),
+        fileCount: files.length,
+        chunks,
+        lexical,
+        ...(embedder && vectors ? { embedding: { provider: embedder.provider.id, model: embedder.model, vectors } } : {}),
+    });
+}
+
+/**
+ * Lists a user's indexes, newest first
+ * @param userId - Owner id
+ * @returns Summaries without chunks
+ */
+export async function listIndexes(userId: string): Promise<RepoIndexSummary[]> {
+    const owned = await indexes().list((index) => index.userId === userId);
+    return owned
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(summarizeIndex);
+}
+
+/**
+ * Fetches an index the user owns
+ * @param userId - Owner id
+ * @param indexId - Index id
+ * @returns The index, or null if missing or owned by someone else
+ */
+export async function getIndex(userId: string, indexId: string): Promise<RepoIndex | null> {
+    const index = await indexes().get(indexId);
+    return index && index.userId === userId ? index : null;
+}
+
+/**
+ * Deletes an index the user owns
+ * @param userId - Owner id
+ * @param indexId - Index id
+ * @returns False if there was nothing to delete
+ */
+export async function deleteIndex(userId: string, indexId: string): Promise<boolean> {
+    if (!(await getIndex(userId, indexId))) return false;
+    return indexes().delete(indexId);
+}
+
+function cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Ranks chunks by semantic similarity to the query
+ * @returns Chunk positions, best first, or null when the index has no usable embeddings
+ */
+async function semanticRanking(index: RepoIndex, query: string, embedder: ResolvedEmbeddingModel | null): Promise<number[] | null> {
+    if (!index.embedding || !embedder) return null;
+    if (embedder.provider.id !== index.embedding.provider || embedder.model !== index.embedding.model) return null;
+
+    try {
+        const [vector] = await embedder.provider.embed!([query], embedder.model);
+        return index.embedding.vectors
+            .map((candidate, position) => ({ position, score: cosine(vector, candidate) }))
+            .filter((hit) => hit.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .map((hit) => hit.position);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn("⚠️ Query embedding failed, using lexical retrieval only:", reason);
+        return null;
+    }
+}
+
+/**
+ * Retrieves the chunks most relevant to a query. BM25 and embedding
+ * rankings are merged with reciprocal rank fusion; the lexical ranking
+ * alone is used when the index has no embeddings or the model is unreachable.
+ * @param index - Index to search
+ * @param query - Natural-language or code query
+ * @param k - Number of chunks to return
+ * @param embedder - Embedding model; resolved from the LLM config by default
+ * @returns Best chunks first
+ */
+export async function searchIndex(
+    index: RepoIndex,
+    query: string,
+    k = DEFAULT_RETRIEVAL_K,
+    embedder: ResolvedEmbeddingModel | null = index.embedding ? resolveEmbeddingModel() : null
+): Promise<RetrievedChunk[]> {
+    const lexical = scoreBm25(index.lexical, tokenize(query)).map((hit) => Number(hit.id));
+    const semantic = await semanticRanking(index, query, embedder);
+
+    const fused = new Map<number, number>();
+    for (const ranking of semantic ? [lexical, semantic] : [lexical]) {
+        ranking.forEach((position, rank) => {
+            fused.set(position, (fused.get(position) ?? 0) + 1 / (RRF_K + rank + 1));
+        });
+    }
+
+    return [...fused.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, k)
+        .map(([position, score]) => ({ chunk: index.chunks[position], score }));
+}
+
+/**
+ * Formats retrieved chunks as a prompt section that fits the token budget
+ * @param name - Index name shown to the model
+ * @param hits - Chunks from searchIndex, best first
+ * @param tokenBudget - Maximum tokens for the section
+ * @returns Prompt text, or an empty string when nothing was retrieved
+ */
+export function buildRetrievalContext(name: string, hits: RetrievedChunk[], tokenBudget = DEFAULT_RETRIEVAL_TOKEN_BUDGET): string {
+    let remaining = tokenBudget;
+    const sections: string[] = [];
+
+    for (const { chunk } of hits) {
+        const block = `### ${chunk.path}:${chunk.startLine}-${chunk.endLine}\n\`\`\`${chunk.language}\n${chunk.text}\n\`\`\``;
+        const cost = estimateTokens(block);
+        if (cost > remaining) continue;
+        remaining -= cost;
+        sections.push(block);
+    }
+
+    if (sections.length === 0) return "";
+    return `Relevant code retrieved from the repository "${name}":\n\n${sections.join("\n\n")}`;
+}
@@ -0,0 +1,136 @@
+import { execFile } from "child_process";
+import { lstat, readFile, readdir, realpath, stat } from "fs/promises";
+import path from "path";
+import { promisify } from "util";
+import { MAX_FILE_BYTES } from "@/lib/attachments/attachment-service";
+import { isVendored, languageFor, skipReason } from "@/lib/attachments/filters";
+import type { Attachment } from "@/lib/attachments/types";
+
+const execFileAsync = promisify(execFile);
+
+/** Most files read from one checkout */
+export const MAX_INDEX_FILES = 5000;
+
+export interface SourceFile {
+    path: string;
+    content: string;
+    language: string;
+}
+
+/**
+ * Directories local checkouts may be indexed from. Without
+ * CODINSPECT_REPO_ROOTS the server refuses to read its own filesystem.
+ * @returns Absolute root directories
+ */
+export function allowedRepoRoots(): string[] {
+    return (process.env.CODINSPECT_REPO_ROOTS ?? "")
+        .split(path.delimiter)
+        .map((root) => root.trim())
+        .filter(Boolean)
+        .map((root) => path.resolve(root));
+}
+
+/**
+ * Resolves a checkout path and checks it lies inside an allowed root
+ * @param requested - Absolute path, or one relative to the first root
+ * @returns Real path of the checkout directory
+ * @throws When local indexing is disabled or the path is outside every root
+ */
+export async function resolveCheckoutPath(requested: string): Promise<string> {
+    const roots = allowedRepoRoots();
+    if (roots.length === 0) {
+        throw new Error("Local repository indexing is disabled. Set CODINSPECT_REPO_ROOTS to enable it.");
+    }
+
+    let resolved: string;
+    try {
+        resolved = await realpath(path.resolve(roots[0], requested));
+    } catch {
+        throw new Error(`Repository not found: ${requested}`);
+    }
+
+    const realRoots = await Promise.all(roots.map((root) => realpath(root).catch(() => root)));
+    const inside = realRoots.some((root) => resolved === root || resolved.startsWith(root + path.sep));
+    if (!inside) {
+        throw new Error(`${requested} is outside the allowed repository roots`);
+    }
+
+    if (!(await stat(resolved)).isDirectory()) {
+        throw new Error(`${requested} is not a directory`);
+    }
+    return resolved;
+}
+
+/**
+ * Lists tracked files with git so .gitignore is honoured
+ * @param root - Checkout directory
+ * @returns Relative paths, or null when the directory is not a git checkout
+ */
+async function gitTrackedFiles(root: string): Promise<string[] | null> {
+    try {
+        const { stdout } = await execFileAsync("git", ["-C", root, "ls-files", "-z"], {
+            timeout: 30_000,
+            maxBuffer: 64 * 1024 * 1024,
+        });
+        return stdout.split("\0").filter(Boolean);
+    } catch {
+        return null;
+    }
+}
+
+async function walk(root: string, dir = ""): Promise<string[]> {
+    const entries = await readdir(path.join(root, dir), { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+        const relative = dir ? `${dir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+            if (!isVendored(`${relative}/x`)) files.push(...await walk(root, relative));
+        } else if (entry.isFile()) {
+            files.push(relative);
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Reads the text files of a local checkout, skipping binaries, vendored
+ * folders and anything git ignores. Symbolic links are skipped, and so is
+ * any file whose real path leaves the checkout. Never touches the network.
+ * @param root - Resolved checkout directory
+ * @returns Readable source files, at most MAX_INDEX_FILES
+ */
+export async function readCheckout(root: string): Promise<SourceFile[]> {
+    const paths = (await gitTrackedFiles(root)) ?? (await walk(root));
+    const realRoot = await realpath(root);
+    const files: SourceFile[] = [];
+
+    for (const relative of paths.sort()) {
+        if (files.length >= MAX_INDEX_FILES) break;
+        if (isVendored(relative)) continue;
+
+        // git tracks links as links; following one could read anything on the server
+        const absolute = path.join(root, relative);
+        const info = await lstat(absolute).catch(() => null);
+        if (!info?.isFile() || info.size > MAX_FILE_BYTES) continue;
+        const real = await realpath(absolute).catch(() => null);
+        if (!real?.startsWith(realRoot + path.sep)) continue;
+
+        const data = await readFile(absolute);
+        if (skipReason(relative, data, MAX_FILE_BYTES)) continue;
+
+        files.push({ path: relative, content: data.toString("utf8"), language: languageFor(relative) });
+    }
+
+    return files;
+}
+
+/**
+ * Uses an uploaded attachment, already extracted and filtered, as an index source
+ * @param attachment - Stored attachment
+ * @returns Its files
+ */
+export function readAttachment(attachment: Attachment): SourceFile[] {
+    return attachment.files.map(({ path: filePath, content, language }) => ({ path: filePath, content, language }));
+}
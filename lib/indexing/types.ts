@@ -0,0 +1,48 @@
+import type { Bm25Index } from "@/lib/search/bm25";
+
+/** A contiguous slice of one file, cut at declaration or heading boundaries */
+export interface CodeChunk {
+    path: string;
+    language: string;
+    /** 1-based, inclusive */
+    startLine: number;
+    /** 1-based, inclusive */
+    endLine: number;
+    text: string;
+    /** First declared name in the chunk, e.g. a function or class */
+    symbol?: string;
+}
+
+export type IndexSource =
+    | { type: "checkout"; path: string }
+    | { type: "attachment"; attachmentId: string };
+
+export interface RepoIndex {
+    id: string;
+    userId: string;
+    name: string;
+    source: IndexSource;
+    createdAt: string;
+    fileCount: number;
+    chunks: CodeChunk[];
+    /** BM25 index whose document ids are positions in `chunks` */
+    lexical: Bm25Index;
+    /** One vector per chunk, present only when an embedding model was configured and reachable */
+    embedding?: { provider: string; model: string; vectors: number[][] };
+}
+
+export interface RepoIndexSummary {
+    id: string;
+    name: string;
+    source: IndexSource;
+    createdAt: string;
+    fileCount: number;
+    chunkCount: number;
+    /** Embedding model id, or undefined for a lexical-only index */
+    embeddingModel?: string;
+}
+
+export interface RetrievedChunk {
+    chunk: CodeChunk;
+    score: number;
+}
@@ -0,0 +1,120 @@
+import { getCollection } from "@/lib/storage/collection";
+import { mergeInstructions, platformLayer } from "./merge";
+import type { EditableLayer, EffectiveInstructions, InstructionDocument, ResolvedLayer } from "./types";
+
+/** Longest text accepted for one layer */
+export const MAX_INSTRUCTIONS_LENGTH = 8000;
+
+/** Versions kept per layer; older ones are dropped */
+const MAX_VERSIONS = 50;
+
+function documents() {
+    return getCollection<InstructionDocument>("instructions");
+}
+
+function documentId(layer: EditableLayer, scopeId: string): string {
+    return `${layer}-${scopeId}`;
+}
+
+/**
+ * Fetches the version history of one layer
+ * @param layer - Organization, project or personal
+ * @param scopeId - Organization, project or user id
+ * @returns The document, or null when nothing was ever saved
+ */
+export async function getInstructions(layer: EditableLayer, scopeId: string): Promise<InstructionDocument | null> {
+    return documents().get(documentId(layer, scopeId));
+}
+
+/**
+ * Saves new text for a layer as a new version. Saving unchanged text is a no-op.
+ * @param layer - Organization, project or personal
+ * @param scopeId - Organization, project or user id
+ * @param text - New instructions; empty text clears the layer
+ * @param authorId - User making the change
+ * @returns The updated document
+ * @throws When the text is too long
+ */
+export async function saveInstructions(layer: EditableLayer, scopeId: string, text: string, authorId: string): Promise<InstructionDocument> {
+    const trimmed = text.trim();
+    if (trimmed.length > MAX_INSTRUCTIONS_LENGTH) {
+        throw new Error(`Instructions are limited to ${MAX_INSTRUCTIONS_LENGTH} characters`);
+    }
+
+    const existing = await getInstructions(layer, scopeId);
+    const versions = existing?.versions ?? [];
+    const latest = versions[versions.length - 1];
+    if (existing && (latest?.text ?? "") === trimmed) return existing;
+
+    return documents().put({
+        id: documentId(layer, scopeId),
+        layer,
+        scopeId,
+        versions: [
+            ...versions,
+            {
+                version: (latest?.version ?? 0) + 1,
+                text: trimmed,
+                createdAt: new Date().toISOString(),
+                authorId,
+            },
+        ].slice(-MAX_VERSIONS),
+    });
+}
+
+/**
+ * Makes an earlier version current again by saving it as a new version
+ * @param layer - Organization, project or personal
+ * @param scopeId - Organization, project or user id
+ * @param version - Version number to restore
+ * @param authorId - User making the change
+ * @returns The updated document, or null if that version does not exist
+ */
+export async function restoreInstructions(
+    layer: EditableLayer,
+    scopeId: string,
+    version: number,
+    authorId: string
+): Promise<InstructionDocument | null> {
+    const target = (await getInstructions(layer, scopeId))?.versions.find((entry) => entry.version === version);
+    if (!target) return null;
+    return saveInstructions(layer, scopeId, target.text, authorId);
+}
+
+/**
+ * Deletes the history of a layer, e.g. when its project is deleted
+ * @param layer - Organization, project or personal
+ * @param scopeId - Organization, project or user id
+ * @returns True if there was a history to delete
+ */
+export async function deleteInstructions(layer: EditableLayer, scopeId: string): Promise<boolean> {
+    return documents().delete(documentId(layer, scopeId));
+}
+
+async function currentLayer(layer: EditableLayer, scopeId: string | null | undefined, scopeName?: string): Promise<ResolvedLayer | null> {
+    if (!scopeId) return null;
+    const latest = (await getInstructions(layer, scopeId))?.versions.at(-1);
+    if (!latest?.text) return null;
+    return { layer, version: latest.version, text: latest.text, ...(scopeName ? { scopeName } : {}) };
+}
+
+export interface InstructionScope {
+    userId: string | null;
+    orgId?: string | null;
+    project?: { id: string; name: string } | null;
+}
+
+/**
+ * Resolves the effective system prompt for a chat
+ * @param scope - Signed-in user, their organization and the thread's project
+ * @returns Merged instructions with the version of every layer used
+ */
+export async function resolveInstructions(scope: InstructionScope): Promise<EffectiveInstructions> {
+    const layers = await Promise.all([
+        currentLayer("organization", scope.orgId),
+        currentLayer("project", scope.project?.id, scope.project?.name),
+        currentLayer("personal", scope.userId),
+    ]);
+
+    return mergeInstructions([platformLayer(), ...layers.filter((layer): layer is ResolvedLayer => layer !== null)]);
+}
@@ -0,0 +1,54 @@
+import { INSTRUCTION_LAYERS, type EffectiveInstructions, type InstructionLayer, type ResolvedLayer } from "./types";
+
+/** Version of PLATFORM_INSTRUCTIONS; bump it whenever the text changes */
+export const PLATFORM_INSTRUCTIONS_VERSION = 1;
+
+export const PLATFORM_INSTRUCTIONS =
+    "You are CodInspect AI, an expert Senior Software Engineer. You write clean, modern, and bug-free code. Always use syntax highlighting.";
+
+const HEADINGS: Record<Exclude<InstructionLayer, "platform">, (scopeName?: string) => string> = {
+    organization: (name) => name ? `Organization rules (${name})` : "Organization rules",
+    project: (name) => name ? `Project conventions (${name})` : "Project conventions",
+    personal: () => "Personal preferences",
+};
+
+const PRECEDENCE_NOTE =
+    "When the sections below conflict, follow the more specific one: personal preferences over project conventions over organization rules.";
+
+/**
+ * Merges instruction layers into one system prompt. The output depends only
+ * on the input: layers are ordered platform, organization, project, personal
+ * regardless of the order given, and empty layers are dropped.
+ * @param layers - Current text of each layer
+ * @returns The effective prompt and its version signature
+ */
+export function mergeInstructions(layers: ResolvedLayer[]): EffectiveInstructions {
+    const ordered = layers
+        .filter((layer) => layer.text.trim())
+        .sort((a, b) => INSTRUCTION_LAYERS.indexOf(a.layer) - INSTRUCTION_LAYERS.indexOf(b.layer))
+        .map((layer) => ({ ...layer, text: layer.text.trim() }));
+
+    const sections = ordered.map((layer) =>
+        layer.layer === "platform" ? layer.text : `## ${HEADINGS[layer.layer](layer.scopeName)}\n${layer.text}`
+    );
+
+    const userLayers = ordered.filter((layer) => layer.layer !== "platform").length;
+    if (userLayers > 1) {
+        const platformCount = ordered[0]?.layer === "platform" ? 1 : 0;
+        sections.splice(platformCount, 0, PRECEDENCE_NOTE);
+    }
+
+    return {
+        text: sections.join("\n\n"),
+        layers: ordered,
+        signature: ordered.map((layer) => `${layer.layer}@${layer.version}`).join("+"),
+    };
+}
+
+/**
+ * The platform layer, which every effective prompt starts with
+ * @returns Resolved platform layer
+ */
+export function platformLayer(): ResolvedLayer {
+    return { layer: "platform", version: PLATFORM_INSTRUCTIONS_VERSION, text: PLATFORM_INSTRUCTIONS };
+}
@@ -0,0 +1,40 @@
+/** Instruction layers, in the order they are merged */
+export type InstructionLayer = "platform" | "organization" | "project" | "personal";
+
+export const INSTRUCTION_LAYERS: InstructionLayer[] = ["platform", "organization", "project", "personal"];
+
+/** Layers users can edit; the platform layer ships with the code */
+export type EditableLayer = Exclude<InstructionLayer, "platform">;
+
+export interface InstructionVersion {
+    /** Starts at 1 and increases with every saved change */
+    version: number;
+    text: string;
+    createdAt: string;
+    authorId: string;
+}
+
+/** Version history of one layer for one scope (an organization, project or user) */
+export interface InstructionDocument {
+    id: string;
+    layer: EditableLayer;
+    scopeId: string;
+    versions: InstructionVersion[];
+}
+
+export interface ResolvedLayer {
+    layer: InstructionLayer;
+    version: number;
+    text: string;
+    /** Display name of the scope, e.g. the project name */
+    scopeName?: string;
+}
+
+export interface EffectiveInstructions {
+    /** Text sent in the provider's system-instruction field */
+    text: string;
+    /** Non-empty layers that contributed, in merge order */
+    layers: ResolvedLayer[];
+    /** Compact version fingerprint such as "platform@1+project@3" */
+    signature: string;
+}
@@ -0,0 +1,223 @@
+import type { ChatRequest } from "@/lib/chat/chat-request";
+import { getCollection, newId } from "@/lib/storage/collection";
+import type { Job, JobCancellation, JobDetail, JobEvent, JobState, JobSummary } from "./types";
+
+/** Queued and running jobs one user may have at once */
+export const MAX_ACTIVE_JOBS = 3;
+
+/** Events kept per job; later deltas are dropped since the reply is stored in the thread anyway */
+export const MAX_JOB_EVENTS = 2000;
+
+/** Log lines kept per job; the oldest go first */
+export const MAX_JOB_LOGS = 200;
+
+/** A running job whose worker has been silent this long is considered lost */
+export const STALE_JOB_MS = 60_000;
+
+/** Finished jobs are deleted after this many days */
+export const JOB_RETENTION_DAYS = 7;
+
+const TITLE_LENGTH = 80;
+
+/** Thrown when a user already has MAX_ACTIVE_JOBS jobs queued or running */
+export class JobLimitError extends Error {
+    constructor() {
+        super(`You can have ${MAX_ACTIVE_JOBS} background sessions queued or running at once`);
+        this.name = "JobLimitError";
+    }
+}
+
+function jobs() {
+    return getCollection<Job>("jobs");
+}
+
+function cancellations() {
+    return getCollection<JobCancellation>("job-cancellations");
+}
+
+/**
+ * @param state - Job state
+ * @returns True once the job can no longer change
+ */
+export function isFinished(state: JobState): boolean {
+    return state === "succeeded" || state === "failed" || state === "cancelled";
+}
+
+export function toJobSummary(job: Job): JobSummary {
+    const { id, state, title, threadId, progress, error, createdAt, startedAt, finishedAt } = job;
+    return { id, state, title, threadId, progress, error, createdAt, startedAt, finishedAt };
+}
+
+function toDetail(job: Job): JobDetail {
+    return { ...toJobSummary(job), logs: job.logs, lastEventSeq: job.events[job.events.length - 1]?.seq ?? 0 };
+}
+
+/**
+ * Queues an Agent mode request for the worker
+ * @param userId - Owner id
+ * @param orgId - Active organization, if any
+ * @param request - Validated chat request; it always runs in Agent mode and streams to the worker
+ * @returns The queued job
+ * @throws JobLimitError when the user has too many jobs queued or running
+ */
+export async function createJob(userId: string, orgId: string | null, request: ChatRequest): Promise<JobSummary> {
+    const active = await jobs().list((job) => job.userId === userId && !isFinished(job.state));
+    if (active.length >= MAX_ACTIVE_JOBS) throw new JobLimitError();
+
+    const title = request.message.replace(/\s+/g, " ").trim();
+    const job = await jobs().put({
+        id: newId(),
+        userId,
+        orgId,
+        request: { ...request, mode: "Agent", stream: true },
+        state: "queued",
+        title: title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1)}…` : title || "Untitled task",
+        threadId: request.threadId ?? null,
+        progress: { steps: 0, message: "Waiting for a worker" },
+        events: [],
+        logs: [{ at: new Date().toISOString(), level: "info", message: "Queued" }],
+        error: null,
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        heartbeatAt: null,
+    });
+    return toJobSummary(job);
+}
+
+/**
+ * Lists a user's jobs, newest first
+ * @param userId - Owner id
+ * @param threadId - Only jobs replying in this thread
+ * @returns Job summaries
+ */
+export async function listJobs(userId: string, threadId?: string): Promise<JobSummary[]> {
+    const owned = await jobs().list((job) => job.userId === userId && (threadId === undefined || job.threadId === threadId));
+    return owned.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(toJobSummary);
+}
+
+/**
+ * @param userId - Owner id
+ * @param jobId - Job id
+ * @returns The job with its logs, or null if missing or owned by someone else
+ */
+export async function getJob(userId: string, jobId: string): Promise<JobDetail | null> {
+    const job = await jobs().get(jobId);
+    return job && job.userId === userId ? toDetail(job) : null;
+}
+
+/**
+ * Reads the events a job produced after the ones a reader has seen
+ * @param userId - Owner id
+ * @param jobId - Job id
+ * @param afterSeq - Last event number the reader has
+ * @returns The job's summary and its newer events, or null if missing or owned by someone else
+ */
+export async function getJobEvents(userId: string, jobId: string, afterSeq = 0): Promise<{ job: JobSummary; events: JobEvent[] } | null> {
+    const job = await jobs().get(jobId);
+    if (!job || job.userId !== userId) return null;
+    return { job: toJobSummary(job), events: job.events.filter((event) => event.seq > afterSeq) };
+}
+
+/**
+ * Cancels a job. Queued jobs end at once; running ones are stopped by their
+ * worker, which keeps the partial reply in the thread marked as stopped
+ * @param userId - Owner id
+ * @param jobId - Job id
+ * @returns The job, or null if missing or owned by someone else
+ */
+export async function cancelJob(userId: string, jobId: string): Promise<JobSummary | null> {
+    const job = await jobs().get(jobId);
+    if (!job || job.userId !== userId) return null;
+    if (isFinished(job.state)) return toJobSummary(job);
+
+    const now = new Date().toISOString();
+    await cancellations().put({ id: jobId, requestedAt: now });
+    if (job.state === "queued") {
+        return toJobSummary(await jobs().put({
+            ...job,
+            state: "cancelled",
+            finishedAt: now,
+            progress: { ...job.progress, message: "Cancelled" },
+            logs: [...job.logs, { at: now, level: "info", message: "Cancelled before it started" }],
+        }));
+    }
+    return toJobSummary({ ...job, progress: { ...job.progress, message: "Cancelling" } });
+}
+
+/**
+ * @param jobId - Job id
+ * @returns True when the owner asked for the job to be cancelled
+ */
+export async function isCancelRequested(jobId: string): Promise<boolean> {
+    return (await cancellations().get(jobId)) !== null;
+}
+
+/**
+ * Takes the oldest queued job and marks it running. Claims are not atomic
+ * across processes, so exactly one worker should run per data directory
+ * @returns The claimed job, or null when the queue is empty
+ */
+export async function claimNextJob(): Promise<Job | null> {
+    const queued = await jobs().list((job) => job.state === "queued");
+    const next = queued.sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+    if (!next) return null;
+
+    const now = new Date().toISOString();
+    return jobs().put({
+        ...next,
+        state: "running",
+        startedAt: now,
+        heartbeatAt: now,
+        progress: { ...next.progress, message: "Starting" },
+        logs: [...next.logs, { at: now, level: "info", message: "Picked up by the worker" }],
+    });
+}
+
+/**
+ * Stores a job the worker changed, keeping the newest MAX_JOB_LOGS log lines
+ * @param job - Job as the worker sees it
+ * @returns The stored job
+ */
+export async function saveJob(job: Job): Promise<Job> {
+    const logs = job.logs.length > MAX_JOB_LOGS ? job.logs.slice(-MAX_JOB_LOGS) : job.logs;
+    const saved = await jobs().put({ ...job, logs });
+    if (isFinished(saved.state)) await cancellations().delete(saved.id);
+    return saved;
+}
+
+/**
+ * Fails running jobs whose worker went away, e.g. in a server restart, and
+ * deletes finished jobs past JOB_RETENTION_DAYS. Interrupted jobs are not
+ * retried: their prompt is already in the thread and tools may have run
+ * @param now - Current time
+ * @returns Number of jobs failed and deleted
+ */
+export async function sweepJobs(now = Date.now()): Promise<{ failed: number; deleted: number }> {
+    const all = await jobs().list();
+    const staleBefore = now - STALE_JOB_MS;
+    const expireBefore = now - JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    let failed = 0;
+    let deleted = 0;
+
+    for (const job of all) {
+        if (job.state === "running" && Date.parse(job.heartbeatAt ?? job.createdAt) < staleBefore) {
+            const at = new Date(now).toISOString();
+            const error = "The worker stopped while the job was running";
+            await saveJob({
+                ...job,
+                state: "failed",
+                error,
+                finishedAt: at,
+                progress: { ...job.progress, message: "Interrupted" },
+                logs: [...job.logs, { at, level: "error", message: error }],
+            });
+            failed++;
+        } else if (isFinished(job.state) && Date.parse(job.finishedAt ?? job.createdAt) < expireBefore) {
+            await jobs().delete(job.id);
+            await cancellations().delete(job.id);
+            deleted++;
+        }
+    }
+    return { failed, deleted };
+}
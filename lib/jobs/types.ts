@@ -0,0 +1,73 @@
+import type { ChatRequest } from "@/lib/chat/chat-request";
+import type { ChatStreamEvent } from "@/lib/chat/stream";
+
+/**
+ * Background sessions: Agent mode requests queued and run by the job worker,
+ * so a task keeps going after the browser tab that started it is closed.
+ */
+
+export type JobState = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+/** A chat stream event the job produced, numbered so readers can resume after the last one they saw */
+export interface JobEvent {
+    seq: number;
+    at: string;
+    event: ChatStreamEvent;
+}
+
+export interface JobLogEntry {
+    at: string;
+    level: "info" | "warn" | "error";
+    message: string;
+}
+
+export interface JobProgress {
+    /** Agent steps taken so far */
+    steps: number;
+    /** What the job is doing, e.g. "Calling read_file" */
+    message: string;
+}
+
+export interface Job {
+    id: string;
+    userId: string;
+    /** Active organization when the job was started; selects the instructions it runs with */
+    orgId: string | null;
+    /** The Agent mode chat request the job answers, as validated when it was started */
+    request: ChatRequest;
+    state: JobState;
+    /** Start of the prompt, to tell jobs apart */
+    title: string;
+    /** Thread the reply is stored in; new threads are known once the job starts */
+    threadId: string | null;
+    progress: JobProgress;
+    events: JobEvent[];
+    logs: JobLogEntry[];
+    /** Why the job failed */
+    error: string | null;
+    createdAt: string;
+    startedAt: string | null;
+    finishedAt: string | null;
+    /** Last sign of life from the worker running the job */
+    heartbeatAt: string | null;
+}
+
+export type JobSummary = Pick<Job, "id" | "state" | "title" | "threadId" | "progress" | "error" | "createdAt" | "startedAt" | "finishedAt">;
+
+/** What polling a job returns: its summary, logs and the number of its latest event */
+export interface JobDetail extends JobSummary {
+    logs: JobLogEntry[];
+    lastEventSeq: number;
+}
+
+/** A cancel request, kept apart from the job so the worker's writes never lose it */
+export interface JobCancellation {
+    /** Job id */
+    id: string;
+    requestedAt: string;
+}
+
+/** Frames of GET /api/jobs/:id/events, sent with the chat stream's framing */
+export type JobStreamEvent =
+    | { type: "event"; seq: number; event: ChatStreamEvent }
+    | { type: "state"; job: JobSummary };
@@ -0,0 +1,192 @@
+import type { AgentStep } from "@/lib/agent/types";
+import { handleChat } from "@/lib/chat/chat-handler";
+import { readChatStream, type ChatStreamEvent } from "@/lib/chat/stream";
+import { getUserPlan } from "@/lib/plans/entitlement-service";
+import { MAX_JOB_EVENTS, claimNextJob, isCancelRequested, saveJob, sweepJobs } from "./job-service";
+import type { Job, JobLogEntry } from "./types";
+
+/**
+ * Runs queued jobs in the server process: each job is an Agent mode chat
+ * request whose stream events are stored on the job instead of being sent
+ * to a browser. Started from instrumentation.ts.
+ */
+
+/** Jobs run at once by this process */
+export const MAX_CONCURRENT_JOBS = 2;
+
+/** How often the queue is checked for new jobs */
+export const JOB_POLL_MS = 1000;
+
+/** How often a running job is saved and checked for cancellation */
+const HEARTBEAT_MS = 2000;
+
+/** Stale jobs and expired ones are swept this often */
+const SWEEP_MS = 60_000;
+
+/**
+ * @param step - Agent step
+ * @returns One line describing it, for progress and logs
+ */
+function describeStep(step: AgentStep): string {
+    switch (step.kind) {
+        case "plan":
+            return `Planned ${step.steps.length} step${step.steps.length === 1 ? "" : "s"}`;
+        case "tool_call":
+            return `Calling ${step.tool}`;
+        case "tool_result":
+            return `${step.tool} ${step.denied ? "was denied" : step.ok ? "finished" : "failed"}`;
+    }
+}
+
+/**
+ * Runs a claimed job to the end and stores what happened
+ * @param claimed - Job marked running by claimNextJob
+ * @returns The finished job
+ */
+export async function runJob(claimed: Job): Promise<Job> {
+    const job: Job = { ...claimed, events: [...claimed.events], logs: [...claimed.logs] };
+    const stop = new AbortController();
+    const log = (level: JobLogEntry["level"], message: string) => {
+        job.logs.push({ at: new Date().toISOString(), level, message });
+    };
+
+    let saving: Promise<unknown> = Promise.resolve();
+    const save = () => {
+        job.heartbeatAt = new Date().toISOString();
+        saving = saving.then(() => saveJob({ ...job })).catch((error) => console.warn("⚠️ Could not save job progress:", error));
+        return saving;
+    };
+    // A failing store must not become an unhandled rejection in the server process
+    const heartbeat = setInterval(async () => {
+        try {
+            if (!stop.signal.aborted && await isCancelRequested(job.id)) {
+                log("info", "Cancel requested; stopping");
+                stop.abort();
+            }
+            await save();
+        } catch (error) {
+            console.warn("⚠️ Job heartbeat failed:", error);
+        }
+    }, HEARTBEAT_MS);
+
+    let outcome: { state: "succeeded" } | { state: "failed"; error: string } | null = null;
+    const record = (event: ChatStreamEvent) => {
+        // Deltas past the cap are dropped; the reply itself is stored in the thread
+        if (job.events.length < MAX_JOB_EVENTS || event.type !== "delta") {
+            job.events.push({ seq: (job.events[job.events.length - 1]?.seq ?? 0) + 1, at: new Date().toISOString(), event });
+        }
+        switch (event.type) {
+            case "start":
+                job.threadId = event.threadId ?? job.threadId;
+                job.progress = { ...job.progress, message: "Working" };
+                log("info", `Started on ${event.model}`);
+                break;
+            case "context":
+                log("info", `${event.summarizedCount} earlier messages are summarized`);
+                break;
+            case "analysis":
+                log("info", `Static analysis ran on ${event.attachments.length} attachment${event.attachments.length === 1 ? "" : "s"}`);
+                break;
+            case "step": {
+                const message = describeStep(event.step);
+                job.progress = { steps: job.progress.steps + 1, message };
+                log(event.step.kind === "tool_result" && !event.step.ok ? "warn" : "info", message);
+                break;
+            }
+            case "done":
+                outcome = { state: "succeeded" };
+                break;
+            case "error":
+                outcome = { state: "failed", error: event.error };
+                break;
+        }
+    };
+
+    try {
+        if (await isCancelRequested(job.id)) stop.abort();
+        const plan = await getUserPlan(job.userId);
+        const response = await handleChat(job.request, { userId: job.userId, orgId: job.orgId, orgRole: null }, plan, stop.signal);
+
+        // Requests refused before the model was called come back as JSON errors
+        if (!response.headers.get("Content-Type")?.includes("text/event-stream")) {
+            const data = await response.json().catch(() => ({}));
+            outcome = response.ok ? { state: "succeeded" } : { state: "failed", error: data.error ?? `The request failed with status ${response.status}` };
+        } else {
+            await readChatStream(response, record, stop.signal);
+        }
+    } catch (error) {
+        console.error("❌ Job failed:", error);
+        outcome = { state: "failed", error: error instanceof Error ? error.message : "The job failed" };
+    } finally {
+        clearInterval(heartbeat);
+    }
+
+    const finished: { state: "succeeded" } | { state: "failed"; error: string } | { state: "cancelled" } = stop.signal.aborted
+        ? { state: "cancelled" }
+        : outcome ?? { state: "failed", error: "The reply ended before it was finished" };
+    job.state = finished.state;
+    job.finishedAt = new Date().toISOString();
+    if (finished.state === "failed") {
+        job.error = finished.error;
+        job.progress = { ...job.progress, message: "Failed" };
+        log("error", finished.error);
+    } else {
+        job.progress = { ...job.progress, message: finished.state === "cancelled" ? "Cancelled" : "Finished" };
+        log("info", finished.state === "cancelled" ? "Cancelled; the partial reply is kept in the thread" : "Finished");
+    }
+
+    await saving;
+    return saveJob({ ...job });
+}
+
+let active = 0;
+
+function track(job: Job): Promise<Job> {
+    active++;
+    return runJob(job).finally(() => active--);
+}
+
+/**
+ * Claims the next queued job and runs it to the end
+ * @returns The finished job, or null when the queue is empty
+ */
+export async function runNextJob(): Promise<Job | null> {
+    const job = await claimNextJob();
+    return job ? track(job) : null;
+}
+
+/**
+ * Polls the queue until stopped, running up to MAX_CONCURRENT_JOBS jobs at
+ * once. Jobs left running by a previous process are failed first
+ * @returns Stops polling; jobs already running finish on their own
+ */
+export function startWorker(): () => void {
+    let polling = false;
+    let lastSweep = 0;
+
+    const tick = async () => {
+        if (polling) return;
+        polling = true;
+        try {
+            if (Date.now() - lastSweep >= SWEEP_MS) {
+                lastSweep = Date.now();
+                const { failed } = await sweepJobs();
+                if (failed) console.warn(`⚠️ ${failed} background job${failed === 1 ? " was" : "s were"} interrupted`);
+            }
+            while (active < MAX_CONCURRENT_JOBS) {
+                const job = await claimNextJob();
+                if (!job) break;
+                void track(job).catch((error) => console.error("❌ Job worker error:", error));
+            }
+        } catch (error) {
+            console.error("❌ Job worker error:", error);
+        } finally {
+            polling = false;
+        }
+    };
+
+    const timer = setInterval(tick, JOB_POLL_MS);
+    void tick();
+    console.log(`Background job worker started (${MAX_CONCURRENT_JOBS} jobs at a time)`);
+    return () => clearInterval(timer);
+}
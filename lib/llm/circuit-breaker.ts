@@ -0,0 +1,68 @@
+/** Consecutive failed requests after which a model is skipped */
+const FAILURE_THRESHOLD = 3;
+
+/** How long an open circuit skips its model */
+const COOLDOWN_MS = 60_000;
+
+interface Circuit {
+    failures: number;
+    /** Until when the model is skipped; 0 while closed */
+    openUntil: number;
+}
+
+// Per-process state, like the in-memory store: each server instance learns on its own
+const circuits = new Map<string, Circuit>();
+
+/**
+ * Identifies a model across providers
+ * @param providerId - Provider id from the config
+ * @param model - Model id
+ * @returns Circuit key
+ */
+export function circuitKey(providerId: string, model: string): string {
+    return `${providerId}/${model}`;
+}
+
+/**
+ * Checks whether a model should be skipped. After the cooldown the circuit is
+ * half-open: the model is called again, and one more failure re-opens it.
+ * @param key - Key from circuitKey
+ * @param now - Current time in milliseconds
+ * @returns Milliseconds until the model is tried again, or 0 when it may be called
+ */
+export function circuitOpenFor(key: string, now = Date.now()): number {
+    const circuit = circuits.get(key);
+    if (!circuit || circuit.openUntil <= now) return 0;
+    return circuit.openUntil - now;
+}
+
+/**
+ * Closes the circuit after a successful call
+ * @param key - Key from circuitKey
+ */
+export function recordSuccess(key: string): void {
+    circuits.delete(key);
+}
+
+/**
+ * Counts a failed call and opens the circuit once the threshold is reached.
+ * A failure in the half-open state re-opens it immediately.
+ * @param key - Key from circuitKey
+ * @param now - Current time in milliseconds
+ * @returns True when the circuit is now open
+ */
+export function recordFailure(key: string, now = Date.now()): boolean {
+    const circuit = circuits.get(key) ?? { failures: 0, openUntil: 0 };
+    circuit.failures++;
+
+    const open = circuit.failures >= FAILURE_THRESHOLD;
+    if (open) circuit.openUntil = now + COOLDOWN_MS;
+
+    circuits.set(key, circuit);
+    return open;
+}
+
+/** Closes every circuit (for tests) */
+export function resetCircuits(): void {
+    circuits.clear();
+}
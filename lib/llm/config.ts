@@ -0,0 +1,87 @@
+import { existsSync, readFileSync } from "fs";
+import { MODEL_TIERS, type LLMConfig, type ModelRef, type ModelTier } from "./types";
+
+/**
+ * Default routing policy used when no config is supplied: the Gemini models
+ * CodInspect has always shipped with for Fast, and a Pro chain that starts
+ * with the larger model and falls back to the Fast ones.
+ */
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+    providers: [
+        { id: "gemini", type: "gemini", apiKeyEnv: "GEMINI_API_KEY" },
+    ],
+    tiers: {
+        Fast: [
+            { provider: "gemini", model: "gemini-2.5-flash", label: "Gemini 2.5 Flash", contextWindow: 1048576, timeoutMs: 20000, maxOutputTokens: 8192, temperature: 0.4 },
+            { provider: "gemini", model: "gemini-2.0-flash-lite", label: "Gemini 2.0 Flash-Lite", contextWindow: 1048576, timeoutMs: 15000, maxOutputTokens: 8192, temperature: 0.4 },
+            { provider: "gemini", model: "gemini-flash-latest", label: "Gemini Flash", contextWindow: 1048576, timeoutMs: 20000, maxOutputTokens: 8192, temperature: 0.4 },
+        ],
+        Pro: [
+            { provider: "gemini", model: "gemini-2.5-pro", label: "Gemini 2.5 Pro", contextWindow: 1048576, timeoutMs: 60000, maxOutputTokens: 32768, temperature: 0.2 },
+            { provider: "gemini", model: "gemini-2.5-flash", label: "Gemini 2.5 Flash", contextWindow: 1048576, timeoutMs: 30000, maxOutputTokens: 16384, temperature: 0.2 },
+        ],
+    },
+    defaultTier: "Fast",
+};
+
+/**
+ * Returns the ordered fallback chain for a tier
+ * @param config - LLM config
+ * @param tier - Requested tier
+ * @returns The tier's own chain, or the shared `models` chain
+ */
+export function chainForTier(config: LLMConfig, tier: ModelTier): ModelRef[] {
+    return config.tiers?.[tier] ?? config.models ?? [];
+}
+
+/**
+ * Checks that a parsed config references only known providers
+ * @param config - Parsed config
+ * @returns The same config, typed
+ */
+function validateConfig(config: LLMConfig): LLMConfig {
+    if (!Array.isArray(config.providers) || (!Array.isArray(config.models) && !config.tiers)) {
+        throw new Error("LLM config must contain a `providers` array and `models` or `tiers`");
+    }
+
+    for (const tier of Object.keys(config.tiers ?? {})) {
+        if (!MODEL_TIERS.includes(tier as ModelTier)) {
+            throw new Error(`LLM config has unknown tier "${tier}"; expected one of ${MODEL_TIERS.join(", ")}`);
+        }
+    }
+
+    const ids = new Set(config.providers.map((provider) => provider.id));
+    const refs = [
+        ...(config.models ?? []),
+        ...Object.values(config.tiers ?? {}).flat(),
+        ...(config.embeddings ? [config.embeddings] : []),
+    ];
+    for (const ref of refs) {
+        if (!ids.has(ref.provider)) {
+            throw new Error(`LLM config model "${ref.model}" references unknown provider "${ref.provider}"`);
+        }
+    }
+
+    return config;
+}
+
+/**
+ * Loads the provider configuration.
+ * CODINSPECT_LLM_CONFIG may hold inline JSON or a path to a JSON file;
+ * when it is unset the Gemini defaults are used.
+ * @returns Validated LLM config
+ */
+export function loadLLMConfig(): LLMConfig {
+    const source = process.env.CODINSPECT_LLM_CONFIG?.trim();
+    if (!source) return DEFAULT_LLM_CONFIG;
+
+    const raw = source.startsWith("{") ? source : readConfigFile(source);
+    return validateConfig(JSON.parse(raw));
+}
+
+function readConfigFile(path: string): string {
+    if (!existsSync(path)) {
+        throw new Error(`LLM config file not found: ${path}`);
+    }
+    return readFileSync(path, "utf8");
+}
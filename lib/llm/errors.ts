@@ -0,0 +1,218 @@
+/**
+ * Typed failures of model calls. Providers throw these (or errors that
+ * classifyModelError understands), the fallback loop decides from the kind
+ * whether to retry, fall back or stop, and /api/chat maps them to HTTP.
+ * This module has no server dependencies so the client can describe errors too.
+ */
+
+export type ModelErrorKind = "auth" | "quota" | "not_found" | "safety" | "timeout" | "transient" | "unknown";
+
+/** HTTP status /api/chat answers with for each kind */
+const HTTP_STATUS: Record<ModelErrorKind, number> = {
+    auth: 502,
+    quota: 429,
+    not_found: 502,
+    safety: 422,
+    timeout: 504,
+    transient: 503,
+    unknown: 502,
+};
+
+/** Retry-After sent when the backend gave none */
+const DEFAULT_RETRY_AFTER_SECONDS: Partial<Record<ModelErrorKind, number>> = {
+    quota: 30,
+    transient: 5,
+};
+
+/** Short heading the chat shows above the message for each kind */
+export const MODEL_ERROR_TITLES: Record<ModelErrorKind, string> = {
+    auth: "Model provider rejected the API key",
+    quota: "Rate limit reached",
+    not_found: "Model not found",
+    safety: "Blocked by safety filters",
+    timeout: "Model timed out",
+    transient: "Model temporarily unavailable",
+    unknown: "Model error",
+};
+
+export class ModelError extends Error {
+    readonly kind: ModelErrorKind;
+    /** Delay the backend asked for before the next attempt */
+    readonly retryAfterMs?: number;
+
+    constructor(kind: ModelErrorKind, message: string, retryAfterMs?: number) {
+        super(message);
+        this.name = "ModelError";
+        this.kind = kind;
+        this.retryAfterMs = retryAfterMs;
+    }
+
+    get status(): number {
+        return HTTP_STATUS[this.kind];
+    }
+
+    /** Seconds for the Retry-After header; undefined when waiting will not help */
+    get retryAfterSeconds(): number | undefined {
+        if (this.retryAfterMs !== undefined) return Math.max(1, Math.ceil(this.retryAfterMs / 1000));
+        return DEFAULT_RETRY_AFTER_SECONDS[this.kind];
+    }
+
+    /** Whether the same model may succeed if asked again shortly */
+    get retryable(): boolean {
+        return this.kind === "transient";
+    }
+}
+
+/** The API key is missing, invalid or lacks access */
+export class ModelAuthError extends ModelError {
+    constructor(message: string) {
+        super("auth", message);
+        this.name = "ModelAuthError";
+    }
+}
+
+/** Rate limit or quota exhausted */
+export class ModelQuotaError extends ModelError {
+    constructor(message: string, retryAfterMs?: number) {
+        super("quota", message, retryAfterMs);
+        this.name = "ModelQuotaError";
+    }
+}
+
+/** The model id does not exist for this provider */
+export class ModelNotFoundError extends ModelError {
+    constructor(message: string) {
+        super("not_found", message);
+        this.name = "ModelNotFoundError";
+    }
+}
+
+/** The prompt or reply was blocked by the provider's safety filters */
+export class ModelSafetyError extends ModelError {
+    constructor(message: string) {
+        super("safety", message);
+        this.name = "ModelSafetyError";
+    }
+}
+
+/** No first token within the model's timeout */
+export class ModelTimeoutError extends ModelError {
+    constructor(message: string) {
+        super("timeout", message);
+        this.name = "ModelTimeoutError";
+    }
+}
+
+/** Overload, 5xx or network failure that usually clears on its own */
+export class ModelTransientError extends ModelError {
+    constructor(message: string, retryAfterMs?: number) {
+        super("transient", message, retryAfterMs);
+        this.name = "ModelTransientError";
+    }
+}
+
+/**
+ * The caller stopped the generation. Not a model failure: nothing is retried,
+ * no other model is tried and no circuit breaker counts it.
+ */
+export class GenerationAbortedError extends Error {
+    constructor(message = "Generation stopped") {
+        super(message);
+        this.name = "GenerationAbortedError";
+    }
+}
+
+/**
+ * Parses a Retry-After header or a Google RetryInfo delay
+ * @param value - Seconds ("30"), a duration ("17s", "1.5s") or an HTTP date
+ * @returns Delay in milliseconds, or undefined when unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = /^\s*(\d+(?:\.\d+)?)s?\s*$/.exec(value);
+    if (seconds) return Math.round(Number(seconds[1]) * 1000);
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Builds the typed error for a failed HTTP call to a model backend
+ * @param status - Response status
+ * @param message - Status line and response body
+ * @param retryAfter - Retry-After header, if any
+ * @returns ModelError of the matching kind
+ */
+export function httpModelError(status: number, message: string, retryAfter?: string | null): ModelError {
+    const retryAfterMs = parseRetryAfter(retryAfter);
+
+    if (/API_KEY_INVALID|PERMISSION_DENIED/.test(message) || status === 401 || status === 403) {
+        return new ModelAuthError(message);
+    }
+    if (status === 429) return new ModelQuotaError(message, retryAfterMs);
+    if (status === 404) return new ModelNotFoundError(message);
+    if (status === 408) return new ModelTimeoutError(message);
+    if (status >= 500) return new ModelTransientError(message, retryAfterMs);
+    return new ModelError("unknown", message);
+}
+
+/** Shape of the Gemini SDK's fetch errors, matched structurally to keep the SDK out of this module */
+interface StatusError {
+    status?: number;
+    errorDetails?: { "@type"?: string; retryDelay?: string }[];
+}
+
+/**
+ * Turns any error thrown by a provider into a typed ModelError
+ * @param err - Thrown value
+ * @returns The error itself when already typed, otherwise its classification
+ */
+export function classifyModelError(err: unknown): ModelError {
+    if (err instanceof ModelError) return err;
+
+    const message = err instanceof Error ? err.message : String(err);
+    const { status, errorDetails } = (err ?? {}) as StatusError;
+
+    if (/blocked due to|\bSAFETY\b|content[_ ]filter/i.test(message)) return new ModelSafetyError(message);
+
+    if (typeof status === "number") {
+        const retryDelay = errorDetails?.find((detail) => detail["@type"]?.endsWith("RetryInfo"))?.retryDelay;
+        return httpModelError(status, message, retryDelay);
+    }
+
+    // Errors re-thrown as text keep their status as "[429 Too Many Requests]"
+    const bracketed = /\[(\d{3})(?: [^\]]*)?\]/.exec(message);
+    if (bracketed) return httpModelError(Number(bracketed[1]), message);
+
+    if (/ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|fetch failed|socket hang up|network/i.test(message)) {
+        return new ModelTransientError(message);
+    }
+    return new ModelError("unknown", message);
+}
+
+/**
+ * Actionable message shown to the user for each kind of failure
+ * @param kind - Error kind sent by /api/chat
+ * @param retryAfterSeconds - Suggested wait, if known
+ * @returns One or two sentences telling the user what to do next
+ */
+export function describeModelError(kind: ModelErrorKind, retryAfterSeconds?: number): string {
+    const wait = retryAfterSeconds ? `in ${retryAfterSeconds} seconds` : "in a moment";
+
+    switch (kind) {
+        case "auth":
+            return "The model provider rejected the server's API key. Ask an administrator to check the key and its permissions.";
+        case "quota":
+            return `The model's rate limit or quota is used up. Try again ${wait}, or switch to the other model tier.`;
+        case "not_found":
+            return "The configured model does not exist or is not available to this API key. Ask an administrator to check the model configuration.";
+        case "safety":
+            return "The provider's safety filters blocked this request. Rephrase the message or remove the flagged content and try again.";
+        case "timeout":
+            return "No model answered in time. Try again, or switch to the Fast tier for quicker replies.";
+        case "transient":
+            return `The model service is temporarily unavailable. Try again ${wait}.`;
+        default:
+            return "The model returned an unexpected error. Try again, and contact support if it keeps happening.";
+    }
+}
@@ -0,0 +1,94 @@
+import { GoogleGenerativeAI, type Content, type FunctionDeclarationSchema } from "@google/generative-ai";
+import { toolCallText } from "../tool-calls";
+import type { ChatTurn, GenerateRequest, LLMProvider } from "../types";
+
+function toContents(history: ChatTurn[]): Content[] {
+    return history.map((turn) => ({
+        role: turn.role,
+        parts: [{ text: turn.content }],
+    }));
+}
+
+/**
+ * Creates an adapter for Google's Gemini models
+ * @param id - Provider id referenced by model entries in the config
+ * @param apiKey - Gemini API key
+ * @returns LLMProvider backed by @google/generative-ai
+ */
+export function createGeminiProvider(id: string, apiKey: string): LLMProvider {
+    const genAI = new GoogleGenerativeAI(apiKey);
+
+    const startChat = (request: GenerateRequest) => {
+        const model = genAI.getGenerativeModel({
+            model: request.model,
+            ...(request.system ? { systemInstruction: request.system } : {}),
+            ...(request.tools?.length ? {
+                tools: [{
+                    functionDeclarations: request.tools.map(({ name, description, parameters }) => ({
+                        name,
+                        description,
+                        // Same JSON Schema subset; SchemaType's values are the plain type names
+                        parameters: parameters as unknown as FunctionDeclarationSchema,
+                    })),
+                }],
+            } : {}),
+            generationConfig: {
+                maxOutputTokens: request.maxOutputTokens,
+                temperature: request.temperature,
+            },
+        });
+        return { model, chat: model.startChat({ history: toContents(request.history) }) };
+    };
+
+    return {
+        id,
+        type: "gemini",
+        capabilities: {
+            streaming: true,
+            systemInstruction: true,
+            tokenCounting: "native",
+            functionCalling: true,
+        },
+
+        async chat(request) {
+            const { chat } = startChat(request);
+            const result = await chat.sendMessage(request.message, { signal: request.signal });
+            const call = result.response.functionCalls()?.[0];
+            return call ? toolCallText(call.name, call.args) : result.response.text();
+        },
+
+        async *stream(request) {
+            const { chat } = startChat(request);
+            const result = await chat.sendMessageStream(request.message, { signal: request.signal });
+            for await (const chunk of result.stream) {
+                // A function call ends the reply: the agent loop runs one tool per turn
+                const call = chunk.functionCalls()?.[0];
+                if (call) {
+                    yield toolCallText(call.name, call.args);
+                    return;
+                }
+                const text = chunk.text();
+                if (text) yield text;
+            }
+        },
+
+        async countTokens(request) {
+            // The SDK folds the model's system instruction into the count
+            const { model } = startChat(request);
+            const { totalTokens } = await model.countTokens({
+                contents: [
+                    ...toContents(request.history),
+                    { role: "user", parts: [{ text: request.message }] },
+                ],
+            });
+            return totalTokens;
+        },
+
+        async embed(texts, model) {
+            const { embeddings } = await genAI.getGenerativeModel({ model }).batchEmbedContents({
+                requests: texts.map((text) => ({ content: { role: "user", parts: [{ text }] } })),
+            });
+            return embeddings.map((embedding) => embedding.values);
+        },
+    };
+}
@@ -0,0 +1,98 @@
+import { estimateRequestTokens } from "../tokens";
+import type { GenerateRequest, LLMProvider } from "../types";
+
+export interface MockProviderOptions {
+    /** Canned replies keyed by exact user message */
+    replies?: Record<string, string>;
+    /** Models that throw before producing a token */
+    failingModels?: string[];
+}
+
+/**
+ * Builds the deterministic reply for a request
+ * @param request - Generate request
+ * @param replies - Canned replies keyed by message
+ * @returns The same text for the same request, every time
+ */
+function replyFor(request: GenerateRequest, replies: Record<string, string>): string {
+    return replies[request.message] ?? `[${request.model}] ${request.message}`;
+}
+
+/** Dimensions of the mock provider's hashed bag-of-words embeddings */
+const MOCK_EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Embeds text by hashing its lowercase words into a fixed number of buckets,
+ * so texts sharing words end up close together
+ * @param text - Text to embed
+ * @returns Unit-length vector
+ */
+function hashEmbedding(text: string): number[] {
+    const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+        let hash = 0;
+        for (let i = 0; i < word.length; i++) {
+            hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+        }
+        vector[hash % MOCK_EMBEDDING_DIMENSIONS] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map((value) => value / norm);
+}
+
+/**
+ * Creates an in-process provider with no network access, for tests and offline demos
+ * @param id - Provider id referenced by model entries in the config
+ * @param options - Canned replies and simulated failures
+ * @returns LLMProvider whose output depends only on its input
+ */
+export function createMockProvider(id: string, options: MockProviderOptions = {}): LLMProvider {
+    const replies = options.replies ?? {};
+    const failingModels = new Set(options.failingModels ?? []);
+
+    const check = (request: GenerateRequest) => {
+        if (request.signal?.aborted) {
+            throw new Error("The operation was aborted");
+        }
+        if (failingModels.has(request.model)) {
+            throw new Error(`[503 Service Unavailable] Mock model ${request.model} is configured to fail`);
+        }
+    };
+
+    return {
+        id,
+        type: "mock",
+        capabilities: {
+            streaming: true,
+            systemInstruction: true,
+            tokenCounting: "estimate",
+            functionCalling: false,
+        },
+
+        async chat(request) {
+            check(request);
+            return replyFor(request, replies);
+        },
+
+        async *stream(request) {
+            check(request);
+            // Split on word boundaries, keeping whitespace, so deltas re-join exactly
+            for (const piece of replyFor(request, replies).match(/\S+\s*|\s+/g) ?? []) {
+                check(request);
+                yield piece;
+            }
+        },
+
+        async countTokens(request) {
+            return estimateRequestTokens(request);
+        },
+
+        async embed(texts, model) {
+            if (failingModels.has(model)) {
+                throw new Error(`[503 Service Unavailable] Mock model ${model} is configured to fail`);
+            }
+            return texts.map(hashEmbedding);
+        },
+    };
+}
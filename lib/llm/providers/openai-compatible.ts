@@ -0,0 +1,170 @@
+import { httpModelError } from "../errors";
+import { toolCallText } from "../tool-calls";
+import { estimateRequestTokens } from "../tokens";
+import type { GenerateRequest, LLMProvider } from "../types";
+
+interface ToolCallPart {
+    /** Which call a streamed piece belongs to */
+    index?: number;
+    function?: { name?: string; arguments?: string };
+}
+
+interface CompletionChunk {
+    choices?: {
+        delta?: { content?: string; tool_calls?: ToolCallPart[] };
+        message?: { content?: string; tool_calls?: ToolCallPart[] };
+    }[];
+}
+
+/**
+ * @param name - Function the model called
+ * @param args - Its arguments as the JSON text the server returned
+ * @returns The call as action text
+ */
+function callText(name: string, args: string | undefined): string {
+    let input: unknown = {};
+    try {
+        input = JSON.parse(args || "{}");
+    } catch {
+        // Malformed arguments reach the tool as no input, which its validation reports
+    }
+    return toolCallText(name, input);
+}
+
+function toMessages(request: GenerateRequest) {
+    return [
+        ...(request.system ? [{ role: "system", content: request.system }] : []),
+        ...request.history.map((turn) => ({
+            role: turn.role === "user" ? "user" : "assistant",
+            content: turn.content,
+        })),
+        { role: "user", content: request.message },
+    ];
+}
+
+/**
+ * Creates an adapter for any server speaking the OpenAI chat completions API.
+ * Works with OpenAI itself as well as local Ollama and llama.cpp servers.
+ * @param id - Provider id referenced by model entries in the config
+ * @param baseUrl - API root, e.g. http://localhost:11434/v1
+ * @param apiKey - Bearer token; local servers usually accept none
+ * @param options - functionCalling sends request tools as `tools`, for servers that accept them
+ * @returns LLMProvider backed by /chat/completions
+ */
+export function createOpenAICompatibleProvider(id: string, baseUrl: string, apiKey?: string, options: { functionCalling?: boolean } = {}): LLMProvider {
+    const functionCalling = options.functionCalling ?? false;
+    const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+    const post = async (request: GenerateRequest, stream: boolean) => {
+        const response = await fetch(endpoint, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: request.model,
+                messages: toMessages(request),
+                max_tokens: request.maxOutputTokens,
+                temperature: request.temperature,
+                stream,
+                ...(functionCalling && request.tools?.length ? {
+                    tools: request.tools.map((tool) => ({ type: "function", function: tool })),
+                } : {}),
+            }),
+            signal: request.signal,
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => "");
+            throw httpModelError(response.status, `[${response.status} ${response.statusText}] ${detail}`.trim(), response.headers.get("Retry-After"));
+        }
+
+        return response;
+    };
+
+    return {
+        id,
+        type: "openai-compatible",
+        capabilities: {
+            streaming: true,
+            systemInstruction: true,
+            tokenCounting: "estimate",
+            functionCalling,
+        },
+
+        async chat(request) {
+            const response = await post(request, false);
+            const data: CompletionChunk = await response.json();
+            const message = data.choices?.[0]?.message;
+            const call = message?.tool_calls?.[0]?.function;
+            return call?.name ? callText(call.name, call.arguments) : message?.content ?? "";
+        },
+
+        async *stream(request) {
+            const response = await post(request, true);
+            if (!response.body) throw new Error("Provider returned an empty stream");
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = "";
+            // Function calls arrive in pieces: the name first, then the arguments
+            let callName = "";
+            let callArgs = "";
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split("\n");
+                buffer = lines.pop() ?? "";
+
+                for (const line of lines) {
+                    const data = line.trim();
+                    if (!data.startsWith("data:")) continue;
+
+                    const payload = data.slice(5).trim();
+                    if (payload === "[DONE]") {
+                        if (callName) yield callText(callName, callArgs);
+                        return;
+                    }
+
+                    const chunk: CompletionChunk = JSON.parse(payload);
+                    const delta = chunk.choices?.[0]?.delta;
+                    // Only the first call is kept: the agent loop runs one tool per turn
+                    const part = delta?.tool_calls?.find((piece) => (piece.index ?? 0) === 0)?.function;
+                    if (part?.name && !callName) callName = part.name;
+                    if (part?.arguments && callName) callArgs += part.arguments;
+                    if (delta?.content) yield delta.content;
+                }
+            }
+
+            if (callName) yield callText(callName, callArgs);
+        },
+
+        async countTokens(request) {
+            // There is no standard tokenizer endpoint across compatible servers
+            return estimateRequestTokens(request);
+        },
+
+        async embed(texts, model) {
+            const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/embeddings`, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({ model, input: texts }),
+            });
+
+            if (!response.ok) {
+                const detail = await response.text().catch(() => "");
+                throw httpModelError(response.status, `[${response.status} ${response.statusText}] ${detail}`.trim(), response.headers.get("Retry-After"));
+            }
+
+            const data: { data: { index: number; embedding: number[] }[] } = await response.json();
+            return [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+        },
+    };
+}
@@ -0,0 +1,119 @@
+import { chainForTier, loadLLMConfig } from "./config";
+import { createGeminiProvider } from "./providers/gemini";
+import { createMockProvider } from "./providers/mock";
+import { createOpenAICompatibleProvider } from "./providers/openai-compatible";
+import { MODEL_TIERS, type LLMConfig, type LLMProvider, type ModelRef, type ModelSettings, type ModelTier, type ProviderConfig } from "./types";
+
+export interface ResolvedModel {
+    provider: LLMProvider;
+    model: string;
+    label: string;
+    settings: ModelSettings;
+}
+
+/**
+ * Instantiates a provider from its config entry
+ * @param config - Provider entry
+ * @returns The provider, or null when its API key is required but missing
+ */
+export function createProvider(config: ProviderConfig): LLMProvider | null {
+    const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+
+    switch (config.type) {
+        case "gemini":
+            return apiKey ? createGeminiProvider(config.id, apiKey) : null;
+        case "openai-compatible":
+            if (!config.baseUrl) {
+                throw new Error(`Provider "${config.id}" needs a baseUrl`);
+            }
+            return createOpenAICompatibleProvider(config.id, config.baseUrl, apiKey, { functionCalling: config.functionCalling });
+        case "mock":
+            return createMockProvider(config.id, {
+                replies: config.replies,
+                failingModels: config.failingModels,
+            });
+        default:
+            throw new Error(`Unknown provider type "${(config as ProviderConfig).type}"`);
+    }
+}
+
+function instantiateProviders(config: LLMConfig): Map<string, LLMProvider> {
+    const providers = new Map<string, LLMProvider>();
+    for (const entry of config.providers) {
+        const provider = createProvider(entry);
+        if (provider) providers.set(entry.id, provider);
+    }
+    return providers;
+}
+
+function resolveRefs(refs: ModelRef[], providers: Map<string, LLMProvider>): ResolvedModel[] {
+    return refs.flatMap((ref) => {
+        const provider = providers.get(ref.provider);
+        if (!provider) return [];
+
+        const { contextWindow, timeoutMs, maxOutputTokens, temperature } = ref;
+        return [{
+            provider,
+            model: ref.model,
+            label: ref.label ?? ref.model,
+            settings: { contextWindow, timeoutMs, maxOutputTokens, temperature },
+        }];
+    });
+}
+
+/**
+ * Resolves a tier's fallback chain into ready-to-call providers.
+ * Models whose provider is unavailable (e.g. no API key) are skipped.
+ * @param tier - Requested tier; defaults to the config's default tier
+ * @param config - LLM config, loaded from the environment by default
+ * @returns Ordered list of provider/model pairs with their settings
+ */
+export function resolveModelChain(tier?: ModelTier, config: LLMConfig = loadLLMConfig()): ResolvedModel[] {
+    const refs = chainForTier(config, tier ?? config.defaultTier ?? "Fast");
+    return resolveRefs(refs, instantiateProviders(config));
+}
+
+export interface TierModels {
+    tier: ModelTier;
+    models: { provider: string; model: string; label: string }[];
+}
+
+/**
+ * Lists the models each tier can actually use in this deployment
+ * @param config - LLM config, loaded from the environment by default
+ * @returns Available models per tier, in fallback order
+ */
+export function listAvailableModels(config: LLMConfig = loadLLMConfig()): { defaultTier: ModelTier; tiers: TierModels[] } {
+    const providers = instantiateProviders(config);
+
+    return {
+        defaultTier: config.defaultTier ?? "Fast",
+        tiers: MODEL_TIERS.map((tier) => ({
+            tier,
+            models: resolveRefs(chainForTier(config, tier), providers).map(({ provider, model, label }) => ({
+                provider: provider.id,
+                model,
+                label,
+            })),
+        })),
+    };
+}
+
+export interface ResolvedEmbeddingModel {
+    provider: LLMProvider;
+    model: string;
+}
+
+/**
+ * Resolves the embedding model used for repository indexing
+ * @param config - LLM config, loaded from the environment by default
+ * @returns The provider/model pair, or null when none is configured or usable
+ */
+export function resolveEmbeddingModel(config: LLMConfig = loadLLMConfig()): ResolvedEmbeddingModel | null {
+    if (!config.embeddings) return null;
+
+    const provider = instantiateProviders(config).get(config.embeddings.provider);
+    if (!provider?.embed) return null;
+
+    return { provider, model: config.embeddings.model };
+}
@@ -0,0 +1,24 @@
+import type { GenerateRequest } from "./types";
+
+/** Rough characters-per-token ratio shared by English prose and source code */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates the token count of a piece of text
+ * @param text - Text to measure
+ * @returns Approximate number of tokens
+ */
+export function estimateTokens(text: string): number {
+    if (!text) return 0;
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the input tokens of a full generate request
+ * @param request - Request including system prompt, history and message
+ * @returns Approximate number of prompt tokens
+ */
+export function estimateRequestTokens(request: GenerateRequest): number {
+    const parts = [request.system ?? "", ...request.history.map((turn) => turn.content), request.message];
+    return parts.reduce((total, part) => total + estimateTokens(part), 0);
+}
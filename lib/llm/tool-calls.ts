@@ -0,0 +1,10 @@
+/**
+ * Writes a native function call the way the agent loop reads actions, so a
+ * call made through function calling and one written as JSON are handled alike
+ * @param name - Function the model called
+ * @param input - Its arguments
+ * @returns e.g. {"tool":"read_file","input":{"path":"src/a.ts"}}
+ */
+export function toolCallText(name: string, input: unknown): string {
+    return JSON.stringify({ tool: name, input: input && typeof input === "object" ? input : {} });
+}
@@ -0,0 +1,117 @@
+/**
+ * Provider-neutral contracts for talking to language models.
+ * Every adapter in lib/llm/providers implements LLMProvider.
+ */
+
+export type ChatRole = "user" | "model";
+
+export interface ChatTurn {
+    role: ChatRole;
+    content: string;
+}
+
+/** JSON Schema of a tool's input: an object of scalar and string-array properties */
+export interface ToolParameters {
+    type: "object";
+    properties: Record<string, {
+        type: "string" | "integer" | "boolean" | "array";
+        description: string;
+        /** Item type of array properties */
+        items?: { type: "string" };
+    }>;
+    required: string[];
+}
+
+/** A function the model may call */
+export interface ToolDeclaration {
+    name: string;
+    description: string;
+    parameters: ToolParameters;
+}
+
+export interface GenerateRequest {
+    model: string;
+    message: string;
+    history: ChatTurn[];
+    system?: string;
+    maxOutputTokens?: number;
+    temperature?: number;
+    signal?: AbortSignal;
+    /**
+     * Functions offered to the model. Providers with function calling declare
+     * them natively and report a call as the text {"tool": name, "input": args};
+     * others ignore them and rely on the tools being described in the prompt
+     */
+    tools?: ToolDeclaration[];
+}
+
+export interface ProviderCapabilities {
+    streaming: boolean;
+    systemInstruction: boolean;
+    /** "native" when the backend counts tokens itself, "estimate" for the character heuristic */
+    tokenCounting: "native" | "estimate";
+    functionCalling: boolean;
+}
+
+export interface LLMProvider {
+    id: string;
+    type: ProviderType;
+    capabilities: ProviderCapabilities;
+    /** Generates a complete reply */
+    chat(request: GenerateRequest): Promise<string>;
+    /** Generates a reply as an ordered sequence of text deltas */
+    stream(request: GenerateRequest): AsyncIterable<string>;
+    /** Counts the tokens the request would consume as model input */
+    countTokens(request: GenerateRequest): Promise<number>;
+    /** Embeds each text into a vector; absent when the backend has no embedding API */
+    embed?(texts: string[], model: string): Promise<number[][]>;
+}
+
+export type ProviderType = "gemini" | "openai-compatible" | "mock";
+
+export interface ProviderConfig {
+    id: string;
+    type: ProviderType;
+    /** Name of the environment variable holding the API key */
+    apiKeyEnv?: string;
+    /** Base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1 */
+    baseUrl?: string;
+    /** Canned replies for the mock provider, keyed by exact user message */
+    replies?: Record<string, string>;
+    /** Models the mock provider should fail on, to exercise fallbacks */
+    failingModels?: string[];
+    /** Whether an OpenAI-compatible server accepts `tools`; many local servers do not */
+    functionCalling?: boolean;
+}
+
+/** Speed/quality tiers offered by the Fast/Pro toggle */
+export type ModelTier = "Fast" | "Pro";
+
+export const MODEL_TIERS: ModelTier[] = ["Fast", "Pro"];
+
+export interface ModelSettings {
+    /** Input plus output tokens the model accepts; a conservative default applies when unset */
+    contextWindow?: number;
+    /** How long to wait for the first token before falling back to the next model */
+    timeoutMs?: number;
+    maxOutputTokens?: number;
+    temperature?: number;
+}
+
+export interface ModelRef extends ModelSettings {
+    provider: string;
+    model: string;
+    /** Display name for the model picker; defaults to the model id */
+    label?: string;
+}
+
+export interface LLMConfig {
+    providers: ProviderConfig[];
+    /** Ordered fallback chain used by tiers that have no chain of their own */
+    models?: ModelRef[];
+    /** Ordered fallback chain per tier: the first model that produces a token wins */
+    tiers?: Partial<Record<ModelTier, ModelRef[]>>;
+    defaultTier?: ModelTier;
+    /** Embedding model used to index repositories; lexical search only when unset */
+    embeddings?: { provider: string; model: string };
+}
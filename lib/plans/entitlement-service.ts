@@ -0,0 +1,208 @@
+import type { ModelTier } from "@/lib/llm/types";
+import { getCollection } from "@/lib/storage/collection";
+import { DEFAULT_PLAN_ID, allowsTier, cheapestPlanWith, getPlan, hasFeature } from "./plans";
+import type { BillingCycle, Plan, PlanFeature, PlanId, Subscription, UsageRecord } from "./types";
+
+const FEATURE_NAMES: Record<PlanFeature, string> = {
+    agent_mode: "Agent mode",
+    agent_commands: "Running commands in Agent mode",
+    repository_indexing: "Repository indexing",
+};
+
+/**
+ * A request the user's plan does not cover. Routes answer with `status`
+ * (403 for missing features, 402 for used-up quotas) and `code`.
+ */
+export class EntitlementError extends Error {
+    readonly code: "upgrade_required" | "quota_exceeded";
+    readonly status: 402 | 403;
+    /** Cheapest plan that allows the request */
+    readonly upgradeTo: PlanId | null;
+
+    constructor(code: "upgrade_required" | "quota_exceeded", message: string, upgradeTo: Plan | null) {
+        super(upgradeTo ? `${message} Upgrade to ${upgradeTo.name} to continue.` : message);
+        this.name = "EntitlementError";
+        this.code = code;
+        this.status = code === "quota_exceeded" ? 402 : 403;
+        this.upgradeTo = upgradeTo?.id ?? null;
+    }
+}
+
+function subscriptions() {
+    return getCollection<Subscription>("subscriptions");
+}
+
+function usage() {
+    return getCollection<UsageRecord>("usage");
+}
+
+/**
+ * Calendar month that metered usage is counted in
+ * @param now - Current time
+ * @returns UTC month, e.g. "2026-10"
+ */
+export function usagePeriod(now = new Date()): string {
+    return now.toISOString().slice(0, 7);
+}
+
+/**
+ * Resolves a user's plan. Users without a subscription get CODINSPECT_DEFAULT_PLAN,
+ * or the free Developer plan.
+ * @param userId - Clerk user id
+ * @returns The user's plan
+ */
+export async function getUserPlan(userId: string): Promise<Plan> {
+    const subscription = await subscriptions().get(userId);
+    return getPlan(subscription?.planId ?? process.env.CODINSPECT_DEFAULT_PLAN ?? DEFAULT_PLAN_ID);
+}
+
+/**
+ * Moves a user to a plan, e.g. from a billing webhook
+ * @param userId - Clerk user id
+ * @param planId - New plan
+ * @param cycle - Billing cycle
+ * @returns The stored subscription
+ */
+export async function setUserPlan(userId: string, planId: PlanId, cycle: BillingCycle = "monthly"): Promise<Subscription> {
+    return subscriptions().put({ id: userId, planId, cycle, updatedAt: new Date().toISOString() });
+}
+
+/**
+ * @param userId - Clerk user id
+ * @param now - Current time
+ * @returns This month's usage, zero when nothing was recorded
+ */
+export async function getUsage(userId: string, now = new Date()): Promise<UsageRecord> {
+    const period = usagePeriod(now);
+    const id = `${userId}-${period}`;
+    return (await usage().get(id)) ?? { id, userId, period, agentSessions: 0 };
+}
+
+/**
+ * @param plan - User's plan
+ * @param feature - Capability the request needs
+ * @throws EntitlementError when the plan lacks it
+ */
+export function requireFeature(plan: Plan, feature: PlanFeature): void {
+    if (hasFeature(plan, feature)) return;
+    throw new EntitlementError(
+        "upgrade_required",
+        `${FEATURE_NAMES[feature]} is not included in the ${plan.name} plan.`,
+        cheapestPlanWith((candidate) => hasFeature(candidate, feature))
+    );
+}
+
+/**
+ * @param plan - User's plan
+ * @param tier - Requested model tier
+ * @throws EntitlementError when the plan does not include the tier
+ */
+export function requireTier(plan: Plan, tier: ModelTier): void {
+    if (allowsTier(plan, tier)) return;
+    throw new EntitlementError(
+        "upgrade_required",
+        `${tier} models are not included in the ${plan.name} plan.`,
+        cheapestPlanWith((candidate) => allowsTier(candidate, tier))
+    );
+}
+
+/**
+ * @param plan - User's plan
+ * @param bytes - Size of the upload
+ * @throws EntitlementError when the upload is larger than the plan allows
+ */
+export function requireUploadSize(plan: Plan, bytes: number): void {
+    if (bytes <= plan.limits.maxUploadBytes) return;
+    throw new EntitlementError(
+        "upgrade_required",
+        `The ${plan.name} plan accepts uploads up to ${Math.round(plan.limits.maxUploadBytes / 1024 / 1024)}MB.`,
+        cheapestPlanWith((candidate) => bytes <= candidate.limits.maxUploadBytes)
+    );
+}
+
+/** A session slot held while an Agent run is in progress */
+export interface AgentSessionReservation {
+    /**
+     * Charges the session once the run has succeeded; a thread already
+     * charged this month is not charged again
+     * @param sessionId - Thread the run replied in
+     */
+    commit(sessionId: string): Promise<UsageRecord>;
+    /** Gives the slot back, for runs that failed or were stopped. No-op once committed */
+    release(): void;
+}
+
+/** Slots held by runs in progress, per user */
+const pendingSessions = new Map<string, number>();
+
+/** Usage updates in flight, per user; checks and increments run one at a time */
+const usageLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs a read-modify-write of a user's usage after the ones already queued.
+ * Serialized within this process only, like the rest of the file store
+ * @param userId - Clerk user id
+ * @param task - Update to run
+ * @returns What the task returns
+ */
+function withUsageLock<T>(userId: string, task: () => Promise<T>): Promise<T> {
+    const previous = usageLocks.get(userId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    usageLocks.set(userId, next);
+    void next.finally(() => {
+        if (usageLocks.get(userId) === next) usageLocks.delete(userId);
+    }).catch(() => undefined);
+    return next;
+}
+
+/**
+ * Holds one Agent session of the monthly quota for a run. Nothing is charged
+ * until the reservation is committed, so failed and stopped runs are free;
+ * runs in progress count against the quota so concurrent ones cannot overrun it
+ * @param userId - Clerk user id
+ * @param plan - User's plan
+ * @param sessionId - Thread the run continues, if any; continuing a session charged this month needs no quota
+ * @returns The reservation
+ * @throws EntitlementError when Agent mode is not included or the quota is used up
+ */
+export async function reserveAgentSession(userId: string, plan: Plan, sessionId?: string): Promise<AgentSessionReservation> {
+    requireFeature(plan, "agent_mode");
+
+    const held = await withUsageLock(userId, async () => {
+        const current = await getUsage(userId);
+        if (sessionId && current.agentSessionIds?.includes(sessionId)) return false;
+
+        const limit = plan.limits.agentSessionsPerMonth;
+        const pending = pendingSessions.get(userId) ?? 0;
+        if (limit !== null && current.agentSessions + pending >= limit) {
+            throw new EntitlementError(
+                "quota_exceeded",
+                `You have used all ${limit} background sessions included in the ${plan.name} plan this month.`,
+                cheapestPlanWith((candidate) => candidate.limits.agentSessionsPerMonth === null)
+            );
+        }
+        pendingSessions.set(userId, pending + 1);
+        return true;
+    });
+
+    let settled = !held;
+    const release = () => {
+        if (settled) return;
+        settled = true;
+        const pending = (pendingSessions.get(userId) ?? 1) - 1;
+        if (pending > 0) pendingSessions.set(userId, pending);
+        else pendingSessions.delete(userId);
+    };
+
+    return {
+        commit: (id) => withUsageLock(userId, async () => {
+            const wasHeld = !settled;
+            release();
+            const current = await getUsage(userId);
+            const charged = current.agentSessionIds ?? [];
+            if (!wasHeld || charged.includes(id)) return current;
+            return usage().put({ ...current, agentSessions: current.agentSessions + 1, agentSessionIds: [...charged, id] });
+        }),
+        release,
+    };
+}
@@ -0,0 +1,126 @@
+import type { ModelTier } from "@/lib/llm/types";
+import type { BillingCycle, Plan, PlanFeature, PlanId } from "./types";
+
+/**
+ * Single source of truth for plans, prices and limits. The pricing page renders
+ * from it and the API enforces it, so the two cannot disagree. Client-safe.
+ */
+
+/** Discount on yearly billing */
+export const YEARLY_DISCOUNT = 0.15;
+
+export const DEFAULT_PLAN_ID: PlanId = "developer";
+
+const MB = 1024 * 1024;
+
+export const PLANS: Plan[] = [
+    {
+        id: "developer",
+        name: "Developer",
+        monthlyPrice: 0,
+        features: ["agent_mode"],
+        limits: { agentSessionsPerMonth: 5, modelTiers: ["Fast"], maxUploadBytes: 5 * MB, chatRequestsPerMinute: 10 },
+        highlights: [
+            "Web Dashboard access",
+            "GitHub Integration",
+            "Basic Code Generation",
+            "Community support",
+            "Manual Branching",
+        ],
+    },
+    {
+        id: "professional",
+        name: "Professional",
+        monthlyPrice: 29,
+        mostPopular: true,
+        features: ["agent_mode", "agent_commands", "repository_indexing"],
+        limits: { agentSessionsPerMonth: null, modelTiers: ["Fast", "Pro"], maxUploadBytes: 20 * MB, chatRequestsPerMinute: 20 },
+        highlights: [
+            "Slack AI Engineer access",
+            "Chrome Extension",
+            "Shared Context Memory",
+            "Autonomous Multi-tasking",
+            "Priority Email Support",
+            "Advanced Git workflows",
+        ],
+    },
+    {
+        id: "enterprise",
+        name: "Enterprise",
+        monthlyPrice: 99,
+        features: ["agent_mode", "agent_commands", "repository_indexing"],
+        limits: { agentSessionsPerMonth: null, modelTiers: ["Fast", "Pro"], maxUploadBytes: 100 * MB, chatRequestsPerMinute: 60 },
+        highlights: [
+            "Custom Public API access",
+            "Dedicated Modal Sandboxes",
+            "Single-tenant Architecture",
+            "Enterprise-grade Security",
+            "24/7 Priority Support",
+            "Custom Integrations",
+            "SLA & Audit Trails",
+        ],
+    },
+];
+
+/**
+ * Looks up a plan, falling back to the default for unknown ids
+ * @param id - Plan id, e.g. from a stored subscription
+ * @returns The plan
+ */
+export function getPlan(id: string | null | undefined): Plan {
+    return PLANS.find((plan) => plan.id === id) ?? PLANS.find((plan) => plan.id === DEFAULT_PLAN_ID)!;
+}
+
+/**
+ * Effective monthly price for a billing cycle
+ * @param plan - Plan to price
+ * @param cycle - Monthly or yearly billing
+ * @returns Whole dollars per month
+ */
+export function planPrice(plan: Plan, cycle: BillingCycle): number {
+    return cycle === "yearly" ? plan.monthlyPrice - Math.round(plan.monthlyPrice * YEARLY_DISCOUNT) : plan.monthlyPrice;
+}
+
+/**
+ * @param plan - User's plan
+ * @param feature - Capability to check
+ * @returns True when the plan includes it
+ */
+export function hasFeature(plan: Plan, feature: PlanFeature): boolean {
+    return plan.features.includes(feature);
+}
+
+/**
+ * @param plan - User's plan
+ * @param tier - Requested model tier
+ * @returns True when the plan may use the tier
+ */
+export function allowsTier(plan: Plan, tier: ModelTier): boolean {
+    return plan.limits.modelTiers.includes(tier);
+}
+
+/**
+ * Cheapest plan that would lift a restriction, for upgrade prompts
+ * @param allows - Predicate the plan must satisfy
+ * @returns The plan, or null when none does
+ */
+export function cheapestPlanWith(allows: (plan: Plan) => boolean): Plan | null {
+    return [...PLANS].sort((a, b) => a.monthlyPrice - b.monthlyPrice).find(allows) ?? null;
+}
+
+/**
+ * Bullet points for the pricing page: the enforced limits first, then the plan's highlights
+ * @param plan - Plan to describe
+ * @returns Feature lines
+ */
+export function planFeatureList(plan: Plan): string[] {
+    const { agentSessionsPerMonth, modelTiers, maxUploadBytes } = plan.limits;
+    return [
+        agentSessionsPerMonth === null ? "Unlimited sessions" : `${agentSessionsPerMonth} Background sessions/mo`,
+        `${modelTiers.join(" & ")} models`,
+        `Uploads up to ${Math.round(maxUploadBytes / MB)}MB`,
+        ...(hasFeature(plan, "repository_indexing") ? ["Repository indexing"] : []),
+        ...(hasFeature(plan, "agent_commands") ? ["Agent command runs"] : []),
+        ...plan.highlights,
+    ];
+}
@@ -0,0 +1,48 @@
+import type { ModelTier } from "@/lib/llm/types";
+
+export type PlanId = "developer" | "professional" | "enterprise";
+
+export type BillingCycle = "monthly" | "yearly";
+
+/** Capabilities a plan switches on; anything metered lives in PlanLimits */
+export type PlanFeature = "agent_mode" | "agent_commands" | "repository_indexing";
+
+export interface PlanLimits {
+    /** Agent mode runs per calendar month; null for unlimited */
+    agentSessionsPerMonth: number | null;
+    modelTiers: ModelTier[];
+    /** Largest single upload, archive or plain file */
+    maxUploadBytes: number;
+    chatRequestsPerMinute: number;
+}
+
+export interface Plan {
+    id: PlanId;
+    name: string;
+    /** List price in USD per month on monthly billing */
+    monthlyPrice: number;
+    mostPopular?: boolean;
+    features: PlanFeature[];
+    limits: PlanLimits;
+    /** Marketing lines shown after the limit-derived ones on the pricing page */
+    highlights: string[];
+}
+
+/** A user's plan; keyed by user id */
+export interface Subscription {
+    id: string;
+    planId: PlanId;
+    cycle: BillingCycle;
+    updatedAt: string;
+}
+
+/** Metered usage of one user in one calendar month; id is `${userId}-${period}` */
+export interface UsageRecord {
+    id: string;
+    userId: string;
+    /** UTC month, e.g. "2026-10" */
+    period: string;
+    agentSessions: number;
+    /** Threads charged as Agent sessions this month; later turns in them are free */
+    agentSessionIds?: string[];
+}
@@ -0,0 +1,166 @@
+import { getIndex } from "@/lib/indexing/index-service";
+import { deleteInstructions } from "@/lib/instructions/instruction-service";
+import { MODEL_TIERS, type ModelTier } from "@/lib/llm/types";
+import { getCollection, newId } from "@/lib/storage/collection";
+import { detachThreads } from "@/lib/threads/thread-service";
+import type { ActiveProject, Project, ProjectInput } from "./types";
+
+const MAX_NAME_LENGTH = 80;
+
+function projects() {
+    return getCollection<Project>("projects");
+}
+
+function activeProjects() {
+    return getCollection<ActiveProject>("active-projects");
+}
+
+/**
+ * Checks user-supplied project fields
+ * @param userId - Owner id, used to verify the linked index
+ * @param input - Fields to validate
+ * @returns The fields to store, with a cleared index as undefined
+ * @throws When a field is invalid
+ */
+async function validateInput(userId: string, input: ProjectInput): Promise<ProjectInput> {
+    const fields: ProjectInput = {};
+
+    if (input.name !== undefined) {
+        const name = String(input.name).replace(/\s+/g, " ").trim();
+        if (!name) throw new Error("Project name is required");
+        fields.name = name.slice(0, MAX_NAME_LENGTH);
+    }
+    if (input.defaultMode !== undefined) {
+        if (input.defaultMode !== "Ask" && input.defaultMode !== "Agent") {
+            throw new Error(`Unknown mode "${input.defaultMode}"`);
+        }
+        fields.defaultMode = input.defaultMode;
+    }
+    if (input.defaultTier !== undefined) {
+        if (!MODEL_TIERS.includes(input.defaultTier as ModelTier)) {
+            throw new Error(`Unknown model tier "${input.defaultTier}"`);
+        }
+        fields.defaultTier = input.defaultTier;
+    }
+    if (input.indexId !== undefined) {
+        if (input.indexId !== null && !(await getIndex(userId, input.indexId))) {
+            throw new Error("Index not found");
+        }
+        fields.indexId = input.indexId;
+    }
+
+    return fields;
+}
+
+function withoutEmptyIndex(project: Omit<Project, "indexId"> & { indexId?: string | null }): Project {
+    const { indexId, ...rest } = project;
+    return indexId ? { ...rest, indexId } : rest;
+}
+
+/**
+ * Lists a user's projects, alphabetically
+ * @param userId - Owner id
+ * @returns Projects the user owns
+ */
+export async function listProjects(userId: string): Promise<Project[]> {
+    const owned = await projects().list((project) => project.userId === userId);
+    return owned.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Fetches a project the user owns
+ * @param userId - Owner id
+ * @param projectId - Project id
+ * @returns The project, or null if missing or owned by someone else
+ */
+export async function getProject(userId: string, projectId: string): Promise<Project | null> {
+    const project = await projects().get(projectId);
+    return project && project.userId === userId ? project : null;
+}
+
+/**
+ * Creates a project
+ * @param userId - Owner id
+ * @param input - Project fields; `name` is required
+ * @returns The created project
+ * @throws When a field is invalid
+ */
+export async function createProject(userId: string, input: ProjectInput): Promise<Project> {
+    const fields = await validateInput(userId, { ...input, name: input.name ?? "" });
+    const now = new Date().toISOString();
+
+    return projects().put(withoutEmptyIndex({
+        defaultMode: "Ask",
+        defaultTier: "Fast",
+        ...fields,
+        name: fields.name!,
+        id: newId(),
+        userId,
+        createdAt: now,
+        updatedAt: now,
+    }));
+}
+
+/**
+ * Updates a project the user owns
+ * @param userId - Owner id
+ * @param projectId - Project id
+ * @param input - Fields to change
+ * @returns Updated project, or null if not found
+ * @throws When a field is invalid
+ */
+export async function updateProject(userId: string, projectId: string, input: ProjectInput): Promise<Project | null> {
+    const project = await getProject(userId, projectId);
+    if (!project) return null;
+
+    const fields = await validateInput(userId, input);
+    return projects().put(withoutEmptyIndex({
+        ...project,
+        ...fields,
+        updatedAt: new Date().toISOString(),
+    }));
+}
+
+/**
+ * Deletes a project the user owns. Its threads move back to the personal
+ * workspace and its instruction history is removed.
+ * @param userId - Owner id
+ * @param projectId - Project id
+ * @returns True if a project was deleted
+ */
+export async function deleteProject(userId: string, projectId: string): Promise<boolean> {
+    if (!(await getProject(userId, projectId))) return false;
+
+    await detachThreads(userId, projectId);
+    await deleteInstructions("project", projectId);
+    const active = await activeProjects().get(userId);
+    if (active?.projectId === projectId) {
+        await activeProjects().delete(userId);
+    }
+    return projects().delete(projectId);
+}
+
+/**
+ * Returns the project the user is working in
+ * @param userId - Owner id
+ * @returns The active project, or null for the personal workspace
+ */
+export async function getActiveProject(userId: string): Promise<Project | null> {
+    const active = await activeProjects().get(userId);
+    return active?.projectId ? getProject(userId, active.projectId) : null;
+}
+
+/**
+ * Switches the user to a project, or back to the personal workspace
+ * @param userId - Owner id
+ * @param projectId - Project to activate, or null
+ * @returns The now-active project, or null
+ * @throws When the project does not exist
+ */
+export async function setActiveProject(userId: string, projectId: string | null): Promise<Project | null> {
+    const project = projectId ? await getProject(userId, projectId) : null;
+    if (projectId && !project) throw new Error("Project not found");
+
+    await activeProjects().put({ id: userId, projectId });
+    return project;
+}
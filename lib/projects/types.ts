@@ -0,0 +1,25 @@
+import type { ChatMode } from "@/lib/agent/types";
+import type { ModelTier } from "@/lib/llm/types";
+
+export interface Project {
+    id: string;
+    userId: string;
+    name: string;
+    /** Repository index chats in this project retrieve from */
+    indexId?: string;
+    defaultMode: ChatMode;
+    defaultTier: ModelTier;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/** Fields a user may set when creating or editing a project; a null indexId unlinks the index */
+export type ProjectInput = Partial<Pick<Project, "name" | "defaultMode" | "defaultTier">> & {
+    indexId?: string | null;
+};
+
+/** Which project a user is working in; keyed by user id */
+export interface ActiveProject {
+    id: string;
+    projectId: string | null;
+}
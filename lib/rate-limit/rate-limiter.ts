@@ -0,0 +1,80 @@
+import { getRateLimitStore } from "./store";
+
+export interface RateLimitPolicy {
+    /** Requests allowed per window */
+    limit: number;
+    windowMs: number;
+}
+
+/**
+ * Per-IP limit on POST /api/chat. Several people can share an office or VPN
+ * address, so it is looser than any plan's per-user limit.
+ */
+export const CHAT_IP_RATE_LIMIT: RateLimitPolicy = { limit: 60, windowMs: 60_000 };
+
+/** Per-user limit on sandboxed code runs, which each hold a process for up to ten seconds */
+export const CODE_RUN_RATE_LIMIT: RateLimitPolicy = { limit: 20, windowMs: 60_000 };
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    /** Milliseconds until the oldest counted request leaves the window */
+    resetMs: number;
+}
+
+/**
+ * Counts a request against a sliding window
+ * @param key - Bucket, e.g. "chat:user:123"
+ * @param policy - Limit and window
+ * @param now - Current time in milliseconds
+ * @returns Whether the request may proceed and how much of the limit is left
+ */
+export async function checkRateLimit(key: string, policy: RateLimitPolicy, now = Date.now()): Promise<RateLimitResult> {
+    const { allowed, count, oldest } = await getRateLimitStore().consume(key, policy.limit, policy.windowMs, now);
+    return {
+        allowed,
+        limit: policy.limit,
+        remaining: Math.max(0, policy.limit - count),
+        resetMs: Math.max(0, oldest + policy.windowMs - now),
+    };
+}
+
+/**
+ * Standard rate-limit headers (IETF RateLimit fields), plus Retry-After when rejected
+ * @param result - Outcome of checkRateLimit
+ * @returns Headers to set on the response
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+    const reset = String(Math.ceil(result.resetMs / 1000));
+    return {
+        "RateLimit-Limit": String(result.limit),
+        "RateLimit-Remaining": String(result.remaining),
+        "RateLimit-Reset": reset,
+        ...(result.allowed ? {} : { "Retry-After": reset }),
+    };
+}
+
+/**
+ * @returns Proxies in front of the app that append to X-Forwarded-For: CODINSPECT_TRUSTED_PROXIES, 1 by default
+ */
+function trustedProxies(): number {
+    const count = Number(process.env.CODINSPECT_TRUSTED_PROXIES ?? 1);
+    return Number.isInteger(count) && count >= 0 ? count : 1;
+}
+
+/**
+ * The caller's address as seen by the outermost trusted proxy. Clients can
+ * send X-Forwarded-For themselves, so only the hops the trusted proxies
+ * appended at the end of it count; the leading ones are ignored
+ * @param req - Incoming request
+ * @returns The address the outermost trusted proxy appended, X-Real-IP, or "unknown"
+ */
+export function clientIp(req: Request): string {
+    const proxies = trustedProxies();
+    if (proxies === 0) return "unknown";
+
+    const hops = req.headers.get("x-forwarded-for")?.split(",").map((hop) => hop.trim()).filter(Boolean) ?? [];
+    const forwarded = hops.length >= proxies ? hops[hops.length - proxies] : undefined;
+    return forwarded || req.headers.get("x-real-ip")?.trim() || "unknown";
+}
@@ -0,0 +1,64 @@
+/**
+ * Storage for sliding-window rate limits. The in-memory store suits a single
+ * server process; deployments with several instances can plug in a shared
+ * store (e.g. Redis sorted sets) with setRateLimitStore.
+ */
+export interface RateLimitStore {
+    /**
+     * Records a request when the key is under its limit. Must be atomic per key.
+     * @param key - Bucket, e.g. "chat:user:123"
+     * @param limit - Requests allowed per window
+     * @param windowMs - Window length in milliseconds
+     * @param now - Current time in milliseconds
+     * @returns Requests counted in the window (including this one when allowed) and the oldest of them
+     */
+    consume(key: string, limit: number, windowMs: number, now: number): Promise<{ allowed: boolean; count: number; oldest: number }>;
+}
+
+/**
+ * Creates a store that keeps one timestamp log per key in process memory
+ * @returns RateLimitStore whose state is lost when the process exits
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+    const logs = new Map<string, number[]>();
+    let calls = 0;
+
+    return {
+        async consume(key, limit, windowMs, now) {
+            // Forget idle keys now and then so the map does not grow without bound
+            if (++calls % 1000 === 0) {
+                for (const [idle, log] of logs) {
+                    if (log[log.length - 1] <= now - windowMs) logs.delete(idle);
+                }
+            }
+
+            const log = (logs.get(key) ?? []).filter((time) => time > now - windowMs);
+            const allowed = log.length < limit;
+            if (allowed) log.push(now);
+
+            if (log.length > 0) logs.set(key, log);
+            else logs.delete(key);
+
+            return { allowed, count: log.length, oldest: log[0] ?? now };
+        },
+    };
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Returns the store used by every rate limit
+ * @returns The configured store, in memory unless replaced
+ */
+export function getRateLimitStore(): RateLimitStore {
+    store ??= createMemoryRateLimitStore();
+    return store;
+}
+
+/**
+ * Replaces the rate-limit store, e.g. with a shared one at startup
+ * @param next - Store to use; null restores a fresh in-memory store
+ */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+    store = next;
+}
@@ -0,0 +1,217 @@
+import type { FilePatch } from "@/lib/diff/types";
+import { extractDiffBlocks, lineNumber, parseUnifiedDiff, patchPath } from "@/lib/diff/unified-diff";
+import { fence } from "@/lib/threads/thread-export";
+import type { ReviewComment, ReviewReport, ReviewSeverity, ReviewedFile } from "./types";
+
+/**
+ * Review mode: the user supplies a unified diff or a git format-patch file,
+ * the model sees it with line numbers and answers in JSON, and the answer is
+ * checked and anchored to the patch before it is stored. Client-safe, so the
+ * review view anchors comments with the same line numbers the model saw.
+ */
+
+export const REVIEW_FORMAT = "codinspect.review";
+export const REVIEW_VERSION = 1;
+
+/** Most to least severe */
+export const REVIEW_SEVERITIES: ReviewSeverity[] = ["critical", "major", "minor", "nit"];
+
+/** Largest patch review mode accepts, in characters */
+export const MAX_REVIEW_PATCH_LENGTH = 200_000;
+
+/** Appended to the system prompt in review mode */
+export const REVIEW_OUTPUT_INSTRUCTIONS = [
+    "You are reviewing a code change. Reply with one ```json block and nothing else, shaped as",
+    '{"summary": string, "comments": [{"severity": "critical" | "major" | "minor" | "nit", "file": string, "startLine": number, "endLine": number, "message": string, "suggestion"?: string}]}.',
+    "file is the path after \"File:\" and lines use the numbers in the left column of the change.",
+    "Comment only on real problems such as bugs, security, performance, missing tests or unclear code, and put replacement code in suggestion without fences.",
+    "Leave comments empty when the change is fine.",
+].join(" ");
+
+const PATCH_FILE = /\.(patch|diff)$/i;
+
+const hasHunks = (text: string) => parseUnifiedDiff(text).files.some((file) => file.hunks.length > 0);
+
+/**
+ * Finds the change to review in a prompt and its attachments
+ * @param message - Prompt text: a pasted diff, fenced or not, with optional notes
+ * @param files - Files attached to the prompt; .patch and .diff files are reviewed
+ * @returns The patch text, or null when there is nothing to review
+ */
+export function findReviewPatch(message: string, files: { path: string; content: string }[]): string | null {
+    const blocks = extractDiffBlocks(message);
+    const pasted = blocks.length > 0 ? blocks.join("\n") : message;
+    const parts = [
+        ...(hasHunks(pasted) ? [pasted] : []),
+        ...files.filter((file) => PATCH_FILE.test(file.path) && hasHunks(file.content)).map((file) => file.content),
+    ];
+    return parts.length > 0 ? parts.join("\n") : null;
+}
+
+/**
+ * @param patch - Reviewed patch
+ * @param files - Its parsed files
+ * @returns The mail subject of a format-patch file, or a description of the files
+ */
+function reviewTitle(patch: string, files: FilePatch[]): string {
+    const subject = /^Subject: (?:\[PATCH[^\]]*\]\s*)?(.+)$/m.exec(patch)?.[1]?.trim();
+    if (subject) return subject;
+    return files.length === 1 ? `Review of ${patchPath(files[0])}` : `Review of ${files.length} files`;
+}
+
+/**
+ * Renders the patch the way the model reads it: one section per file and
+ * every line prefixed with the number comments must use
+ * @param patch - Patch text
+ * @returns Prompt section
+ */
+export function reviewPrompt(patch: string): string {
+    const files = parseUnifiedDiff(patch).files.filter((file) => file.hunks.length > 0);
+    const sections = files.map((file) => {
+        const status = file.oldPath === null ? " (new file)" : file.newPath === null ? " (deleted)" : "";
+        const hunks = file.hunks.map((hunk) => [
+            `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@${hunk.section ? ` ${hunk.section}` : ""}`,
+            ...hunk.lines.map((line) => {
+                const marker = line.kind === "add" ? "+" : line.kind === "remove" ? "-" : " ";
+                return `${String(lineNumber(file, line) ?? "").padStart(5)} ${marker} ${line.text}`;
+            }),
+        ].join("\n"));
+        return `File: ${patchPath(file)}${status}\n${hunks.join("\n")}`;
+    });
+
+    return `Change to review, with line numbers:\n\n${fence(sections.join("\n\n"), "text")}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the model's JSON, fenced or bare
+ * @param reply - Full reply text
+ * @returns The parsed object, or null when the reply holds no JSON object
+ */
+function parseAnswer(reply: string): Record<string, unknown> | null {
+    const fenced = /```(?:json)?[ \t]*\n([\s\S]*?)\n```/.exec(reply)?.[1];
+    const candidate = fenced ?? reply.slice(reply.indexOf("{"), reply.lastIndexOf("}") + 1);
+    try {
+        const parsed: unknown = JSON.parse(candidate);
+        return isRecord(parsed) ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Turns a review reply into a report. Comments on files the patch does not
+ * touch are dropped with an issue; comments outside every hunk are kept but
+ * marked as not anchored
+ * @param reply - Model reply
+ * @param patch - Reviewed patch
+ * @param createdAt - Report timestamp
+ * @returns Report with every problem found listed in issues
+ */
+export function buildReviewReport(reply: string, patch: string, createdAt = new Date().toISOString()): ReviewReport {
+    const parsed = parseUnifiedDiff(patch);
+    const files = parsed.files.filter((file) => file.hunks.length > 0);
+    const issues = parsed.issues.map((issue) => issue.message);
+
+    const reviewed: ReviewedFile[] = files.map((file) => {
+        const lines = file.hunks.flatMap((hunk) => hunk.lines);
+        return {
+            path: patchPath(file),
+            additions: lines.filter((line) => line.kind === "add").length,
+            deletions: lines.filter((line) => line.kind === "remove").length,
+        };
+    });
+
+    // Comments may name a file relative to another directory than the patch
+    const fileFor = (path: string) => files.find((file) => {
+        const candidate = patchPath(file);
+        return candidate === path || candidate.endsWith(`/${path}`) || path.endsWith(`/${candidate}`);
+    });
+
+    const answer = parseAnswer(reply);
+    if (!answer) issues.push("The model did not return a structured review");
+
+    const comments: ReviewComment[] = [];
+    const items = Array.isArray(answer?.comments) ? answer.comments : [];
+    items.forEach((item: unknown, i) => {
+        const label = `Comment ${i + 1}`;
+        if (!isRecord(item) || typeof item.message !== "string" || item.message.trim() === "") {
+            issues.push(`${label} has no message`);
+            return;
+        }
+        const file = typeof item.file === "string" ? fileFor(item.file) : undefined;
+        if (!file) {
+            issues.push(`${label} names ${typeof item.file === "string" ? item.file : "no file"}, which the patch does not change`);
+            return;
+        }
+        const startLine = Number.isInteger(item.startLine) && (item.startLine as number) > 0 ? item.startLine as number : null;
+        if (startLine === null) {
+            issues.push(`${label} has no valid startLine`);
+            return;
+        }
+        const endLine = Number.isInteger(item.endLine) && (item.endLine as number) >= startLine ? item.endLine as number : startLine;
+        const severity = REVIEW_SEVERITIES.includes(item.severity as ReviewSeverity) ? item.severity as ReviewSeverity : "minor";
+
+        const numbered = file.hunks.flatMap((hunk) => hunk.lines.map((line) => lineNumber(file, line)));
+        comments.push({
+            id: `c${comments.length + 1}`,
+            severity,
+            file: patchPath(file),
+            startLine,
+            endLine,
+            message: item.message.trim(),
+            ...(typeof item.suggestion === "string" && item.suggestion.trim() ? { suggestion: item.suggestion.replace(/\n+$/, "") } : {}),
+            anchored: numbered.includes(endLine),
+        });
+    });
+
+    const order = (path: string) => files.findIndex((file) => patchPath(file) === path);
+    comments.sort((a, b) => order(a.file) - order(b.file) || a.startLine - b.startLine);
+
+    return {
+        format: REVIEW_FORMAT,
+        version: REVIEW_VERSION,
+        title: reviewTitle(patch, files),
+        createdAt,
+        summary: typeof answer?.summary === "string" ? answer.summary.trim() : answer ? "" : reply.trim(),
+        files: reviewed,
+        comments,
+        patch,
+        issues,
+    };
+}
+
+/**
+ * @param comment - Review comment
+ * @returns e.g. src/app.ts:12-14
+ */
+export function commentLocation(comment: Pick<ReviewComment, "file" | "startLine" | "endLine">): string {
+    return comment.startLine === comment.endLine
+        ? `${comment.file}:${comment.startLine}`
+        : `${comment.file}:${comment.startLine}-${comment.endLine}`;
+}
+
+/**
+ * Renders a report as Markdown, which is what the reply stores as its text
+ * so exports, search and share links read naturally
+ * @param report - Review report
+ * @returns Markdown
+ */
+export function reviewToMarkdown(report: ReviewReport): string {
+    const parts = [`**${report.title}**`];
+    if (report.summary) parts.push(report.summary);
+
+    if (report.comments.length === 0) {
+        parts.push("No problems found.");
+    } else {
+        parts.push(report.comments.map((comment) => {
+            const item = `- **${comment.severity}** \`${commentLocation(comment)}\` — ${comment.message}`;
+            return comment.suggestion ? `${item}\n\n${fence(comment.suggestion).replace(/^/gm, "  ")}` : item;
+        }).join("\n"));
+    }
+
+    return parts.join("\n\n");
+}
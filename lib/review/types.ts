@@ -0,0 +1,38 @@
+export type ReviewSeverity = "critical" | "major" | "minor" | "nit";
+
+export interface ReviewComment {
+    id: string;
+    severity: ReviewSeverity;
+    /** Path as it appears in the patch */
+    file: string;
+    /** First and last commented line, numbered as in the changed file (the original for deleted files) */
+    startLine: number;
+    endLine: number;
+    message: string;
+    /** Replacement code or a concrete change to make */
+    suggestion?: string;
+    /** False when the lines are not part of any hunk, so the comment cannot sit next to the diff */
+    anchored: boolean;
+}
+
+export interface ReviewedFile {
+    path: string;
+    additions: number;
+    deletions: number;
+}
+
+/** A finished review, stored on the reply and downloadable as a JSON report */
+export interface ReviewReport {
+    format: "codinspect.review";
+    version: number;
+    /** Subject of a format-patch mail, or a summary of the files changed */
+    title: string;
+    createdAt: string;
+    summary: string;
+    files: ReviewedFile[];
+    comments: ReviewComment[];
+    /** The reviewed patch, so the report can be read on its own */
+    patch: string;
+    /** Problems with the patch or with the model's answer */
+    issues: string[];
+}
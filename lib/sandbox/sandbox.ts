@@ -0,0 +1,309 @@
+import { execFile, spawn } from "child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { StringDecoder } from "string_decoder";
+import { SANDBOX_LIMITS } from "./snippets";
+import type { CodeRun, RunOutput, SandboxLanguage, SandboxLimits } from "./types";
+
+/**
+ * Runs reply snippets in a child process with no network (a fresh network
+ * namespace via unshare), CPU, memory, file-size and time limits, a throwaway
+ * working directory and an environment that carries none of the server's
+ * secrets. The process is chrooted into a root of its own that holds only
+ * read-only system and interpreter directories, the snippet and the working
+ * directory, with every capability dropped. Server-only and Linux-only.
+ */
+
+/** Runs allowed at once across all users */
+export const MAX_CONCURRENT_RUNS = 4;
+
+/** Thrown when the host cannot isolate runs; nothing is run without isolation */
+export class SandboxUnavailableError extends Error {
+    constructor(message = "Code runs need Linux with unprivileged user, mount and network namespaces (unshare)") {
+        super(message);
+        this.name = "SandboxUnavailableError";
+    }
+}
+
+/** Thrown when MAX_CONCURRENT_RUNS runs are already in progress */
+export class SandboxBusyError extends Error {
+    constructor() {
+        super("Too many snippets are running; try again in a moment");
+        this.name = "SandboxBusyError";
+    }
+}
+
+export type RunResult = Pick<CodeRun, "durationMs" | "output" | "exitCode" | "signal" | "timedOut" | "truncated">;
+
+export interface RunOptions {
+    /** Aborting kills the process */
+    signal?: AbortSignal;
+    /** Called for every chunk of output, in order */
+    onOutput?: (output: RunOutput) => void;
+    limits?: SandboxLimits;
+    /** Working directory to run in, e.g. an agent workspace; a throwaway one by default. It is the only writable directory */
+    cwd?: string;
+}
+
+/** Where the run sees its working directory and snippet */
+const WORK_DIR = "/work";
+const SNIPPET_DIR = "/snippet";
+
+/** Host directories every run sees, read-only; symbolic links among them are recreated as links */
+const SYSTEM_DIRS = ["/usr", "/bin", "/sbin", "/lib", "/lib64", "/lib32"];
+
+/**
+ * Builds the run's root in a fresh mount namespace and enters it. Arguments:
+ * the empty root directory, the working directory, the snippet directory and
+ * a colon-separated list of extra read-only directories, then the command.
+ * Capabilities are dropped after the chroot, so the run can neither remount
+ * its read-only directories nor chroot its way back out
+ */
+const SETUP_SCRIPT = `
+set -e
+root=$1; work=$2; snippet=$3; extra=$4; shift 4
+bind_ro() { mkdir -p "$root$1"; mount --bind "$1" "$root$1"; mount -o remount,bind,ro "$root$1"; }
+mount -t tmpfs -o size=16m,mode=755 sandbox "$root"
+for dir in ${SYSTEM_DIRS.join(" ")}; do
+    if [ -L "$dir" ]; then ln -s "$(readlink "$dir")" "$root$dir"
+    elif [ -d "$dir" ]; then bind_ro "$dir"; fi
+done
+IFS=:; for dir in $extra; do [ -d "$dir" ] && bind_ro "$dir"; done; unset IFS
+mkdir -p "$root/dev" "$root/proc" "$root/tmp" "$root${WORK_DIR}" "$root${SNIPPET_DIR}"
+for device in null zero random urandom; do touch "$root/dev/$device"; mount --bind "/dev/$device" "$root/dev/$device"; done
+mount -t tmpfs -o size=64m sandbox-tmp "$root/tmp"
+mount -t proc proc "$root/proc"
+mount --bind "$work" "$root${WORK_DIR}"
+mount --bind "$snippet" "$root${SNIPPET_DIR}"; mount -o remount,bind,ro "$root${SNIPPET_DIR}"
+mount -o remount,ro "$root"
+exec chroot "$root" sh -c 'cd ${WORK_DIR} && exec setpriv --bounding-set=-all --inh-caps=-all --no-new-privs -- "$@"' sandbox "$@"
+`;
+
+interface Interpreters {
+    /** Python executable, by its path on the host */
+    python: string;
+    /** Directories outside SYSTEM_DIRS the interpreters live in */
+    extraDirs: string[];
+}
+
+let active = 0;
+let isolation: Promise<boolean> | undefined;
+let interpreters: Promise<Interpreters> | undefined;
+
+/**
+ * @param dir - Host directory
+ * @returns True when a run sees it through SYSTEM_DIRS
+ */
+function isSystemDir(dir: string): boolean {
+    return SYSTEM_DIRS.some((system) => dir === system || dir.startsWith(system + path.sep));
+}
+
+/**
+ * Finds the interpreters once, since Node and Python are often installed
+ * under a version manager outside /usr
+ * @returns Python's executable and the directories to expose
+ */
+function findInterpreters(): Promise<Interpreters> {
+    interpreters ??= new Promise((resolve) => {
+        const node = path.dirname(path.dirname(process.execPath));
+        const program = "import sys; print(sys.executable); print(sys.prefix); print(sys.base_prefix)";
+        execFile("python3", ["-I", "-c", program], { timeout: 5000 }, (error, stdout) => {
+            const [python = "python3", ...prefixes] = error ? [] : stdout.trim().split("\n");
+            const dirs = [node, ...prefixes].filter((dir) => path.isAbsolute(dir) && !isSystemDir(dir));
+            resolve({ python, extraDirs: [...new Set(dirs)] });
+        });
+    });
+    return interpreters;
+}
+
+/**
+ * Arguments of unshare that run a command inside the sandbox
+ * @param dir - Throwaway directory holding the empty root and the snippet
+ * @param work - Working directory of the run
+ * @param command - Command as seen inside the sandbox
+ * @returns unshare's arguments
+ */
+async function sandboxArgs(dir: string, work: string, command: string[]): Promise<string[]> {
+    const { extraDirs } = await findInterpreters();
+    return [
+        "--net", "--mount", "--pid", "--fork", "--kill-child", "--map-root-user", "--",
+        "sh", "-c", SETUP_SCRIPT, "sandbox", path.join(dir, "root"), work, path.join(dir, "snippet"), extraDirs.join(":"),
+        ...command,
+    ];
+}
+
+/**
+ * Makes the directories a run needs inside its throwaway directory
+ * @param dir - Throwaway directory
+ */
+async function layout(dir: string): Promise<void> {
+    await Promise.all(["root", "snippet", "work"].map((name) => mkdir(path.join(dir, name))));
+}
+
+/**
+ * Checks once whether this host can build the sandbox, by running `true` in it
+ * @returns True when unshare can create user, mount, PID and network namespaces and chroot into them
+ */
+function canIsolate(): Promise<boolean> {
+    isolation ??= (async () => {
+        const dir = await mkdtemp(path.join(tmpdir(), "codinspect-run-"));
+        try {
+            await layout(dir);
+            const args = await sandboxArgs(dir, path.join(dir, "work"), ["true"]);
+            return await new Promise<boolean>((resolve) => {
+                const probe = spawn("unshare", args, { stdio: "ignore" });
+                probe.on("error", () => resolve(false));
+                probe.on("close", (code) => resolve(code === 0));
+            });
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    })();
+    return isolation;
+}
+
+/**
+ * Writes the snippet into the snippet directory
+ * @param dir - Snippet directory
+ * @param language - Snippet language
+ * @param code - Snippet
+ * @returns Command and arguments that run it, by their paths inside the sandbox
+ */
+async function prepare(dir: string, language: SandboxLanguage, code: string): Promise<string[]> {
+    const inSandbox = (file: string) => path.posix.join(SNIPPET_DIR, file);
+    switch (language) {
+        case "javascript": {
+            // ES module syntax needs the .mjs loader; everything else runs as CommonJS so require works
+            const file = /^\s*(import|export)\s/m.test(code) ? "main.mjs" : "main.cjs";
+            await writeFile(path.join(dir, file), code);
+            return [process.execPath, inSandbox(file)];
+        }
+        case "typescript": {
+            // Types are stripped, not checked: the static-analysis pre-pass is where errors are reported
+            const ts = await import("typescript");
+            const { outputText } = ts.transpileModule(code, {
+                compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+            });
+            await writeFile(path.join(dir, "main.cjs"), outputText);
+            return [process.execPath, inSandbox("main.cjs")];
+        }
+        case "python":
+            await writeFile(path.join(dir, "main.py"), code);
+            return [(await findInterpreters()).python, "-I", "-B", inSandbox("main.py")];
+        case "shell":
+            await writeFile(path.join(dir, "main.sh"), code);
+            return ["bash", "--noprofile", "--norc", inSandbox("main.sh")];
+    }
+}
+
+/**
+ * Runs a snippet in the sandbox
+ * @param language - Snippet language
+ * @param code - Snippet
+ * @param options - Abort signal, output callback and limits
+ * @returns Output and how the process ended
+ * @throws SandboxUnavailableError when runs cannot be isolated, SandboxBusyError when too many are running
+ */
+export async function runSnippet(language: SandboxLanguage, code: string, options: RunOptions = {}): Promise<RunResult> {
+    const { signal, onOutput, limits = SANDBOX_LIMITS, cwd } = options;
+    if (!(await canIsolate())) throw new SandboxUnavailableError();
+    if (active >= MAX_CONCURRENT_RUNS) throw new SandboxBusyError();
+
+    active++;
+    const dir = await mkdtemp(path.join(tmpdir(), "codinspect-run-"));
+    try {
+        await layout(dir);
+        const command = await prepare(path.join(dir, "snippet"), language, code);
+        const { extraDirs } = await findInterpreters();
+        const started = Date.now();
+
+        // ulimit sizes are in KiB; -t bounds CPU time, -d the heap, -f files written
+        const limitScript = [
+            `ulimit -t ${limits.cpuSeconds}`,
+            `ulimit -d ${limits.memoryMb * 1024}`,
+            `ulimit -f ${limits.memoryMb * 1024}`,
+            "ulimit -c 0",
+            'exec "$@"',
+        ].join(" && ");
+
+        const args = await sandboxArgs(dir, cwd ?? path.join(dir, "work"), ["sh", "-c", limitScript, "sandbox", ...command]);
+        const child = spawn("unshare", args, {
+            cwd: dir,
+            // Only what the interpreters need: none of the server's keys or tokens
+            env: {
+                NODE_ENV: "production",
+                PATH: [...extraDirs.map((extra) => path.join(extra, "bin")), "/usr/local/bin", "/usr/bin", "/bin", "/usr/sbin", "/sbin"].join(":"),
+                HOME: WORK_DIR,
+                TMPDIR: "/tmp",
+                LANG: "C.UTF-8",
+            },
+            stdio: ["ignore", "pipe", "pipe"],
+            // Its own process group, so whatever the snippet starts is killed with it
+            detached: true,
+        });
+
+        const output: RunOutput[] = [];
+        let written = 0;
+        let timedOut = false;
+        let truncated = false;
+
+        const kill = () => {
+            try {
+                process.kill(-child.pid!, "SIGKILL");
+            } catch {
+                // Already gone
+            }
+        };
+        const timer = setTimeout(() => {
+            timedOut = true;
+            kill();
+        }, limits.timeoutMs);
+        signal?.addEventListener("abort", kill, { once: true });
+        if (signal?.aborted) kill();
+
+        const collect = (stream: RunOutput["stream"]) => {
+            // Characters split across chunks are held back until they are complete
+            const decoder = new StringDecoder("utf8");
+            return (chunk: Buffer) => {
+                if (truncated) return;
+                const room = limits.maxOutputBytes - written;
+                const text = decoder.write(chunk.length > room ? chunk.subarray(0, room) : chunk);
+                written += Math.min(chunk.length, room);
+                if (chunk.length > room) {
+                    truncated = true;
+                    kill();
+                }
+                if (!text) return;
+
+                // Consecutive chunks of the same stream are stored as one
+                const last = output[output.length - 1];
+                if (last?.stream === stream) last.text += text;
+                else output.push({ stream, text });
+                onOutput?.({ stream, text });
+            };
+        };
+        child.stdout.on("data", collect("stdout"));
+        child.stderr.on("data", collect("stderr"));
+
+        const [exitCode, exitSignal] = await new Promise<[number | null, NodeJS.Signals | null]>((resolve, reject) => {
+            child.on("error", reject);
+            child.on("close", (code, killedBy) => resolve([code, killedBy]));
+        }).finally(() => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", kill);
+        });
+
+        return {
+            durationMs: Date.now() - started,
+            output,
+            exitCode,
+            ...(exitSignal ? { signal: exitSignal } : {}),
+            timedOut,
+            truncated,
+        };
+    } finally {
+        active--;
+        await rm(dir, { recursive: true, force: true });
+    }
+}
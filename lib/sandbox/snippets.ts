@@ -0,0 +1,55 @@
+import type { SandboxLanguage, SandboxLimits } from "./types";
+
+/**
+ * Which code blocks can be run and under what limits. Client-safe: the chat
+ * shows a Run button on exactly the blocks the server will accept.
+ */
+
+export const SANDBOX_LIMITS: SandboxLimits = {
+    timeoutMs: 10_000,
+    cpuSeconds: 5,
+    memoryMb: 256,
+    maxOutputBytes: 64 * 1024,
+};
+
+/** Longest snippet that may be run, in characters */
+export const MAX_SNIPPET_LENGTH = 20_000;
+
+/** Runs kept per message; older ones are dropped */
+export const MAX_RUNS_PER_MESSAGE = 10;
+
+export const SANDBOX_LANGUAGES: SandboxLanguage[] = ["javascript", "typescript", "python", "shell"];
+
+const FENCE_LANGUAGES: Record<string, SandboxLanguage> = {
+    js: "javascript", javascript: "javascript", mjs: "javascript", cjs: "javascript", node: "javascript",
+    ts: "typescript", typescript: "typescript",
+    py: "python", python: "python", python3: "python",
+    sh: "shell", shell: "shell", bash: "shell",
+};
+
+const CODE_FENCE = /^[ \t]*(`{3,}|~{3,})[ \t]*([\w+#-]*)[^\n]*\n([\s\S]*?)\n[ \t]*\1[ \t]*$/gm;
+
+/**
+ * @param fence - Info string of a code block, e.g. "ts" or "bash"
+ * @returns The language the sandbox runs it as, or null when it cannot be run
+ */
+export function sandboxLanguage(fence: string): SandboxLanguage | null {
+    return FENCE_LANGUAGES[fence.toLowerCase()] ?? null;
+}
+
+// Blocks inside list items are indented in the source but not when rendered
+const normalize = (code: string) => code.replace(/\r\n/g, "\n").split("\n").map((line) => line.trim()).join("\n").trim();
+
+/**
+ * Checks that a snippet is one of a reply's code blocks, so only code the
+ * thread shows can be run from it
+ * @param markdown - Reply content
+ * @param language - Language the snippet is to be run as
+ * @param code - Snippet as rendered
+ * @returns True when a block of that language holds the snippet
+ */
+export function hasCodeBlock(markdown: string, language: SandboxLanguage, code: string): boolean {
+    const wanted = normalize(code);
+    return [...markdown.replace(/\r\n/g, "\n").matchAll(CODE_FENCE)]
+        .some((match) => sandboxLanguage(match[2]) === language && normalize(match[3]) === wanted);
+}
@@ -0,0 +1,44 @@
+export type SandboxLanguage = "javascript" | "typescript" | "python" | "shell";
+
+export interface SandboxLimits {
+    /** Wall-clock time before the process is killed */
+    timeoutMs: number;
+    cpuSeconds: number;
+    memoryMb: number;
+    /** stdout and stderr together; the process is killed once it writes more */
+    maxOutputBytes: number;
+}
+
+export interface RunOutput {
+    stream: "stdout" | "stderr";
+    text: string;
+}
+
+/** One run of a code block from a reply, stored on the message */
+export interface CodeRun {
+    id: string;
+    language: SandboxLanguage;
+    /** The snippet as the reply shows it */
+    code: string;
+    startedAt: string;
+    durationMs: number;
+    /** stdout and stderr in the order they were written */
+    output: RunOutput[];
+    /** null when the process was killed */
+    exitCode: number | null;
+    /** Signal that ended the process, e.g. SIGKILL or SIGXCPU */
+    signal?: string;
+    timedOut: boolean;
+    /** Output stopped at the limit */
+    truncated: boolean;
+}
+
+/**
+ * Server-Sent Events of POST /api/threads/:id/runs, framed like the chat
+ * stream (see lib/chat/stream.ts)
+ */
+export type RunStreamEvent =
+    | { type: "output"; output: RunOutput }
+    /** The finished run, as stored */
+    | { type: "exit"; run: CodeRun }
+    | { type: "error"; error: string };
@@ -0,0 +1,82 @@
+/**
+ * Okapi BM25 ranking over pre-tokenized documents.
+ * The index is plain JSON so callers can persist it.
+ */
+
+export interface Bm25Index {
+    docCount: number;
+    avgLength: number;
+    docFreq: Record<string, number>;
+    docs: { id: string; length: number; termFreq: Record<string, number> }[];
+}
+
+export interface Bm25Options {
+    k1?: number;
+    b?: number;
+}
+
+export interface Bm25Hit {
+    id: string;
+    score: number;
+}
+
+/**
+ * Builds an index from documents
+ * @param documents - Documents with their terms (duplicates count towards frequency)
+ * @returns Serializable BM25 index
+ */
+export function buildBm25Index(documents: { id: string; terms: string[] }[]): Bm25Index {
+    const docFreq: Record<string, number> = {};
+    let totalLength = 0;
+
+    const docs = documents.map(({ id, terms }) => {
+        const termFreq: Record<string, number> = {};
+        for (const term of terms) {
+            termFreq[term] = (termFreq[term] ?? 0) + 1;
+        }
+        for (const term of Object.keys(termFreq)) {
+            docFreq[term] = (docFreq[term] ?? 0) + 1;
+        }
+        totalLength += terms.length;
+        return { id, length: terms.length, termFreq };
+    });
+
+    return {
+        docCount: docs.length,
+        avgLength: docs.length ? totalLength / docs.length : 0,
+        docFreq,
+        docs,
+    };
+}
+
+/**
+ * Scores every document against the query terms
+ * @param index - Index built by buildBm25Index
+ * @param queryTerms - Query terms, already tokenized
+ * @param options - k1 (term saturation) and b (length normalization)
+ * @returns Documents with a positive score, best first
+ */
+export function scoreBm25(index: Bm25Index, queryTerms: string[], options: Bm25Options = {}): Bm25Hit[] {
+    const k1 = options.k1 ?? 1.2;
+    const b = options.b ?? 0.75;
+    const terms = [...new Set(queryTerms)];
+    const hits: Bm25Hit[] = [];
+
+    for (const doc of index.docs) {
+        let score = 0;
+
+        for (const term of terms) {
+            const tf = doc.termFreq[term];
+            if (!tf) continue;
+
+            const df = index.docFreq[term] ?? 0;
+            const idf = Math.log(1 + (index.docCount - df + 0.5) / (df + 0.5));
+            const norm = tf + k1 * (1 - b + b * (doc.length / (index.avgLength || 1)));
+            score += idf * ((tf * (k1 + 1)) / norm);
+        }
+
+        if (score > 0) hits.push({ id: doc.id, score });
+    }
+
+    return hits.sort((a, b) => b.score - a.score);
+}
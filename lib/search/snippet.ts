@@ -0,0 +1,79 @@
+export type Range = [start: number, end: number];
+
+export interface Snippet {
+    text: string;
+    /** Highlighted ranges, relative to `text` */
+    highlights: Range[];
+}
+
+/**
+ * Sorts and merges overlapping or touching ranges
+ * @param ranges - Ranges in any order
+ * @returns Disjoint ranges in ascending order
+ */
+export function mergeRanges(ranges: Range[]): Range[] {
+    const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+    const merged: Range[] = [];
+
+    for (const [start, end] of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            merged.push([start, end]);
+        }
+    }
+
+    return merged;
+}
+
+/**
+ * Cuts a window of text around the densest cluster of matches
+ * @param text - Full document text
+ * @param ranges - Matched ranges within `text`
+ * @param width - Approximate snippet length in characters
+ * @returns Snippet with ellipses where text was cut and re-based highlights
+ */
+export function buildSnippet(text: string, ranges: Range[], width = 160): Snippet {
+    const flat = text.replace(/\s/g, " ");
+    const matches = mergeRanges(ranges);
+
+    if (flat.length <= width) {
+        return { text: flat, highlights: matches };
+    }
+
+    // Pick the window start that covers the most matches
+    let bestStart = 0;
+    let bestCount = -1;
+    for (const [start] of matches) {
+        const windowStart = Math.max(0, start - Math.floor(width / 4));
+        const count = matches.filter(([s, e]) => s >= windowStart && e <= windowStart + width).length;
+        if (count > bestCount) {
+            bestCount = count;
+            bestStart = windowStart;
+        }
+    }
+
+    let start = bestStart;
+    let end = Math.min(flat.length, start + width);
+    start = Math.max(0, end - width);
+
+    // Snap to word boundaries so words are not cut in half, without dropping a match
+    if (start > 0) {
+        const firstMatch = matches.find(([s]) => s >= start)?.[0] ?? end;
+        const space = flat.indexOf(" ", start);
+        if (space !== -1 && space < firstMatch) start = space + 1;
+    }
+    if (end < flat.length) {
+        const space = flat.lastIndexOf(" ", end);
+        if (space > start) end = space;
+    }
+
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < flat.length ? "…" : "";
+    const highlights = matches
+        .filter(([s, e]) => s >= start && e <= end)
+        .map(([s, e]): Range => [s - start + prefix.length, e - start + prefix.length]);
+
+    return { text: `${prefix}${flat.slice(start, end)}${suffix}`, highlights };
+}
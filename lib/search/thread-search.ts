@@ -0,0 +1,98 @@
+import { listThreadsWithMessages } from "@/lib/threads/thread-service";
+import type { ChatRole } from "@/lib/llm/types";
+import { buildBm25Index, scoreBm25 } from "./bm25";
+import { buildSnippet, type Range, type Snippet } from "./snippet";
+import { parseQuery, phrasePattern, tokenize, tokenizeWithOffsets } from "./tokenize";
+
+export interface ThreadSearchResult {
+    threadId: string;
+    threadTitle: string;
+    messageId: string;
+    role: ChatRole;
+    score: number;
+    snippet: Snippet;
+}
+
+/** Extra score per phrase occurrence, on top of BM25 */
+const PHRASE_BOOST = 2;
+/** Extra score when a query identifier appears verbatim, e.g. `useCallback` */
+const IDENTIFIER_BOOST = 1.5;
+
+const IDENTIFIER_PATTERN = /^[\p{L}_$][\p{L}\p{N}_$]*$/u;
+
+/**
+ * Finds identifiers in the raw query that are worth an exact-match boost
+ * @param query - Raw query text
+ * @returns Identifiers containing camelCase humps, underscores or digits
+ */
+function queryIdentifiers(query: string): string[] {
+    return query
+        .replace(/"[^"]*"/g, " ")
+        .split(/[^\p{L}\p{N}_$]+/u)
+        .filter((word) => IDENTIFIER_PATTERN.test(word) && /[_$\d]|\p{Ll}\p{Lu}/u.test(word));
+}
+
+/**
+ * Searches every message in a user's threads
+ * @param userId - Owner id
+ * @param query - Search box text; "quoted phrases" must match exactly
+ * @param limit - Maximum number of results
+ * @returns Matching messages, best first, with highlighted snippets
+ */
+export async function searchThreads(userId: string, query: string, limit = 20): Promise<ThreadSearchResult[]> {
+    const { terms, phrases } = parseQuery(query);
+    if (terms.length === 0 && phrases.length === 0) return [];
+
+    const threads = await listThreadsWithMessages(userId);
+    const messages = threads.flatMap((thread) =>
+        thread.messages.map((message) => ({ thread, message }))
+    );
+    const byId = new Map(messages.map((entry) => [entry.message.id, entry]));
+
+    // Phrase words also count as terms so phrase-only queries still rank
+    const rankedTerms = [...new Set([...terms, ...phrases.flatMap((phrase) => tokenize(phrase))])];
+    const index = buildBm25Index(messages.map(({ message }) => ({ id: message.id, terms: tokenize(message.content) })));
+    const identifiers = queryIdentifiers(query);
+    const termSet = new Set(terms);
+
+    const results: ThreadSearchResult[] = [];
+
+    for (const hit of scoreBm25(index, rankedTerms)) {
+        const { thread, message } = byId.get(hit.id)!;
+        const ranges: Range[] = [];
+        let score = hit.score;
+
+        let allPhrasesFound = true;
+        for (const phrase of phrases) {
+            const found = [...message.content.matchAll(phrasePattern(phrase))];
+            if (found.length === 0) {
+                allPhrasesFound = false;
+                break;
+            }
+            score += PHRASE_BOOST * found.length;
+            for (const match of found) ranges.push([match.index ?? 0, (match.index ?? 0) + match[0].length]);
+        }
+        if (!allPhrasesFound) continue;
+
+        for (const identifier of identifiers) {
+            if (message.content.includes(identifier)) score += IDENTIFIER_BOOST;
+        }
+
+        for (const token of tokenizeWithOffsets(message.content)) {
+            if (termSet.has(token.term)) ranges.push([token.start, token.end]);
+        }
+
+        results.push({
+            threadId: thread.id,
+            threadTitle: thread.title,
+            messageId: message.id,
+            role: message.role,
+            score,
+            snippet: buildSnippet(message.content, ranges),
+        });
+    }
+
+    return results
+        .sort((a, b) => b.score - a.score || byId.get(b.messageId)!.message.createdAt.localeCompare(byId.get(a.messageId)!.message.createdAt))
+        .slice(0, limit);
+}
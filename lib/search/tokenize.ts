@@ -0,0 +1,97 @@
+/**
+ * Tokenizer shared by thread search and the repository index.
+ * Code identifiers are indexed whole and split into their parts, so
+ * `getUserId` matches queries for "getUserId", "user id" and "get_user_id".
+ */
+
+export interface Token {
+    term: string;
+    start: number;
+    end: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}_$]+/gu;
+
+/**
+ * Splits an identifier on snake_case and camelCase boundaries
+ * @param word - Identifier such as `parseHTTPResponse` or `max_tokens`
+ * @returns Lower-cased parts; a single element when there is nothing to split
+ */
+export function splitIdentifier(word: string): string[] {
+    return word
+        .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+        .replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, "$1 $2")
+        .split(/[\s_$]+/)
+        .filter(Boolean)
+        .map((part) => part.toLowerCase());
+}
+
+/**
+ * Tokenizes text with source offsets for highlighting
+ * @param text - Text to tokenize
+ * @returns One token per word plus one per identifier part, in order
+ */
+export function tokenizeWithOffsets(text: string): Token[] {
+    const tokens: Token[] = [];
+
+    for (const match of text.matchAll(WORD_PATTERN)) {
+        const word = match[0];
+        const start = match.index ?? 0;
+        const end = start + word.length;
+        const whole = word.toLowerCase();
+
+        tokens.push({ term: whole, start, end });
+
+        const parts = splitIdentifier(word);
+        if (parts.length > 1) {
+            for (const part of parts) tokens.push({ term: part, start, end });
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Tokenizes text into index terms
+ * @param text - Text to tokenize
+ * @returns Lower-cased terms, including identifier parts
+ */
+export function tokenize(text: string): string[] {
+    return tokenizeWithOffsets(text).map((token) => token.term);
+}
+
+export interface ParsedQuery {
+    /** Free terms, ranked with BM25 */
+    terms: string[];
+    /** Quoted phrases; every one must appear in a matching document */
+    phrases: string[];
+}
+
+/**
+ * Parses a search box query into free terms and quoted phrases
+ * @param query - Raw query, e.g. `useEffect "missing dependency"`
+ * @returns Parsed query
+ */
+export function parseQuery(query: string): ParsedQuery {
+    const phrases: string[] = [];
+    const rest = query.replace(/"([^"]+)"/g, (_, phrase: string) => {
+        const normalized = phrase.trim().replace(/\s+/g, " ");
+        if (normalized) phrases.push(normalized);
+        return " ";
+    });
+
+    return { terms: [...new Set(tokenize(rest))], phrases };
+}
+
+/**
+ * Builds a case-insensitive pattern matching a phrase across any whitespace
+ * @param phrase - Normalized phrase
+ * @returns Global regular expression
+ */
+export function phrasePattern(phrase: string): RegExp {
+    const escaped = phrase
+        .split(" ")
+        .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join("\\s+");
+    return new RegExp(escaped, "gi");
+}
@@ -0,0 +1,124 @@
+import { randomBytes } from "crypto";
+import { getCollection } from "@/lib/storage/collection";
+import { exportedBranch } from "@/lib/threads/thread-export";
+import { getThread } from "@/lib/threads/thread-service";
+import type { ShareInput, ShareLink, ShareLinkSummary, SharedThreadAccess } from "./types";
+
+/** Longest expiry a link can be given */
+export const MAX_SHARE_DAYS = 365;
+
+function shareLinks() {
+    return getCollection<ShareLink>("share-links");
+}
+
+/**
+ * Generates a link token. 24 random bytes are far beyond guessing, and
+ * base64url keeps the token safe in URLs and as a record id.
+ * @returns 32-character token
+ */
+function newToken(): string {
+    return randomBytes(24).toString("base64url");
+}
+
+function toSummary(link: ShareLink): ShareLinkSummary {
+    const { id, threadId, title, requireAuth, createdAt, expiresAt, revokedAt } = link;
+    return { id, threadId, title, requireAuth, createdAt, expiresAt, revokedAt, messageCount: link.messages.length };
+}
+
+/**
+ * Snapshots a branch of a thread behind a new link
+ * @param userId - Owner id
+ * @param threadId - Thread to share
+ * @param input - Branch, expiry and visibility
+ * @returns The new link, or null if the thread is missing or owned by someone else
+ * @throws When an option is invalid
+ */
+export async function createShareLink(userId: string, threadId: string, input: ShareInput = {}): Promise<ShareLinkSummary | null> {
+    const thread = await getThread(userId, threadId);
+    if (!thread) return null;
+
+    if (input.leafId !== undefined && !thread.messages.some((message) => message.id === input.leafId)) {
+        throw new Error("Message not found");
+    }
+    const days = input.expiresInDays ?? null;
+    if (days !== null && (typeof days !== "number" || !Number.isFinite(days) || days <= 0 || days > MAX_SHARE_DAYS)) {
+        throw new Error(`expiresInDays must be a number of days up to ${MAX_SHARE_DAYS}`);
+    }
+    if (input.requireAuth !== undefined && typeof input.requireAuth !== "boolean") {
+        throw new Error("requireAuth must be a boolean");
+    }
+
+    const messages = exportedBranch(thread, input.leafId);
+    if (messages.length === 0) throw new Error("There is nothing to share yet");
+
+    const now = Date.now();
+    const link = await shareLinks().put({
+        id: newToken(),
+        userId,
+        threadId,
+        title: thread.title,
+        messages,
+        requireAuth: input.requireAuth ?? false,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: days === null ? null : new Date(now + days * 24 * 60 * 60 * 1000).toISOString(),
+        revokedAt: null,
+    });
+    return toSummary(link);
+}
+
+/**
+ * Lists the links made for a thread, newest first
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @returns Link summaries, revoked and expired ones included
+ */
+export async function listShareLinks(userId: string, threadId: string): Promise<ShareLinkSummary[]> {
+    const links = await shareLinks().list((link) => link.userId === userId && link.threadId === threadId);
+    return links.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(toSummary);
+}
+
+/**
+ * Stops a link from working. The record stays so the owner can see it was revoked
+ * @param userId - Owner id
+ * @param shareId - Link token
+ * @returns The revoked link, or null if missing or owned by someone else
+ */
+export async function revokeShareLink(userId: string, shareId: string): Promise<ShareLinkSummary | null> {
+    const link = await shareLinks().get(shareId);
+    if (!link || link.userId !== userId) return null;
+
+    if (!link.revokedAt) {
+        link.revokedAt = new Date().toISOString();
+        await shareLinks().put(link);
+    }
+    return toSummary(link);
+}
+
+/**
+ * Deletes every link made for a thread, for when the thread itself is deleted
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @returns Number of links removed
+ */
+export async function deleteShareLinks(userId: string, threadId: string): Promise<number> {
+    const links = await shareLinks().list((link) => link.userId === userId && link.threadId === threadId);
+    await Promise.all(links.map((link) => shareLinks().delete(link.id)));
+    return links.length;
+}
+
+/**
+ * Opens a link for a viewer, who need not own the thread
+ * @param token - Token from the URL
+ * @param viewerId - Signed-in viewer, or null
+ * @returns The snapshot, or why it cannot be shown
+ */
+export async function openShareLink(token: string, viewerId: string | null): Promise<SharedThreadAccess> {
+    const link = await shareLinks().get(token);
+    if (!link) return { status: "not_found" };
+    if (link.revokedAt) return { status: "revoked" };
+    if (link.expiresAt && Date.parse(link.expiresAt) <= Date.now()) return { status: "expired" };
+    if (link.requireAuth && !viewerId) return { status: "sign_in" };
+
+    const { title, messages, createdAt, expiresAt } = link;
+    return { status: "ok", share: { title, messages, createdAt, expiresAt } };
+}
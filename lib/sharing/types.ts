@@ -0,0 +1,39 @@
+import type { ThreadMessage } from "@/lib/threads/types";
+
+/**
+ * A read-only link to a snapshot of one branch of a thread. The id doubles as
+ * the unguessable token in the URL, so later messages, edits and deleted
+ * branches never leak into a link that was already sent.
+ */
+export interface ShareLink {
+    id: string;
+    userId: string;
+    threadId: string;
+    title: string;
+    messages: ThreadMessage[];
+    /** Only signed-in users may open the link */
+    requireAuth: boolean;
+    createdAt: string;
+    /** Null when the link never expires */
+    expiresAt: string | null;
+    revokedAt: string | null;
+}
+
+/** What the owner sees when listing links; the snapshot itself is left out */
+export type ShareLinkSummary = Omit<ShareLink, "messages" | "userId"> & {
+    messageCount: number;
+};
+
+/** Options a user picks when sharing */
+export interface ShareInput {
+    /** Last message of the branch to share; the branch shown when omitted */
+    leafId?: string;
+    /** Days until the link stops working; null or omitted for never */
+    expiresInDays?: number | null;
+    requireAuth?: boolean;
+}
+
+/** Outcome of opening a link, from the viewer's side */
+export type SharedThreadAccess =
+    | { status: "ok"; share: Pick<ShareLink, "title" | "messages" | "createdAt" | "expiresAt"> }
+    | { status: "not_found" | "expired" | "revoked" | "sign_in" };
@@ -0,0 +1,160 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Minimal record store used by every server-side feature that persists data.
+ * The file backend keeps one JSON document per record so it works offline
+ * with no database; the memory backend is used by tests.
+ */
+export interface Collection<T extends { id: string }> {
+    get(id: string): Promise<T | null>;
+    list(filter?: (item: T) => boolean): Promise<T[]>;
+    put(item: T): Promise<T>;
+    delete(id: string): Promise<boolean>;
+}
+
+export type StoreBackend = "file" | "memory";
+
+/**
+ * Creates a collection held in process memory
+ * @returns Collection that is lost when the process exits
+ */
+export function createMemoryCollection<T extends { id: string }>(): Collection<T> {
+    const items = new Map<string, T>();
+
+    return {
+        async get(id) {
+            const item = items.get(id);
+            return item ? structuredClone(item) : null;
+        },
+        async list(filter) {
+            const all = [...items.values()].map((item) => structuredClone(item));
+            return filter ? all.filter(filter) : all;
+        },
+        async put(item) {
+            items.set(item.id, structuredClone(item));
+            return item;
+        },
+        async delete(id) {
+            return items.delete(id);
+        },
+    };
+}
+
+/**
+ * Checks that an id cannot escape the collection directory
+ * @param id - Record id
+ * @returns True when the id is safe to use as a file name
+ */
+function isSafeId(id: string): boolean {
+    return /^[A-Za-z0-9_-]+$/.test(id);
+}
+
+/**
+ * Creates a collection stored as JSON files under a directory
+ * @param dir - Directory holding one <id>.json file per record
+ * @returns Collection backed by the local file system
+ */
+export function createFileCollection<T extends { id: string }>(dir: string): Collection<T> {
+    const fileFor = (id: string) => {
+        if (!isSafeId(id)) throw new Error(`Invalid record id: ${id}`);
+        return path.join(dir, `${id}.json`);
+    };
+
+    const read = async (file: string): Promise<T | null> => {
+        try {
+            return JSON.parse(await readFile(file, "utf8")) as T;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+            throw error;
+        }
+    };
+
+    return {
+        async get(id) {
+            if (!isSafeId(id)) return null;
+            return read(fileFor(id));
+        },
+        async list(filter) {
+            let names: string[];
+            try {
+                names = await readdir(dir);
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+                throw error;
+            }
+
+            const all: T[] = [];
+            for (const name of names.filter((name) => name.endsWith(".json"))) {
+                const item = await read(path.join(dir, name));
+                if (item) all.push(item);
+            }
+            return filter ? all.filter(filter) : all;
+        },
+        async put(item) {
+            await mkdir(dir, { recursive: true });
+            // Write to a temp file of its own first so readers never see a half-written record
+            const file = fileFor(item.id);
+            const temp = `${file}.${process.pid}.${newId()}.tmp`;
+            await writeFile(temp, JSON.stringify(item, null, 2), "utf8");
+            await rename(temp, file);
+            return item;
+        },
+        async delete(id) {
+            if (!isSafeId(id)) return false;
+            try {
+                await rm(fileFor(id));
+                return true;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+                throw error;
+            }
+        },
+    };
+}
+
+const collections = new Map<string, Collection<{ id: string }>>();
+
+/**
+ * @returns Root directory of stored data: CODINSPECT_DATA_DIR, or ".codinspect" by default
+ */
+export function dataDir(): string {
+    return process.env.CODINSPECT_DATA_DIR ?? path.join(process.cwd(), ".codinspect");
+}
+
+/**
+ * Returns the shared collection with the given name.
+ * CODINSPECT_STORE selects the backend ("file" by default) and
+ * CODINSPECT_DATA_DIR the root directory (".codinspect" by default).
+ * @param name - Collection name, e.g. "threads"
+ * @returns Collection instance, created on first use
+ */
+export function getCollection<T extends { id: string }>(name: string): Collection<T> {
+    let collection = collections.get(name);
+
+    if (!collection) {
+        const backend = (process.env.CODINSPECT_STORE ?? "file") as StoreBackend;
+        collection = backend === "memory"
+            ? createMemoryCollection()
+            : createFileCollection(path.join(dataDir(), name));
+        collections.set(name, collection);
+    }
+
+    return collection as Collection<T>;
+}
+
+/**
+ * Drops every cached collection so the next call re-reads the environment.
+ * Intended for tests.
+ */
+export function resetCollections(): void {
+    collections.clear();
+}
+
+/**
+ * Generates an unguessable, file-name-safe record id
+ * @returns 32 hex characters
+ */
+export function newId(): string {
+    return crypto.randomUUID().replace(/-/g, "");
+}
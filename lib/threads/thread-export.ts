@@ -0,0 +1,218 @@
+import type { AgentStep, ToolPermission } from "@/lib/agent/types";
+import { CHAT_REQUEST_LIMITS, CHAT_ROLES, TOOL_PERMISSIONS } from "@/lib/chat/chat-request";
+import { activePath, pathTo } from "./thread-tree";
+import type { Thread, ThreadExport, ThreadMessage } from "./types";
+
+/**
+ * Thread export formats: GitHub-flavoured Markdown for pasting into docs and
+ * PRs, and a versioned JSON format that import reads back. HTML is rendered in
+ * the browser by components/thread-html-export.tsx with the chat's own
+ * highlighter. Client-safe.
+ */
+
+export const THREAD_EXPORT_FORMAT = "codinspect.thread";
+export const THREAD_EXPORT_VERSION = 1;
+
+/** Largest thread import accepts */
+export const MAX_IMPORT_MESSAGES = 2000;
+
+/**
+ * @param thread - Stored thread
+ * @param leafId - Last message of the branch to export; every branch when undefined
+ * @returns Versioned JSON export
+ */
+export function toThreadExport(thread: Thread, leafId?: string): ThreadExport {
+    const messages = leafId ? pathTo(thread.messages, leafId) : thread.messages;
+    const activeLeafId = leafId ?? thread.activeLeafId;
+
+    return {
+        format: THREAD_EXPORT_FORMAT,
+        version: THREAD_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        title: thread.title,
+        createdAt: thread.createdAt,
+        messages,
+        ...(activeLeafId ? { activeLeafId } : {}),
+    };
+}
+
+/**
+ * Messages a linear export shows
+ * @param thread - Stored thread
+ * @param leafId - Last message of the branch; the shown branch when undefined
+ * @returns Messages from the first to the leaf
+ */
+export function exportedBranch(thread: Thread, leafId?: string): ThreadMessage[] {
+    return leafId ? pathTo(thread.messages, leafId) : activePath(thread);
+}
+
+/**
+ * Wraps text in a code fence longer than any backtick run inside it
+ * @param text - Code or tool output
+ * @param language - Info string
+ * @returns Fenced block
+ */
+export function fence(text: string, language = ""): string {
+    const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+    const marker = "`".repeat(longest + 1);
+    return `${marker}${language}\n${text.replace(/\n$/, "")}\n${marker}`;
+}
+
+function stepsToMarkdown(steps: AgentStep[]): string {
+    const lines = steps.map((step) => {
+        if (step.kind === "plan") return `**Plan**\n\n${step.steps.map((item, i) => `${i + 1}. ${item}`).join("\n")}`;
+        if (step.kind === "tool_call") {
+            return `**Called \`${step.tool}\`**${step.thought ? ` — ${step.thought}` : ""}\n\n${fence(JSON.stringify(step.input, null, 2), "json")}`;
+        }
+        return `**${step.ok ? "Result" : "Error"} from \`${step.tool}\`**\n\n${fence(step.output, "text")}`;
+    });
+    return `<details>\n<summary>Agent steps</summary>\n\n${lines.join("\n\n")}\n\n</details>`;
+}
+
+/**
+ * Renders a branch as GitHub-flavoured Markdown. Replies are already Markdown,
+ * so their code fences carry over unchanged
+ * @param title - Thread title
+ * @param messages - Branch to render, oldest first
+ * @returns Markdown document
+ */
+export function threadToMarkdown(title: string, messages: ThreadMessage[]): string {
+    const sections = messages.map((message) => {
+        const parts = [`## ${message.role === "user" ? "You" : "CodInspect"}`];
+        if (message.attachments?.length) {
+            parts.push(`Attached: ${message.attachments.map((ref) => `\`${ref.name}\` (${ref.fileCount} files)`).join(", ")}`);
+        }
+        if (message.steps?.length) parts.push(stepsToMarkdown(message.steps));
+        if (message.content.trim()) parts.push(message.content.trim());
+        if (message.stopped) parts.push("> _Stopped before the answer was complete._");
+        return parts.join("\n\n");
+    });
+
+    return `# ${title}\n\n${sections.join("\n\n---\n\n")}\n`;
+}
+
+/**
+ * File name for a download, derived from the thread title
+ * @param title - Thread title
+ * @param extension - File extension without the dot
+ * @returns Lowercase, dash-separated name
+ */
+export function exportFileName(title: string, extension: string): string {
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+    return `${slug || "thread"}.${extension}`;
+}
+
+export type ThreadImportValidation =
+    | { isValid: true; value: ThreadExport; error: null }
+    | { isValid: false; value: null; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks one imported Agent step, optional fields included, since the cards render them as they are
+ * @param value - Step from the file
+ * @returns The step with only the fields it may have, or null when it is malformed
+ */
+function parseStep(value: unknown): AgentStep | null {
+    if (!isRecord(value) || typeof value.id !== "string") return null;
+    const { id } = value;
+    if (value.kind === "plan") {
+        return Array.isArray(value.steps) && value.steps.every((item) => typeof item === "string") ? { id, kind: "plan", steps: value.steps } : null;
+    }
+    if (value.kind === "tool_call") {
+        const { tool, input, thought, permission } = value;
+        if (typeof tool !== "string" || !isRecord(input)) return null;
+        if (thought !== undefined && typeof thought !== "string") return null;
+        if (permission !== undefined && !TOOL_PERMISSIONS.includes(permission as ToolPermission)) return null;
+        return {
+            id,
+            kind: "tool_call",
+            tool,
+            input,
+            ...(thought !== undefined ? { thought } : {}),
+            ...(permission !== undefined ? { permission: permission as ToolPermission } : {}),
+        };
+    }
+    if (value.kind === "tool_result") {
+        const { tool, ok, output, durationMs, denied } = value;
+        if (typeof tool !== "string" || typeof ok !== "boolean" || typeof output !== "string") return null;
+        if (durationMs !== undefined && (typeof durationMs !== "number" || !Number.isFinite(durationMs) || durationMs < 0)) return null;
+        if (denied !== undefined && typeof denied !== "boolean") return null;
+        return {
+            id,
+            kind: "tool_result",
+            tool,
+            ok,
+            output,
+            ...(durationMs !== undefined ? { durationMs } : {}),
+            ...(denied !== undefined ? { denied } : {}),
+        };
+    }
+    return null;
+}
+
+/**
+ * Checks an uploaded JSON export before it is restored. Parents must come
+ * before their replies, as every export writes them, so the result is a tree.
+ * Attachment references are dropped: the files stay with the account that uploaded them.
+ * So are patch checks, made against those files; review reports, whose Markdown is the
+ * reply's content; and code runs, which can be run again
+ * @param body - Parsed JSON
+ * @returns The export, or the first problem found
+ */
+export function validateThreadExport(body: unknown): ThreadImportValidation {
+    const fail = (error: string): ThreadImportValidation => ({ isValid: false, value: null, error });
+
+    if (!isRecord(body) || body.format !== THREAD_EXPORT_FORMAT) return fail("This is not a CodInspect thread export");
+    if (typeof body.version !== "number" || body.version < 1) return fail("The export has no valid version");
+    if (body.version > THREAD_EXPORT_VERSION) return fail(`The export is version ${body.version}; this server reads up to version ${THREAD_EXPORT_VERSION}`);
+    if (typeof body.title !== "string") return fail("title must be a string");
+    if (!Array.isArray(body.messages)) return fail("messages must be an array");
+    if (body.messages.length > MAX_IMPORT_MESSAGES) return fail(`A thread can hold at most ${MAX_IMPORT_MESSAGES} messages`);
+
+    const seen = new Set<string>();
+    const messages: ThreadMessage[] = [];
+    for (const [i, item] of body.messages.entries()) {
+        const field = `messages[${i}]`;
+        if (!isRecord(item) || typeof item.id !== "string" || item.id === "" || seen.has(item.id)) return fail(`${field} needs a unique id`);
+        if (!CHAT_ROLES.includes(item.role as ThreadMessage["role"])) return fail(`${field}.role must be one of ${CHAT_ROLES.join(", ")}`);
+        if (typeof item.content !== "string") return fail(`${field}.content must be a string`);
+        if (item.content.length > CHAT_REQUEST_LIMITS.maxHistoryContentLength) {
+            return fail(`${field}.content is limited to ${CHAT_REQUEST_LIMITS.maxHistoryContentLength} characters`);
+        }
+        if (item.parentId !== undefined && item.parentId !== null && (typeof item.parentId !== "string" || !seen.has(item.parentId))) {
+            return fail(`${field}.parentId must name an earlier message`);
+        }
+        const steps = item.steps === undefined ? undefined : Array.isArray(item.steps) ? item.steps.map(parseStep) : [null];
+        if (steps?.includes(null)) return fail(`${field}.steps are malformed`);
+
+        seen.add(item.id);
+        messages.push({
+            id: item.id,
+            ...(item.parentId !== undefined ? { parentId: item.parentId as string | null } : {}),
+            role: item.role as ThreadMessage["role"],
+            content: item.content,
+            createdAt: typeof item.createdAt === "string" ? item.createdAt : new Date().toISOString(),
+            ...(steps ? { steps: steps as AgentStep[] } : {}),
+            ...(item.stopped === true ? { stopped: true } : {}),
+        });
+    }
+
+    const activeLeafId = typeof body.activeLeafId === "string" && seen.has(body.activeLeafId) ? body.activeLeafId : undefined;
+
+    return {
+        isValid: true,
+        error: null,
+        value: {
+            format: THREAD_EXPORT_FORMAT,
+            version: body.version,
+            exportedAt: typeof body.exportedAt === "string" ? body.exportedAt : new Date().toISOString(),
+            title: body.title,
+            createdAt: typeof body.createdAt === "string" ? body.createdAt : new Date().toISOString(),
+            messages,
+            ...(activeLeafId ? { activeLeafId } : {}),
+        },
+    };
+}
@@ -0,0 +1,303 @@
+import { MAX_RUNS_PER_MESSAGE } from "@/lib/sandbox/snippets";
+import type { CodeRun } from "@/lib/sandbox/types";
+import { getCollection, newId } from "@/lib/storage/collection";
+import { activePath, latestLeaf, withParents } from "./thread-tree";
+import type { Thread, ThreadContextSummary, ThreadExport, ThreadMessage, ThreadSummary } from "./types";
+
+const MAX_TITLE_LENGTH = 80;
+
+function threads() {
+    return getCollection<Thread>("threads");
+}
+
+/** Writes in flight, per thread; each read-modify-write runs after the ones already queued */
+const threadLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs a read-modify-write of a thread after the ones already queued, so
+ * concurrent replies, summaries and code runs do not overwrite each other.
+ * Serialized within this process only, like the rest of the file store
+ * @param threadId - Thread id
+ * @param task - Update to run
+ * @returns What the task returns
+ */
+function withThreadLock<T>(threadId: string, task: () => Promise<T>): Promise<T> {
+    const previous = threadLocks.get(threadId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    threadLocks.set(threadId, next);
+    void next.finally(() => {
+        if (threadLocks.get(threadId) === next) threadLocks.delete(threadId);
+    }).catch(() => undefined);
+    return next;
+}
+
+/**
+ * Derives a thread title from its first prompt
+ * @param text - First user message
+ * @returns Single-line title, truncated to MAX_TITLE_LENGTH
+ */
+export function titleFromMessage(text: string): string {
+    const line = text.replace(/\s+/g, " ").trim();
+    if (!line) return "New thread";
+    return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1)}…` : line;
+}
+
+function toSummary(thread: Thread): ThreadSummary {
+    return {
+        id: thread.id,
+        title: thread.title,
+        ...(thread.projectId ? { projectId: thread.projectId } : {}),
+        createdAt: thread.createdAt,
+        updatedAt: thread.updatedAt,
+        messageCount: activePath(thread).length,
+    };
+}
+
+/**
+ * Lists a user's threads, most recently updated first
+ * @param userId - Owner id
+ * @param scope - Restrict to one project's threads; a null projectId selects personal threads
+ * @returns Thread summaries without messages
+ */
+export async function listThreads(userId: string, scope?: { projectId: string | null }): Promise<ThreadSummary[]> {
+    const owned = await threads().list((thread) =>
+        thread.userId === userId && (!scope || (thread.projectId ?? null) === scope.projectId)
+    );
+    return owned
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(toSummary);
+}
+
+/**
+ * Loads every thread a user owns, including messages
+ * @param userId - Owner id
+ * @returns Full threads in no particular order
+ */
+export async function listThreadsWithMessages(userId: string): Promise<Thread[]> {
+    return threads().list((thread) => thread.userId === userId);
+}
+
+/**
+ * Fetches a thread the user owns
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @returns The thread, or null if missing or owned by someone else
+ */
+export async function getThread(userId: string, threadId: string): Promise<Thread | null> {
+    const thread = await threads().get(threadId);
+    return thread && thread.userId === userId ? thread : null;
+}
+
+/**
+ * Creates an empty thread
+ * @param userId - Owner id
+ * @param title - Optional title; defaults to "New thread"
+ * @param projectId - Project the thread belongs to, if any
+ * @returns The created thread
+ */
+export async function createThread(userId: string, title?: string, projectId?: string): Promise<Thread> {
+    const now = new Date().toISOString();
+    return threads().put({
+        id: newId(),
+        userId,
+        ...(projectId ? { projectId } : {}),
+        title: titleFromMessage(title ?? ""),
+        createdAt: now,
+        updatedAt: now,
+        messages: [],
+    });
+}
+
+/**
+ * Restores a thread from a JSON export as a new thread with fresh ids
+ * @param userId - New owner
+ * @param data - Validated export
+ * @param projectId - Project the thread joins, if any
+ * @returns The created thread
+ */
+export async function importThread(userId: string, data: ThreadExport, projectId?: string): Promise<Thread> {
+    const ids = new Map(data.messages.map((message) => [message.id, newId()]));
+    const messages = withParents(data.messages).map((message): ThreadMessage => ({
+        ...message,
+        id: ids.get(message.id)!,
+        parentId: message.parentId ? ids.get(message.parentId) ?? null : null,
+    }));
+    const activeLeafId = data.activeLeafId ? ids.get(data.activeLeafId) : undefined;
+
+    return threads().put({
+        id: newId(),
+        userId,
+        ...(projectId ? { projectId } : {}),
+        title: titleFromMessage(data.title),
+        createdAt: data.createdAt,
+        updatedAt: new Date().toISOString(),
+        messages,
+        ...(activeLeafId ? { activeLeafId } : {}),
+    });
+}
+
+/**
+ * Renames a thread the user owns
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @param title - New title
+ * @returns Updated thread, or null if not found
+ */
+export async function renameThread(userId: string, threadId: string, title: string): Promise<Thread | null> {
+    return withThreadLock(threadId, async () => {
+        const thread = await getThread(userId, threadId);
+        if (!thread) return null;
+
+        return threads().put({
+            ...thread,
+            title: titleFromMessage(title),
+            updatedAt: new Date().toISOString(),
+        });
+    });
+}
+
+/**
+ * Deletes a thread the user owns
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @returns True if a thread was deleted
+ */
+export async function deleteThread(userId: string, threadId: string): Promise<boolean> {
+    return withThreadLock(threadId, async () => {
+        const thread = await getThread(userId, threadId);
+        if (!thread) return false;
+        return threads().delete(threadId);
+    });
+}
+
+/**
+ * Appends messages to a branch of a thread and makes them the shown branch
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @param messages - Messages to append, in order; each follows the one before
+ * @param parentId - Message the first one follows: the end of the shown branch when
+ * undefined, null to start a new branch at the top of the thread
+ * @returns Updated thread, or null if not found
+ */
+export async function appendMessages(
+    userId: string,
+    threadId: string,
+    messages: Pick<ThreadMessage, "role" | "content" | "steps" | "attachments" | "stopped" | "patchCheck" | "review">[],
+    parentId?: string | null
+): Promise<Thread | null> {
+    return withThreadLock(threadId, async () => {
+        const thread = await getThread(userId, threadId);
+        if (!thread) return null;
+
+        const now = new Date().toISOString();
+        const appended: ThreadMessage[] = [];
+        let previousId = parentId !== undefined ? parentId : activePath(thread).at(-1)?.id ?? null;
+        for (const message of messages) {
+            const id = newId();
+            appended.push({
+                id,
+                parentId: previousId,
+                role: message.role,
+                content: message.content,
+                createdAt: now,
+                ...(message.steps?.length ? { steps: message.steps } : {}),
+                ...(message.attachments?.length ? { attachments: message.attachments } : {}),
+                ...(message.stopped ? { stopped: true } : {}),
+                ...(message.patchCheck ? { patchCheck: message.patchCheck } : {}),
+                ...(message.review ? { review: message.review } : {}),
+            });
+            previousId = id;
+        }
+
+        return threads().put({
+            ...thread,
+            messages: [...thread.messages, ...appended],
+            activeLeafId: previousId ?? thread.activeLeafId,
+            updatedAt: now,
+        });
+    });
+}
+
+/**
+ * Shows another branch of a thread, continuing from the message down its newest replies
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @param messageId - Message on the branch to show
+ * @returns Updated thread, or null if the thread or message was not found
+ */
+export async function selectBranch(userId: string, threadId: string, messageId: string): Promise<Thread | null> {
+    return withThreadLock(threadId, async () => {
+        const thread = await getThread(userId, threadId);
+        if (!thread || !thread.messages.some((message) => message.id === messageId)) return null;
+
+        return threads().put({ ...thread, activeLeafId: latestLeaf(thread.messages, messageId) });
+    });
+}
+
+/**
+ * Stores the rolling summary of a thread's earliest messages
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @param summary - Summary text, how many messages it covers and the last of them
+ * @returns Updated thread, or null if not found
+ */
+export async function saveContextSummary(
+    userId: string,
+    threadId: string,
+    summary: Pick<ThreadContextSummary, "text" | "messageCount" | "lastMessageId">
+): Promise<Thread | null> {
+    return withThreadLock(threadId, async () => {
+        const thread = await getThread(userId, threadId);
+        if (!thread) return null;
+
+        return threads().put({
+            ...thread,
+            contextSummary: {
+                text: summary.text,
+                messageCount: summary.messageCount,
+                ...(summary.lastMessageId ? { lastMessageId: summary.lastMessageId } : {}),
+                createdAt: new Date().toISOString(),
+            },
+        });
+    });
+}
+
+/**
+ * Stores a run of one of a reply's code blocks, keeping the most recent
+ * MAX_RUNS_PER_MESSAGE
+ * @param userId - Owner id
+ * @param threadId - Thread id
+ * @param messageId - Reply whose code was run
+ * @param run - Finished run
+ * @returns Updated thread, or null if the thread or message was not found
+ */
+export async function recordCodeRun(userId: string, threadId: string, messageId: string, run: CodeRun): Promise<Thread | null> {
+    return withThreadLock(threadId, async () => {
+        const thread = await getThread(userId, threadId);
+        if (!thread || !thread.messages.some((message) => message.id === messageId)) return null;
+
+        return threads().put({
+            ...thread,
+            messages: thread.messages.map((message) => message.id === messageId
+                ? { ...message, runs: [...(message.runs ?? []), run].slice(-MAX_RUNS_PER_MESSAGE) }
+                : message),
+        });
+    });
+}
+
+/**
+ * Moves a project's threads back to the user's personal workspace
+ * @param userId - Owner id
+ * @param projectId - Project being removed
+ * @returns Number of threads moved
+ */
+export async function detachThreads(userId: string, projectId: string): Promise<number> {
+    const owned = await threads().list((thread) => thread.userId === userId && thread.projectId === projectId);
+    for (const { id } of owned) {
+        await withThreadLock(id, async () => {
+            const thread = await threads().get(id);
+            if (thread) await threads().put({ ...thread, projectId: undefined });
+        });
+    }
+    return owned.length;
+}
@@ -0,0 +1,80 @@
+import type { Thread, ThreadMessage } from "./types";
+
+/**
+ * Threads are trees. Editing a prompt or regenerating a reply adds a sibling
+ * instead of overwriting history: every message points at its parent and the
+ * thread remembers which leaf is shown. Client-safe, so ChatInterface walks
+ * the same tree the server stores.
+ */
+
+type TreeMessage = Pick<ThreadMessage, "id" | "parentId">;
+
+/**
+ * Fills in parents for messages stored before threads could branch, which
+ * simply follow the message before them
+ * @param messages - Thread messages in the order they were stored
+ * @returns The same messages, each with a parentId (null for roots)
+ */
+export function withParents<T extends TreeMessage>(messages: T[]): (T & { parentId: string | null })[] {
+    return messages.map((message, i) => ({
+        ...message,
+        parentId: message.parentId !== undefined ? message.parentId : messages[i - 1]?.id ?? null,
+    }));
+}
+
+/**
+ * Groups messages under their parent, oldest first
+ * @param messages - Thread messages
+ * @returns Children per parent id; roots are under null
+ */
+export function childrenByParent<T extends TreeMessage>(messages: T[]): Map<string | null, (T & { parentId: string | null })[]> {
+    const children = new Map<string | null, (T & { parentId: string | null })[]>();
+    for (const message of withParents(messages)) {
+        const siblings = children.get(message.parentId) ?? [];
+        siblings.push(message);
+        children.set(message.parentId, siblings);
+    }
+    return children;
+}
+
+/**
+ * @param messages - Thread messages
+ * @param messageId - Message to reach
+ * @returns Messages from the root down to messageId, or [] when it does not exist
+ */
+export function pathTo<T extends TreeMessage>(messages: T[], messageId: string): (T & { parentId: string | null })[] {
+    const byId = new Map(withParents(messages).map((message) => [message.id, message]));
+    const path: (T & { parentId: string | null })[] = [];
+
+    let current = byId.get(messageId);
+    while (current && !path.includes(current)) {
+        path.unshift(current);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+}
+
+/**
+ * Follows the newest child from a message down to a leaf, which is where a
+ * branch picks up when the user switches to it
+ * @param messages - Thread messages
+ * @param messageId - Message to start from
+ * @returns Id of the leaf
+ */
+export function latestLeaf<T extends TreeMessage>(messages: T[], messageId: string): string {
+    const children = childrenByParent(messages);
+    let leaf = messageId;
+    for (let next = children.get(leaf); next?.length; next = children.get(leaf)) {
+        leaf = next[next.length - 1].id;
+    }
+    return leaf;
+}
+
+/**
+ * @param thread - Thread with its messages
+ * @returns The branch currently shown, from the first message to the active leaf
+ */
+export function activePath(thread: Pick<Thread, "messages" | "activeLeafId">): ThreadMessage[] {
+    const leafId = thread.activeLeafId ?? thread.messages[thread.messages.length - 1]?.id;
+    return leafId ? pathTo(thread.messages, leafId) : [];
+}
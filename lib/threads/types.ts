@@ -0,0 +1,71 @@
+import type { AgentStep } from "@/lib/agent/types";
+import type { AttachmentRef } from "@/lib/attachments/types";
+import type { PatchCheck } from "@/lib/diff/types";
+import type { ReviewReport } from "@/lib/review/types";
+import type { CodeRun } from "@/lib/sandbox/types";
+import type { ChatRole } from "@/lib/llm/types";
+
+export interface ThreadMessage {
+    id: string;
+    /** Message this one follows; null for the first message of a branch. Unset on messages stored before threads could branch */
+    parentId?: string | null;
+    role: ChatRole;
+    content: string;
+    createdAt: string;
+    /** Agent mode steps that led to this reply */
+    steps?: AgentStep[];
+    /** Files the user attached to this prompt */
+    attachments?: AttachmentRef[];
+    /** The user stopped the reply before it finished; content is what was generated until then */
+    stopped?: boolean;
+    /** Diff-mode replies: what validating their patches found */
+    patchCheck?: PatchCheck;
+    /** Review-mode replies: the structured review; content holds it as Markdown */
+    review?: ReviewReport;
+    /** Sandboxed runs of the reply's code blocks, oldest first */
+    runs?: CodeRun[];
+}
+
+/** Rolling summary that stands in for a thread's earliest messages */
+export interface ThreadContextSummary {
+    text: string;
+    /** How many of the thread's first messages it replaces */
+    messageCount: number;
+    /** Last message it covers; branches that do not pass through it cannot use it */
+    lastMessageId?: string;
+    createdAt: string;
+}
+
+export interface Thread {
+    id: string;
+    userId: string;
+    /** Project the thread belongs to; personal threads have none */
+    projectId?: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    /** Every message of every branch, in the order they were stored */
+    messages: ThreadMessage[];
+    /** Last message of the branch that is shown; the newest message when unset */
+    activeLeafId?: string;
+    /** Set once older messages no longer fit the model's context window */
+    contextSummary?: ThreadContextSummary;
+}
+
+/** Thread without its messages, as listed in the sidebar */
+export type ThreadSummary = Omit<Thread, "messages" | "userId"> & {
+    messageCount: number;
+};
+
+/** Portable copy of a thread, written by JSON export and read back by import */
+export interface ThreadExport {
+    format: "codinspect.thread";
+    /** Bumped on incompatible changes; import accepts this version and older */
+    version: number;
+    exportedAt: string;
+    title: string;
+    createdAt: string;
+    /** Every branch, or only the exported one */
+    messages: ThreadMessage[];
+    activeLeafId?: string;
+}
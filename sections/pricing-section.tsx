@@ -1,6 +1,7 @@
 "use client"
 
 import SectionTitle from "@/components/section-title";
+import { PLANS, YEARLY_DISCOUNT, planFeatureList, planPrice } from "@/lib/plans/plans";
 import { CircleCheckIcon, CircleDollarSignIcon } from "lucide-react";
 import { useState } from "react";
 
@@ -33,7 +34,7 @@ export default function PricingSection() {
                         className={`relative z-10 flex-1 py-2.5 cursor-pointer rounded-full text-sm font-medium text-center flex items-center justify-center gap-1 transition-colors duration-300
                         ${isYearly ? 'text-green-500' : 'text-gray-500 hover:text-gray-900'}`}>
                         Yearly
-                        <span className='text-xs'>15% off</span>
+                        <span className='text-xs'>{Math.round(YEARLY_DISCOUNT * 100)}% off</span>
                     </button>
 
                 </div>
@@ -42,47 +43,7 @@ export default function PricingSection() {
                 {/* Pricing Cards */}
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-5xl w-full items-end">
 
-                    {[
-                        {
-                            name: "Developer",
-                            pricing: 0,
-                            features: [
-                                "5 Background sessions/mo",
-                                "Web Dashboard access",
-                                "GitHub Integration",
-                                "Basic Code Generation",
-                                "Community support",
-                                "Manual Branching"
-                            ]
-                        },
-                        {
-                            name: "Professional",
-                            pricing: 29,
-                            mostPopular: true,
-                            features: [
-                                "Unlimited sessions",
-                                "Slack AI Engineer access",
-                                "Chrome Extension",
-                                "Shared Context Memory",
-                                "Autonomous Multi-tasking",
-                                "Priority Email Support",
-                                "Advanced Git workflows"
-                            ]
-                        },
-                        {
-                            name: "Enterprise",
-                            pricing: 99,
-                            features: [
-                                "Custom Public API access",
-                                "Dedicated Modal Sandboxes",
-                                "Single-tenant Architecture",
-                                "Enterprise-grade Security",
-                                "24/7 Priority Support",
-                                "Custom Integrations",
-                                "SLA & Audit Trails"
-                            ]
-                        }
-                    ].map((plan: any, index: number) => (
+                    {PLANS.map((plan, index) => (
                         <div key={index} className={plan.mostPopular ? 'bg-linear-to-r from-green-500 to-green-300 rounded-3xl p-2 hover:shadow-lg transition-shadow' : ''}>
                             {plan.mostPopular && <p className='text-center text-green-700 text-sm py-1.5'>Popular</p>}
                             <div key={index} className={`rounded-3xl p-6 bg-white ${!plan.mostPopular ? 'border border-neutral-200 hover:shadow-lg transition-shadow' : ''}`}>
@@ -91,12 +52,12 @@ export default function PricingSection() {
                                 </h3>
                                 <div className="flex items-baseline gap-1 mb-8">
                                     <span className="text-[28px] text-neutral-900">
-                                        {isYearly ? `$${plan.pricing - Math.round(plan.pricing * 0.15)}` : `$${plan.pricing}`}
+                                        ${planPrice(plan, isYearly ? "yearly" : "monthly")}
                                     </span>
                                     <span className="text-neutral-600 text-xs">/ month</span>
                                 </div>
                                 <ul className="space-y-4 mb-8">
-                                    {plan.features.map((feature: string, i: number) => (
+                                    {planFeatureList(plan).map((feature, i) => (
                                         <li key={i} className="flex items-center gap-3 text-sm text-zinc-500">
                                             <CircleCheckIcon size={20} />
                                             {feature}